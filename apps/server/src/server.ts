@@ -16,14 +16,16 @@ import dashboardManifest from "@ccflare/dashboard-web/dist/manifest.json";
 import type { DatabaseOperations } from "@ccflare/database";
 import { AsyncDbWriter, DatabaseFactory } from "@ccflare/database";
 import { APIRouter } from "@ccflare/http-api";
-import { SessionStrategy } from "@ccflare/load-balancer";
+import { createStrategy } from "@ccflare/load-balancer";
 import { Logger } from "@ccflare/logger";
 import { getProvider } from "@ccflare/providers";
 import {
+	getRequestQueue,
 	getUsageWorker,
 	handleProxy,
 	type ProxyContext,
 	terminateUsageWorker,
+	tracer,
 } from "@ccflare/proxy";
 import { serve } from "bun";
 
@@ -154,7 +156,7 @@ export default function startServer(options?: {
 	container.registerInstance(SERVICE_KEYS.PricingLogger, pricingLogger);
 	setPricingLogger(pricingLogger);
 
-	const apiRouter = new APIRouter({ db, config, dbOps });
+	const apiRouter = new APIRouter({ db, config, dbOps, asyncWriter });
 
 	// Run startup maintenance once (cleanup + compact)
 	stopRetentionJob = runStartupMaintenance(config, dbOps);
@@ -173,21 +175,26 @@ export default function startServer(options?: {
 			"client_id",
 			"9d1c250a-e61b-44d9-88ed-5944d1962f5e",
 		) as string,
-		retry: {
-			attempts: config.get("retry_attempts", 3) as number,
-			delayMs: config.get("retry_delay_ms", 1000) as number,
-			backoff: config.get("retry_backoff", 2) as number,
-		},
+		retry: runtime.retry,
 		sessionDurationMs: config.get(
 			"session_duration_ms",
 			TIME_CONSTANTS.SESSION_DURATION_DEFAULT,
 		) as number,
 		port,
+		queue: runtime.queue,
+		preferOAuthAccounts: runtime.preferOAuthAccounts,
+		tracing: runtime.tracing,
 	};
 
 	// Now create the strategy with runtime config
-	const strategy = new SessionStrategy(runtimeConfig.sessionDurationMs);
-	strategy.initialize(dbOps);
+	const strategy = createStrategy(config.getStrategy(), {
+		sessionDurationMs: runtimeConfig.sessionDurationMs,
+		store: dbOps,
+	});
+
+	getRequestQueue().configure(runtimeConfig.queue);
+	tracer.configure(runtimeConfig.tracing);
+	registerDisposable(tracer);
 
 	// Proxy context
 	const proxyContext: ProxyContext = {
@@ -201,16 +208,14 @@ export default function startServer(options?: {
 	};
 
 	// Hot reload strategy configuration
-	config.on("change", (changeType, fieldName) => {
-		if (fieldName === "strategy") {
-			log.info(`Strategy configuration changed: ${changeType}`);
+	config.on("change", ({ key }: { key: string }) => {
+		if (key === "lb_strategy") {
 			const newStrategyName = config.getStrategy();
-			// For now, only SessionStrategy is supported
-			if (newStrategyName === "session") {
-				const strategy = new SessionStrategy(runtimeConfig.sessionDurationMs);
-				strategy.initialize(dbOps);
-				proxyContext.strategy = strategy;
-			}
+			log.info(`Strategy configuration changed: ${newStrategyName}`);
+			proxyContext.strategy = createStrategy(newStrategyName, {
+				sessionDurationMs: runtimeConfig.sessionDurationMs,
+				store: dbOps,
+			});
 		}
 	});
 
@@ -269,6 +274,7 @@ Available endpoints:
 - POST   http://localhost:${serverInstance.port}/api/stats/reset → Reset statistics
 - GET    http://localhost:${serverInstance.port}/api/config      → View configuration
 - PATCH  http://localhost:${serverInstance.port}/api/config      → Update configuration
+- GET    http://localhost:${serverInstance.port}/metrics         → Prometheus metrics
 
 ⚡ Ready to proxy requests...
 `);
@@ -291,6 +297,11 @@ Available endpoints:
 			"No active accounts available - requests will be forwarded without authentication",
 		);
 	}
+	if (!config.getAdminToken() && !dbOps.hasDashboardUsers()) {
+		log.warn(
+			"Dashboard and management API are unauthenticated - create a user with --add-user or set ccflare_ADMIN_TOKEN",
+		);
+	}
 
 	return {
 		port: serverInstance.port,
@@ -1,5 +1,5 @@
 import * as tuiCore from "@ccflare/tui-core";
-import type { AccountDisplay } from "@ccflare/types";
+import type { AccountListItem } from "@ccflare/types";
 import { AccountPresenter } from "@ccflare/ui-common";
 import { Box, Text, useInput } from "ink";
 import SelectInput from "ink-select-input";
@@ -14,13 +14,15 @@ type Mode = "list" | "add" | "remove" | "confirmRemove" | "waitingForCode";
 
 export function AccountsScreen({ onBack }: AccountsScreenProps) {
 	const [mode, setMode] = useState<Mode>("list");
-	const [accounts, setAccounts] = useState<AccountDisplay[]>([]);
+	const [accounts, setAccounts] = useState<AccountListItem[]>([]);
 	const [newAccountName, setNewAccountName] = useState("");
 	const [selectedMode, setSelectedMode] = useState<"max" | "console">("max");
 	const [selectedTier, setSelectedTier] = useState<1 | 5 | 20>(1);
-	const [step, setStep] = useState<"name" | "mode" | "tier" | "confirm">(
-		"name",
-	);
+	const [step, setStep] = useState<
+		"name" | "mode" | "tier" | "apiKey" | "confirm"
+	>("name");
+	const [apiKey, setApiKey] = useState("");
+	const [isVerifying, setIsVerifying] = useState(false);
 	const [authCode, setAuthCode] = useState("");
 	const [oauthFlowData, setOauthFlowData] =
 		useState<tuiCore.OAuthFlowResult | null>(null);
@@ -39,6 +41,7 @@ export function AccountsScreen({ onBack }: AccountsScreenProps) {
 				setNewAccountName("");
 				setStep("name");
 				setAuthCode("");
+				setApiKey("");
 				setOauthFlowData(null);
 				setError(null);
 			} else {
@@ -100,6 +103,25 @@ export function AccountsScreen({ onBack }: AccountsScreenProps) {
 		}
 	};
 
+	const handleAddApiKeyAccount = async () => {
+		setIsVerifying(true);
+		try {
+			await tuiCore.addApiKeyAccount(newAccountName, apiKey);
+			await loadAccounts();
+			setMode("list");
+			setNewAccountName("");
+			setStep("name");
+			setApiKey("");
+			setError(null);
+		} catch (error) {
+			setError(
+				error instanceof Error ? error.message : "Failed to add account",
+			);
+		} finally {
+			setIsVerifying(false);
+		}
+	};
+
 	const handleRemoveAccount = (name: string) => {
 		setAccountToRemove(name);
 		setConfirmInput("");
@@ -149,8 +171,13 @@ export function AccountsScreen({ onBack }: AccountsScreenProps) {
 							items={[
 								{ label: "Max (recommended)", value: "max" },
 								{ label: "Console", value: "console" },
+								{ label: "Existing API key", value: "api_key" },
 							]}
 							onSelect={(item) => {
+								if (item.value === "api_key") {
+									setStep("apiKey");
+									return;
+								}
 								setSelectedMode(item.value as "max" | "console");
 								setStep("tier");
 							}}
@@ -175,6 +202,21 @@ export function AccountsScreen({ onBack }: AccountsScreenProps) {
 					</Box>
 				)}
 
+				{step === "apiKey" && (
+					<Box flexDirection="column" marginTop={1}>
+						<Text>Anthropic API key (sk-ant-...):</Text>
+						<TextInput
+							value={apiKey}
+							onChange={setApiKey}
+							mask="*"
+							onSubmit={() => {
+								if (apiKey && !isVerifying) handleAddApiKeyAccount();
+							}}
+						/>
+						{isVerifying && <Text dimColor>Verifying API key...</Text>}
+					</Box>
+				)}
+
 				{error && (
 					<Box marginTop={1}>
 						<Text color="red">{error}</Text>
@@ -262,11 +304,19 @@ export function AccountsScreen({ onBack }: AccountsScreenProps) {
 		);
 	}
 
+	// OAuth accounts first, then the API-key accounts they spill over to
+	const orderedAccounts = [
+		...accounts.filter((acc) => acc.authType === "oauth"),
+		...accounts.filter((acc) => acc.authType === "api_key"),
+	];
 	const menuItems = [
-		...accounts.map((acc) => {
+		...orderedAccounts.map((acc) => {
 			const presenter = new AccountPresenter(acc);
 			return {
-				label: `${acc.name} (${presenter.tierDisplay})`,
+				label:
+					acc.authType === "api_key"
+						? `${acc.name} (API key, ${presenter.tierDisplay})`
+						: `${acc.name} (${presenter.tierDisplay})`,
 				value: `account:${acc.name}`,
 			};
 		}),
@@ -1,6 +1,7 @@
 import * as tuiCore from "@ccflare/tui-core";
 import { formatCost, formatTokens } from "@ccflare/ui-common";
 import { Box, Text, useInput } from "ink";
+import TextInput from "ink-text-input";
 import { useCallback, useEffect, useState } from "react";
 import { TokenUsageDisplay } from "./TokenUsageDisplay";
 
@@ -8,18 +9,73 @@ interface RequestsScreenProps {
 	onBack: () => void;
 }
 
+const PAGE_SIZE = 10;
+
 export function RequestsScreen({ onBack }: RequestsScreenProps) {
-	const [requests, setRequests] = useState<tuiCore.RequestPayload[]>([]);
-	const [summaries, setSummaries] = useState<
-		Map<string, tuiCore.RequestSummary>
-	>(new Map());
+	const [requests, setRequests] = useState<tuiCore.RequestSummary[]>([]);
 	const [loading, setLoading] = useState(true);
 	const [selectedIndex, setSelectedIndex] = useState(0);
 	const [viewDetails, setViewDetails] = useState(false);
-	const [page, setPage] = useState(0);
-	const pageSize = 10;
+	// undefined while loading, null when the payload is no longer stored
+	const [payload, setPayload] = useState<
+		tuiCore.RequestPayload | null | undefined
+	>(undefined);
+	// Cursor of each visited page; the first page has none
+	const [cursors, setCursors] = useState<Array<string | null>>([null]);
+	const [nextCursor, setNextCursor] = useState<string | null>(null);
+	const [filters, setFilters] = useState<tuiCore.RequestFilters>({});
+	const [filterQuery, setFilterQuery] = useState("");
+	const [editingFilter, setEditingFilter] = useState(false);
+	const [filterInput, setFilterInput] = useState("");
+	const [filterError, setFilterError] = useState<string | null>(null);
+	const page = cursors.length - 1;
+
+	const loadRequests = useCallback(async () => {
+		try {
+			const result = await tuiCore.getRequestPage(
+				filters,
+				cursors[cursors.length - 1],
+				PAGE_SIZE,
+			);
+			setRequests(result.requests);
+			setNextCursor(result.nextCursor);
+			setSelectedIndex((prev) =>
+				Math.min(prev, Math.max(0, result.requests.length - 1)),
+			);
+			setLoading(false);
+		} catch (_error) {
+			setLoading(false);
+		}
+	}, [filters, cursors]);
+
+	const openDetails = async (id: string) => {
+		setPayload(undefined);
+		setViewDetails(true);
+		setPayload(await tuiCore.getRequestPayload(id));
+	};
+
+	const applyFilter = () => {
+		try {
+			setFilters(tuiCore.parseRequestFilterQuery(filterInput));
+			setFilterQuery(filterInput.trim());
+			setCursors([null]);
+			setSelectedIndex(0);
+			setFilterError(null);
+			setEditingFilter(false);
+		} catch (error) {
+			setFilterError((error as Error).message);
+		}
+	};
 
 	useInput((input, key) => {
+		if (editingFilter) {
+			if (key.escape) {
+				setEditingFilter(false);
+				setFilterError(null);
+			}
+			return;
+		}
+
 		if (key.escape || input === "q") {
 			if (viewDetails) {
 				setViewDetails(false);
@@ -33,51 +89,44 @@ export function RequestsScreen({ onBack }: RequestsScreenProps) {
 				setSelectedIndex((prev) => Math.max(0, prev - 1));
 			}
 			if (key.downArrow) {
-				setSelectedIndex((prev) =>
-					Math.min(
-						Math.min(requests.length - 1, page * pageSize + pageSize - 1),
-						prev + 1,
-					),
-				);
+				setSelectedIndex((prev) => Math.min(requests.length - 1, prev + 1));
 			}
 			if (key.leftArrow && page > 0) {
-				setPage(page - 1);
-				setSelectedIndex(page * pageSize - pageSize);
+				setCursors((prev) => prev.slice(0, -1));
+				setSelectedIndex(0);
 			}
-			if (key.rightArrow && (page + 1) * pageSize < requests.length) {
-				setPage(page + 1);
-				setSelectedIndex(page * pageSize + pageSize);
+			if (key.rightArrow && nextCursor) {
+				setCursors((prev) => [...prev, nextCursor]);
+				setSelectedIndex(0);
 			}
 			if (key.return || input === " ") {
-				if (requests.length > 0) {
-					setViewDetails(true);
+				if (requests[selectedIndex]) {
+					openDetails(requests[selectedIndex].id);
 				}
 			}
+			if (input === "/") {
+				setFilterInput(filterQuery);
+				setEditingFilter(true);
+			}
+			if (input === "c" && filterQuery) {
+				setFilters({});
+				setFilterQuery("");
+				setCursors([null]);
+				setSelectedIndex(0);
+			}
 			if (input === "r") {
 				loadRequests();
 			}
 		}
 	});
 
-	const loadRequests = useCallback(async () => {
-		try {
-			const [requestData, summaryData] = await Promise.all([
-				tuiCore.getRequests(100),
-				tuiCore.getRequestSummaries(100),
-			]);
-			setRequests(requestData);
-			setSummaries(summaryData);
-			setLoading(false);
-		} catch (_error) {
-			setLoading(false);
-		}
-	}, []);
-
 	useEffect(() => {
 		loadRequests();
+		// Only the first page changes as new requests arrive
+		if (page > 0) return;
 		const interval = setInterval(loadRequests, 10000); // Auto-refresh every 10 seconds
 		return () => clearInterval(interval);
-	}, [loadRequests]);
+	}, [loadRequests, page]);
 
 	// For TUI, we want to show just time not full timestamp for space reasons
 	const formatTime = (ts: number): string => {
@@ -117,12 +166,16 @@ export function RequestsScreen({ onBack }: RequestsScreenProps) {
 		);
 	}
 
-	const selectedRequest = requests[selectedIndex];
-	const selectedSummary = selectedRequest
-		? summaries.get(selectedRequest.id)
-		: undefined;
+	const statusColor = (status: number) =>
+		status >= 200 && status < 300
+			? "green"
+			: status >= 400 && status < 500
+				? "yellow"
+				: "red";
+
+	const selectedSummary = requests[selectedIndex];
 
-	if (viewDetails && selectedRequest) {
+	if (viewDetails && selectedSummary) {
 		return (
 			<Box flexDirection="column" padding={1}>
 				<Box marginBottom={1}>
@@ -132,102 +185,117 @@ export function RequestsScreen({ onBack }: RequestsScreenProps) {
 				</Box>
 
 				<Box flexDirection="column">
-					<Text bold>ID: {selectedRequest.id}</Text>
-					<Text bold>Time: {formatTime(selectedRequest.meta.timestamp)}</Text>
+					<Text bold>ID: {selectedSummary.id}</Text>
+					<Text bold>
+						Time: {new Date(selectedSummary.timestamp).toLocaleString()}
+					</Text>
+					<Text>
+						{selectedSummary.method} {selectedSummary.path}
+					</Text>
 
-					{selectedRequest.meta.accountName && (
-						<Text>Account: {selectedRequest.meta.accountName}</Text>
+					{selectedSummary.accountName && (
+						<Text>Account: {selectedSummary.accountName}</Text>
 					)}
 
-					{selectedSummary?.model && (
+					{selectedSummary.model && (
 						<Text>
 							Model: <Text color="green">{selectedSummary.model}</Text>
 						</Text>
 					)}
 
-					{selectedSummary?.responseTimeMs && (
+					{selectedSummary.agentUsed && (
+						<Text>Agent: {selectedSummary.agentUsed}</Text>
+					)}
+
+					{selectedSummary.responseTimeMs && (
 						<Text>
 							Response Time:{" "}
 							<Text color="yellow">{selectedSummary.responseTimeMs}ms</Text>
 						</Text>
 					)}
 
-					{selectedRequest.meta.retry !== undefined &&
-						selectedRequest.meta.retry > 0 && (
-							<Text color="yellow">Retry: {selectedRequest.meta.retry}</Text>
-						)}
+					{payload?.meta.retry !== undefined && payload.meta.retry > 0 && (
+						<Text color="yellow">Retry: {payload.meta.retry}</Text>
+					)}
 
-					{selectedRequest.meta.rateLimited && (
+					{payload?.meta.rateLimited && (
 						<Text color="orange">Rate Limited</Text>
 					)}
 
-					{selectedRequest.error && (
-						<Text color="red">Error: {selectedRequest.error}</Text>
+					{(payload?.error || selectedSummary.errorMessage) && (
+						<Text color="red">
+							Error: {payload?.error || selectedSummary.errorMessage}
+						</Text>
 					)}
 
 					{/* Token Usage Section */}
-					{selectedSummary &&
-						(selectedSummary.inputTokens || selectedSummary.outputTokens) && (
-							<Box marginTop={1}>
-								<TokenUsageDisplay summary={selectedSummary} />
-							</Box>
-						)}
+					{(selectedSummary.inputTokens || selectedSummary.outputTokens) && (
+						<Box marginTop={1}>
+							<TokenUsageDisplay summary={selectedSummary} />
+						</Box>
+					)}
 
-					<Box marginTop={1}>
-						<Text bold>Request Headers:</Text>
-						<Box marginLeft={2} flexDirection="column">
+					{payload === undefined && (
+						<Box marginTop={1}>
+							<Text dimColor>Loading payload...</Text>
+						</Box>
+					)}
+
+					{payload === null && (
+						<Box marginTop={1}>
 							<Text dimColor>
-								{formatJson(JSON.stringify(selectedRequest.request.headers))}
+								Headers and bodies are no longer stored for this request
 							</Text>
 						</Box>
-					</Box>
+					)}
+
+					{payload && (
+						<Box marginTop={1}>
+							<Text bold>Request Headers:</Text>
+							<Box marginLeft={2} flexDirection="column">
+								<Text dimColor>
+									{formatJson(JSON.stringify(payload.request.headers))}
+								</Text>
+							</Box>
+						</Box>
+					)}
 
-					{selectedRequest.request.body && (
+					{payload?.request.body && (
 						<Box marginTop={1}>
 							<Text bold>Request Body:</Text>
 							<Box marginLeft={2}>
 								<Text dimColor>
-									{formatJson(
-										decodeBase64(selectedRequest.request.body),
-									).substring(0, 500)}
-									{decodeBase64(selectedRequest.request.body).length > 500 &&
-										"..."}
+									{formatJson(decodeBase64(payload.request.body)).substring(
+										0,
+										500,
+									)}
+									{decodeBase64(payload.request.body).length > 500 && "..."}
 								</Text>
 							</Box>
 						</Box>
 					)}
 
-					{selectedRequest.response && (
+					{payload?.response && (
 						<>
 							<Box marginTop={1}>
 								<Text bold>
 									Response Status:{" "}
-									<Text
-										color={
-											selectedRequest.response.status >= 200 &&
-											selectedRequest.response.status < 300
-												? "green"
-												: selectedRequest.response.status >= 400 &&
-														selectedRequest.response.status < 500
-													? "yellow"
-													: "red"
-										}
-									>
-										{selectedRequest.response.status}
+									<Text color={statusColor(payload.response.status)}>
+										{payload.response.status}
 									</Text>
 								</Text>
 							</Box>
 
-							{selectedRequest.response.body && (
+							{payload.response.body && (
 								<Box marginTop={1}>
 									<Text bold>Response Body:</Text>
 									<Box marginLeft={2}>
 										<Text dimColor>
 											{formatJson(
-												decodeBase64(selectedRequest.response.body),
+												decodeBase64(payload.response.body),
 											).substring(0, 500)}
-											{decodeBase64(selectedRequest.response.body).length >
-												500 && "..."}
+											{decodeBase64(payload.response.body).length > 500 &&
+												"..."}
 										</Text>
 									</Box>
 								</Box>
@@ -243,12 +311,6 @@ export function RequestsScreen({ onBack }: RequestsScreenProps) {
 		);
 	}
 
-	// Paginated view
-	const startIdx = page * pageSize;
-	const endIdx = Math.min(startIdx + pageSize, requests.length);
-	const pageRequests = requests.slice(startIdx, endIdx);
-	const totalPages = Math.ceil(requests.length / pageSize);
-
 	return (
 		<Box flexDirection="column" padding={1}>
 			<Box marginBottom={1}>
@@ -260,16 +322,40 @@ export function RequestsScreen({ onBack }: RequestsScreenProps) {
 				</Text>
 			</Box>
 
+			{editingFilter ? (
+				<Box flexDirection="column" marginBottom={1}>
+					<Box>
+						<Text>Filter: </Text>
+						<TextInput
+							value={filterInput}
+							onChange={setFilterInput}
+							onSubmit={applyFilter}
+						/>
+					</Box>
+					<Text dimColor>
+						e.g. account:main status:429,5xx model:sonnet since:7d cost:0.5
+						tokens:10000 path:/v1/messages agent:reviewer from:2025-01-01
+					</Text>
+					{filterError && <Text color="red">{filterError}</Text>}
+				</Box>
+			) : (
+				filterQuery && (
+					<Box marginBottom={1}>
+						<Text>
+							Filter: <Text color="yellow">{filterQuery}</Text>
+						</Text>
+					</Box>
+				)
+			)}
+
 			{requests.length === 0 ? (
-				<Text dimColor>No requests found</Text>
+				<Text dimColor>
+					{filterQuery ? "No requests match the filter" : "No requests found"}
+				</Text>
 			) : (
 				<Box flexDirection="column">
-					{pageRequests.map((req, idx) => {
-						const index = startIdx + idx;
+					{requests.map((req, index) => {
 						const isSelected = index === selectedIndex;
-						const isError = req.error || !req.meta.success;
-						const statusCode = req.response?.status;
-						const summary = summaries.get(req.id);
 
 						return (
 							<Box key={req.id}>
@@ -278,54 +364,42 @@ export function RequestsScreen({ onBack }: RequestsScreenProps) {
 									inverse={isSelected}
 								>
 									{isSelected ? "▶ " : "  "}
-									{formatTime(req.meta.timestamp)} -{" "}
-									{statusCode ? (
-										<Text
-											color={
-												statusCode >= 200 && statusCode < 300
-													? "green"
-													: statusCode >= 400 && statusCode < 500
-														? "yellow"
-														: "red"
-											}
-										>
-											{statusCode}
+									{page > 0 || filterQuery
+										? new Date(req.timestamp).toLocaleString()
+										: formatTime(req.timestamp)}{" "}
+									-{" "}
+									{req.statusCode ? (
+										<Text color={statusColor(req.statusCode)}>
+											{req.statusCode}
 										</Text>
 									) : (
 										<Text color="red">ERROR</Text>
 									)}
 									{" - "}
-									{req.meta.accountName ||
-										req.meta.accountId?.slice(0, 8) ||
-										"No Account"}
-									{summary?.model && (
+									{req.accountName?.slice(0, 20) || "No Account"}
+									{req.model && (
 										<>
 											{" - "}
-											<Text color="magenta">
-												{summary.model.split("-").pop()}
-											</Text>
+											<Text color="magenta">{req.model.split("-").pop()}</Text>
 										</>
 									)}
-									{summary?.totalTokens && (
+									{req.totalTokens && (
 										<>
 											{" - "}
 											<Text dimColor>
-												{formatTokens(summary.totalTokens)} tokens
+												{formatTokens(req.totalTokens)} tokens
 											</Text>
 										</>
 									)}
-									{summary?.costUsd && summary.costUsd > 0 && (
+									{req.costUsd && req.costUsd > 0 && (
 										<>
 											{" - "}
-											<Text color="green">{formatCost(summary.costUsd)}</Text>
+											<Text color="green">{formatCost(req.costUsd)}</Text>
 										</>
 									)}
-									{req.meta.rateLimited && (
-										<Text color="orange"> [RATE LIMITED]</Text>
-									)}
-									{isError &&
-										req.error &&
-										` - ${req.error.substring(0, 20)}...`}
+									{!req.success &&
+										req.errorMessage &&
+										` - ${req.errorMessage.substring(0, 20)}...`}
 								</Text>
 							</Box>
 						);
@@ -333,14 +407,18 @@ export function RequestsScreen({ onBack }: RequestsScreenProps) {
 
 					<Box marginTop={1}>
 						<Text dimColor>
-							Page {page + 1}/{totalPages} • {requests.length} total requests
+							Page {page + 1}
+							{nextCursor ? " • → for older requests" : " • oldest requests"}
 						</Text>
 					</Box>
 				</Box>
 			)}
 
 			<Box marginTop={2}>
-				<Text dimColor>Press 'r' to refresh • 'q' or ESC to go back</Text>
+				<Text dimColor>
+					Press '/' to filter{filterQuery ? " • 'c' to clear the filter" : ""} •
+					'r' to refresh • 'q' or ESC to go back
+				</Text>
 			</Box>
 		</Box>
 	);
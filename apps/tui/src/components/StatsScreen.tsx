@@ -143,6 +143,50 @@ export function StatsScreen({ onBack }: StatsScreenProps) {
 				)}
 			</Box>
 
+			{/* Request Queue */}
+			<Box marginBottom={1}>
+				<Text bold underline>
+					Request Queue
+				</Text>
+			</Box>
+
+			<Box flexDirection="column" marginBottom={1}>
+				<Box>
+					<Text>Waiting: </Text>
+					<Text color={stats.queue.depth > 0 ? "yellow" : "green"} bold>
+						{stats.queue.depth}/{stats.queue.maxDepth}
+					</Text>
+					<Text dimColor>
+						{" "}
+						({stats.queue.order === "priority" ? "priority" : "FIFO"}, max wait{" "}
+						{formatNumber(stats.queue.maxWaitMs)}ms)
+					</Text>
+				</Box>
+				{stats.queue.depth > 0 && (
+					<Box>
+						<Text>Oldest Wait: </Text>
+						<Text color="yellow">
+							{formatNumber(stats.queue.oldestWaitMs)}ms
+						</Text>
+					</Box>
+				)}
+				{stats.queue.queued > 0 && (
+					<Box>
+						<Text>Wait Time: </Text>
+						<Text color="magenta">
+							{formatNumber(stats.queue.avgWaitMs)}ms avg
+						</Text>
+						<Text dimColor>
+							{" "}
+							({formatNumber(stats.queue.maxObservedWaitMs)}ms max,{" "}
+							{formatNumber(stats.queue.released)} released,{" "}
+							{formatNumber(stats.queue.timedOut)} timed out,{" "}
+							{formatNumber(stats.queue.rejected)} rejected)
+						</Text>
+					</Box>
+				)}
+			</Box>
+
 			{/* Token Usage */}
 			<Box marginBottom={1}>
 				<Text bold underline>
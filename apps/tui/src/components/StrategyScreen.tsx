@@ -1,3 +1,4 @@
+import { STRATEGY_DESCRIPTIONS, type StrategyName } from "@ccflare/core";
 import * as tuiCore from "@ccflare/tui-core";
 import { Box, Text, useInput } from "ink";
 import SelectInput from "ink-select-input";
@@ -121,11 +122,16 @@ export function StrategyScreen({ onBack }: StrategyScreenProps) {
 			</Box>
 
 			{strategies.map((strategy) => (
-				<Box key={strategy} paddingLeft={2}>
+				<Box key={strategy} paddingLeft={2} flexDirection="column">
 					<Text color={strategy === currentStrategy ? "yellow" : undefined}>
 						{strategy === currentStrategy ? "→ " : "  "}
 						{strategy}
 					</Text>
+					<Box paddingLeft={4}>
+						<Text dimColor>
+							{STRATEGY_DESCRIPTIONS[strategy as StrategyName]}
+						</Text>
+					</Box>
 				</Box>
 			))}
 
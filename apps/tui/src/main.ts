@@ -48,8 +48,11 @@ Options:
   --logs [N]           Stream latest N lines then follow
   --stats              Show statistics (JSON output)
   --add-account <name> Add a new account
-    --mode <max|console>  Account mode (default: max)
+    --mode <max|console|openai>  Account mode (default: max)
     --tier <1|5|20>       Account tier (default: 1)
+    --api-key <key>       Add with an existing Anthropic API key instead
+    --base-url <url>      Base URL of an OpenAI-compatible API (openai mode)
+    --model <model>       Upstream model for every request (openai mode)
   --list               List all accounts
   --remove <name>      Remove an account
   --pause <name>       Pause an account
@@ -59,6 +62,14 @@ Options:
   --clear-history      Clear request history
   --get-model          Show current default agent model
   --set-model <model>  Set default agent model (opus-4 or sonnet-4)
+  --create-key <name>  Create a client API key for the proxy
+  --list-keys          List client API keys
+  --revoke-key <name>  Revoke a client API key
+  --add-user <name>    Create a dashboard user (prompts for the password)
+    --role <viewer|admin> User role (default: admin)
+  --list-users         List dashboard users
+  --remove-user <name> Remove a dashboard user
+  --rotate-key         Re-encrypt account secrets with a new key (stop the server first)
   --help, -h           Show this help message
 
 Interactive Mode:
@@ -71,6 +82,8 @@ Examples:
   ccflare --pause work           # Pause account
   ccflare --analyze              # Run performance analysis
   ccflare --stats                # View stats
+  ccflare --create-key ci        # Create a client API key
+  ccflare --add-user alice       # Create a dashboard admin
 `);
 		process.exit(0);
 	}
@@ -116,6 +129,9 @@ Examples:
 			name: parsed.addAccount,
 			mode: parsed.mode || "max",
 			tier: parsed.tier || 1,
+			apiKey: parsed.apiKey,
+			baseUrl: parsed.baseUrl,
+			model: parsed.model,
 		});
 		console.log(`✅ Account "${parsed.addAccount}" added successfully`);
 		return;
@@ -126,10 +142,22 @@ Examples:
 		if (accounts.length === 0) {
 			console.log("No accounts configured");
 		} else {
-			console.log("\nAccounts:");
-			accounts.forEach((acc) => {
-				console.log(`  - ${acc.name} (${acc.mode} mode, tier ${acc.tier})`);
-			});
+			const oauthAccounts = accounts.filter((acc) => acc.authType === "oauth");
+			const apiKeyAccounts = accounts.filter(
+				(acc) => acc.authType === "api_key",
+			);
+			if (oauthAccounts.length > 0) {
+				console.log("\nOAuth accounts:");
+				oauthAccounts.forEach((acc) => {
+					console.log(`  - ${acc.name} (${acc.mode} mode, tier ${acc.tier})`);
+				});
+			}
+			if (apiKeyAccounts.length > 0) {
+				console.log("\nAPI-key accounts:");
+				apiKeyAccounts.forEach((acc) => {
+					console.log(`  - ${acc.name} (${acc.provider}, tier ${acc.tier})`);
+				});
+			}
 		}
 		return;
 	}
@@ -175,6 +203,91 @@ Examples:
 		return;
 	}
 
+	if (parsed.createKey) {
+		const result = await tuiCore.createApiKey(parsed.createKey);
+		if (!result.success) {
+			console.error(`❌ ${result.message}`);
+			process.exit(1);
+		}
+		console.log(`✅ ${result.message}`);
+		console.log(`\n${result.key}\n`);
+		return;
+	}
+
+	if (parsed.listKeys) {
+		const keys = await tuiCore.getApiKeys();
+		if (keys.length === 0) {
+			console.log("No API keys configured");
+		} else {
+			console.log("\nAPI keys:");
+			for (const key of keys) {
+				const status = key.revokedAt ? "revoked" : "active";
+				const lastUsed = key.lastUsed
+					? new Date(key.lastUsed).toLocaleString()
+					: "never";
+				console.log(
+					`  - ${key.name} (${key.prefix}…, ${status}, ${key.requestCount} requests, last used ${lastUsed})`,
+				);
+			}
+		}
+		return;
+	}
+
+	if (parsed.revokeKey) {
+		const result = await tuiCore.revokeApiKey(parsed.revokeKey);
+		console.log(result.message);
+		if (!result.success) {
+			process.exit(1);
+		}
+		return;
+	}
+
+	if (parsed.addUser) {
+		const result = await tuiCore.addDashboardUser(parsed.addUser, parsed.role);
+		if (!result.success) {
+			console.error(`❌ ${result.message}`);
+			process.exit(1);
+		}
+		console.log(`✅ ${result.message}`);
+		return;
+	}
+
+	if (parsed.listUsers) {
+		const users = await tuiCore.getDashboardUsers();
+		if (users.length === 0) {
+			console.log("No dashboard users configured");
+		} else {
+			console.log("\nDashboard users:");
+			for (const user of users) {
+				const lastLogin = user.lastLogin
+					? new Date(user.lastLogin).toLocaleString()
+					: "never";
+				console.log(
+					`  - ${user.username} (${user.role}, last login ${lastLogin})`,
+				);
+			}
+		}
+		return;
+	}
+
+	if (parsed.removeUser) {
+		const result = await tuiCore.removeDashboardUser(parsed.removeUser);
+		console.log(result.message);
+		if (!result.success) {
+			process.exit(1);
+		}
+		return;
+	}
+
+	if (parsed.rotateKey) {
+		const result = await tuiCore.rotateEncryptionKey();
+		console.log(`✅ ${result.message}`);
+		if (result.key) {
+			console.log(`\n${result.key}\n`);
+		}
+		return;
+	}
+
 	if (parsed.getModel) {
 		const config = new Config();
 		const model = config.getDefaultAgentModel();
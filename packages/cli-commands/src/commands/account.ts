@@ -1,6 +1,10 @@
 import type { Config } from "@ccflare/config";
 import type { DatabaseOperations } from "@ccflare/database";
 import { createOAuthFlow } from "@ccflare/oauth-flow";
+import {
+	ANTHROPIC_API_KEY_PATTERN,
+	verifyAnthropicApiKey,
+} from "@ccflare/providers";
 import type { AccountListItem } from "@ccflare/types";
 import {
 	type PromptAdapter,
@@ -12,11 +16,41 @@ import { openBrowser } from "../utils/browser";
 // Re-export types with adapter extension for CLI-specific options
 export interface AddAccountOptions {
 	name: string;
-	mode?: "max" | "console";
+	mode?: "max" | "console" | "api_key" | "openai-compatible";
 	tier?: 1 | 5 | 20;
+	/** Add the account with this Anthropic API key instead of OAuth */
+	apiKey?: string;
+	/** Base URL of an OpenAI-compatible upstream */
+	baseUrl?: string;
+	/** Upstream model every request of an OpenAI-compatible account uses */
+	model?: string;
 	adapter?: PromptAdapter;
 }
 
+export interface AddApiKeyAccountOptions {
+	name: string;
+	apiKey: string;
+	tier?: 1 | 5 | 20;
+}
+
+export type AddApiKeyAccountResult =
+	| { success: true; message: string; accountId: string }
+	| {
+			success: false;
+			message: string;
+			reason: "invalid" | "duplicate" | "rejected" | "unreachable";
+	  };
+
+export interface AddOpenAICompatibleAccountOptions {
+	name: string;
+	/** Base URL of the chat completions API, e.g. http://localhost:8000/v1 */
+	baseUrl: unknown;
+	apiKey?: unknown;
+	/** Requested model (exact, substring or "*") -> upstream model */
+	modelMap?: unknown;
+	tier?: 1 | 5 | 20;
+}
+
 // Re-export AccountListItem from types for backward compatibility
 export type { AccountListItem } from "@ccflare/types";
 
@@ -26,7 +60,136 @@ export interface AccountListItemWithMode extends AccountListItem {
 }
 
 /**
- * Add a new account using OAuth flow
+ * Add an account that authenticates with an existing Anthropic API key.
+ * The key is checked against the API before it is stored.
+ */
+export async function addApiKeyAccount(
+	dbOps: DatabaseOperations,
+	options: AddApiKeyAccountOptions,
+): Promise<AddApiKeyAccountResult> {
+	const { name, tier = 1 } = options;
+	const apiKey = options.apiKey.trim();
+
+	if (!ANTHROPIC_API_KEY_PATTERN.test(apiKey)) {
+		return {
+			success: false,
+			message: "API key must be an Anthropic key starting with sk-ant-",
+			reason: "invalid",
+		};
+	}
+
+	if (dbOps.getAllAccounts().some((account) => account.name === name)) {
+		return {
+			success: false,
+			message: `Account with name '${name}' already exists`,
+			reason: "duplicate",
+		};
+	}
+
+	const verification = await verifyAnthropicApiKey(apiKey);
+	if (!verification.valid) {
+		return {
+			success: false,
+			message: verification.message,
+			reason: verification.reason,
+		};
+	}
+
+	const accountId = crypto.randomUUID();
+	dbOps.createAccount({
+		id: accountId,
+		name,
+		provider: "anthropic",
+		authType: "api_key",
+		apiKey,
+		refreshToken: null,
+		accessToken: null,
+		expiresAt: null,
+		tier,
+	});
+
+	return {
+		success: true,
+		message: `Account '${name}' added successfully`,
+		accountId,
+	};
+}
+
+/**
+ * Add an account for an OpenAI-compatible upstream (OpenRouter, vLLM,
+ * LiteLLM, llama.cpp). Requests routed to it are translated to chat
+ * completions. The API key is optional since local servers often need none.
+ */
+export function addOpenAICompatibleAccount(
+	dbOps: DatabaseOperations,
+	options: AddOpenAICompatibleAccountOptions,
+):
+	| { success: true; message: string; accountId: string }
+	| {
+			success: false;
+			message: string;
+	  } {
+	const { name, tier = 1 } = options;
+
+	let baseUrl: URL;
+	try {
+		baseUrl = new URL(String(options.baseUrl ?? ""));
+	} catch {
+		return { success: false, message: "baseUrl must be a valid URL" };
+	}
+	if (baseUrl.protocol !== "http:" && baseUrl.protocol !== "https:") {
+		return { success: false, message: "baseUrl must be an http(s) URL" };
+	}
+
+	if (options.apiKey !== undefined && typeof options.apiKey !== "string") {
+		return { success: false, message: "apiKey must be a string" };
+	}
+
+	const modelMap = options.modelMap ?? {};
+	if (
+		typeof modelMap !== "object" ||
+		Array.isArray(modelMap) ||
+		Object.entries(modelMap).some(
+			([key, value]) => !key || typeof value !== "string" || !value,
+		)
+	) {
+		return {
+			success: false,
+			message: "modelMap must map model names to upstream model names",
+		};
+	}
+
+	if (dbOps.getAllAccounts().some((account) => account.name === name)) {
+		return {
+			success: false,
+			message: `Account with name '${name}' already exists`,
+		};
+	}
+
+	const accountId = crypto.randomUUID();
+	dbOps.createAccount({
+		id: accountId,
+		name,
+		provider: "openai-compatible",
+		authType: "api_key",
+		apiKey: options.apiKey?.trim() || null,
+		refreshToken: null,
+		accessToken: null,
+		expiresAt: null,
+		tier,
+		baseUrl: baseUrl.toString().replace(/\/+$/, ""),
+		modelMap: modelMap as Record<string, string>,
+	});
+
+	return {
+		success: true,
+		message: `Account '${name}' added successfully`,
+		accountId,
+	};
+}
+
+/**
+ * Add a new account using OAuth flow, or directly with an API key
  */
 export async function addAccount(
 	dbOps: DatabaseOperations,
@@ -37,19 +200,79 @@ export async function addAccount(
 		name,
 		mode: providedMode,
 		tier: providedTier,
+		apiKey: providedApiKey,
 		adapter = stdPromptAdapter,
 	} = options;
 
-	// Create OAuth flow instance
-	const oauthFlow = await createOAuthFlow(dbOps, config);
-
 	// Prompt for mode if not provided
 	const mode =
-		providedMode ||
-		(await adapter.select("What type of account would you like to add?", [
-			{ label: "Claude Max account", value: "max" },
-			{ label: "Claude Console account", value: "console" },
-		]));
+		providedMode === "openai-compatible"
+			? providedMode
+			: providedApiKey !== undefined
+				? "api_key"
+				: providedMode ||
+					(await adapter.select("What type of account would you like to add?", [
+						{ label: "Claude Max account", value: "max" },
+						{ label: "Claude Console account", value: "console" },
+						{ label: "Existing Anthropic API key", value: "api_key" },
+						{ label: "OpenAI-compatible API", value: "openai-compatible" },
+					]));
+
+	if (mode === "openai-compatible") {
+		const baseUrl =
+			options.baseUrl ||
+			(await adapter.input(
+				"\nBase URL of the API (e.g. http://localhost:8000/v1): ",
+			));
+		const apiKey =
+			providedApiKey ??
+			(await adapter.input("API key (leave empty if none): ", true));
+		const model =
+			options.model ??
+			(await adapter.input(
+				"Upstream model for all requests (leave empty to keep the requested model): ",
+			));
+
+		const result = addOpenAICompatibleAccount(dbOps, {
+			name,
+			baseUrl,
+			apiKey,
+			modelMap: model.trim() ? { "*": model.trim() } : {},
+			tier: providedTier,
+		});
+		if (!result.success) {
+			throw new Error(result.message);
+		}
+
+		console.log(`\n${result.message}`);
+		console.log("Type: OpenAI-compatible");
+		console.log(
+			"Add it to a group and create a routing rule for that group to send requests to it.",
+		);
+		return;
+	}
+
+	if (mode === "api_key") {
+		const apiKey =
+			providedApiKey || (await adapter.input("\nEnter the API key: ", true));
+
+		console.log("\nVerifying API key...");
+		const result = await addApiKeyAccount(dbOps, {
+			name,
+			apiKey,
+			tier: providedTier,
+		});
+		if (!result.success) {
+			throw new Error(result.message);
+		}
+
+		console.log(`\n${result.message}`);
+		console.log("Type: Anthropic API key");
+		return;
+	}
+
+	// Create OAuth flow instance
+	const oauthFlow = await createOAuthFlow(dbOps, config);
 
 	// Begin OAuth flow
 	const flowResult = await oauthFlow.begin({
@@ -107,7 +330,10 @@ export function getAccountsList(dbOps: DatabaseOperations): AccountListItem[] {
 	return accounts.map((account) => {
 		const tierDisplay = `${account.account_tier}x`;
 		const tokenStatus =
-			account.expires_at && account.expires_at > now ? "valid" : "expired";
+			account.auth_type === "api_key" ||
+			(account.expires_at && account.expires_at > now)
+				? "valid"
+				: "expired";
 
 		let rateLimitStatus = "OK";
 		if (account.paused) {
@@ -137,6 +363,7 @@ export function getAccountsList(dbOps: DatabaseOperations): AccountListItem[] {
 			rateLimitStatus,
 			sessionInfo,
 			tier: account.account_tier || 1,
+			authType: account.auth_type,
 			mode: account.account_tier > 1 ? "max" : "console",
 		};
 	});
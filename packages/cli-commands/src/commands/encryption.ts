@@ -0,0 +1,26 @@
+import { type DatabaseOperations, ENCRYPTION_KEY_ENV } from "@ccflare/database";
+
+/**
+ * Re-encrypt stored account secrets with a newly generated key. Stop the
+ * server first: a running server keeps using the old key.
+ */
+export function rotateEncryptionKey(dbOps: DatabaseOperations): {
+	success: boolean;
+	message: string;
+	key?: string;
+} {
+	const result = dbOps.rotateEncryptionKey();
+	const summary = `Re-encrypted secrets of ${result.accounts} account(s) with key ${result.keyId}.`;
+
+	if (result.key) {
+		return {
+			success: true,
+			message: `${summary} Set ${ENCRYPTION_KEY_ENV} to the new key below before restarting, or the accounts cannot be decrypted.`,
+			key: result.key,
+		};
+	}
+	return {
+		success: true,
+		message: `${summary} The new key was written to ${result.path}.`,
+	};
+}
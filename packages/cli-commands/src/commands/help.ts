@@ -6,13 +6,20 @@ export function getHelpText(): string {
 Usage: ccflare-cli <command> [options]
 
 Commands:
-  add <name> [--mode <max|console>] [--tier <1|5|20>]
-    Add a new account using OAuth
-    --mode: Account type (optional, will prompt if not provided)
+  add <name> [--mode <max|console|api-key|openai>] [--api-key <key>] [--base-url <url>] [--model <model>] [--tier <1|5|20>]
+    Add a new account using OAuth, with an existing Anthropic API key, or
+    for an OpenAI-compatible API (OpenRouter, vLLM, LiteLLM, llama.cpp)
+    --mode: Account type (optional, will prompt if not provided). api-key
+            prompts for the key without echoing it
+    --api-key: Existing sk-ant-... key; it is verified before it is saved.
+               With --mode openai, the upstream's key (optional)
+    --base-url: Chat completions API base URL for --mode openai
+    --model: Upstream model OpenAI-compatible requests use (default: the
+             requested model)
     --tier: Account tier (1, 5, or 20) (optional, will prompt for Max accounts)
 
   list
-    List all accounts with their details
+    List all accounts with their details, OAuth and API-key accounts apart
 
   remove <name> [--force]
     Remove an account
@@ -30,6 +37,31 @@ Commands:
   clear-history
     Clear request history
 
+  create-key <name>
+    Create a client API key for the proxy. Once a key exists, requests to
+    /v1/* must send a valid key in x-api-key or "Authorization: Bearer"
+
+  list-keys
+    List client API keys and how many requests each made
+
+  revoke-key <name>
+    Revoke a client API key
+
+  add-user <username> [--role <viewer|admin>]
+    Create a dashboard user (prompts for the password). Once a user exists,
+    the dashboard and /api/* require a login. --role defaults to admin
+
+  list-users
+    List dashboard users
+
+  remove-user <username>
+    Remove a dashboard user and end their sessions
+
+  rotate-key
+    Re-encrypt stored account tokens and API keys with a new encryption key.
+    Stop the server first. If the key comes from ccflare_ENCRYPTION_KEY, the
+    new key is printed and must replace the variable's value
+
   analyze
     Analyze database performance and index usage
 
@@ -38,9 +70,14 @@ Commands:
 
 Examples:
   ccflare-cli add myaccount --mode max --tier 5
+  ccflare-cli add payg --mode api-key
+  ccflare-cli add local --mode openai --base-url http://localhost:8000/v1 --model qwen2.5-coder
   ccflare-cli list
   ccflare-cli remove myaccount
   ccflare-cli pause myaccount
   ccflare-cli resume myaccount
+  ccflare-cli create-key ci-pipeline
+  ccflare-cli add-user alice --role viewer
+  ccflare-cli rotate-key
 `;
 }
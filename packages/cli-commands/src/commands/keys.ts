@@ -0,0 +1,54 @@
+import type { ApiKey, DatabaseOperations } from "@ccflare/database";
+
+const KEY_NAME_PATTERN = /^[\w.@-]{1,64}$/;
+
+/**
+ * Create a client API key. The returned secret is not stored and cannot be
+ * shown again.
+ */
+export function createApiKey(
+	dbOps: DatabaseOperations,
+	name: string,
+): { success: boolean; message: string; key?: string } {
+	if (!KEY_NAME_PATTERN.test(name)) {
+		return {
+			success: false,
+			message:
+				"Key name must be 1-64 letters, digits, underscores, dots, @ or hyphens",
+		};
+	}
+	if (dbOps.getApiKeyByName(name)) {
+		return { success: false, message: `A key named '${name}' already exists` };
+	}
+
+	const { key } = dbOps.createApiKey(name);
+	return {
+		success: true,
+		message: `API key '${name}' created. Store it now, it will not be shown again.`,
+		key,
+	};
+}
+
+/**
+ * List all client API keys, newest first
+ */
+export function getApiKeysList(dbOps: DatabaseOperations): ApiKey[] {
+	return dbOps.listApiKeys();
+}
+
+/**
+ * Revoke a client API key by name
+ */
+export function revokeApiKey(
+	dbOps: DatabaseOperations,
+	name: string,
+): { success: boolean; message: string } {
+	const apiKey = dbOps.getApiKeyByName(name);
+	if (!apiKey) {
+		return { success: false, message: `API key '${name}' not found` };
+	}
+	if (!dbOps.revokeApiKey(apiKey.id)) {
+		return { success: false, message: `API key '${name}' is already revoked` };
+	}
+	return { success: true, message: `API key '${name}' revoked successfully` };
+}
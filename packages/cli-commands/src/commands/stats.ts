@@ -14,5 +14,6 @@ export function resetAllStats(db: Database): void {
  */
 export function clearRequestHistory(db: Database): { count: number } {
 	const result = db.run("DELETE FROM requests");
+	db.run("DELETE FROM conversations");
 	return { count: result.changes };
 }
@@ -0,0 +1,70 @@
+import {
+	type DashboardUser,
+	type DatabaseOperations,
+	isDashboardRole,
+} from "@ccflare/database";
+
+const USERNAME_PATTERN = /^[\w.@-]{1,64}$/;
+const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * Create a dashboard user. Once a user exists, the dashboard and management
+ * API require a login.
+ */
+export function addDashboardUser(
+	dbOps: DatabaseOperations,
+	username: string,
+	password: string,
+	role = "admin",
+): { success: boolean; message: string } {
+	if (!USERNAME_PATTERN.test(username)) {
+		return {
+			success: false,
+			message:
+				"Username must be 1-64 letters, digits, underscores, dots, @ or hyphens",
+		};
+	}
+	if (!isDashboardRole(role)) {
+		return { success: false, message: "Role must be 'viewer' or 'admin'" };
+	}
+	if (password.length < MIN_PASSWORD_LENGTH) {
+		return {
+			success: false,
+			message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+		};
+	}
+	if (dbOps.getDashboardUserByUsername(username)) {
+		return { success: false, message: `User '${username}' already exists` };
+	}
+
+	dbOps.createDashboardUser(username, password, role);
+	return {
+		success: true,
+		message: `User '${username}' created with the ${role} role`,
+	};
+}
+
+/**
+ * List all dashboard users
+ */
+export function getDashboardUsersList(
+	dbOps: DatabaseOperations,
+): DashboardUser[] {
+	return dbOps.listDashboardUsers();
+}
+
+/**
+ * Remove a dashboard user and end their sessions
+ */
+export function removeDashboardUser(
+	dbOps: DatabaseOperations,
+	username: string,
+): { success: boolean; message: string } {
+	const user = dbOps.getDashboardUserByUsername(username);
+	if (!user) {
+		return { success: false, message: `User '${username}' not found` };
+	}
+
+	dbOps.deleteDashboardUser(user.id);
+	return { success: true, message: `User '${username}' removed` };
+}
@@ -1,8 +1,11 @@
 // Export all commands
 export * from "./commands/account";
 export * from "./commands/analyze";
+export * from "./commands/encryption";
 export * from "./commands/help";
+export * from "./commands/keys";
 export * from "./commands/stats";
+export * from "./commands/users";
 
 // Export prompts
 export * from "./prompts/index";
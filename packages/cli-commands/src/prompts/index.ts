@@ -38,6 +38,13 @@ export async function promptAuthorizationCode(): Promise<string> {
 	return stdPromptAdapter.input("\nEnter the authorization code: ");
 }
 
+/**
+ * Prompt user to enter a dashboard user's password
+ */
+export async function promptPassword(): Promise<string> {
+	return stdPromptAdapter.input("Password: ", true);
+}
+
 /**
  * Prompt user to confirm account removal
  */
@@ -11,8 +11,16 @@ import {
 	resumeAccount,
 } from "./commands/account";
 import { analyzePerformance } from "./commands/analyze";
+import { rotateEncryptionKey } from "./commands/encryption";
 import { getHelpText } from "./commands/help";
+import { createApiKey, getApiKeysList, revokeApiKey } from "./commands/keys";
 import { clearRequestHistory, resetAllStats } from "./commands/stats";
+import {
+	addDashboardUser,
+	getDashboardUsersList,
+	removeDashboardUser,
+} from "./commands/users";
+import { promptPassword } from "./prompts/index";
 
 /**
  * Main CLI runner
@@ -33,7 +41,11 @@ export async function runCli(argv: string[]): Promise<void> {
 			options: {
 				mode: { type: "string" },
 				tier: { type: "string" },
+				"api-key": { type: "string" },
+				"base-url": { type: "string" },
+				model: { type: "string" },
 				force: { type: "boolean" },
+				role: { type: "string" },
 			},
 		});
 
@@ -45,13 +57,21 @@ export async function runCli(argv: string[]): Promise<void> {
 				if (!name) {
 					console.error("Error: Account name is required");
 					console.log(
-						"Usage: ccflare-cli add <name> [--mode <max|console>] [--tier <1|5|20>]",
+						"Usage: ccflare-cli add <name> [--mode <max|console|api-key|openai>] [--api-key <key>] [--base-url <url>] [--model <model>] [--tier <1|5|20>]",
 					);
 					process.exit(1);
 				}
 
 				// Parse options
-				const mode = values.mode as "max" | "console" | undefined;
+				const mode =
+					values.mode === "api-key"
+						? "api_key"
+						: values.mode === "openai"
+							? "openai-compatible"
+							: (values.mode as "max" | "console" | undefined);
+				const apiKey = values["api-key"] as string | undefined;
+				const baseUrl = values["base-url"] as string | undefined;
+				const model = values.model as string | undefined;
 				const tierValue = values.tier
 					? parseInt(values.tier as string)
 					: undefined;
@@ -60,7 +80,14 @@ export async function runCli(argv: string[]): Promise<void> {
 						? tierValue
 						: undefined;
 
-				await addAccount(dbOps, config, { name, mode, tier });
+				await addAccount(dbOps, config, {
+					name,
+					mode,
+					tier,
+					apiKey,
+					baseUrl,
+					model,
+				});
 				break;
 			}
 
@@ -70,32 +97,49 @@ export async function runCli(argv: string[]): Promise<void> {
 				if (accounts.length === 0) {
 					console.log("No accounts found");
 				} else {
-					console.log(`\nAccounts (${accounts.length}):`);
-					console.log("─".repeat(100));
+					const sections = [
+						{
+							title: "OAuth accounts",
+							items: accounts.filter((a) => a.authType === "oauth"),
+						},
+						{
+							title: "API-key accounts",
+							items: accounts.filter((a) => a.authType === "api_key"),
+						},
+					];
 
-					// Header
-					console.log(
-						"Name".padEnd(20) +
-							"Type".padEnd(10) +
-							"Tier".padEnd(6) +
-							"Requests".padEnd(12) +
-							"Token".padEnd(10) +
-							"Status".padEnd(20) +
-							"Session",
-					);
-					console.log("─".repeat(100));
+					for (const section of sections) {
+						if (section.items.length === 0) continue;
 
-					// Rows
-					for (const account of accounts) {
+						console.log(`\n${section.title} (${section.items.length}):`);
+						console.log("─".repeat(109));
+
+						// Header
 						console.log(
-							account.name.padEnd(20) +
-								account.provider.padEnd(10) +
-								account.tierDisplay.padEnd(6) +
-								`${account.requestCount}/${account.totalRequests}`.padEnd(12) +
-								account.tokenStatus.padEnd(10) +
-								account.rateLimitStatus.padEnd(20) +
-								account.sessionInfo,
+							"Name".padEnd(20) +
+								"Type".padEnd(19) +
+								"Tier".padEnd(6) +
+								"Requests".padEnd(12) +
+								"Token".padEnd(10) +
+								"Status".padEnd(20) +
+								"Session",
 						);
+						console.log("─".repeat(109));
+
+						// Rows
+						for (const account of section.items) {
+							console.log(
+								account.name.padEnd(20) +
+									account.provider.padEnd(19) +
+									account.tierDisplay.padEnd(6) +
+									`${account.requestCount}/${account.totalRequests}`.padEnd(
+										12,
+									) +
+									account.tokenStatus.padEnd(10) +
+									account.rateLimitStatus.padEnd(20) +
+									account.sessionInfo,
+							);
+						}
 					}
 				}
 				break;
@@ -167,6 +211,142 @@ export async function runCli(argv: string[]): Promise<void> {
 				break;
 			}
 
+			case "create-key": {
+				const name = positionals[1];
+				if (!name) {
+					console.error("Error: Key name is required");
+					console.log("Usage: ccflare-cli create-key <name>");
+					process.exit(1);
+				}
+
+				const result = createApiKey(dbOps, name);
+				console.log(result.message);
+				if (!result.success) {
+					process.exit(1);
+				}
+				console.log(`\n${result.key}\n`);
+				break;
+			}
+
+			case "list-keys": {
+				const keys = getApiKeysList(dbOps);
+
+				if (keys.length === 0) {
+					console.log("No API keys found");
+				} else {
+					console.log(`\nAPI keys (${keys.length}):`);
+					console.log("─".repeat(80));
+					console.log(
+						"Name".padEnd(20) +
+							"Prefix".padEnd(16) +
+							"Status".padEnd(10) +
+							"Requests".padEnd(12) +
+							"Last used",
+					);
+					console.log("─".repeat(80));
+					for (const key of keys) {
+						console.log(
+							key.name.padEnd(20) +
+								key.prefix.padEnd(16) +
+								(key.revokedAt ? "revoked" : "active").padEnd(10) +
+								String(key.requestCount).padEnd(12) +
+								(key.lastUsed
+									? new Date(key.lastUsed).toLocaleString()
+									: "never"),
+						);
+					}
+				}
+				break;
+			}
+
+			case "revoke-key": {
+				const name = positionals[1];
+				if (!name) {
+					console.error("Error: Key name is required");
+					console.log("Usage: ccflare-cli revoke-key <name>");
+					process.exit(1);
+				}
+
+				const result = revokeApiKey(dbOps, name);
+				console.log(result.message);
+				if (!result.success) {
+					process.exit(1);
+				}
+				break;
+			}
+
+			case "add-user": {
+				const username = positionals[1];
+				if (!username) {
+					console.error("Error: Username is required");
+					console.log(
+						"Usage: ccflare-cli add-user <username> [--role <viewer|admin>]",
+					);
+					process.exit(1);
+				}
+
+				const password = await promptPassword();
+				const result = addDashboardUser(
+					dbOps,
+					username,
+					password,
+					values.role as string | undefined,
+				);
+				console.log(result.message);
+				if (!result.success) {
+					process.exit(1);
+				}
+				break;
+			}
+
+			case "list-users": {
+				const users = getDashboardUsersList(dbOps);
+
+				if (users.length === 0) {
+					console.log("No dashboard users found");
+				} else {
+					console.log(`\nDashboard users (${users.length}):`);
+					console.log("─".repeat(60));
+					console.log(`${"Username".padEnd(24)}${"Role".padEnd(10)}Last login`);
+					console.log("─".repeat(60));
+					for (const user of users) {
+						console.log(
+							user.username.padEnd(24) +
+								user.role.padEnd(10) +
+								(user.lastLogin
+									? new Date(user.lastLogin).toLocaleString()
+									: "never"),
+						);
+					}
+				}
+				break;
+			}
+
+			case "remove-user": {
+				const username = positionals[1];
+				if (!username) {
+					console.error("Error: Username is required");
+					console.log("Usage: ccflare-cli remove-user <username>");
+					process.exit(1);
+				}
+
+				const result = removeDashboardUser(dbOps, username);
+				console.log(result.message);
+				if (!result.success) {
+					process.exit(1);
+				}
+				break;
+			}
+
+			case "rotate-key": {
+				const result = rotateEncryptionKey(dbOps);
+				console.log(result.message);
+				if (result.key) {
+					console.log(`\n${result.key}\n`);
+				}
+				break;
+			}
+
 			case "analyze": {
 				const db = dbOps.getDatabase();
 				analyzePerformance(db);
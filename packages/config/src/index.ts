@@ -5,6 +5,7 @@ import {
 	DEFAULT_AGENT_MODEL,
 	DEFAULT_STRATEGY,
 	isValidStrategy,
+	LIMITS,
 	NETWORK,
 	type StrategyName,
 	TIME_CONSTANTS,
@@ -14,11 +15,41 @@ import { resolveConfigPath } from "./paths";
 
 const log = new Logger("Config");
 
+export type RequestQueueOrder = "fifo" | "priority";
+
 export interface RuntimeConfig {
 	clientId: string;
 	retry: { attempts: number; delayMs: number; backoff: number };
 	sessionDurationMs: number;
 	port: number;
+	queue: { maxWaitMs: number; maxDepth: number; order: RequestQueueOrder };
+	/** Use API-key accounts only when no OAuth account is available */
+	preferOAuthAccounts: boolean;
+	tracing: {
+		/** Full OTLP/HTTP traces URL; null disables trace export */
+		endpoint: string | null;
+		serviceName: string;
+		/** Extra headers sent to the collector, e.g. an auth token */
+		headers: Record<string, string>;
+	};
+}
+
+function isQueueOrder(value: unknown): value is RequestQueueOrder {
+	return value === "fifo" || value === "priority";
+}
+
+/**
+ * Parse OTEL_EXPORTER_OTLP_HEADERS style "key1=value1,key2=value2" lists
+ */
+function parseHeaderList(value: string): Record<string, string> {
+	const headers: Record<string, string> = {};
+	for (const pair of value.split(",")) {
+		const index = pair.indexOf("=");
+		if (index <= 0) continue;
+		headers[decodeURIComponent(pair.slice(0, index).trim())] =
+			decodeURIComponent(pair.slice(index + 1).trim());
+	}
+	return headers;
 }
 
 export interface ConfigData {
@@ -29,6 +60,12 @@ export interface ConfigData {
 	retry_backoff?: number;
 	session_duration_ms?: number;
 	port?: number;
+	queue_max_wait_ms?: number;
+	queue_max_depth?: number;
+	queue_order?: RequestQueueOrder;
+	prefer_oauth_accounts?: boolean;
+	otel_traces_endpoint?: string;
+	otel_service_name?: string;
 	default_agent_model?: string;
 	data_retention_days?: number;
 	request_retention_days?: number;
@@ -181,6 +218,22 @@ export class Config extends EventEmitter {
 		this.set("request_retention_days", clamped);
 	}
 
+	/**
+	 * Bootstrap token that logs in to the dashboard as admin. Only read from
+	 * the environment so it never ends up in the config file or the config API.
+	 */
+	getAdminToken(): string | null {
+		return process.env.ccflare_ADMIN_TOKEN || null;
+	}
+
+	/**
+	 * Bearer token Prometheus can scrape /metrics with once dashboard
+	 * authentication is on. Like the admin token, only read from the environment.
+	 */
+	getMetricsToken(): string | null {
+		return process.env.ccflare_METRICS_TOKEN || null;
+	}
+
 	getAllSettings(): Record<string, string | number | boolean | undefined> {
 		// Include current strategy (which might come from env)
 		return {
@@ -203,6 +256,13 @@ export class Config extends EventEmitter {
 			},
 			sessionDurationMs: TIME_CONSTANTS.SESSION_DURATION_DEFAULT,
 			port: NETWORK.DEFAULT_PORT,
+			queue: {
+				maxWaitMs: TIME_CONSTANTS.QUEUE_MAX_WAIT_DEFAULT,
+				maxDepth: LIMITS.QUEUE_MAX_DEPTH_DEFAULT,
+				order: "fifo",
+			},
+			preferOAuthAccounts: true,
+			tracing: { endpoint: null, serviceName: "ccflare", headers: {} },
 		};
 
 		// Override with environment variables if present
@@ -224,6 +284,36 @@ export class Config extends EventEmitter {
 		if (process.env.PORT) {
 			defaults.port = parseInt(process.env.PORT);
 		}
+		if (process.env.QUEUE_MAX_WAIT_MS) {
+			defaults.queue.maxWaitMs = parseInt(process.env.QUEUE_MAX_WAIT_MS);
+		}
+		if (process.env.QUEUE_MAX_DEPTH) {
+			defaults.queue.maxDepth = parseInt(process.env.QUEUE_MAX_DEPTH);
+		}
+		if (isQueueOrder(process.env.QUEUE_ORDER)) {
+			defaults.queue.order = process.env.QUEUE_ORDER;
+		}
+		if (process.env.PREFER_OAUTH_ACCOUNTS) {
+			defaults.preferOAuthAccounts = !["0", "false", "no"].includes(
+				process.env.PREFER_OAUTH_ACCOUNTS.toLowerCase(),
+			);
+		}
+		// Standard OpenTelemetry exporter variables; the generic endpoint is a
+		// base URL that the signal path is appended to
+		if (process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT) {
+			defaults.tracing.endpoint =
+				process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT;
+		} else if (process.env.OTEL_EXPORTER_OTLP_ENDPOINT) {
+			defaults.tracing.endpoint = `${process.env.OTEL_EXPORTER_OTLP_ENDPOINT.replace(/\/+$/, "")}/v1/traces`;
+		}
+		if (process.env.OTEL_SERVICE_NAME) {
+			defaults.tracing.serviceName = process.env.OTEL_SERVICE_NAME;
+		}
+		if (process.env.OTEL_EXPORTER_OTLP_HEADERS) {
+			defaults.tracing.headers = parseHeaderList(
+				process.env.OTEL_EXPORTER_OTLP_HEADERS,
+			);
+		}
 
 		// Override with config file settings if present
 		if (this.data.client_id) {
@@ -244,6 +334,24 @@ export class Config extends EventEmitter {
 		if (typeof this.data.port === "number") {
 			defaults.port = this.data.port;
 		}
+		if (typeof this.data.queue_max_wait_ms === "number") {
+			defaults.queue.maxWaitMs = this.data.queue_max_wait_ms;
+		}
+		if (typeof this.data.queue_max_depth === "number") {
+			defaults.queue.maxDepth = this.data.queue_max_depth;
+		}
+		if (isQueueOrder(this.data.queue_order)) {
+			defaults.queue.order = this.data.queue_order;
+		}
+		if (typeof this.data.prefer_oauth_accounts === "boolean") {
+			defaults.preferOAuthAccounts = this.data.prefer_oauth_accounts;
+		}
+		if (this.data.otel_traces_endpoint) {
+			defaults.tracing.endpoint = this.data.otel_traces_endpoint;
+		}
+		if (this.data.otel_service_name) {
+			defaults.tracing.serviceName = this.data.otel_service_name;
+		}
 
 		return defaults;
 	}
@@ -17,8 +17,10 @@ export const TIME_CONSTANTS = {
 
 	// Timeouts
 	STREAM_TIMEOUT_DEFAULT: 1000 * 60 * 1, // 1 minute
+	STREAM_HOLD_TIMEOUT: 10 * 1000, // 10 seconds to wait for the first content block
 	OAUTH_STATE_TTL: 10, // 10 minutes (stored separately as minutes)
 	RETRY_DELAY_DEFAULT: 1000, // 1 second
+	QUEUE_MAX_WAIT_DEFAULT: 30 * 1000, // 30 seconds to wait for a rate-limited account
 
 	// Cache durations
 	CACHE_YEAR: 31536000, // 365 days in seconds for HTTP cache headers
@@ -40,6 +42,9 @@ export const BUFFER_SIZES = {
 	// Stream tee default max bytes
 	STREAM_TEE_MAX_BYTES: 1024 * 1024, // 1MB
 
+	// Max bytes held back before the first content block of a stream
+	STREAM_HOLD_MAX_BYTES: 64 * 1024, // 64KB
+
 	// Log file size
 	LOG_FILE_MAX_SIZE: 10 * 1024 * 1024, // 10MB
 } as const;
@@ -70,6 +75,9 @@ export const LIMITS = {
 	REQUEST_HISTORY_MAX: 1000,
 	LOG_READ_DEFAULT: 1000,
 
+	// Requests waiting for a rate-limited account
+	QUEUE_MAX_DEPTH_DEFAULT: 100,
+
 	// Account name constraints
 	ACCOUNT_NAME_MIN_LENGTH: 1,
 	ACCOUNT_NAME_MAX_LENGTH: 100,
@@ -18,7 +18,21 @@ export {
 	ValidationError,
 } from "./errors";
 
+export {
+	diffJson,
+	type JsonChange,
+	type JsonChangeKind,
+} from "./json-diff";
 export * from "./lifecycle";
+export {
+	Counter,
+	DEFAULT_DURATION_BUCKETS,
+	Gauge,
+	Histogram,
+	type MetricLabels,
+	MetricsRegistry,
+	PROMETHEUS_CONTENT_TYPE,
+} from "./metrics";
 export {
 	CLAUDE_MODEL_IDS,
 	type ClaudeModelId,
@@ -35,11 +49,36 @@ export {
 	setPricingLogger,
 	type TokenBreakdown,
 } from "./pricing";
+export {
+	PROMPT_TEMPLATE_VARIABLES,
+	renderPromptTemplate,
+	type TemplateValue,
+	type TemplateVariables,
+	validatePromptTemplate,
+} from "./prompt-template";
+export {
+	isRedactionAction,
+	isRedactionDetector,
+	PayloadRedactor,
+	REDACTION_ACTIONS,
+	REDACTION_DETECTORS,
+	type RedactionAction,
+	type RedactionDetector,
+	type RedactionRuleSpec,
+	validateRedactionRule,
+} from "./redaction";
 export * from "./request-events";
 export * from "./strategy";
+export {
+	type DiffLine,
+	type DiffLineType,
+	diffLines,
+	type TextDiff,
+} from "./text-diff";
 export {
 	patterns,
 	sanitizers,
+	validateBoolean,
 	validateNumber,
 	validateString,
 } from "./validation";
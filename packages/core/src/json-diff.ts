@@ -0,0 +1,147 @@
+export type JsonChangeKind = "added" | "removed" | "changed" | "reordered";
+
+export interface JsonChange {
+	/** Location of the change, e.g. "system[1].text" or "tools[Bash].description" */
+	path: string;
+	kind: JsonChangeKind;
+	before?: unknown;
+	after?: unknown;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Arrays of objects that all carry a unique string name (like tools) are
+ * compared by name instead of by index
+ */
+function getNameKeys(items: unknown[]): string[] | null {
+	if (items.length === 0) return null;
+	const names: string[] = [];
+	for (const item of items) {
+		if (!isObject(item) || typeof item.name !== "string") return null;
+		names.push(item.name);
+	}
+	return new Set(names).size === names.length ? names : null;
+}
+
+function joinPath(base: string, key: string): string {
+	return base ? `${base}.${key}` : key;
+}
+
+function diffArrays(
+	before: unknown[],
+	after: unknown[],
+	path: string,
+	changes: JsonChange[],
+): void {
+	const beforeNames = getNameKeys(before);
+	const afterNames = getNameKeys(after);
+
+	if (beforeNames && afterNames) {
+		for (const [index, name] of beforeNames.entries()) {
+			const afterIndex = afterNames.indexOf(name);
+			if (afterIndex === -1) {
+				changes.push({
+					path: `${path}[${name}]`,
+					kind: "removed",
+					before: before[index],
+				});
+			} else {
+				diffValues(
+					before[index],
+					after[afterIndex],
+					`${path}[${name}]`,
+					changes,
+				);
+			}
+		}
+		for (const [index, name] of afterNames.entries()) {
+			if (!beforeNames.includes(name)) {
+				changes.push({
+					path: `${path}[${name}]`,
+					kind: "added",
+					after: after[index],
+				});
+			}
+		}
+
+		const common = (names: string[], others: string[]) =>
+			names.filter((name) => others.includes(name));
+		const beforeOrder = common(beforeNames, afterNames);
+		const afterOrder = common(afterNames, beforeNames);
+		if (beforeOrder.join("\0") !== afterOrder.join("\0")) {
+			changes.push({
+				path,
+				kind: "reordered",
+				before: beforeOrder,
+				after: afterOrder,
+			});
+		}
+		return;
+	}
+
+	const shared = Math.min(before.length, after.length);
+	for (let i = 0; i < shared; i++) {
+		diffValues(before[i], after[i], `${path}[${i}]`, changes);
+	}
+	for (let i = shared; i < before.length; i++) {
+		changes.push({ path: `${path}[${i}]`, kind: "removed", before: before[i] });
+	}
+	for (let i = shared; i < after.length; i++) {
+		changes.push({ path: `${path}[${i}]`, kind: "added", after: after[i] });
+	}
+}
+
+function diffValues(
+	before: unknown,
+	after: unknown,
+	path: string,
+	changes: JsonChange[],
+): void {
+	if (isObject(before) && isObject(after)) {
+		for (const key of Object.keys(before)) {
+			if (!(key in after)) {
+				changes.push({
+					path: joinPath(path, key),
+					kind: "removed",
+					before: before[key],
+				});
+			} else {
+				diffValues(before[key], after[key], joinPath(path, key), changes);
+			}
+		}
+		for (const key of Object.keys(after)) {
+			if (!(key in before)) {
+				changes.push({
+					path: joinPath(path, key),
+					kind: "added",
+					after: after[key],
+				});
+			}
+		}
+		return;
+	}
+
+	if (Array.isArray(before) && Array.isArray(after)) {
+		diffArrays(before, after, path, changes);
+		return;
+	}
+
+	if (JSON.stringify(before) !== JSON.stringify(after)) {
+		changes.push({ path: path || "$", kind: "changed", before, after });
+	}
+}
+
+/**
+ * Computes the structural differences between two JSON values
+ * @param before - The original value
+ * @param after - The changed value
+ * @returns The added, removed, changed and reordered paths
+ */
+export function diffJson(before: unknown, after: unknown): JsonChange[] {
+	const changes: JsonChange[] = [];
+	diffValues(before, after, "", changes);
+	return changes;
+}
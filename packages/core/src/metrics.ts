@@ -0,0 +1,205 @@
+/**
+ * Minimal Prometheus metrics in the text exposition format.
+ *
+ * Metrics are created on a registry and render together. Counters and
+ * histograms accumulate for the life of the process; gauges hold whatever was
+ * last set, so scrape-time values are usually written just before rendering.
+ */
+
+export type MetricLabels = Record<string, string>;
+
+type MetricType = "counter" | "gauge" | "histogram";
+
+// Request latencies in seconds, from fast cache hits to long agent turns
+export const DEFAULT_DURATION_BUCKETS = [
+	0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300,
+];
+
+function escapeLabelValue(value: string): string {
+	return value
+		.replace(/\\/g, "\\\\")
+		.replace(/"/g, '\\"')
+		.replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: MetricLabels): string {
+	const entries = Object.entries(labels);
+	if (entries.length === 0) return "";
+	return `{${entries
+		.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`)
+		.join(",")}}`;
+}
+
+function formatValue(value: number): string {
+	if (Number.isNaN(value)) return "NaN";
+	if (value === Number.POSITIVE_INFINITY) return "+Inf";
+	if (value === Number.NEGATIVE_INFINITY) return "-Inf";
+	return String(value);
+}
+
+abstract class Metric {
+	constructor(
+		readonly name: string,
+		readonly help: string,
+		readonly labelNames: readonly string[],
+		readonly type: MetricType,
+	) {}
+
+	/**
+	 * Key series by label values in declaration order, so callers can pass
+	 * labels in any order and missing labels render as empty strings
+	 */
+	protected key(labels: MetricLabels): string {
+		return JSON.stringify(this.labelNames.map((name) => labels[name] ?? ""));
+	}
+
+	protected labelsOf(key: string): MetricLabels {
+		const values = JSON.parse(key) as string[];
+		return Object.fromEntries(
+			this.labelNames.map((name, i) => [name, values[i]]),
+		);
+	}
+
+	abstract samples(): string[];
+
+	render(): string {
+		return [
+			`# HELP ${this.name} ${this.help}`,
+			`# TYPE ${this.name} ${this.type}`,
+			...this.samples(),
+		].join("\n");
+	}
+}
+
+export class Counter extends Metric {
+	private values = new Map<string, number>();
+
+	constructor(name: string, help: string, labelNames: readonly string[] = []) {
+		super(name, help, labelNames, "counter");
+	}
+
+	inc(labels: MetricLabels = {}, amount = 1): void {
+		if (amount < 0 || !Number.isFinite(amount)) return;
+		const key = this.key(labels);
+		this.values.set(key, (this.values.get(key) ?? 0) + amount);
+	}
+
+	samples(): string[] {
+		return Array.from(this.values, ([key, value]) => {
+			return `${this.name}${formatLabels(this.labelsOf(key))} ${formatValue(value)}`;
+		});
+	}
+}
+
+export class Gauge extends Metric {
+	private values = new Map<string, number>();
+
+	constructor(name: string, help: string, labelNames: readonly string[] = []) {
+		super(name, help, labelNames, "gauge");
+	}
+
+	set(labels: MetricLabels, value: number): void {
+		this.values.set(this.key(labels), value);
+	}
+
+	/** Drop every series, e.g. before re-populating at scrape time */
+	reset(): void {
+		this.values.clear();
+	}
+
+	samples(): string[] {
+		return Array.from(this.values, ([key, value]) => {
+			return `${this.name}${formatLabels(this.labelsOf(key))} ${formatValue(value)}`;
+		});
+	}
+}
+
+interface HistogramSeries {
+	buckets: number[];
+	sum: number;
+	count: number;
+}
+
+export class Histogram extends Metric {
+	private series = new Map<string, HistogramSeries>();
+	private readonly buckets: number[];
+
+	constructor(
+		name: string,
+		help: string,
+		labelNames: readonly string[] = [],
+		buckets: readonly number[] = DEFAULT_DURATION_BUCKETS,
+	) {
+		super(name, help, labelNames, "histogram");
+		this.buckets = [...buckets].sort((a, b) => a - b);
+	}
+
+	observe(labels: MetricLabels, value: number): void {
+		if (!Number.isFinite(value)) return;
+		const key = this.key(labels);
+		let series = this.series.get(key);
+		if (!series) {
+			series = { buckets: this.buckets.map(() => 0), sum: 0, count: 0 };
+			this.series.set(key, series);
+		}
+		this.buckets.forEach((bound, i) => {
+			if (value <= bound) series.buckets[i]++;
+		});
+		series.sum += value;
+		series.count++;
+	}
+
+	samples(): string[] {
+		const lines: string[] = [];
+		for (const [key, series] of this.series) {
+			const labels = this.labelsOf(key);
+			this.buckets.forEach((bound, i) => {
+				lines.push(
+					`${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${series.buckets[i]}`,
+				);
+			});
+			lines.push(
+				`${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${series.count}`,
+				`${this.name}_sum${formatLabels(labels)} ${formatValue(series.sum)}`,
+				`${this.name}_count${formatLabels(labels)} ${series.count}`,
+			);
+		}
+		return lines;
+	}
+}
+
+export class MetricsRegistry {
+	private metrics: Metric[] = [];
+
+	counter(name: string, help: string, labelNames?: readonly string[]): Counter {
+		return this.add(new Counter(name, help, labelNames));
+	}
+
+	gauge(name: string, help: string, labelNames?: readonly string[]): Gauge {
+		return this.add(new Gauge(name, help, labelNames));
+	}
+
+	histogram(
+		name: string,
+		help: string,
+		labelNames?: readonly string[],
+		buckets?: readonly number[],
+	): Histogram {
+		return this.add(new Histogram(name, help, labelNames, buckets));
+	}
+
+	/**
+	 * Render every metric in the Prometheus text format
+	 */
+	render(): string {
+		return `${this.metrics.map((metric) => metric.render()).join("\n")}\n`;
+	}
+
+	private add<T extends Metric>(metric: T): T {
+		this.metrics.push(metric);
+		return metric;
+	}
+}
+
+export const PROMETHEUS_CONTENT_TYPE =
+	"text/plain; version=0.0.4; charset=utf-8";
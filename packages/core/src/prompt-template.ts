@@ -0,0 +1,272 @@
+import { ValidationError } from "./errors";
+
+/**
+ * Minimal template language for replacement system prompts.
+ *
+ *   {{name}}                         variable substitution (arrays are comma-joined)
+ *   {{#if name}}...{{else}}...{{/if}}  conditional on a non-empty value
+ *   {{#if name == "value"}}          also supports != and contains
+ *   {{#each name}}...{{this}}...{{/each}}  loop over an array value
+ *
+ * Other {{...}} text, such as JSX style objects or snippets of other template
+ * languages, is kept as written.
+ */
+
+// Variables available to replacement templates, with short descriptions for the UI
+export const PROMPT_TEMPLATE_VARIABLES: Record<string, string> = {
+	env_block: "The <env> block(s) of the original prompt",
+	git_status_block: "The gitStatus section of the original prompt",
+	working_directory: "Working directory from the <env> block",
+	platform: "Platform from the <env> block (e.g. linux, darwin)",
+	today: "Today's date from the <env> block",
+	git_branch: "Current git branch from the gitStatus section",
+	claude_md: "The CLAUDE.md contents section sent with the request",
+	original_prompt: "The full original prompt being replaced",
+	tool_names: "Names of the tools in the request (list)",
+};
+
+export type TemplateValue = string | string[] | boolean | null | undefined;
+export type TemplateVariables = Record<string, TemplateValue>;
+
+type ConditionOperator = "==" | "!=" | "contains";
+
+interface Condition {
+	name: string;
+	operator?: ConditionOperator;
+	value?: string;
+}
+
+type TemplateNode =
+	| { type: "text"; value: string }
+	| { type: "var"; name: string }
+	| {
+			type: "if";
+			condition: Condition;
+			consequent: TemplateNode[];
+			otherwise: TemplateNode[];
+	  }
+	| { type: "each"; name: string; body: TemplateNode[] };
+
+interface OpenBlock {
+	node: Extract<TemplateNode, { type: "if" | "each" }>;
+	parent: TemplateNode[];
+	inElse: boolean;
+}
+
+const TAG_PATTERN = /\{\{\s*([^{}]*?)\s*\}\}/g;
+const NAME_PATTERN = /^[a-zA-Z_]\w*$/;
+const CONDITION_PATTERN =
+	/^([a-zA-Z_]\w*)(?:\s*(==|!=|contains)\s*"([^"]*)")?$/;
+
+/**
+ * Parses a template into nodes
+ * @throws {ValidationError} If the template has unbalanced blocks or invalid block tags
+ */
+function parseTemplate(template: string): TemplateNode[] {
+	const root: TemplateNode[] = [];
+	const stack: OpenBlock[] = [];
+	let current = root;
+	let lastIndex = 0;
+
+	for (const match of template.matchAll(TAG_PATTERN)) {
+		const index = match.index ?? 0;
+		if (index > lastIndex) {
+			current.push({ type: "text", value: template.slice(lastIndex, index) });
+		}
+		lastIndex = index + match[0].length;
+
+		const tag = match[1];
+		const top = stack[stack.length - 1];
+
+		if (tag.startsWith("#if ")) {
+			const condition = tag.slice(4).trim().match(CONDITION_PATTERN);
+			if (!condition) {
+				throw new ValidationError(
+					`Invalid condition in {{${tag}}}`,
+					"template",
+				);
+			}
+			const node: TemplateNode = {
+				type: "if",
+				condition: {
+					name: condition[1],
+					operator: condition[2] as ConditionOperator | undefined,
+					value: condition[3],
+				},
+				consequent: [],
+				otherwise: [],
+			};
+			current.push(node);
+			stack.push({ node, parent: current, inElse: false });
+			current = node.consequent;
+		} else if (tag.startsWith("#each ")) {
+			const name = tag.slice(6).trim();
+			if (!NAME_PATTERN.test(name)) {
+				throw new ValidationError(`Invalid variable in {{${tag}}}`, "template");
+			}
+			const node: TemplateNode = { type: "each", name, body: [] };
+			current.push(node);
+			stack.push({ node, parent: current, inElse: false });
+			current = node.body;
+		} else if (tag === "else") {
+			if (!top || top.node.type !== "if" || top.inElse) {
+				throw new ValidationError(
+					"{{else}} without a matching {{#if}}",
+					"template",
+				);
+			}
+			top.inElse = true;
+			current = top.node.otherwise;
+		} else if (tag === "/if" || tag === "/each") {
+			const expected = tag === "/if" ? "if" : "each";
+			if (!top || top.node.type !== expected) {
+				throw new ValidationError(
+					`{{${tag}}} without a matching {{#${expected}}}`,
+					"template",
+				);
+			}
+			stack.pop();
+			current = top.parent;
+		} else if (NAME_PATTERN.test(tag)) {
+			current.push({ type: "var", name: tag });
+		} else {
+			current.push({ type: "text", value: match[0] });
+		}
+	}
+
+	if (lastIndex < template.length) {
+		current.push({ type: "text", value: template.slice(lastIndex) });
+	}
+
+	const unclosed = stack[stack.length - 1];
+	if (unclosed) {
+		throw new ValidationError(
+			`Unclosed {{#${unclosed.node.type}}} block`,
+			"template",
+		);
+	}
+
+	return root;
+}
+
+function toText(value: TemplateValue): string {
+	if (Array.isArray(value)) return value.join(", ");
+	if (typeof value === "boolean") return value ? "true" : "false";
+	return value ?? "";
+}
+
+function isTruthy(value: TemplateValue): boolean {
+	if (Array.isArray(value)) return value.length > 0;
+	return !!value;
+}
+
+function evaluate(condition: Condition, variables: TemplateVariables): boolean {
+	const value = variables[condition.name];
+	switch (condition.operator) {
+		case "==":
+			return toText(value) === condition.value;
+		case "!=":
+			return toText(value) !== condition.value;
+		case "contains":
+			return Array.isArray(value)
+				? value.includes(condition.value ?? "")
+				: toText(value).includes(condition.value ?? "");
+		default:
+			return isTruthy(value);
+	}
+}
+
+function renderNodes(
+	nodes: TemplateNode[],
+	variables: TemplateVariables,
+): string {
+	let output = "";
+	for (const node of nodes) {
+		switch (node.type) {
+			case "text":
+				output += node.value;
+				break;
+			case "var":
+				// Unknown variables are left as written rather than silently dropped
+				output +=
+					node.name in variables
+						? toText(variables[node.name])
+						: `{{${node.name}}}`;
+				break;
+			case "if":
+				output += renderNodes(
+					evaluate(node.condition, variables)
+						? node.consequent
+						: node.otherwise,
+					variables,
+				);
+				break;
+			case "each": {
+				const items = variables[node.name];
+				if (Array.isArray(items)) {
+					for (const item of items) {
+						output += renderNodes(node.body, { ...variables, this: item });
+					}
+				}
+				break;
+			}
+		}
+	}
+	return output;
+}
+
+/**
+ * Renders a replacement prompt template
+ * @param template - The template source
+ * @param variables - Values for the template variables
+ * @returns The rendered prompt
+ * @throws {ValidationError} If the template cannot be parsed
+ */
+export function renderPromptTemplate(
+	template: string,
+	variables: TemplateVariables,
+): string {
+	return renderNodes(parseTemplate(template), variables);
+}
+
+/**
+ * Validates a replacement prompt template
+ * @param template - The template source
+ * @param knownVariables - Variable names the template may use
+ * @returns A list of problems, empty if the template is valid
+ */
+export function validatePromptTemplate(
+	template: string,
+	knownVariables: readonly string[] = Object.keys(PROMPT_TEMPLATE_VARIABLES),
+): string[] {
+	let nodes: TemplateNode[];
+	try {
+		nodes = parseTemplate(template);
+	} catch (error) {
+		return [error instanceof Error ? error.message : String(error)];
+	}
+
+	const unknown = new Set<string>();
+	const visit = (list: TemplateNode[], inLoop: boolean) => {
+		for (const node of list) {
+			const check = (name: string) => {
+				if (!(name === "this" && inLoop) && !knownVariables.includes(name)) {
+					unknown.add(name);
+				}
+			};
+			if (node.type === "var") check(node.name);
+			if (node.type === "if") {
+				check(node.condition.name);
+				visit(node.consequent, inLoop);
+				visit(node.otherwise, inLoop);
+			}
+			if (node.type === "each") {
+				check(node.name);
+				visit(node.body, true);
+			}
+		}
+	};
+	visit(nodes, false);
+
+	return [...unknown].map((name) => `Unknown template variable {{${name}}}`);
+}
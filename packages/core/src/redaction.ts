@@ -0,0 +1,323 @@
+import { ValidationError } from "./errors";
+
+/**
+ * Redaction of secrets and personal data in stored request/response bodies.
+ *
+ * Rules use a built-in detector or a custom regular expression. A "mask" rule
+ * replaces each match with [REDACTED:<rule name>]; a "drop" rule removes the
+ * whole JSON field (or text line) that contains a match.
+ */
+
+export type RedactionAction = "mask" | "drop";
+
+export const REDACTION_ACTIONS: readonly RedactionAction[] = ["mask", "drop"];
+
+// Built-in detectors, with labels for the UI
+export const REDACTION_DETECTORS = {
+	api_key: {
+		label: "API keys",
+		description:
+			"Anthropic, OpenAI, GitHub, Slack, Google and ccflare client keys",
+		pattern:
+			/\b(?:sk-ant-[\w-]{20,}|sk-(?:proj-)?[\w-]{20,}|gh[pousr]_[A-Za-z0-9]{36,}|github_pat_\w{22,}|xox[abposr]-[\w-]{10,}|AIza[\w-]{35}|ccf_[\w-]{20,})/g,
+	},
+	aws_key: {
+		label: "AWS keys",
+		description: "Access key ids and secret access key assignments",
+		pattern:
+			/\b(?:AKIA|ASIA)[0-9A-Z]{16}\b|aws_secret_access_key\s*[=:]\s*["']?[A-Za-z0-9/+=]{40}/gi,
+	},
+	private_key: {
+		label: "Private keys",
+		description: "PEM-encoded private key blocks",
+		pattern:
+			/-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+	},
+	jwt: {
+		label: "JWTs",
+		description: "JSON Web Tokens",
+		pattern: /\beyJ[\w-]+\.eyJ[\w-]+\.[\w-]+/g,
+	},
+	email: {
+		label: "Email addresses",
+		description: "Anything shaped like name@domain.tld",
+		pattern: /\b[\w.%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+	},
+} as const;
+
+export type RedactionDetector = keyof typeof REDACTION_DETECTORS;
+
+export interface RedactionRuleSpec {
+	name: string;
+	/** Built-in detector; takes precedence over pattern */
+	detector?: string | null;
+	/** Custom regular expression, used when no detector is set */
+	pattern?: string | null;
+	action: RedactionAction;
+}
+
+interface CompiledRule {
+	name: string;
+	regex: RegExp;
+	action: RedactionAction;
+}
+
+// Returned by redactValue for values that a drop rule removes
+const DROPPED = Symbol("dropped");
+
+// Delta fields that a streamed content block is split across
+const DELTA_FIELDS = ["text", "partial_json", "thinking"] as const;
+
+interface StreamEvent {
+	type?: string;
+	index?: number;
+	delta?: Record<string, unknown>;
+}
+
+// One content_block_delta chunk and the field carrying its piece of the block
+interface BlockChunk {
+	delta: Record<string, unknown>;
+	field: (typeof DELTA_FIELDS)[number];
+}
+
+export function isRedactionDetector(
+	value: unknown,
+): value is RedactionDetector {
+	return typeof value === "string" && value in REDACTION_DETECTORS;
+}
+
+export function isRedactionAction(value: unknown): value is RedactionAction {
+	return REDACTION_ACTIONS.includes(value as RedactionAction);
+}
+
+function compileRule(rule: RedactionRuleSpec): CompiledRule {
+	if (rule.detector) {
+		if (!isRedactionDetector(rule.detector)) {
+			throw new ValidationError(
+				`Unknown detector '${rule.detector}'`,
+				"detector",
+				rule.detector,
+			);
+		}
+		const { pattern } = REDACTION_DETECTORS[rule.detector];
+		return {
+			name: rule.name,
+			regex: new RegExp(pattern.source, pattern.flags),
+			action: rule.action,
+		};
+	}
+
+	if (!rule.pattern) {
+		throw new ValidationError(
+			"A rule needs a detector or a pattern",
+			"pattern",
+		);
+	}
+	try {
+		return {
+			name: rule.name,
+			regex: new RegExp(rule.pattern, "g"),
+			action: rule.action,
+		};
+	} catch (error) {
+		throw new ValidationError(
+			`Invalid pattern: ${(error as Error).message}`,
+			"pattern",
+			rule.pattern,
+		);
+	}
+}
+
+/**
+ * Checks that a rule can be compiled
+ * @throws {ValidationError} If the detector is unknown or the pattern is invalid
+ */
+export function validateRedactionRule(rule: RedactionRuleSpec): void {
+	compileRule(rule);
+	if (!isRedactionAction(rule.action)) {
+		throw new ValidationError(
+			`action must be one of: ${REDACTION_ACTIONS.join(", ")}`,
+			"action",
+			rule.action,
+		);
+	}
+}
+
+export class PayloadRedactor {
+	private rules: CompiledRule[] = [];
+
+	/**
+	 * @param onInvalidRule - Called for rules that cannot be compiled; they are skipped
+	 */
+	constructor(
+		rules: RedactionRuleSpec[],
+		onInvalidRule?: (rule: RedactionRuleSpec, error: Error) => void,
+	) {
+		for (const rule of rules) {
+			try {
+				this.rules.push(compileRule(rule));
+			} catch (error) {
+				onInvalidRule?.(rule, error as Error);
+			}
+		}
+	}
+
+	get isEmpty(): boolean {
+		return this.rules.length === 0;
+	}
+
+	private shouldDrop(text: string): boolean {
+		return this.rules.some((rule) => {
+			if (rule.action !== "drop") return false;
+			rule.regex.lastIndex = 0;
+			return rule.regex.test(text);
+		});
+	}
+
+	/**
+	 * Masks matches of the mask rules in a piece of text
+	 */
+	maskText(text: string): string {
+		let result = text;
+		for (const rule of this.rules) {
+			if (rule.action === "mask") {
+				result = result.replace(rule.regex, `[REDACTED:${rule.name}]`);
+			}
+		}
+		return result;
+	}
+
+	private redactValue(value: unknown): unknown {
+		if (typeof value === "string") {
+			return this.shouldDrop(value) ? DROPPED : this.maskText(value);
+		}
+		if (Array.isArray(value)) {
+			return value
+				.map((item) => this.redactValue(item))
+				.filter((item) => item !== DROPPED);
+		}
+		if (value && typeof value === "object") {
+			const result: Record<string, unknown> = {};
+			for (const [key, item] of Object.entries(value)) {
+				const redacted = this.redactValue(item);
+				if (redacted !== DROPPED) {
+					result[key] = redacted;
+				}
+			}
+			return result;
+		}
+		return value;
+	}
+
+	private redactJson(json: unknown): string {
+		const redacted = this.redactValue(json);
+		return JSON.stringify(redacted === DROPPED ? null : redacted);
+	}
+
+	/**
+	 * Redacts the text rebuilt from one content block's deltas. When anything
+	 * changes, the first chunk carries the redacted block and the rest are
+	 * emptied, so secrets split across chunks are caught as a whole.
+	 */
+	private redactBlock(chunks: BlockChunk[]): void {
+		const full = chunks.map((chunk) => chunk.delta[chunk.field]).join("");
+		let redacted: string;
+		if (chunks[0].field === "partial_json") {
+			try {
+				const input = JSON.parse(full);
+				const compact = JSON.stringify(input);
+				redacted = this.redactJson(input);
+				if (redacted === compact) return;
+			} catch {
+				// Incomplete tool input; treat as text
+				redacted = this.shouldDrop(full) ? "" : this.maskText(full);
+			}
+		} else {
+			redacted = this.shouldDrop(full) ? "" : this.maskText(full);
+		}
+		if (redacted === full) return;
+
+		chunks.forEach((chunk, i) => {
+			chunk.delta[chunk.field] = i === 0 ? redacted : "";
+		});
+	}
+
+	/**
+	 * Redacts an SSE stream. Content blocks are rebuilt from their deltas and
+	 * redacted whole; other JSON `data:` lines are redacted field by field and
+	 * the remaining lines as text.
+	 */
+	private redactStream(text: string): string {
+		const lines = text.split("\n").map((line) => {
+			if (!line.startsWith("data: ")) return { line };
+			try {
+				return { line, event: JSON.parse(line.slice(6)) as StreamEvent };
+			} catch {
+				// Not JSON data; treat as text
+				return { line };
+			}
+		});
+
+		const blocks: BlockChunk[][] = [];
+		const openBlocks = new Map<number, BlockChunk[]>();
+		for (const { event } of lines) {
+			if (typeof event?.index !== "number") continue;
+			if (event.type === "content_block_start") {
+				const chunks: BlockChunk[] = [];
+				openBlocks.set(event.index, chunks);
+				blocks.push(chunks);
+			} else if (event.type === "content_block_delta" && event.delta) {
+				const delta = event.delta;
+				const field = DELTA_FIELDS.find(
+					(name) => typeof delta[name] === "string",
+				);
+				if (!field) continue;
+				let chunks = openBlocks.get(event.index);
+				if (!chunks) {
+					chunks = [];
+					openBlocks.set(event.index, chunks);
+					blocks.push(chunks);
+				}
+				chunks.push({ delta, field });
+			}
+		}
+		for (const chunks of blocks) {
+			if (chunks.length > 0) this.redactBlock(chunks);
+		}
+
+		const result: string[] = [];
+		for (const { line, event } of lines) {
+			if (event !== undefined) {
+				result.push(`data: ${this.redactJson(event)}`);
+			} else if (!this.shouldDrop(line)) {
+				result.push(this.maskText(line));
+			}
+		}
+		return result.join("\n");
+	}
+
+	/**
+	 * Redacts a decoded body: JSON is redacted field by field, anything else
+	 * (such as an SSE stream) line by line, with streamed content blocks
+	 * redacted as a whole
+	 */
+	redactText(text: string): string {
+		try {
+			return this.redactJson(JSON.parse(text));
+		} catch {
+			// Not a JSON document
+		}
+		return this.redactStream(text);
+	}
+
+	/**
+	 * Redacts a base64-encoded body as stored in request payloads
+	 */
+	redactBody(body: string | null | undefined): string | null {
+		if (!body) return body ?? null;
+		if (this.isEmpty) return body;
+
+		const text = Buffer.from(body, "base64").toString("utf-8");
+		return Buffer.from(this.redactText(text), "utf-8").toString("base64");
+	}
+}
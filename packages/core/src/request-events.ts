@@ -21,10 +21,17 @@ export type RequestPayloadEvt = {
 	payload: import("@ccflare/types").RequestPayload;
 };
 
+export type TokenRefreshFailedEvt = {
+	type: "token_refresh_failed";
+	accountId: string;
+	timestamp: number;
+};
+
 export type RequestEvt =
 	| RequestStartEvt
 	| RequestSummaryEvt
-	| RequestPayloadEvt;
+	| RequestPayloadEvt
+	| TokenRefreshFailedEvt;
 
 class RequestEventBus extends EventEmitter {}
 export const requestEvents = new RequestEventBus();
@@ -10,6 +10,20 @@ export function isValidStrategy(strategy: string): strategy is StrategyName {
 // Default load balancing strategy
 export const DEFAULT_STRATEGY = StrategyName.Session;
 
+// Short human-readable descriptions shown in the TUI and dashboard
+export const STRATEGY_DESCRIPTIONS: Record<StrategyName, string> = {
+	[StrategyName.Session]:
+		"Maintains 5-hour sessions with a single account to minimize rate limits",
+	[StrategyName.RoundRobin]:
+		"Rotates through available accounts on every request",
+	[StrategyName.LeastRequests]:
+		"Sends each request to the account with the fewest requests in its session window",
+	[StrategyName.Weighted]:
+		"Distributes requests in proportion to account tier (1x, 5x, 20x)",
+	[StrategyName.Headroom]:
+		"Prefers accounts with the most rate limit headroom and avoids ones forecast to run out",
+};
+
 // Helper to check if an account is available (not rate-limited or paused)
 export function isAccountAvailable(
 	account: Account,
@@ -0,0 +1,154 @@
+export type DiffLineType = "equal" | "added" | "removed";
+
+export interface DiffLine {
+	type: DiffLineType;
+	text: string;
+	/** 1-based line number in the old text (absent for added lines) */
+	oldLine?: number;
+	/** 1-based line number in the new text (absent for removed lines) */
+	newLine?: number;
+}
+
+export interface TextDiff {
+	lines: DiffLine[];
+	added: number;
+	removed: number;
+}
+
+// Above this many stored edit-path cells (4 bytes each, (D + 1)^2 for D
+// edits) the changed region is reported as a full replace
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Finds the shortest edit script between two line arrays with Myers' O(ND)
+ * algorithm, keeping only the diagonals each edit round can reach
+ * @returns The diff lines in order, or null if it needs over MAX_DIFF_CELLS
+ */
+function myersDiff(
+	a: string[],
+	b: string[],
+	lineOffset: number,
+): DiffLine[] | null {
+	const n = a.length;
+	const m = b.length;
+	const max = n + m;
+	const offset = max + 1;
+	// v[offset + k] = furthest x reached on diagonal k = x - y
+	const v = new Int32Array(2 * max + 3);
+	// trace[d][k + d] = v[offset + k] after round d
+	const trace: Int32Array[] = [];
+
+	let edits = -1;
+	for (let d = 0; d <= max && edits < 0; d++) {
+		if ((d + 1) * (d + 1) > MAX_DIFF_CELLS) return null;
+		for (let k = -d; k <= d; k += 2) {
+			let x =
+				k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+					? v[offset + k + 1]
+					: v[offset + k - 1] + 1;
+			let y = x - k;
+			while (x < n && y < m && a[x] === b[y]) {
+				x++;
+				y++;
+			}
+			v[offset + k] = x;
+			if (x >= n && y >= m) {
+				edits = d;
+				break;
+			}
+		}
+		trace.push(v.slice(offset - d, offset + d + 1));
+	}
+
+	// Walk the edit path back from the end
+	const reversed: DiffLine[] = [];
+	let x = n;
+	let y = m;
+	const pushEqual = () => {
+		reversed.push({
+			type: "equal",
+			text: a[x - 1],
+			oldLine: lineOffset + x,
+			newLine: lineOffset + y,
+		});
+		x--;
+		y--;
+	};
+	for (let d = edits; d > 0; d--) {
+		const previous = trace[d - 1];
+		const k = x - y;
+		const down =
+			k === -d ||
+			(k !== d && previous[k - 1 + d - 1] < previous[k + 1 + d - 1]);
+		const previousK = down ? k + 1 : k - 1;
+		const previousX = previous[previousK + d - 1];
+		const previousY = previousX - previousK;
+		while (x > previousX && y > previousY) pushEqual();
+		if (down) {
+			reversed.push({ type: "added", text: b[y - 1], newLine: lineOffset + y });
+			y--;
+		} else {
+			reversed.push({
+				type: "removed",
+				text: a[x - 1],
+				oldLine: lineOffset + x,
+			});
+			x--;
+		}
+	}
+	while (x > 0 && y > 0) pushEqual();
+
+	return reversed.reverse();
+}
+
+/**
+ * Computes a line-based diff between two texts. The result is a longest
+ * common subsequence of their lines, found in time and memory that grow with
+ * the number of changed lines rather than the size of the texts.
+ * @param oldText - The original text
+ * @param newText - The changed text
+ * @returns Every line of both texts tagged as equal, added or removed
+ */
+export function diffLines(oldText: string, newText: string): TextDiff {
+	const a = oldText.split("\n");
+	const b = newText.split("\n");
+
+	// Trim the common prefix and suffix so the diff only covers the changes
+	let start = 0;
+	while (start < a.length && start < b.length && a[start] === b[start]) {
+		start++;
+	}
+	let endA = a.length;
+	let endB = b.length;
+	while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+		endA--;
+		endB--;
+	}
+
+	const lines: DiffLine[] = [];
+	for (let i = 0; i < start; i++) {
+		lines.push({ type: "equal", text: a[i], oldLine: i + 1, newLine: i + 1 });
+	}
+
+	const middle = myersDiff(a.slice(start, endA), b.slice(start, endB), start);
+	if (middle) {
+		lines.push(...middle);
+	} else {
+		for (let i = start; i < endA; i++) {
+			lines.push({ type: "removed", text: a[i], oldLine: i + 1 });
+		}
+		for (let j = start; j < endB; j++) {
+			lines.push({ type: "added", text: b[j], newLine: j + 1 });
+		}
+	}
+
+	for (let i = endA, j = endB; i < a.length; i++, j++) {
+		lines.push({ type: "equal", text: a[i], oldLine: i + 1, newLine: j + 1 });
+	}
+
+	return {
+		lines,
+		added: lines.filter((line) => line.type === "added").length,
+		removed: lines.filter((line) => line.type === "removed").length,
+	};
+}
@@ -1,18 +1,36 @@
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { HttpError } from "@ccflare/http-common";
+import {
+	QueryCache,
+	QueryClient,
+	QueryClientProvider,
+} from "@tanstack/react-query";
 import { Navigate, Route, Routes, useLocation } from "react-router-dom";
 import { AccountsTab } from "./components/AccountsTab";
 import { AgentsTab } from "./components/AgentsTab";
 import { AnalyticsTab } from "./components/AnalyticsTab";
+import { ApiKeysTab } from "./components/ApiKeysTab";
+import { LoginPage } from "./components/LoginPage";
 import { LogsTab } from "./components/LogsTab";
 import { Navigation } from "./components/navigation";
 import { OverviewTab } from "./components/OverviewTab";
 import { RequestsTab } from "./components/RequestsTab";
+import { SessionsTab } from "./components/SessionsTab";
 import { ToolsTab } from "./components/ToolsTab";
 import { QUERY_CONFIG, REFRESH_INTERVALS } from "./constants";
 import { ThemeProvider } from "./contexts/theme-context";
+import { useAuthSession } from "./hooks/queries";
+import { queryKeys } from "./lib/query-keys";
 import "./index.css";
 
 const queryClient = new QueryClient({
+	// An expired session surfaces as 401 on any query; recheck the login state
+	queryCache: new QueryCache({
+		onError: (error) => {
+			if (error instanceof HttpError && error.status === 401) {
+				queryClient.invalidateQueries({ queryKey: queryKeys.authSession() });
+			}
+		},
+	}),
 	defaultOptions: {
 		queries: {
 			refetchInterval: REFRESH_INTERVALS.default, // Refetch every 30 seconds
@@ -40,6 +58,13 @@ const routes = [
 		title: "Request History",
 		subtitle: "View detailed request and response data",
 	},
+	{
+		path: "/sessions",
+		element: <SessionsTab />,
+		title: "Sessions",
+		subtitle:
+			"Replay whole conversations with their running token and cost totals",
+	},
 	{
 		path: "/accounts",
 		element: <AccountsTab />,
@@ -58,6 +83,12 @@ const routes = [
 		title: "Tools",
 		subtitle: "Configure and manage system tools and interceptors",
 	},
+	{
+		path: "/keys",
+		element: <ApiKeysTab />,
+		title: "API Keys",
+		subtitle: "Issue and revoke the keys clients use to call the proxy",
+	},
 	{
 		path: "/logs",
 		element: <LogsTab />,
@@ -66,6 +97,21 @@ const routes = [
 	},
 ];
 
+/**
+ * Shows the login page while a login is required and missing
+ */
+function AuthGate({ children }: { children: React.ReactNode }) {
+	const { data: session, isLoading } = useAuthSession();
+
+	if (isLoading) {
+		return <div className="min-h-screen bg-background" />;
+	}
+	if (session?.authRequired && !session.user) {
+		return <LoginPage />;
+	}
+	return <>{children}</>;
+}
+
 export function App() {
 	const location = useLocation();
 	const currentRoute =
@@ -74,42 +120,44 @@ export function App() {
 	return (
 		<QueryClientProvider client={queryClient}>
 			<ThemeProvider>
-				<div className="min-h-screen bg-background">
-					<Navigation />
+				<AuthGate>
+					<div className="min-h-screen bg-background">
+						<Navigation />
 
-					{/* Main Content */}
-					<main className="lg:pl-64">
-						{/* Mobile spacer */}
-						<div className="h-16 lg:hidden" />
+						{/* Main Content */}
+						<main className="lg:pl-64">
+							{/* Mobile spacer */}
+							<div className="h-16 lg:hidden" />
 
-						{/* Page Content */}
-						<div className="p-4 md:p-6 lg:p-8 max-w-[1600px] mx-auto">
-							{/* Page Header */}
-							<div className="mb-8">
-								<h1 className="text-3xl font-bold gradient-text">
-									{currentRoute.title}
-								</h1>
-								<p className="text-muted-foreground mt-2">
-									{currentRoute.subtitle}
-								</p>
-							</div>
+							{/* Page Content */}
+							<div className="p-4 md:p-6 lg:p-8 max-w-[1600px] mx-auto">
+								{/* Page Header */}
+								<div className="mb-8">
+									<h1 className="text-3xl font-bold gradient-text">
+										{currentRoute.title}
+									</h1>
+									<p className="text-muted-foreground mt-2">
+										{currentRoute.subtitle}
+									</p>
+								</div>
 
-							{/* Tab Content */}
-							<div className="animate-in fade-in-0 duration-200">
-								<Routes>
-									{routes.map((route) => (
-										<Route
-											key={route.path}
-											path={route.path}
-											element={route.element}
-										/>
-									))}
-									<Route path="*" element={<Navigate to="/" replace />} />
-								</Routes>
+								{/* Tab Content */}
+								<div className="animate-in fade-in-0 duration-200">
+									<Routes>
+										{routes.map((route) => (
+											<Route
+												key={route.path}
+												path={route.path}
+												element={route.element}
+											/>
+										))}
+										<Route path="*" element={<Navigate to="/" replace />} />
+									</Routes>
+								</div>
 							</div>
-						</div>
-					</main>
-				</div>
+						</main>
+					</div>
+				</AuthGate>
 			</ThemeProvider>
 		</QueryClientProvider>
 	);
@@ -1,13 +1,24 @@
-import { HttpClient, HttpError } from "@ccflare/http-common";
+import type { DiffLine, JsonChange } from "@ccflare/core";
+import {
+	HttpClient,
+	HttpError,
+	type RequestOptions,
+} from "@ccflare/http-common";
 import type {
 	AccountResponse,
 	Agent,
 	AgentUpdatePayload,
 	AgentWorkspace,
 	AnalyticsResponse,
+	ConversationPage,
+	ConversationSummary,
+	ConversationTimeline,
 	LogEvent,
+	RequestFilters,
+	RequestPage,
 	RequestPayload,
 	RequestResponse,
+	RequestTextMatch,
 	StatsWithAccounts,
 } from "@ccflare/types";
 import { API_LIMITS, API_TIMEOUT } from "./constants";
@@ -22,8 +33,15 @@ export type RequestSummary = RequestResponse;
 export type {
 	Agent,
 	AgentWorkspace,
+	ConversationSummary,
+	ConversationTimeline,
+	ConversationTurn,
+	RequestFilters,
+	RequestPage,
 	RequestPayload,
 	RequestResponse,
+	RequestTextMatch,
+	SearchSnippetPart,
 } from "@ccflare/types";
 
 // Agent response interface
@@ -47,12 +65,50 @@ export interface Tool {
 }
 
 /**
- * Configuration for the system prompt interceptor feature
- * Controls how system prompts are intercepted and modified
+ * Rules deciding which requests an interceptor profile applies to
  */
-export interface SystemPromptConfig {
-	/** Whether the system prompt interceptor is enabled */
+export interface InterceptorMatchRules {
+	/** Working directory prefix from the <env> block */
+	workspacePath?: string;
+	/** Case-insensitive substring of the request model */
+	model?: string;
+	/** "main", "subagent", "any" or a detected agent id (defaults to "main") */
+	agent?: string;
+	/** Regular expression tested against the original system prompt */
+	promptPattern?: string;
+}
+
+/**
+ * Per-tool override settings
+ */
+export interface ToolOverrideConfig {
+	isEnabled: boolean;
+	description?: string;
+	/** Parameters removed from the tool's input_schema */
+	hiddenParameters?: string[];
+	/** Deep-merged into the tool's input_schema; null values delete keys */
+	schemaPatch?: Record<string, unknown>;
+}
+
+/**
+ * A tool definition injected into requests by a profile
+ */
+export interface SyntheticToolConfig {
+	name: string;
+	description?: string;
+	input_schema: Record<string, unknown>;
+}
+
+/**
+ * A named system prompt interceptor profile
+ */
+export interface InterceptorProfile {
+	id: string;
+	name: string;
+	/** Whether the profile is applied to matching requests */
 	isEnabled: boolean;
+	/** Higher priorities are applied over lower ones */
+	priority: number;
 	/** Configuration for prompt interception and tool overrides */
 	config: {
 		/** The target prompt to look for and replace */
@@ -60,12 +116,248 @@ export interface SystemPromptConfig {
 		/** The replacement prompt with {{env_block}} placeholder for environment variables */
 		replacementPrompt: string;
 		/** Per-tool override settings */
-		tools: Record<string, { isEnabled: boolean; description?: string }>;
+		tools: Record<string, ToolOverrideConfig>;
+		/** Tools appended to requests that carry a tools array */
+		syntheticTools?: SyntheticToolConfig[];
+		/** Tool names moved to the front in this order */
+		toolOrder?: string[];
+		/** Request match rules */
+		match?: InterceptorMatchRules;
 	};
+}
+
+/**
+ * A profile together with the tools seen in the last main agent request
+ */
+export interface InterceptorProfileDetail extends InterceptorProfile {
 	/** List of available tools from the last-seen main agent request */
 	availableTools: Tool[];
 }
 
+/**
+ * Fields accepted when creating or updating a profile
+ */
+export interface InterceptorProfileInput {
+	name?: string;
+	isEnabled?: boolean;
+	priority?: number;
+	config?: Partial<
+		Pick<
+			InterceptorProfile["config"],
+			"replacementPrompt" | "tools" | "syntheticTools" | "toolOrder" | "match"
+		>
+	>;
+}
+
+export type PromptHistoryKind = "system_prompt" | "tools";
+
+/**
+ * A distinct upstream system prompt or tools array
+ */
+export interface PromptVersionSummary {
+	id: number;
+	kind: PromptHistoryKind;
+	contentHash: string;
+	/** When this version was first seen (ms since epoch) */
+	firstSeen: number;
+	/** When this version was last seen (ms since epoch) */
+	lastSeen: number;
+	/** Number of main agent requests that carried this version */
+	seenCount: number;
+	/** Content length in characters */
+	size: number;
+}
+
+/**
+ * Line diff between two versions of the same kind
+ */
+export interface PromptVersionDiff {
+	kind: PromptHistoryKind;
+	from: PromptVersionSummary;
+	to: PromptVersionSummary;
+	lines: DiffLine[];
+	added: number;
+	removed: number;
+	/** Tool names added, removed or changed (tools diffs only) */
+	toolChanges?: { added: string[]; removed: string[]; changed: string[] };
+}
+
+/**
+ * Why an interceptor profile did or did not match a previewed request
+ */
+export interface ProfileMatchResult {
+	id: string;
+	name: string;
+	priority: number;
+	isEnabled: boolean;
+	matched: boolean;
+	reason: string;
+}
+
+/**
+ * Result of running the interceptors against a request without sending it
+ */
+export interface InterceptorPreviewResult {
+	/** Stored request the body was loaded from, if any */
+	requestId: string | null;
+	original: unknown;
+	transformed: unknown;
+	changes: JsonChange[];
+	agent: {
+		agentUsed: string | null;
+		agentName: string | null;
+		originalModel: string | null;
+		appliedModel: string | null;
+		reason: string;
+	};
+	systemPrompt: {
+		agentType: "main" | "subagent" | "other" | null;
+		workspacePath: string | null;
+		profiles: ProfileMatchResult[];
+		/** Profile whose replacement prompt was applied */
+		promptProfileId: string | null;
+		/** Profiles whose prompt or tool rules changed the request */
+		appliedProfileIds: string[];
+		/** Why the system prompt interceptor did nothing, if it did not run */
+		skippedReason: string | null;
+	};
+	/** Estimated input tokens of system, tools and messages */
+	tokens: { before: number; after: number; delta: number };
+}
+
+/**
+ * A client API key for the proxy; the secret is only returned on creation
+ */
+export interface ApiKeyInfo {
+	id: string;
+	name: string;
+	/** Start of the key, for recognising it */
+	prefix: string;
+	createdAt: number;
+	lastUsed: number | null;
+	revokedAt: number | null;
+	requestCount: number;
+	limits: ApiKeyLimits;
+	/** Included when listing keys */
+	quota?: ApiKeyQuota;
+}
+
+/**
+ * Quotas of a client key; null means unlimited
+ */
+export interface ApiKeyLimits {
+	requestsPerMinute: number | null;
+	tokensPerDay: number | null;
+	usdPerMonth: number | null;
+}
+
+export interface ApiKeyQuota {
+	limits: ApiKeyLimits;
+	usage: {
+		requestsLastMinute: number;
+		tokensToday: number;
+		usdThisMonth: number;
+	};
+	remaining: ApiKeyLimits;
+	resets: { minute: number; day: number; month: number };
+}
+
+export interface CreatedApiKey extends ApiKeyInfo {
+	key: string;
+}
+
+export type PayloadStorageMode = "full" | "metadata_only";
+
+export type RedactionAction = "mask" | "drop";
+
+export interface RedactionRule {
+	id: string;
+	name: string;
+	/** Built-in detector id, or null for a custom pattern */
+	detector: string | null;
+	pattern: string | null;
+	action: RedactionAction;
+	isEnabled: boolean;
+	createdAt: number;
+}
+
+export interface RedactionRuleInput {
+	name: string;
+	detector?: string;
+	pattern?: string;
+	action: RedactionAction;
+}
+
+export interface RedactionDetectorInfo {
+	id: string;
+	label: string;
+	description: string;
+}
+
+export interface RedactionSettings {
+	mode: PayloadStorageMode;
+	rules: RedactionRule[];
+	detectors: RedactionDetectorInfo[];
+}
+
+export interface RoutingMatchRules {
+	/** Case-insensitive substring of the model */
+	model?: string;
+	/** "main" or a detected agent id */
+	agent?: string;
+	/** Request path prefix */
+	path?: string;
+	/** Client API key id */
+	apiKeyId?: string;
+	header?: { name: string; value?: string };
+}
+
+export interface RoutingRule {
+	id: string;
+	name: string;
+	priority: number;
+	match: RoutingMatchRules;
+	group: string;
+	fallbackGroups: string[];
+	isEnabled: boolean;
+	createdAt: number;
+}
+
+export type RoutingRuleInput = Pick<
+	RoutingRule,
+	"name" | "priority" | "match" | "group" | "fallbackGroups"
+>;
+
+export interface RoutingSettings {
+	rules: RoutingRule[];
+	/** Groups accounts are tagged with and the accounts in each */
+	groups: Array<{ name: string; accounts: string[] }>;
+}
+
+export interface ModelFallbackChain {
+	model: string;
+	/** Models tried in order once the model fails on every account */
+	fallbacks: string[];
+	updatedAt: number;
+}
+
+export type InterceptorPreviewInput = { body: unknown } | { requestId: string };
+
+export type DashboardRole = "viewer" | "admin";
+
+export interface AuthSession {
+	/** False until a dashboard user or the admin token is configured */
+	authRequired: boolean;
+	user: { username: string; role: DashboardRole } | null;
+	csrfToken: string | null;
+}
+
+export type LoginCredentials =
+	| { username: string; password: string }
+	| { token: string };
+
+const SAFE_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
 class API extends HttpClient {
 	constructor() {
 		super({
@@ -78,6 +370,43 @@ class API extends HttpClient {
 		});
 	}
 
+	// CSRF token of the current session, sent with every state-changing request
+	private csrfToken: string | null = null;
+
+	override request<T = unknown>(
+		url: string,
+		options: RequestOptions = {},
+	): Promise<T> {
+		const method = (options.method ?? "GET").toUpperCase();
+		if (!this.csrfToken || SAFE_METHODS.has(method)) {
+			return super.request<T>(url, options);
+		}
+		return super.request<T>(url, {
+			...options,
+			headers: { ...options.headers, "x-csrf-token": this.csrfToken },
+		});
+	}
+
+	async getAuthSession(): Promise<AuthSession> {
+		const session = await this.get<AuthSession>("/api/auth/session");
+		this.csrfToken = session.csrfToken;
+		return session;
+	}
+
+	async login(credentials: LoginCredentials): Promise<AuthSession> {
+		const result = await this.post<Pick<AuthSession, "user" | "csrfToken">>(
+			"/api/auth/login",
+			credentials,
+		);
+		this.csrfToken = result.csrfToken;
+		return { authRequired: true, ...result };
+	}
+
+	async logout(): Promise<void> {
+		await this.post("/api/auth/logout");
+		this.csrfToken = null;
+	}
+
 	async getStats(): Promise<Stats> {
 		return this.get<Stats>("/api/stats");
 	}
@@ -104,6 +433,44 @@ class API extends HttpClient {
 		}
 	}
 
+	async addApiKeyAccount(data: {
+		name: string;
+		apiKey: string;
+		tier: number;
+	}): Promise<{ message: string; accountId: string }> {
+		try {
+			return await this.post<{ message: string; accountId: string }>(
+				"/api/accounts",
+				data,
+			);
+		} catch (error) {
+			if (error instanceof HttpError) {
+				throw new Error(error.message);
+			}
+			throw error;
+		}
+	}
+
+	async addOpenAICompatibleAccount(data: {
+		name: string;
+		baseUrl: string;
+		apiKey?: string;
+		modelMap: Record<string, string>;
+		tier: number;
+	}): Promise<{ message: string; accountId: string }> {
+		try {
+			return await this.post<{ message: string; accountId: string }>(
+				"/api/accounts",
+				{ ...data, provider: "openai-compatible" },
+			);
+		} catch (error) {
+			if (error instanceof HttpError) {
+				throw new Error(error.message);
+			}
+			throw error;
+		}
+	}
+
 	async completeAddAccount(data: {
 		sessionId: string;
 		code: string;
@@ -165,10 +532,76 @@ class API extends HttpClient {
 		return this.get<RequestPayload[]>(`/api/requests/detail?limit=${limit}`);
 	}
 
-	async getRequestsSummary(
+	/**
+	 * Search the request history, one page at a time
+	 * @param cursor - nextCursor of the previous page
+	 */
+	async getRequests(
+		filters: RequestFilters = {},
+		cursor: string | null = null,
 		limit: number = API_LIMITS.requestsSummary,
-	): Promise<RequestSummary[]> {
-		return this.get<RequestSummary[]>(`/api/requests?limit=${limit}`);
+	): Promise<RequestPage<RequestSummary>> {
+		const params = new URLSearchParams({ limit: String(limit) });
+		for (const [key, value] of Object.entries(filters)) {
+			if (Array.isArray(value)) {
+				if (value.length > 0) params.set(key, value.join(","));
+			} else if (value !== undefined && value !== "") {
+				params.set(key, String(value));
+			}
+		}
+		if (cursor) {
+			params.set("cursor", cursor);
+		}
+		return this.get<RequestPage<RequestSummary>>(`/api/requests?${params}`);
+	}
+
+	/**
+	 * Full-text search over prompts, responses and tool calls, best matches
+	 * first
+	 */
+	async searchRequestText(
+		query: string,
+		limit: number = API_LIMITS.requestsSummary,
+	): Promise<RequestTextMatch[]> {
+		const params = new URLSearchParams({ q: query, limit: String(limit) });
+		const data = await this.get<{ results: RequestTextMatch[] }>(
+			`/api/requests/search?${params}`,
+		);
+		return data.results;
+	}
+
+	/**
+	 * Get the stored payload of a request, or null once it has been pruned
+	 */
+	async getRequestPayload(id: string): Promise<RequestPayload | null> {
+		try {
+			return await this.get<RequestPayload>(
+				`/api/requests/${encodeURIComponent(id)}`,
+			);
+		} catch (error) {
+			if (error instanceof HttpError && error.status === 404) {
+				return null;
+			}
+			throw error;
+		}
+	}
+
+	/**
+	 * List conversations, most recently active first
+	 */
+	async getConversations(
+		limit: number = API_LIMITS.requestsSummary,
+	): Promise<ConversationSummary[]> {
+		const data = await this.get<ConversationPage>(
+			`/api/conversations?limit=${limit}`,
+		);
+		return data.conversations;
+	}
+
+	async getConversation(id: string): Promise<ConversationTimeline> {
+		return this.get<ConversationTimeline>(
+			`/api/conversations/${encodeURIComponent(id)}`,
+		);
 	}
 
 	async getAnalytics(
@@ -360,24 +793,159 @@ class API extends HttpClient {
 		return this.post<{ ok: boolean }>("/api/maintenance/compact");
 	}
 
-	// System prompt interceptor
-	async getSystemPromptOverride(): Promise<SystemPromptConfig> {
-		return this.get<SystemPromptConfig>(
-			"/api/tools/interceptors/system-prompt",
+	// System prompt interceptor profiles
+	async getInterceptorProfiles(): Promise<InterceptorProfile[]> {
+		return this.get<InterceptorProfile[]>("/api/tools/interceptors/profiles");
+	}
+
+	async getInterceptorProfile(id: string): Promise<InterceptorProfileDetail> {
+		return this.get<InterceptorProfileDetail>(
+			`/api/tools/interceptors/profiles/${encodeURIComponent(id)}`,
+		);
+	}
+
+	async createInterceptorProfile(
+		data: InterceptorProfileInput,
+	): Promise<InterceptorProfile> {
+		return this.post<InterceptorProfile>(
+			"/api/tools/interceptors/profiles",
+			data,
 		);
 	}
 
-	async setSystemPromptOverride(
-		data: SystemPromptConfig,
-	): Promise<SystemPromptConfig & { success: boolean }> {
-		return this.post<SystemPromptConfig & { success: boolean }>(
-			"/api/tools/interceptors/system-prompt",
+	async updateInterceptorProfile(
+		id: string,
+		data: InterceptorProfileInput,
+	): Promise<InterceptorProfile> {
+		return this.patch<InterceptorProfile>(
+			`/api/tools/interceptors/profiles/${encodeURIComponent(id)}`,
 			data,
 		);
 	}
 
-	async resetSystemPromptOverride(): Promise<void> {
-		await this.delete("/api/tools/interceptors/system-prompt");
+	async deleteInterceptorProfile(id: string): Promise<void> {
+		await this.delete(
+			`/api/tools/interceptors/profiles/${encodeURIComponent(id)}`,
+		);
+	}
+
+	// Upstream system prompt and tools history
+	async getPromptHistory(
+		kind: PromptHistoryKind,
+	): Promise<PromptVersionSummary[]> {
+		return this.get<PromptVersionSummary[]>(`/api/tools/history?kind=${kind}`);
+	}
+
+	async previewInterceptors(
+		input: InterceptorPreviewInput,
+	): Promise<InterceptorPreviewResult> {
+		return this.post<InterceptorPreviewResult>(
+			"/api/tools/interceptors/preview",
+			input,
+		);
+	}
+
+	async getApiKeys(): Promise<ApiKeyInfo[]> {
+		return this.get<ApiKeyInfo[]>("/api/keys");
+	}
+
+	async createApiKey(name: string): Promise<CreatedApiKey> {
+		return this.post<CreatedApiKey>("/api/keys", { name });
+	}
+
+	async revokeApiKey(id: string): Promise<ApiKeyInfo> {
+		return this.delete<ApiKeyInfo>(`/api/keys/${encodeURIComponent(id)}`);
+	}
+
+	async updateApiKeyLimits(
+		id: string,
+		limits: Partial<ApiKeyLimits>,
+	): Promise<ApiKeyInfo> {
+		return this.patch<ApiKeyInfo>(
+			`/api/keys/${encodeURIComponent(id)}/limits`,
+			limits,
+		);
+	}
+
+	async getRedactionSettings(): Promise<RedactionSettings> {
+		return this.get<RedactionSettings>("/api/redaction");
+	}
+
+	async setPayloadStorageMode(mode: PayloadStorageMode): Promise<void> {
+		await this.post("/api/redaction/mode", { mode });
+	}
+
+	async createRedactionRule(input: RedactionRuleInput): Promise<RedactionRule> {
+		return this.post<RedactionRule>("/api/redaction/rules", input);
+	}
+
+	async updateRedactionRule(
+		id: string,
+		update: Partial<Pick<RedactionRule, "name" | "action" | "isEnabled">>,
+	): Promise<RedactionRule> {
+		return this.patch<RedactionRule>(
+			`/api/redaction/rules/${encodeURIComponent(id)}`,
+			update,
+		);
+	}
+
+	async deleteRedactionRule(id: string): Promise<void> {
+		await this.delete(`/api/redaction/rules/${encodeURIComponent(id)}`);
+	}
+
+	async setAccountGroups(accountId: string, groups: string[]): Promise<void> {
+		await this.post(`/api/accounts/${encodeURIComponent(accountId)}/groups`, {
+			groups,
+		});
+	}
+
+	async getRoutingSettings(): Promise<RoutingSettings> {
+		return this.get<RoutingSettings>("/api/routing");
+	}
+
+	async createRoutingRule(input: RoutingRuleInput): Promise<RoutingRule> {
+		return this.post<RoutingRule>("/api/routing/rules", input);
+	}
+
+	async updateRoutingRule(
+		id: string,
+		update: Partial<RoutingRuleInput & { isEnabled: boolean }>,
+	): Promise<RoutingRule> {
+		return this.patch<RoutingRule>(
+			`/api/routing/rules/${encodeURIComponent(id)}`,
+			update,
+		);
+	}
+
+	async deleteRoutingRule(id: string): Promise<void> {
+		await this.delete(`/api/routing/rules/${encodeURIComponent(id)}`);
+	}
+
+	async getModelFallbacks(): Promise<ModelFallbackChain[]> {
+		const data = await this.get<{ chains: ModelFallbackChain[] }>(
+			"/api/model-fallbacks",
+		);
+		return data.chains;
+	}
+
+	async setModelFallbacks(
+		model: string,
+		fallbacks: string[],
+	): Promise<ModelFallbackChain> {
+		return this.put<ModelFallbackChain>(
+			`/api/model-fallbacks/${encodeURIComponent(model)}`,
+			{ fallbacks },
+		);
+	}
+
+	async deleteModelFallbacks(model: string): Promise<void> {
+		await this.delete(`/api/model-fallbacks/${encodeURIComponent(model)}`);
+	}
+
+	async getPromptDiff(from: number, to: number): Promise<PromptVersionDiff> {
+		return this.get<PromptVersionDiff>(
+			`/api/tools/history/diff?from=${from}&to=${to}`,
+		);
 	}
 }
 
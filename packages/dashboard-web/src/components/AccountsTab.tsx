@@ -1,13 +1,19 @@
 import { AlertCircle, Plus } from "lucide-react";
 import { useState } from "react";
 import { type Account, api } from "../api";
-import { useAccounts, useRenameAccount } from "../hooks/queries";
+import {
+	useAccounts,
+	useRenameAccount,
+	useSetAccountGroups,
+} from "../hooks/queries";
 import { useApiError } from "../hooks/useApiError";
 import {
 	AccountAddForm,
+	AccountGroupsDialog,
 	AccountList,
 	DeleteConfirmationDialog,
 	RenameAccountDialog,
+	RoutingRulesCard,
 } from "./accounts";
 import { Button } from "./ui/button";
 import {
@@ -27,6 +33,7 @@ export function AccountsTab() {
 		refetch: loadAccounts,
 	} = useAccounts();
 	const renameAccount = useRenameAccount();
+	const setAccountGroups = useSetAccountGroups();
 
 	const [adding, setAdding] = useState(false);
 	const [confirmDelete, setConfirmDelete] = useState<{
@@ -45,6 +52,7 @@ export function AccountsTab() {
 		isOpen: false,
 		account: null,
 	});
+	const [groupsAccount, setGroupsAccount] = useState<Account | null>(null);
 	const [actionError, setActionError] = useState<string | null>(null);
 
 	const handleAddAccount = async (params: {
@@ -62,6 +70,40 @@ export function AccountsTab() {
 		}
 	};
 
+	const handleAddApiKeyAccount = async (params: {
+		name: string;
+		apiKey: string;
+		tier: number;
+	}) => {
+		try {
+			await api.addApiKeyAccount(params);
+			await loadAccounts();
+			setAdding(false);
+			setActionError(null);
+		} catch (err) {
+			setActionError(formatError(err));
+			throw err;
+		}
+	};
+
+	const handleAddOpenAICompatibleAccount = async (params: {
+		name: string;
+		baseUrl: string;
+		apiKey?: string;
+		modelMap: Record<string, string>;
+		tier: number;
+	}) => {
+		try {
+			await api.addOpenAICompatibleAccount(params);
+			await loadAccounts();
+			setAdding(false);
+			setActionError(null);
+		} catch (err) {
+			setActionError(formatError(err));
+			throw err;
+		}
+	};
+
 	const handleCompleteAccount = async (params: {
 		sessionId: string;
 		code: string;
@@ -121,6 +163,21 @@ export function AccountsTab() {
 		}
 	};
 
+	const handleSaveGroups = async (groups: string[]) => {
+		if (!groupsAccount) return;
+
+		try {
+			await setAccountGroups.mutateAsync({
+				accountId: groupsAccount.id,
+				groups,
+			});
+			setGroupsAccount(null);
+			setActionError(null);
+		} catch (err) {
+			setActionError(formatError(err));
+		}
+	};
+
 	const handlePauseToggle = async (account: Account) => {
 		try {
 			if (account.paused) {
@@ -164,7 +221,10 @@ export function AccountsTab() {
 					<div className="flex items-center justify-between">
 						<div>
 							<CardTitle>Accounts</CardTitle>
-							<CardDescription>Manage your Claude accounts</CardDescription>
+							<CardDescription>
+								Manage your Claude accounts. By default, API-key accounts are
+								only used when no OAuth account is available.
+							</CardDescription>
 						</div>
 						{!adding && (
 							<Button onClick={() => setAdding(true)} size="sm">
@@ -178,6 +238,8 @@ export function AccountsTab() {
 					{adding && (
 						<AccountAddForm
 							onAddAccount={handleAddAccount}
+							onAddApiKeyAccount={handleAddApiKeyAccount}
+							onAddOpenAICompatibleAccount={handleAddOpenAICompatibleAccount}
 							onCompleteAccount={handleCompleteAccount}
 							onCancel={() => {
 								setAdding(false);
@@ -195,10 +257,13 @@ export function AccountsTab() {
 						onPauseToggle={handlePauseToggle}
 						onRemove={handleRemoveAccount}
 						onRename={handleRename}
+						onEditGroups={setGroupsAccount}
 					/>
 				</CardContent>
 			</Card>
 
+			<RoutingRulesCard />
+
 			{confirmDelete.show && (
 				<DeleteConfirmationDialog
 					accountName={confirmDelete.accountName}
@@ -230,6 +295,17 @@ export function AccountsTab() {
 					isLoading={renameAccount.isPending}
 				/>
 			)}
+
+			{groupsAccount && (
+				<AccountGroupsDialog
+					isOpen
+					accountName={groupsAccount.name}
+					currentGroups={groupsAccount.groups}
+					onClose={() => setGroupsAccount(null)}
+					onSave={handleSaveGroups}
+					isLoading={setAccountGroups.isPending}
+				/>
+			)}
 		</div>
 	);
 }
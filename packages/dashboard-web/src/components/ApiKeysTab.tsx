@@ -0,0 +1,198 @@
+import { formatTimestamp } from "@ccflare/ui-common";
+import { KeyRound, Plus } from "lucide-react";
+import { useState } from "react";
+import type { ApiKeyInfo, ApiKeyLimits, CreatedApiKey } from "../api";
+import {
+	useApiKeys,
+	useCreateApiKey,
+	useRevokeApiKey,
+	useUpdateApiKeyLimits,
+} from "../hooks/queries";
+import { useApiError } from "../hooks/useApiError";
+import { ApiKeyLimitsDialog, ApiKeyQuotaSummary } from "./api-keys";
+import { CopyButton } from "./CopyButton";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "./ui/card";
+import { Input } from "./ui/input";
+
+export function ApiKeysTab() {
+	const { formatError } = useApiError();
+	const { data: keys, isLoading, error } = useApiKeys();
+	const createKey = useCreateApiKey();
+	const revokeKey = useRevokeApiKey();
+	const updateLimits = useUpdateApiKeyLimits();
+	const [newName, setNewName] = useState("");
+	const [createdKey, setCreatedKey] = useState<CreatedApiKey | null>(null);
+	const [editingKey, setEditingKey] = useState<ApiKeyInfo | null>(null);
+
+	const handleCreate = () => {
+		const name = newName.trim();
+		if (!name) return;
+		createKey.mutate(name, {
+			onSuccess: (key) => {
+				setNewName("");
+				setCreatedKey(key);
+			},
+		});
+	};
+
+	const handleRevoke = (id: string, name: string) => {
+		if (
+			!confirm(`Revoke the key "${name}"? Clients using it will be rejected.`)
+		)
+			return;
+		revokeKey.mutate(id);
+	};
+
+	const handleSaveLimits = (limits: ApiKeyLimits) => {
+		if (!editingKey) return;
+		updateLimits.mutate(
+			{ id: editingKey.id, limits },
+			{ onSuccess: () => setEditingKey(null) },
+		);
+	};
+
+	const actionError = createKey.error || revokeKey.error || updateLimits.error;
+
+	return (
+		<div className="space-y-6">
+			<Card>
+				<CardHeader>
+					<CardTitle>Client API Keys</CardTitle>
+					<CardDescription>
+						Once a key exists, every request to <code>/v1/*</code> must send a
+						valid key in the <code>x-api-key</code> header or as{" "}
+						<code>Authorization: Bearer</code>. Requests are attributed to the
+						key that made them and count towards its limits.
+					</CardDescription>
+				</CardHeader>
+				<CardContent className="space-y-4">
+					<div className="flex gap-2">
+						<Input
+							placeholder="Key name, e.g. alice or ci-pipeline"
+							value={newName}
+							onChange={(e) => setNewName(e.target.value)}
+							onKeyDown={(e) => e.key === "Enter" && handleCreate()}
+						/>
+						<Button
+							onClick={handleCreate}
+							disabled={!newName.trim() || createKey.isPending}
+						>
+							<Plus className="h-4 w-4 mr-2" />
+							Create Key
+						</Button>
+					</div>
+
+					{actionError && (
+						<p className="text-sm text-destructive">
+							{formatError(actionError)}
+						</p>
+					)}
+
+					{createdKey && (
+						<div className="p-4 border border-amber-200 bg-amber-50 rounded-lg space-y-2">
+							<p className="text-sm text-amber-800">
+								Copy the key for <strong>{createdKey.name}</strong> now. It will
+								not be shown again.
+							</p>
+							<div className="flex items-center gap-2">
+								<code className="flex-1 px-2 py-1 bg-background border rounded font-mono text-sm break-all">
+									{createdKey.key}
+								</code>
+								<CopyButton value={createdKey.key} variant="outline">
+									Copy
+								</CopyButton>
+								<Button variant="ghost" onClick={() => setCreatedKey(null)}>
+									Done
+								</Button>
+							</div>
+						</div>
+					)}
+
+					{isLoading ? (
+						<p className="text-sm text-muted-foreground">Loading keys...</p>
+					) : error ? (
+						<p className="text-sm text-destructive">{formatError(error)}</p>
+					) : !keys || keys.length === 0 ? (
+						<p className="text-sm text-muted-foreground">
+							No keys yet. The proxy accepts unauthenticated requests until the
+							first key is created.
+						</p>
+					) : (
+						<div className="space-y-2">
+							{keys.map((key) => (
+								<div key={key.id} className="p-3 border rounded-lg space-y-3">
+									<div className="flex items-center justify-between gap-4">
+										<div className="flex items-center gap-3 min-w-0">
+											<KeyRound className="h-4 w-4 shrink-0 text-muted-foreground" />
+											<div className="min-w-0">
+												<div className="flex items-center gap-2">
+													<span className="font-medium">{key.name}</span>
+													<code className="text-xs text-muted-foreground">
+														{key.prefix}…
+													</code>
+													{key.revokedAt ? (
+														<Badge variant="destructive">Revoked</Badge>
+													) : (
+														<Badge variant="success">Active</Badge>
+													)}
+												</div>
+												<p className="text-xs text-muted-foreground">
+													Created {formatTimestamp(key.createdAt)} · Last used{" "}
+													{key.lastUsed
+														? formatTimestamp(key.lastUsed)
+														: "never"}{" "}
+													· {key.requestCount} requests
+												</p>
+											</div>
+										</div>
+										{!key.revokedAt && (
+											<div className="flex gap-2">
+												<Button
+													variant="outline"
+													size="sm"
+													onClick={() => setEditingKey(key)}
+												>
+													Limits
+												</Button>
+												<Button
+													variant="outline"
+													size="sm"
+													onClick={() => handleRevoke(key.id, key.name)}
+													disabled={revokeKey.isPending}
+												>
+													Revoke
+												</Button>
+											</div>
+										)}
+									</div>
+									{!key.revokedAt && key.quota && (
+										<ApiKeyQuotaSummary quota={key.quota} />
+									)}
+								</div>
+							))}
+						</div>
+					)}
+				</CardContent>
+			</Card>
+
+			{editingKey && (
+				<ApiKeyLimitsDialog
+					isOpen
+					keyName={editingKey.name}
+					limits={editingKey.limits}
+					onClose={() => setEditingKey(null)}
+					onSave={handleSaveLimits}
+					isLoading={updateLimits.isPending}
+				/>
+			)}
+		</div>
+	);
+}
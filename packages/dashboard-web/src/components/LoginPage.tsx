@@ -0,0 +1,111 @@
+import { Shield } from "lucide-react";
+import { useState } from "react";
+import { useLogin } from "../hooks/queries";
+import { useApiError } from "../hooks/useApiError";
+import { Button } from "./ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "./ui/card";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+
+export function LoginPage() {
+	const { formatError } = useApiError();
+	const login = useLogin();
+	const [useToken, setUseToken] = useState(false);
+	const [username, setUsername] = useState("");
+	const [password, setPassword] = useState("");
+	const [token, setToken] = useState("");
+
+	const handleSubmit = (e: React.FormEvent) => {
+		e.preventDefault();
+		login.mutate(useToken ? { token } : { username, password });
+	};
+
+	const canSubmit = useToken ? token.length > 0 : username && password;
+
+	return (
+		<div className="min-h-screen flex items-center justify-center bg-background p-4">
+			<Card className="w-full max-w-sm">
+				<CardHeader className="text-center">
+					<div className="mx-auto mb-2 flex h-12 w-12 items-center justify-center rounded-lg bg-primary/10">
+						<Shield className="h-7 w-7 text-primary" />
+					</div>
+					<CardTitle>Sign in to ccflare</CardTitle>
+					<CardDescription>
+						{useToken
+							? "Use the admin token set in ccflare_ADMIN_TOKEN"
+							: "Sign in with your dashboard account"}
+					</CardDescription>
+				</CardHeader>
+				<CardContent>
+					<form onSubmit={handleSubmit} className="space-y-4">
+						{useToken ? (
+							<div className="grid gap-2">
+								<Label htmlFor="admin-token">Admin token</Label>
+								<Input
+									id="admin-token"
+									type="password"
+									autoComplete="off"
+									value={token}
+									onChange={(e) => setToken(e.target.value)}
+								/>
+							</div>
+						) : (
+							<>
+								<div className="grid gap-2">
+									<Label htmlFor="username">Username</Label>
+									<Input
+										id="username"
+										autoComplete="username"
+										value={username}
+										onChange={(e) => setUsername(e.target.value)}
+									/>
+								</div>
+								<div className="grid gap-2">
+									<Label htmlFor="password">Password</Label>
+									<Input
+										id="password"
+										type="password"
+										autoComplete="current-password"
+										value={password}
+										onChange={(e) => setPassword(e.target.value)}
+									/>
+								</div>
+							</>
+						)}
+
+						{login.error && (
+							<p className="text-sm text-destructive">
+								{formatError(login.error)}
+							</p>
+						)}
+
+						<Button
+							type="submit"
+							className="w-full"
+							disabled={!canSubmit || login.isPending}
+						>
+							{login.isPending ? "Signing in..." : "Sign in"}
+						</Button>
+						<Button
+							type="button"
+							variant="link"
+							className="w-full"
+							onClick={() => {
+								setUseToken(!useToken);
+								login.reset();
+							}}
+						>
+							{useToken ? "Sign in with a password" : "Use the admin token"}
+						</Button>
+					</form>
+				</CardContent>
+			</Card>
+		</div>
+	);
+}
@@ -13,6 +13,8 @@ import { ChartsSection } from "./overview/ChartsSection";
 import { DataRetentionCard } from "./overview/DataRetentionCard";
 import { LoadingSkeleton } from "./overview/LoadingSkeleton";
 import { MetricCard } from "./overview/MetricCard";
+import { ModelFallbacksCard } from "./overview/ModelFallbacksCard";
+import { PayloadRedactionCard } from "./overview/PayloadRedactionCard";
 import { RateLimitInfo } from "./overview/RateLimitInfo";
 import { SystemStatus } from "./overview/SystemStatus";
 import { TimeRangeSelector } from "./overview/TimeRangeSelector";
@@ -222,6 +224,8 @@ export function OverviewTab() {
 			<div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
 				<StrategyCard />
 				<DataRetentionCard />
+				<PayloadRedactionCard />
+				<ModelFallbacksCard />
 			</div>
 		</div>
 	);
@@ -31,6 +31,7 @@ export function RequestDetailsModal({
 	onClose,
 }: RequestDetailsModalProps) {
 	const [beautifyMode, setBeautifyMode] = useState(true);
+	const [showOriginalBody, setShowOriginalBody] = useState(false);
 
 	const decodeBase64 = (str: string | null): string => {
 		if (!str) return "No data";
@@ -70,6 +71,12 @@ export function RequestDetailsModal({
 		return formatJson(decoded);
 	};
 
+	const interceptedBy =
+		summary?.interceptedBy || request.meta.interceptedBy || [];
+	const originalBody = request.request.originalBody ?? null;
+	const displayedBody =
+		showOriginalBody && originalBody ? originalBody : request.request.body;
+
 	const _isError = request.error || !request.meta.success;
 	const statusCode = request.response?.status;
 
@@ -105,6 +112,35 @@ export function RequestDetailsModal({
 							{summary?.agentUsed && (
 								<Badge variant="secondary">Agent: {summary.agentUsed}</Badge>
 							)}
+							{interceptedBy.length > 0 && (
+								<Badge variant="outline">
+									Intercepted by {interceptedBy.join(", ")}
+								</Badge>
+							)}
+							{(summary?.apiKeyName || request.meta.apiKeyName) && (
+								<Badge variant="outline">
+									Key: {summary?.apiKeyName || request.meta.apiKeyName}
+								</Badge>
+							)}
+							{(summary?.fallbackFromModel ||
+								request.meta.fallbackFromModel) && (
+								<Badge variant="warning">
+									Fallback from{" "}
+									{summary?.fallbackFromModel || request.meta.fallbackFromModel}
+								</Badge>
+							)}
+							{request.meta.routing && (
+								<Badge
+									variant={
+										request.meta.routing.fallbackUsed ? "warning" : "outline"
+									}
+									title={`Routing rule: ${request.meta.routing.ruleName}`}
+								>
+									Group: {request.meta.routing.group}
+									{request.meta.routing.fallbackUsed && " (fallback)"} via{" "}
+									{request.meta.routing.ruleName}
+								</Badge>
+							)}
 							{summary?.totalTokens && (
 								<Badge variant="outline">
 									{formatTokens(summary.totalTokens)} tokens
@@ -116,6 +152,19 @@ export function RequestDetailsModal({
 							{request.meta.rateLimited && (
 								<Badge variant="warning">Rate Limited</Badge>
 							)}
+							{request.meta.retry !== undefined && request.meta.retry > 0 && (
+								<Badge variant="outline">
+									{request.meta.retry}{" "}
+									{request.meta.retry === 1 ? "retry" : "retries"}
+								</Badge>
+							)}
+							{summary?.failoverAttempts !== undefined &&
+								summary.failoverAttempts > 0 && (
+									<Badge variant="outline">
+										{summary.failoverAttempts}{" "}
+										{summary.failoverAttempts === 1 ? "failover" : "failovers"}
+									</Badge>
+								)}
 						</div>
 						<div className="flex items-center gap-2">
 							<Label htmlFor="beautify-mode" className="text-sm">
@@ -170,16 +219,32 @@ export function RequestDetailsModal({
 							<div>
 								<div className="flex items-center justify-between mb-2">
 									<h3 className="font-semibold">Body</h3>
-									<CopyButton
-										variant="ghost"
-										size="sm"
-										getValue={() => formatBody(request.request.body)}
-									>
-										Copy
-									</CopyButton>
+									<div className="flex items-center gap-2">
+										{originalBody && (
+											<>
+												<Label htmlFor="original-body" className="text-sm">
+													{showOriginalBody
+														? "As sent by client"
+														: "As sent upstream"}
+												</Label>
+												<Switch
+													id="original-body"
+													checked={showOriginalBody}
+													onCheckedChange={setShowOriginalBody}
+												/>
+											</>
+										)}
+										<CopyButton
+											variant="ghost"
+											size="sm"
+											getValue={() => formatBody(displayedBody)}
+										>
+											Copy
+										</CopyButton>
+									</div>
 								</div>
 								<pre className="bg-muted p-4 rounded-lg overflow-x-auto text-sm font-mono">
-									{formatBody(request.request.body)}
+									{formatBody(displayedBody)}
 								</pre>
 							</div>
 						)}
@@ -0,0 +1,111 @@
+import { formatCost, formatTokens } from "@ccflare/ui-common";
+import type { RequestTextMatch, SearchSnippetPart } from "../api";
+import { useRequestTextSearch } from "../hooks/queries";
+import { Badge } from "./ui/badge";
+
+interface RequestSearchResultsProps {
+	query: string;
+	onSelect: (request: RequestTextMatch) => void;
+}
+
+function Snippet({ parts }: { parts: SearchSnippetPart[] }) {
+	return (
+		<p className="text-sm text-muted-foreground whitespace-pre-wrap break-words line-clamp-3">
+			{parts.map((part, index) =>
+				part.match ? (
+					<mark
+						// biome-ignore lint/suspicious/noArrayIndexKey: parts never reorder
+						key={index}
+						className="bg-yellow-200 dark:bg-yellow-800/60 text-foreground rounded px-0.5"
+					>
+						{part.text}
+					</mark>
+				) : (
+					// biome-ignore lint/suspicious/noArrayIndexKey: parts never reorder
+					<span key={index}>{part.text}</span>
+				),
+			)}
+		</p>
+	);
+}
+
+/**
+ * Full-text search results over stored prompts and responses, with the
+ * matched terms highlighted
+ */
+export function RequestSearchResults({
+	query,
+	onSelect,
+}: RequestSearchResultsProps) {
+	const { data: results, isLoading, error } = useRequestTextSearch(query);
+
+	if (isLoading) {
+		return <p className="text-muted-foreground">Searching...</p>;
+	}
+
+	if (error) {
+		return (
+			<p className="text-destructive">
+				Error: {error instanceof Error ? error.message : String(error)}
+			</p>
+		);
+	}
+
+	if (!results || results.length === 0) {
+		return (
+			<p className="text-muted-foreground">
+				No stored prompts or responses match "{query}"
+			</p>
+		);
+	}
+
+	return (
+		<div className="space-y-2">
+			{results.map((result) => (
+				<button
+					key={result.id}
+					type="button"
+					onClick={() => onSelect(result)}
+					className={`block w-full text-left border rounded-lg p-3 hover:bg-muted/50 transition-colors ${
+						result.success ? "border-border" : "border-destructive/50"
+					}`}
+				>
+					<div className="flex items-center gap-2 flex-wrap mb-2">
+						<span className="text-sm font-mono">
+							{new Date(result.timestamp).toLocaleString()}
+						</span>
+						{result.statusCode && (
+							<span className="text-sm font-medium">{result.statusCode}</span>
+						)}
+						{result.model && (
+							<Badge variant="secondary" className="text-xs">
+								{result.model}
+							</Badge>
+						)}
+						{result.agentUsed && (
+							<Badge variant="secondary" className="text-xs">
+								Agent: {result.agentUsed}
+							</Badge>
+						)}
+						{result.totalTokens && (
+							<Badge variant="outline" className="text-xs">
+								{formatTokens(result.totalTokens)} tokens
+							</Badge>
+						)}
+						{result.costUsd && result.costUsd > 0 && (
+							<Badge variant="default" className="text-xs">
+								{formatCost(result.costUsd)}
+							</Badge>
+						)}
+						{result.accountUsed && (
+							<span className="text-sm text-muted-foreground">
+								via {result.accountUsed}
+							</span>
+						)}
+					</div>
+					<Snippet parts={result.snippet} />
+				</button>
+			))}
+		</div>
+	);
+}
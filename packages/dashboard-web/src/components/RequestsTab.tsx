@@ -10,19 +10,30 @@ import {
 	ChevronDown,
 	ChevronRight,
 	Clock,
+	Coins,
 	Eye,
 	Filter,
 	Hash,
 	RefreshCw,
+	Search,
 	User,
 	X,
 } from "lucide-react";
-import { useState } from "react";
-import type { RequestPayload, RequestSummary } from "../api";
-import { useRequests } from "../hooks/queries";
-import { useRequestStream } from "../hooks/useRequestStream";
+import { useEffect, useMemo, useState } from "react";
+import type { RequestFilters, RequestSummary } from "../api";
+import {
+	useAccounts,
+	useAgents,
+	useRequestDetails,
+	useRequests,
+} from "../hooks/queries";
+import {
+	type RequestListItem,
+	useRequestStream,
+} from "../hooks/useRequestStream";
 import { CopyButton } from "./CopyButton";
 import { RequestDetailsModal } from "./RequestDetailsModal";
+import { RequestSearchResults } from "./RequestSearchResults";
 import { TokenUsageDisplay } from "./TokenUsageDisplay";
 import { Badge } from "./ui/badge";
 import { Button } from "./ui/button";
@@ -48,13 +59,58 @@ import {
 	SelectValue,
 } from "./ui/select";
 
+// Status classes and the codes most worth singling out
+const STATUS_OPTIONS = [
+	"2xx",
+	"4xx",
+	"5xx",
+	"400",
+	"401",
+	"403",
+	"404",
+	"429",
+	"500",
+	"529",
+	"error",
+];
+
+/**
+ * Returns value once it has stopped changing for delayMs, so typing into a
+ * filter doesn't send a request per keystroke
+ */
+function useDebouncedValue<T>(value: T, delayMs = 300): T {
+	const [debounced, setDebounced] = useState(value);
+	useEffect(() => {
+		const timeout = setTimeout(() => setDebounced(value), delayMs);
+		return () => clearTimeout(timeout);
+	}, [value, delayMs]);
+	return debounced;
+}
+
+function toTimestamp(value: string, endOfMinute = false): number | undefined {
+	if (!value) return undefined;
+	const timestamp = new Date(value).getTime();
+	if (Number.isNaN(timestamp)) return undefined;
+	return endOfMinute ? timestamp + 59999 : timestamp;
+}
+
+function toMinimum(value: string): number | undefined {
+	const number = Number(value);
+	return value && !Number.isNaN(number) && number >= 0 ? number : undefined;
+}
+
 export function RequestsTab() {
 	const [expandedRequests, setExpandedRequests] = useState<Set<string>>(
 		new Set(),
 	);
-	const [modalRequest, setModalRequest] = useState<RequestPayload | null>(null);
+	const [modalRequest, setModalRequest] = useState<RequestSummary | null>(null);
+	const [searchText, setSearchText] = useState("");
 	const [accountFilter, setAccountFilter] = useState<string>("all");
 	const [agentFilter, setAgentFilter] = useState<string>("all");
+	const [modelFilter, setModelFilter] = useState("");
+	const [pathFilter, setPathFilter] = useState("");
+	const [minCost, setMinCost] = useState("");
+	const [minTokens, setMinTokens] = useState("");
 	const [dateFrom, setDateFrom] = useState<string>("");
 	const [dateTo, setDateTo] = useState<string>("");
 	const [showFilters, setShowFilters] = useState(false);
@@ -62,106 +118,63 @@ export function RequestsTab() {
 		new Set(),
 	);
 
+	const { data: accounts } = useAccounts();
+	const { data: agentsData } = useAgents();
+
+	const textFilters = useDebouncedValue({
+		model: modelFilter.trim(),
+		path: pathFilter.trim(),
+		minCost,
+		minTokens,
+	});
+	const filters = useMemo<RequestFilters>(
+		() => ({
+			account: accountFilter === "all" ? undefined : accountFilter,
+			agent: agentFilter === "all" ? undefined : agentFilter,
+			model: textFilters.model || undefined,
+			path: textFilters.path || undefined,
+			status: statusCodeFilters.size > 0 ? [...statusCodeFilters] : undefined,
+			from: toTimestamp(dateFrom),
+			to: toTimestamp(dateTo, true),
+			minCost: toMinimum(textFilters.minCost),
+			minTokens: toMinimum(textFilters.minTokens),
+		}),
+		[
+			accountFilter,
+			agentFilter,
+			textFilters,
+			statusCodeFilters,
+			dateFrom,
+			dateTo,
+		],
+	);
+
 	const {
 		data: requestsData,
 		isLoading: loading,
 		error,
 		refetch: loadRequests,
-	} = useRequests(200);
+		fetchNextPage,
+		hasNextPage,
+		isFetchingNextPage,
+	} = useRequests(filters);
 
 	// Enable real-time updates
-	useRequestStream(200);
-
-	// Transform the data to match the expected structure
-	const data = requestsData
-		? {
-				requests: requestsData.requests,
-				summaries: new Map(
-					requestsData.detailsMap instanceof Map
-						? requestsData.detailsMap
-						: requestsData.detailsMap.map(
-								(s: RequestSummary) => [s.id, s] as [string, RequestSummary],
-							),
-				),
-			}
-		: null;
-
-	// Extract unique accounts for filter dropdown
-	const uniqueAccounts = data
-		? Array.from(
-				new Set(
-					data.requests
-						.map((r) => r.meta.accountName || r.meta.accountId)
-						.filter(Boolean),
-				),
-			).sort()
-		: [];
-
-	// Extract unique status codes for filter
-	const uniqueStatusCodes = data
-		? Array.from(
-				new Set(
-					data.requests
-						.map((r) => r.response?.status)
-						.filter((status): status is number => status !== undefined),
-				),
-			).sort((a, b) => a - b)
-		: [];
-
-	// Extract unique agents for filter
-	const uniqueAgents = data
-		? Array.from(
-				new Set(
-					data.requests
-						.map((r) => {
-							const summary = data.summaries.get(r.id);
-							return summary?.agentUsed || r.meta.agentUsed;
-						})
-						.filter(Boolean),
-				),
-			).sort()
-		: [];
-
-	// Filter requests based on selected filters
-	const filteredRequests = data
-		? data.requests.filter((request) => {
-				// Account filter
-				if (accountFilter !== "all") {
-					const requestAccount =
-						request.meta.accountName || request.meta.accountId;
-					if (requestAccount !== accountFilter) return false;
-				}
-
-				// Agent filter
-				if (agentFilter !== "all") {
-					const summary = data.summaries.get(request.id);
-					const requestAgent = summary?.agentUsed || request.meta.agentUsed;
-					if (requestAgent !== agentFilter) return false;
-				}
-
-				// Status code filter
-				if (statusCodeFilters.size > 0 && request.response?.status) {
-					if (!statusCodeFilters.has(request.response.status.toString())) {
-						return false;
-					}
-				}
-
-				// Date range filter
-				const requestDate = new Date(request.meta.timestamp);
-				if (dateFrom) {
-					const fromDate = new Date(dateFrom);
-					fromDate.setHours(0, 0, 0, 0);
-					if (requestDate < fromDate) return false;
-				}
-				if (dateTo) {
-					const toDate = new Date(dateTo);
-					toDate.setHours(23, 59, 59, 999);
-					if (requestDate > toDate) return false;
-				}
-
-				return true;
-			})
-		: [];
+	useRequestStream(filters);
+
+	const requests: RequestListItem[] =
+		requestsData?.pages.flatMap((page) => page.requests) ?? [];
+
+	const searchQuery = useDebouncedValue(searchText.trim());
+
+	const { data: modalPayload, isLoading: modalLoading } = useRequestDetails(
+		modalRequest?.id ?? "",
+	);
+
+	// Agent names by id, since requests store the agent id
+	const agentNames = new Map(
+		(agentsData?.agents ?? []).map((agent) => [agent.id, agent.name]),
+	);
 
 	const toggleExpanded = (id: string) => {
 		setExpandedRequests((prev) => {
@@ -220,16 +233,20 @@ export function RequestsTab() {
 		});
 	};
 
-	const getStatusCodeColor = (code: number) => {
-		if (code >= 200 && code < 300) return "text-green-600";
-		if (code >= 400 && code < 500) return "text-yellow-600";
-		if (code >= 500) return "text-red-600";
+	const getStatusCodeColor = (code: string) => {
+		if (code.startsWith("2")) return "text-green-600";
+		if (code.startsWith("4")) return "text-yellow-600";
+		if (code.startsWith("5") || code === "error") return "text-red-600";
 		return "text-gray-600";
 	};
 
 	const clearAllFilters = () => {
 		setAccountFilter("all");
 		setAgentFilter("all");
+		setModelFilter("");
+		setPathFilter("");
+		setMinCost("");
+		setMinTokens("");
 		setDateFrom("");
 		setDateTo("");
 		setStatusCodeFilters(new Set());
@@ -238,30 +255,14 @@ export function RequestsTab() {
 	const hasActiveFilters =
 		accountFilter !== "all" ||
 		agentFilter !== "all" ||
+		modelFilter ||
+		pathFilter ||
+		minCost ||
+		minTokens ||
 		dateFrom ||
 		dateTo ||
 		statusCodeFilters.size > 0;
 
-	const decodeBase64 = (str: string | null): string => {
-		if (!str) return "No data";
-		try {
-			// Handle edge cases like "[streamed]" from older data
-			if (str === "[streamed]") {
-				return "[Streaming data not captured]";
-			}
-			return atob(str);
-		} catch (error) {
-			console.error("Failed to decode base64:", error, "Input:", str);
-			return `Failed to decode: ${str}`;
-		}
-	};
-
-	/**
-	 * Copy the given request to the clipboard as pretty-printed JSON, with
-	 * any base64-encoded bodies already decoded for easier debugging.
-	 */
-	// copyRequest helper removed – handled inline by CopyButton
-
 	if (loading) {
 		return (
 			<Card>
@@ -300,7 +301,8 @@ export function RequestsTab() {
 					<div>
 						<CardTitle>Request History</CardTitle>
 						<CardDescription>
-							Detailed request and response data (last 200)
+							Full request history, newest first. Headers and bodies are kept
+							for the most recent requests only.
 						</CardDescription>
 					</div>
 					<div className="flex gap-2">
@@ -323,10 +325,67 @@ export function RequestsTab() {
 				</div>
 			</CardHeader>
 			<CardContent>
+				<div className="relative mb-4">
+					<Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+					<Input
+						value={searchText}
+						onChange={(e) => setSearchText(e.target.value)}
+						placeholder="Search prompts, responses and tool calls, e.g. auth.ts"
+						className="pl-9"
+					/>
+				</div>
+
 				{/* Active Filters Display */}
 				{hasActiveFilters && (
 					<div className="mb-4 p-3 bg-muted/50 rounded-lg">
 						<div className="flex flex-wrap items-center gap-2">
+							{modelFilter && (
+								<Badge variant="outline" className="gap-1.5 pr-1">
+									<Search className="h-3 w-3" />
+									Model: {modelFilter}
+									<button
+										type="button"
+										onClick={() => setModelFilter("")}
+										className="ml-1 p-0.5 hover:bg-destructive/20 rounded"
+									>
+										<X className="h-3 w-3" />
+									</button>
+								</Badge>
+							)}
+							{pathFilter && (
+								<Badge variant="outline" className="gap-1.5 pr-1">
+									<Search className="h-3 w-3" />
+									Path: {pathFilter}
+									<button
+										type="button"
+										onClick={() => setPathFilter("")}
+										className="ml-1 p-0.5 hover:bg-destructive/20 rounded"
+									>
+										<X className="h-3 w-3" />
+									</button>
+								</Badge>
+							)}
+							{(minCost || minTokens) && (
+								<Badge variant="outline" className="gap-1.5 pr-1">
+									<Coins className="h-3 w-3" />
+									{[
+										minCost && `≥ $${minCost}`,
+										minTokens && `≥ ${minTokens} tokens`,
+									]
+										.filter(Boolean)
+										.join(", ")}
+									<button
+										type="button"
+										onClick={() => {
+											setMinCost("");
+											setMinTokens("");
+										}}
+										className="ml-1 p-0.5 hover:bg-destructive/20 rounded"
+									>
+										<X className="h-3 w-3" />
+									</button>
+								</Badge>
+							)}
 							{accountFilter !== "all" && (
 								<Badge variant="outline" className="gap-1.5 pr-1">
 									<User className="h-3 w-3" />
@@ -343,7 +402,7 @@ export function RequestsTab() {
 							{agentFilter !== "all" && (
 								<Badge variant="outline" className="gap-1.5 pr-1">
 									<Bot className="h-3 w-3" />
-									{agentFilter}
+									{agentNames.get(agentFilter) ?? agentFilter}
 									<button
 										type="button"
 										onClick={() => setAgentFilter("all")}
@@ -388,8 +447,8 @@ export function RequestsTab() {
 							)}
 							<div className="ml-auto flex items-center gap-2">
 								<span className="text-xs text-muted-foreground">
-									{filteredRequests.length} of {data?.requests.length || 0}{" "}
-									requests
+									{requests.length}
+									{hasNextPage ? "+" : ""} requests
 								</span>
 								<Button
 									variant="ghost"
@@ -505,9 +564,9 @@ export function RequestsTab() {
 										</SelectTrigger>
 										<SelectContent>
 											<SelectItem value="all">All accounts</SelectItem>
-											{uniqueAccounts.map((account) => (
-												<SelectItem key={account} value={account || ""}>
-													{account}
+											{(accounts ?? []).map((account) => (
+												<SelectItem key={account.id} value={account.name}>
+													{account.name}
 												</SelectItem>
 											))}
 										</SelectContent>
@@ -526,9 +585,9 @@ export function RequestsTab() {
 										</SelectTrigger>
 										<SelectContent>
 											<SelectItem value="all">All agents</SelectItem>
-											{uniqueAgents.map((agent) => (
-												<SelectItem key={agent} value={agent || ""}>
-													{agent}
+											{(agentsData?.agents ?? []).map((agent) => (
+												<SelectItem key={agent.id} value={agent.id}>
+													{agent.name}
 												</SelectItem>
 											))}
 										</SelectContent>
@@ -558,21 +617,21 @@ export function RequestsTab() {
 												<div className="text-xs font-medium text-muted-foreground mb-2">
 													Select status codes
 												</div>
-												{uniqueStatusCodes.map((code) => (
+												{STATUS_OPTIONS.map((code) => (
 													<button
 														key={code}
 														type="button"
 														className="flex items-center gap-2 p-2 hover:bg-accent rounded cursor-pointer w-full text-left"
-														onClick={() => toggleStatusCode(code.toString())}
+														onClick={() => toggleStatusCode(code)}
 													>
 														<div
 															className={`w-4 h-4 border rounded-sm flex items-center justify-center ${
-																statusCodeFilters.has(code.toString())
+																statusCodeFilters.has(code)
 																	? "bg-primary border-primary"
 																	: "border-input"
 															}`}
 														>
-															{statusCodeFilters.has(code.toString()) && (
+															{statusCodeFilters.has(code) && (
 																<svg
 																	className="w-3 h-3 text-primary-foreground"
 																	fill="none"
@@ -593,7 +652,7 @@ export function RequestsTab() {
 														<span
 															className={`text-sm font-medium ${getStatusCodeColor(code)}`}
 														>
-															{code}
+															{code === "error" ? "Failed" : code}
 														</span>
 													</button>
 												))}
@@ -602,30 +661,97 @@ export function RequestsTab() {
 									</DropdownMenu>
 								</div>
 							</div>
+
+							<div className="h-px bg-border" />
+
+							{/* Search and Minimums */}
+							<div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+								<div>
+									<Label htmlFor="model-filter" className="text-xs">
+										Model contains
+									</Label>
+									<Input
+										id="model-filter"
+										value={modelFilter}
+										onChange={(e) => setModelFilter(e.target.value)}
+										placeholder="e.g. sonnet"
+										className="h-9 text-sm"
+									/>
+								</div>
+								<div>
+									<Label htmlFor="path-filter" className="text-xs">
+										Path contains
+									</Label>
+									<Input
+										id="path-filter"
+										value={pathFilter}
+										onChange={(e) => setPathFilter(e.target.value)}
+										placeholder="e.g. /v1/messages"
+										className="h-9 text-sm"
+									/>
+								</div>
+								<div>
+									<Label htmlFor="min-cost" className="text-xs">
+										Min cost (USD)
+									</Label>
+									<Input
+										id="min-cost"
+										type="number"
+										min={0}
+										step="0.01"
+										value={minCost}
+										onChange={(e) => setMinCost(e.target.value)}
+										className="h-9 text-sm"
+									/>
+								</div>
+								<div>
+									<Label htmlFor="min-tokens" className="text-xs">
+										Min tokens
+									</Label>
+									<Input
+										id="min-tokens"
+										type="number"
+										min={0}
+										step="1000"
+										value={minTokens}
+										onChange={(e) => setMinTokens(e.target.value)}
+										className="h-9 text-sm"
+									/>
+								</div>
+							</div>
 						</div>
 					</div>
 				)}
 
-				{!data ? (
-					<p className="text-muted-foreground">No requests found</p>
-				) : filteredRequests.length === 0 ? (
+				{searchQuery && hasActiveFilters && (
+					<p className="mb-2 text-xs text-muted-foreground">
+						Filters don't apply to text search.
+					</p>
+				)}
+				{searchQuery ? (
+					<RequestSearchResults
+						query={searchQuery}
+						onSelect={setModalRequest}
+					/>
+				) : requests.length === 0 ? (
 					<p className="text-muted-foreground">
-						No requests match the selected filters
+						{hasActiveFilters
+							? "No requests match the selected filters"
+							: "No requests found"}
 					</p>
 				) : (
 					<div className="space-y-2">
-						{filteredRequests.map((request) => {
+						{requests.map((request) => {
 							const isExpanded = expandedRequests.has(request.id);
-							const isError = request.error || !request.meta.success;
-							const statusCode = request.response?.status;
-							const summary = data.summaries.get(request.id);
+							const isError = !request.pending && !request.success;
+							const statusCode = request.statusCode;
 
 							return (
 								<div
 									key={request.id}
 									className={`border rounded-lg p-3 transition-all duration-300 ${
 										isError ? "border-destructive/50" : "border-border"
-									} ${request.meta.pending ? "animate-pulse opacity-70" : "opacity-100"}`}
+									} ${request.pending ? "animate-pulse opacity-70" : "opacity-100"}`}
 								>
 									<button
 										type="button"
@@ -639,92 +765,95 @@ export function RequestsTab() {
 												<ChevronRight className="h-4 w-4" />
 											)}
 											<span className="text-sm font-mono">
-												{new Date(request.meta.timestamp).toLocaleTimeString()}
+												{new Date(request.timestamp).toLocaleString()}
+											</span>
+											<span className="text-sm font-medium">
+												{request.method}
+											</span>
+											<span className="text-sm text-muted-foreground font-mono">
+												{request.path}
 											</span>
-											{(request.meta.method || summary?.method) && (
-												<span className="text-sm font-medium">
-													{request.meta.method || summary?.method}
-												</span>
-											)}
-											{(request.meta.path || summary?.path) && (
-												<span className="text-sm text-muted-foreground font-mono">
-													{request.meta.path || summary?.path}
-												</span>
-											)}
 											{statusCode && (
 												<span
-													className={`text-sm font-medium ${
-														statusCode >= 200 && statusCode < 300
-															? "text-green-600"
-															: statusCode >= 400 && statusCode < 500
-																? "text-yellow-600"
-																: "text-red-600"
-													}`}
+													className={`text-sm font-medium ${getStatusCodeColor(String(statusCode))}`}
 												>
 													{statusCode}
 												</span>
 											)}
-											{summary?.model && (
+											{request.model && (
 												<Badge variant="secondary" className="text-xs">
-													{summary.model}
+													{request.model}
 												</Badge>
 											)}
-											{(summary?.agentUsed || request.meta.agentUsed) && (
+											{request.agentUsed && (
 												<Badge variant="secondary" className="text-xs">
-													Agent: {summary?.agentUsed || request.meta.agentUsed}
+													Agent:{" "}
+													{agentNames.get(request.agentUsed) ??
+														request.agentUsed}
+												</Badge>
+											)}
+											{request.interceptedBy && (
+												<Badge
+													variant="outline"
+													className="text-xs"
+													title={request.interceptedBy.join(", ")}
+												>
+													Intercepted
+												</Badge>
+											)}
+											{request.fallbackFromModel && (
+												<Badge variant="warning" className="text-xs">
+													Fallback from {request.fallbackFromModel}
 												</Badge>
 											)}
-											{(summary?.totalTokens || request.meta.pending) && (
+											{request.apiKeyName && (
 												<Badge variant="outline" className="text-xs">
-													{summary?.totalTokens
-														? formatTokens(summary.totalTokens)
+													Key: {request.apiKeyName}
+												</Badge>
+											)}
+											{(request.totalTokens || request.pending) && (
+												<Badge variant="outline" className="text-xs">
+													{request.totalTokens
+														? formatTokens(request.totalTokens)
 														: "--"}{" "}
 													tokens
 												</Badge>
 											)}
-											{(summary?.costUsd || request.meta.pending) && (
+											{(request.costUsd || request.pending) && (
 												<Badge variant="default" className="text-xs">
-													{summary?.costUsd && summary.costUsd > 0
-														? formatCost(summary.costUsd)
+													{request.costUsd && request.costUsd > 0
+														? formatCost(request.costUsd)
 														: "--"}
 												</Badge>
 											)}
-											{summary?.tokensPerSecond &&
-												summary.tokensPerSecond > 0 && (
+											{request.tokensPerSecond &&
+												request.tokensPerSecond > 0 && (
 													<Badge variant="secondary" className="text-xs">
-														{formatTokensPerSecond(summary.tokensPerSecond)}
+														{formatTokensPerSecond(request.tokensPerSecond)}
 													</Badge>
 												)}
-											{(request.meta.accountName || request.meta.accountId) && (
+											{request.accountUsed && (
 												<span className="text-sm text-muted-foreground">
-													via{" "}
-													{request.meta.accountName ||
-														`${request.meta.accountId?.slice(0, 8)}...`}
+													via {request.accountUsed}
 												</span>
 											)}
-											{request.meta.rateLimited && (
-												<Badge variant="warning" className="text-xs">
-													Rate Limited
-												</Badge>
-											)}
-											{request.error && (
+											{request.errorMessage && (
 												<span className="text-sm text-destructive">
-													Error: {request.error}
+													Error: {request.errorMessage}
 												</span>
 											)}
 										</div>
 										<div className="text-sm text-muted-foreground flex items-center gap-2">
-											{(summary?.responseTimeMs || request.meta.pending) && (
+											{(request.responseTimeMs || request.pending) && (
 												<span>
-													{summary?.responseTimeMs
-														? formatDuration(summary.responseTimeMs)
+													{request.responseTimeMs
+														? formatDuration(request.responseTimeMs)
 														: "--"}
 												</span>
 											)}
-											{request.meta.retry !== undefined &&
-												request.meta.retry > 0 && (
-													<span>Retry {request.meta.retry}</span>
-												)}
+											{request.failoverAttempts > 0 && (
+												<span>Failover {request.failoverAttempts}</span>
+											)}
 											<span>ID: {request.id.slice(0, 8)}...</span>
 										</div>
 									</button>
@@ -736,6 +865,7 @@ export function RequestsTab() {
 											size="icon"
 											onClick={() => setModalRequest(request)}
 											title="View Details"
+											disabled={request.pending}
 										>
 											<Eye className="h-4 w-4" />
 										</Button>
@@ -743,38 +873,19 @@ export function RequestsTab() {
 											variant="ghost"
 											size="icon"
 											title="Copy as JSON"
-											getValue={() => {
-												const decoded: RequestPayload & { decoded?: true } = {
-													...request,
-													request: {
-														...request.request,
-														body: request.request.body
-															? decodeBase64(request.request.body)
-															: null,
-													},
-													response: request.response
-														? {
-																...request.response,
-																body: request.response.body
-																	? decodeBase64(request.response.body)
-																	: null,
-															}
-														: null,
-													decoded: true,
-												};
-												return JSON.stringify(decoded, null, 2);
-											}}
+											getValue={() => JSON.stringify(request, null, 2)}
 										/>
 									</div>
 
 									{isExpanded && (
 										<div className="mt-3 space-y-3">
-											<TokenUsageDisplay summary={summary} />
+											<TokenUsageDisplay summary={request} />
 											<Button
 												variant="outline"
 												size="sm"
 												onClick={() => setModalRequest(request)}
 												className="w-full"
+												disabled={request.pending}
 											>
 												<Eye className="h-4 w-4 mr-2" />
 												View More Details
@@ -784,14 +895,41 @@ export function RequestsTab() {
 								</div>
 							);
 						})}
+						{hasNextPage && (
+							<Button
+								variant="outline"
+								onClick={() => fetchNextPage()}
+								disabled={isFetchingNextPage}
+								className="w-full"
+							>
+								{isFetchingNextPage ? "Loading..." : "Load more"}
+							</Button>
+						)}
+					</div>
+				)}
+				{modalRequest && !modalLoading && modalPayload === null && (
+					<div className="fixed bottom-4 right-4 z-50 rounded-lg border bg-card p-4 shadow-lg">
+						<div className="flex items-center gap-3">
+							<p className="text-sm text-muted-foreground">
+								Headers and bodies are no longer stored for this request.
+							</p>
+							<Button
+								variant="ghost"
+								size="sm"
+								onClick={() => setModalRequest(null)}
+								className="h-8 w-8 p-0"
+							>
+								<X className="h-4 w-4" />
+							</Button>
+						</div>
 					</div>
 				)}
 			</CardContent>
 
-			{modalRequest && (
+			{modalRequest && modalPayload && (
 				<RequestDetailsModal
-					request={modalRequest}
-					summary={data?.summaries.get(modalRequest.id)}
+					request={modalPayload}
+					summary={modalRequest}
 					isOpen={true}
 					onClose={() => setModalRequest(null)}
 				/>
@@ -0,0 +1,264 @@
+import type { MessageData } from "@ccflare/types";
+import {
+	cleanLineNumbers,
+	formatCost,
+	formatTokens,
+	genMessageKey,
+	parseAssistantMessage,
+	parseRequestMessages,
+} from "@ccflare/ui-common";
+import { MessagesSquare, RefreshCw } from "lucide-react";
+import { useMemo, useState } from "react";
+import type { ConversationSummary, ConversationTurn } from "../api";
+import {
+	useConversation,
+	useConversations,
+	useRequestDetails,
+} from "../hooks/queries";
+import { Message } from "./conversation";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "./ui/card";
+
+function decodeBody(body: string | null | undefined): string | null {
+	if (!body || body === "[streamed]") return null;
+	try {
+		const bytes = Uint8Array.from(atob(body), (char) => char.charCodeAt(0));
+		return new TextDecoder().decode(bytes);
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * The messages a turn added to the conversation: the user messages sent since
+ * the previous assistant reply, and the reply to them
+ */
+function toTurnMessages(
+	requestBody: string | null,
+	responseBody: string | null,
+): MessageData[] {
+	const requestMessages = parseRequestMessages(requestBody);
+	const lastAssistant = requestMessages.findLastIndex(
+		(message) => message.role === "assistant",
+	);
+	const messages = requestMessages.slice(lastAssistant + 1);
+
+	const reply = parseAssistantMessage(responseBody);
+	if (reply && (reply.content || reply.contentBlocks?.length)) {
+		messages.push(reply);
+	}
+	return messages;
+}
+
+function formatTimeRange(conversation: ConversationSummary): string {
+	const first = new Date(conversation.firstTimestamp);
+	const last = new Date(conversation.lastTimestamp);
+	const sameDay = first.toDateString() === last.toDateString();
+	return `${first.toLocaleString()} – ${
+		sameDay ? last.toLocaleTimeString() : last.toLocaleString()
+	}`;
+}
+
+function TurnView({ turn, index }: { turn: ConversationTurn; index: number }) {
+	const { data: payload, isLoading } = useRequestDetails(
+		turn.hasPayload ? turn.id : "",
+	);
+
+	const messages = useMemo(
+		() =>
+			payload
+				? toTurnMessages(
+						decodeBody(payload.request.body),
+						decodeBody(payload.response?.body),
+					)
+				: [],
+		[payload],
+	);
+
+	return (
+		<div className="border-l-2 border-border pl-4 space-y-3">
+			<div className="flex items-center gap-2 flex-wrap text-sm">
+				<span className="font-medium">Turn {index + 1}</span>
+				<span className="font-mono text-muted-foreground">
+					{new Date(turn.timestamp).toLocaleTimeString()}
+				</span>
+				{turn.statusCode && (
+					<span className={turn.success ? "" : "text-destructive"}>
+						{turn.statusCode}
+					</span>
+				)}
+				{turn.model && (
+					<Badge variant="secondary" className="text-xs">
+						{turn.model}
+					</Badge>
+				)}
+				{turn.agentUsed && (
+					<Badge variant="secondary" className="text-xs">
+						Agent: {turn.agentUsed}
+					</Badge>
+				)}
+				<Badge variant="outline" className="text-xs">
+					{formatTokens(turn.totalTokens)} tokens ·{" "}
+					{formatTokens(turn.cumulativeTokens)} total
+				</Badge>
+				<Badge variant="outline" className="text-xs">
+					{formatCost(turn.costUsd)} · {formatCost(turn.cumulativeCostUsd)}{" "}
+					total
+				</Badge>
+			</div>
+
+			{!turn.hasPayload ? (
+				<p className="text-sm text-muted-foreground">
+					Payload no longer stored
+				</p>
+			) : isLoading ? (
+				<p className="text-sm text-muted-foreground">Loading...</p>
+			) : messages.length === 0 ? (
+				<p className="text-sm text-muted-foreground">No messages</p>
+			) : (
+				<div className="space-y-3">
+					{messages.map((message, messageIndex) => (
+						<Message
+							key={genMessageKey(message, messageIndex)}
+							role={message.role}
+							content={message.content}
+							contentBlocks={message.contentBlocks}
+							tools={message.tools}
+							toolResults={message.toolResults}
+							cleanLineNumbers={cleanLineNumbers}
+						/>
+					))}
+				</div>
+			)}
+		</div>
+	);
+}
+
+/**
+ * Replays a conversation turn by turn, with running token and cost totals
+ */
+function ConversationReplay({ conversationId }: { conversationId: string }) {
+	const { data: timeline, isLoading, error } = useConversation(conversationId);
+
+	if (isLoading) {
+		return <p className="text-muted-foreground">Loading conversation...</p>;
+	}
+
+	if (error || !timeline) {
+		return (
+			<p className="text-destructive">
+				Error:{" "}
+				{error instanceof Error ? error.message : "Conversation not found"}
+			</p>
+		);
+	}
+
+	return (
+		<div className="space-y-6">
+			<div className="flex items-center gap-2 flex-wrap text-sm">
+				<span className="text-muted-foreground">
+					{formatTimeRange(timeline)}
+				</span>
+				<Badge variant="outline">{timeline.requestCount} requests</Badge>
+				<Badge variant="outline">
+					{formatTokens(timeline.totalTokens)} tokens
+				</Badge>
+				<Badge variant="default">{formatCost(timeline.costUsd)}</Badge>
+			</div>
+			{timeline.turns.map((turn, index) => (
+				<TurnView key={turn.id} turn={turn} index={index} />
+			))}
+		</div>
+	);
+}
+
+export function SessionsTab() {
+	const { data: conversations, isLoading, error, refetch } = useConversations();
+	const [selectedId, setSelectedId] = useState<string | null>(null);
+
+	const activeId = selectedId ?? conversations?.[0]?.id ?? null;
+
+	return (
+		<Card>
+			<CardHeader>
+				<div className="flex items-center justify-between">
+					<div>
+						<CardTitle>Sessions</CardTitle>
+						<CardDescription>
+							Requests threaded into conversations by the
+							x-ccflare-conversation-id header, or by their system prompt,
+							working directory and first message
+						</CardDescription>
+					</div>
+					<Button onClick={() => refetch()} variant="ghost" size="icon">
+						<RefreshCw className="h-4 w-4" />
+					</Button>
+				</div>
+			</CardHeader>
+			<CardContent>
+				{isLoading ? (
+					<p className="text-muted-foreground">Loading sessions...</p>
+				) : error ? (
+					<p className="text-destructive">
+						Error: {error instanceof Error ? error.message : String(error)}
+					</p>
+				) : !conversations || conversations.length === 0 ? (
+					<p className="text-muted-foreground">No sessions recorded yet</p>
+				) : (
+					<div className="grid gap-6 lg:grid-cols-[20rem_1fr]">
+						<div className="space-y-2 lg:max-h-[75vh] lg:overflow-y-auto">
+							{conversations.map((conversation) => (
+								<button
+									key={conversation.id}
+									type="button"
+									onClick={() => setSelectedId(conversation.id)}
+									className={`block w-full text-left border rounded-lg p-3 transition-colors ${
+										conversation.id === activeId
+											? "border-primary bg-muted/50"
+											: "border-border hover:bg-muted/50"
+									}`}
+								>
+									<div className="flex items-center gap-2 text-sm font-medium">
+										<MessagesSquare className="h-4 w-4 text-muted-foreground" />
+										{new Date(conversation.lastTimestamp).toLocaleString()}
+									</div>
+									<div className="mt-1 text-xs text-muted-foreground">
+										{conversation.requestCount} requests ·{" "}
+										{formatTokens(conversation.totalTokens)} tokens ·{" "}
+										{formatCost(conversation.costUsd)}
+									</div>
+									<div className="mt-2 flex gap-1 flex-wrap">
+										{conversation.models.map((model) => (
+											<Badge
+												key={model}
+												variant="secondary"
+												className="text-xs"
+											>
+												{model}
+											</Badge>
+										))}
+										{conversation.agents.map((agent) => (
+											<Badge key={agent} variant="outline" className="text-xs">
+												Agent: {agent}
+											</Badge>
+										))}
+									</div>
+								</button>
+							))}
+						</div>
+						<div className="min-w-0">
+							{activeId && <ConversationReplay conversationId={activeId} />}
+						</div>
+					</div>
+				)}
+			</CardContent>
+		</Card>
+	);
+}
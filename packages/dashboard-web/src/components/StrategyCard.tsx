@@ -1,3 +1,4 @@
+import { STRATEGY_DESCRIPTIONS, type StrategyName } from "@ccflare/core";
 import { RefreshCw, Settings } from "lucide-react";
 import { useCallback, useEffect, useState } from "react";
 import { api } from "../api";
@@ -136,11 +137,13 @@ export function StrategyCard() {
 						<div className="text-sm text-destructive">Error: {error}</div>
 					)}
 
-					<div className="text-xs text-muted-foreground">
-						<p>
-							<strong>session:</strong> Maintains 5-hour sessions with a single
-							account to minimize rate limits
-						</p>
+					<div className="text-xs text-muted-foreground space-y-1">
+						{strategies.map((strategy) => (
+							<p key={strategy}>
+								<strong>{strategy}:</strong>{" "}
+								{STRATEGY_DESCRIPTIONS[strategy as StrategyName]}
+							</p>
+						))}
 					</div>
 				</div>
 			</CardContent>
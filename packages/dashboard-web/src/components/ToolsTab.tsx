@@ -1,6 +1,21 @@
+import { useEffect, useState } from "react";
+import { useInterceptorProfiles } from "../hooks/queries";
+import { InterceptorPreviewDialog } from "./tools/InterceptorPreviewDialog";
+import { InterceptorProfilesCard } from "./tools/InterceptorProfilesCard";
 import { SystemPromptInterceptorCard } from "./tools/SystemPromptInterceptorCard";
 
 export function ToolsTab() {
+	const { data: profiles } = useInterceptorProfiles();
+	const [selectedId, setSelectedId] = useState<string | null>(null);
+
+	// Select the first profile once loaded, or when the selection disappears
+	useEffect(() => {
+		if (!profiles) return;
+		if (!selectedId || !profiles.some((p) => p.id === selectedId)) {
+			setSelectedId(profiles[0]?.id ?? null);
+		}
+	}, [profiles, selectedId]);
+
 	return (
 		<div className="container mx-auto p-6">
 			<div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg">
@@ -10,7 +25,22 @@ export function ToolsTab() {
 					leading to higher API costs or faster quota consumption.
 				</p>
 			</div>
-			<SystemPromptInterceptorCard />
+			<div className="space-y-6">
+				<div className="flex justify-end">
+					<InterceptorPreviewDialog />
+				</div>
+				<InterceptorProfilesCard
+					selectedId={selectedId}
+					onSelect={setSelectedId}
+				/>
+				{selectedId && (
+					<SystemPromptInterceptorCard
+						key={selectedId}
+						profileId={selectedId}
+						onDeleted={() => setSelectedId(null)}
+					/>
+				)}
+			</div>
 		</div>
 	);
 }
@@ -16,6 +16,18 @@ interface AccountAddFormProps {
 		mode: "max" | "console";
 		tier: number;
 	}) => Promise<{ authUrl: string; sessionId: string }>;
+	onAddApiKeyAccount: (params: {
+		name: string;
+		apiKey: string;
+		tier: number;
+	}) => Promise<void>;
+	onAddOpenAICompatibleAccount: (params: {
+		name: string;
+		baseUrl: string;
+		apiKey?: string;
+		modelMap: Record<string, string>;
+		tier: number;
+	}) => Promise<void>;
 	onCompleteAccount: (params: {
 		sessionId: string;
 		code: string;
@@ -27,6 +39,8 @@ interface AccountAddFormProps {
 
 export function AccountAddForm({
 	onAddAccount,
+	onAddApiKeyAccount,
+	onAddOpenAICompatibleAccount,
 	onCompleteAccount,
 	onCancel,
 	onSuccess,
@@ -35,9 +49,13 @@ export function AccountAddForm({
 	const [authStep, setAuthStep] = useState<"form" | "code">("form");
 	const [authCode, setAuthCode] = useState("");
 	const [sessionId, setSessionId] = useState("");
+	const [apiKey, setApiKey] = useState("");
+	const [baseUrl, setBaseUrl] = useState("");
+	const [model, setModel] = useState("");
+	const [isVerifying, setIsVerifying] = useState(false);
 	const [newAccount, setNewAccount] = useState({
 		name: "",
-		mode: "max" as "max" | "console",
+		mode: "max" as "max" | "console" | "api_key" | "openai-compatible",
 		tier: 1,
 	});
 
@@ -46,8 +64,55 @@ export function AccountAddForm({
 			onError("Account name is required");
 			return;
 		}
+
+		// API keys are verified and stored in one step, no OAuth needed
+		if (newAccount.mode === "api_key") {
+			if (!apiKey) {
+				onError("API key is required");
+				return;
+			}
+			setIsVerifying(true);
+			try {
+				await onAddApiKeyAccount({
+					name: newAccount.name,
+					apiKey,
+					tier: newAccount.tier,
+				});
+			} finally {
+				setIsVerifying(false);
+			}
+			setApiKey("");
+			setNewAccount({ name: "", mode: "max", tier: 1 });
+			onSuccess();
+			return;
+		}
+
+		// OpenAI-compatible endpoints are stored as given, keys are optional
+		if (newAccount.mode === "openai-compatible") {
+			if (!baseUrl) {
+				onError("Base URL is required");
+				return;
+			}
+			await onAddOpenAICompatibleAccount({
+				name: newAccount.name,
+				baseUrl,
+				...(apiKey ? { apiKey } : {}),
+				modelMap: model ? { "*": model } : {},
+				tier: newAccount.tier,
+			});
+			setApiKey("");
+			setBaseUrl("");
+			setModel("");
+			setNewAccount({ name: "", mode: "max", tier: 1 });
+			onSuccess();
+			return;
+		}
+
 		// Step 1: Initialize OAuth flow
-		const { authUrl, sessionId } = await onAddAccount(newAccount);
+		const { authUrl, sessionId } = await onAddAccount({
+			...newAccount,
+			mode: newAccount.mode,
+		});
 		setSessionId(sessionId);
 
 		// Open auth URL in new tab
@@ -82,6 +147,9 @@ export function AccountAddForm({
 		setAuthStep("form");
 		setAuthCode("");
 		setSessionId("");
+		setApiKey("");
+		setBaseUrl("");
+		setModel("");
 		setNewAccount({ name: "", mode: "max", tier: 1 });
 		onCancel();
 	};
@@ -111,9 +179,9 @@ export function AccountAddForm({
 						<Label htmlFor="mode">Mode</Label>
 						<Select
 							value={newAccount.mode}
-							onValueChange={(value: "max" | "console") =>
-								setNewAccount({ ...newAccount, mode: value })
-							}
+							onValueChange={(
+								value: "max" | "console" | "api_key" | "openai-compatible",
+							) => setNewAccount({ ...newAccount, mode: value })}
 						>
 							<SelectTrigger id="mode">
 								<SelectValue />
@@ -121,9 +189,75 @@ export function AccountAddForm({
 							<SelectContent>
 								<SelectItem value="max">Max (Recommended)</SelectItem>
 								<SelectItem value="console">Console</SelectItem>
+								<SelectItem value="api_key">Existing API key</SelectItem>
+								<SelectItem value="openai-compatible">
+									OpenAI-compatible API
+								</SelectItem>
 							</SelectContent>
 						</Select>
 					</div>
+					{newAccount.mode === "api_key" && (
+						<div className="space-y-2">
+							<Label htmlFor="api-key">API Key</Label>
+							<Input
+								id="api-key"
+								type="password"
+								autoComplete="off"
+								value={apiKey}
+								onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+									setApiKey((e.target as HTMLInputElement).value)
+								}
+								placeholder="sk-ant-..."
+							/>
+							<p className="text-xs text-muted-foreground">
+								The key is checked with a test call to the Anthropic API before
+								it is saved.
+							</p>
+						</div>
+					)}
+					{newAccount.mode === "openai-compatible" && (
+						<>
+							<div className="space-y-2">
+								<Label htmlFor="base-url">Base URL</Label>
+								<Input
+									id="base-url"
+									value={baseUrl}
+									onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+										setBaseUrl((e.target as HTMLInputElement).value)
+									}
+									placeholder="e.g., http://localhost:8000/v1"
+								/>
+							</div>
+							<div className="space-y-2">
+								<Label htmlFor="openai-api-key">API Key (optional)</Label>
+								<Input
+									id="openai-api-key"
+									type="password"
+									autoComplete="off"
+									value={apiKey}
+									onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+										setApiKey((e.target as HTMLInputElement).value)
+									}
+								/>
+							</div>
+							<div className="space-y-2">
+								<Label htmlFor="model">Model</Label>
+								<Input
+									id="model"
+									value={model}
+									onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+										setModel((e.target as HTMLInputElement).value)
+									}
+									placeholder="e.g., qwen2.5-coder"
+								/>
+								<p className="text-xs text-muted-foreground">
+									Every request is sent with this model. Leave empty to pass the
+									requested model through. Only requests routed to this account
+									by a routing rule use it.
+								</p>
+							</div>
+						</>
+					)}
 					<div className="space-y-2">
 						<Label htmlFor="tier">Tier</Label>
 						<Select
@@ -146,7 +280,15 @@ export function AccountAddForm({
 			)}
 			{authStep === "form" ? (
 				<div className="flex gap-2">
-					<Button onClick={handleAddAccount}>Continue</Button>
+					<Button onClick={handleAddAccount} disabled={isVerifying}>
+						{newAccount.mode === "api_key"
+							? isVerifying
+								? "Verifying..."
+								: "Verify and Add"
+							: newAccount.mode === "openai-compatible"
+								? "Add"
+								: "Continue"}
+					</Button>
 					<Button variant="outline" onClick={handleCancel}>
 						Cancel
 					</Button>
@@ -0,0 +1,111 @@
+import { useState } from "react";
+import { Button } from "../ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "../ui/dialog";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+
+const GROUP_PATTERN = /^[\w.-]{1,64}$/;
+
+interface AccountGroupsDialogProps {
+	isOpen: boolean;
+	accountName: string;
+	currentGroups: string[];
+	onClose: () => void;
+	onSave: (groups: string[]) => void;
+	isLoading?: boolean;
+}
+
+export function AccountGroupsDialog({
+	isOpen,
+	accountName,
+	currentGroups,
+	onClose,
+	onSave,
+	isLoading = false,
+}: AccountGroupsDialogProps) {
+	const [value, setValue] = useState(currentGroups.join(", "));
+	const [error, setError] = useState("");
+
+	const handleSubmit = (e: React.FormEvent) => {
+		e.preventDefault();
+
+		const groups = value
+			.split(",")
+			.map((group) => group.trim())
+			.filter(Boolean);
+		const invalid = groups.find((group) => !GROUP_PATTERN.test(group));
+		if (invalid) {
+			setError(
+				`"${invalid}" is not a valid group name. Use letters, digits, underscores, dots or hyphens.`,
+			);
+			return;
+		}
+
+		setError("");
+		onSave(groups);
+	};
+
+	const handleOpenChange = (open: boolean) => {
+		if (!open) {
+			setValue(currentGroups.join(", "));
+			setError("");
+			onClose();
+		}
+	};
+
+	return (
+		<Dialog open={isOpen} onOpenChange={handleOpenChange}>
+			<DialogContent>
+				<form onSubmit={handleSubmit}>
+					<DialogHeader>
+						<DialogTitle>Account Groups</DialogTitle>
+						<DialogDescription>
+							Groups for account "{accountName}". Routing rules send requests to
+							the accounts in a group.
+						</DialogDescription>
+					</DialogHeader>
+					<div className="grid gap-4 py-4">
+						<div className="grid gap-2">
+							<Label htmlFor="account-groups">Groups</Label>
+							<Input
+								id="account-groups"
+								value={value}
+								onChange={(e) => {
+									setValue(e.target.value);
+									setError("");
+								}}
+								placeholder="e.g. opus-capable, team-a"
+								autoFocus
+								disabled={isLoading}
+							/>
+							<p className="text-xs text-muted-foreground">
+								Separate groups with commas. Leave empty to remove all groups.
+							</p>
+							{error && <p className="text-sm text-destructive">{error}</p>}
+						</div>
+					</div>
+					<DialogFooter>
+						<Button
+							type="button"
+							variant="outline"
+							onClick={() => handleOpenChange(false)}
+							disabled={isLoading}
+						>
+							Cancel
+						</Button>
+						<Button type="submit" disabled={isLoading}>
+							{isLoading ? "Saving..." : "Save"}
+						</Button>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	);
+}
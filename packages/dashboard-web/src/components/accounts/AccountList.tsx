@@ -6,6 +6,7 @@ interface AccountListProps {
 	onPauseToggle: (account: Account) => void;
 	onRemove: (name: string) => void;
 	onRename: (account: Account) => void;
+	onEditGroups: (account: Account) => void;
 }
 
 export function AccountList({
@@ -13,6 +14,7 @@ export function AccountList({
 	onPauseToggle,
 	onRemove,
 	onRename,
+	onEditGroups,
 }: AccountListProps) {
 	if (!accounts || accounts.length === 0) {
 		return <p className="text-muted-foreground">No accounts configured</p>;
@@ -35,17 +37,38 @@ export function AccountList({
 		null as string | null,
 	);
 
+	const sections = [
+		{
+			title: "OAuth accounts",
+			items: accounts.filter((account) => account.authType === "oauth"),
+		},
+		{
+			title: "API-key accounts",
+			items: accounts.filter((account) => account.authType === "api_key"),
+		},
+	].filter((section) => section.items.length > 0);
+
 	return (
-		<div className="space-y-2">
-			{accounts.map((account) => (
-				<AccountListItem
-					key={account.name}
-					account={account}
-					isActive={account.id === mostRecentAccountId}
-					onPauseToggle={onPauseToggle}
-					onRemove={onRemove}
-					onRename={onRename}
-				/>
+		<div className="space-y-4">
+			{sections.map((section) => (
+				<div key={section.title} className="space-y-2">
+					{sections.length > 1 && (
+						<h4 className="text-sm font-medium text-muted-foreground">
+							{section.title} ({section.items.length})
+						</h4>
+					)}
+					{section.items.map((account) => (
+						<AccountListItem
+							key={account.name}
+							account={account}
+							isActive={account.id === mostRecentAccountId}
+							onPauseToggle={onPauseToggle}
+							onRemove={onRemove}
+							onRename={onRename}
+							onEditGroups={onEditGroups}
+						/>
+					))}
+				</div>
 			))}
 		</div>
 	);
@@ -5,9 +5,11 @@ import {
 	Edit2,
 	Pause,
 	Play,
+	Tags,
 	Trash2,
 } from "lucide-react";
 import type { Account } from "../../api";
+import { Badge } from "../ui/badge";
 import { Button } from "../ui/button";
 import { RateLimitProgress } from "./RateLimitProgress";
 
@@ -17,6 +19,7 @@ interface AccountListItemProps {
 	onPauseToggle: (account: Account) => void;
 	onRemove: (name: string) => void;
 	onRename: (account: Account) => void;
+	onEditGroups: (account: Account) => void;
 }
 
 export function AccountListItem({
@@ -25,6 +28,7 @@ export function AccountListItem({
 	onPauseToggle,
 	onRemove,
 	onRename,
+	onEditGroups,
 }: AccountListItemProps) {
 	const presenter = new AccountPresenter(account);
 
@@ -49,8 +53,25 @@ export function AccountListItem({
 							)}
 						</div>
 						<p className="text-sm text-muted-foreground">
-							{account.provider} • {presenter.tierDisplay}
+							{account.provider} •{" "}
+							{account.authType === "api_key" ? "API key" : "OAuth"} •{" "}
+							{presenter.tierDisplay}
 						</p>
+						{account.baseUrl && (
+							<p className="text-xs text-muted-foreground font-mono">
+								{account.baseUrl}
+								{account.modelMap["*"] && ` → ${account.modelMap["*"]}`}
+							</p>
+						)}
+						{account.groups.length > 0 && (
+							<div className="flex flex-wrap gap-1 mt-1">
+								{account.groups.map((group) => (
+									<Badge key={group} variant="secondary">
+										{group}
+									</Badge>
+								))}
+							</div>
+						)}
 					</div>
 					<div className="flex items-center gap-2">
 						{presenter.isRateLimited ? (
@@ -78,6 +99,14 @@ export function AccountListItem({
 					>
 						<Edit2 className="h-4 w-4" />
 					</Button>
+					<Button
+						variant="ghost"
+						size="sm"
+						onClick={() => onEditGroups(account)}
+						title="Edit groups"
+					>
+						<Tags className="h-4 w-4" />
+					</Button>
 					<Button
 						variant="ghost"
 						size="sm"
@@ -0,0 +1,407 @@
+import { ArrowRight, Pencil, Trash2 } from "lucide-react";
+import { useState } from "react";
+import type {
+	ApiKeyInfo,
+	RoutingMatchRules,
+	RoutingRule,
+	RoutingRuleInput,
+} from "../../api";
+import {
+	useAgents,
+	useApiKeys,
+	useCreateRoutingRule,
+	useDeleteRoutingRule,
+	useRoutingSettings,
+	useUpdateRoutingRule,
+} from "../../hooks/queries";
+import { useApiError } from "../../hooks/useApiError";
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "../ui/card";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "../ui/select";
+import { Switch } from "../ui/switch";
+
+// Select value for conditions that are not set
+const ANY = "any";
+
+interface RuleForm {
+	name: string;
+	priority: string;
+	model: string;
+	agent: string;
+	path: string;
+	apiKeyId: string;
+	headerName: string;
+	headerValue: string;
+	group: string;
+	fallbackGroups: string;
+}
+
+const EMPTY_FORM: RuleForm = {
+	name: "",
+	priority: "0",
+	model: "",
+	agent: ANY,
+	path: "",
+	apiKeyId: ANY,
+	headerName: "",
+	headerValue: "",
+	group: "",
+	fallbackGroups: "",
+};
+
+function toForm(rule: RoutingRule): RuleForm {
+	return {
+		name: rule.name,
+		priority: String(rule.priority),
+		model: rule.match.model ?? "",
+		agent: rule.match.agent ?? ANY,
+		path: rule.match.path ?? "",
+		apiKeyId: rule.match.apiKeyId ?? ANY,
+		headerName: rule.match.header?.name ?? "",
+		headerValue: rule.match.header?.value ?? "",
+		group: rule.group,
+		fallbackGroups: rule.fallbackGroups.join(", "),
+	};
+}
+
+function toInput(form: RuleForm): RoutingRuleInput {
+	const match: RoutingMatchRules = {};
+	if (form.model.trim()) match.model = form.model.trim();
+	if (form.agent !== ANY) match.agent = form.agent;
+	if (form.path.trim()) match.path = form.path.trim();
+	if (form.apiKeyId !== ANY) match.apiKeyId = form.apiKeyId;
+	if (form.headerName.trim()) {
+		match.header = {
+			name: form.headerName.trim(),
+			...(form.headerValue ? { value: form.headerValue } : {}),
+		};
+	}
+
+	return {
+		name: form.name.trim(),
+		priority: Number.parseInt(form.priority, 10) || 0,
+		match,
+		group: form.group.trim(),
+		fallbackGroups: form.fallbackGroups
+			.split(",")
+			.map((group) => group.trim())
+			.filter(Boolean),
+	};
+}
+
+/**
+ * Summarise a rule's conditions for the list view
+ */
+function describeMatch(match: RoutingMatchRules, keys: ApiKeyInfo[]): string {
+	const parts: string[] = [];
+	if (match.model) parts.push(`model ~ ${match.model}`);
+	if (match.agent) {
+		parts.push(match.agent === "main" ? "main agent" : `agent ${match.agent}`);
+	}
+	if (match.path) parts.push(`path ${match.path}*`);
+	if (match.apiKeyId) {
+		const key = keys.find((k) => k.id === match.apiKeyId);
+		parts.push(`client key ${key?.name ?? match.apiKeyId}`);
+	}
+	if (match.header) {
+		parts.push(
+			match.header.value
+				? `${match.header.name}: ${match.header.value}`
+				: `has ${match.header.name}`,
+		);
+	}
+	return parts.length > 0 ? parts.join(" · ") : "Every request";
+}
+
+export function RoutingRulesCard() {
+	const { formatError } = useApiError();
+	const { data, isLoading } = useRoutingSettings();
+	const { data: agentsData } = useAgents();
+	const { data: apiKeys } = useApiKeys();
+	const createRule = useCreateRoutingRule();
+	const updateRule = useUpdateRoutingRule();
+	const deleteRule = useDeleteRoutingRule();
+
+	const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+	const [editingId, setEditingId] = useState<string | null>(null);
+
+	const keys = apiKeys ?? [];
+	const groups = data?.groups ?? [];
+	const error = createRule.error ?? updateRule.error ?? deleteRule.error;
+	const isSaving = createRule.isPending || updateRule.isPending;
+
+	const setField = (field: keyof RuleForm) => (value: string) =>
+		setForm((current) => ({ ...current, [field]: value }));
+
+	const resetForm = () => {
+		setForm(EMPTY_FORM);
+		setEditingId(null);
+	};
+
+	const handleSubmit = (e: React.FormEvent) => {
+		e.preventDefault();
+		const input = toInput(form);
+		if (editingId) {
+			updateRule.mutate(
+				{ id: editingId, update: input },
+				{ onSuccess: resetForm },
+			);
+		} else {
+			createRule.mutate(input, { onSuccess: resetForm });
+		}
+	};
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Routing Rules</CardTitle>
+				<CardDescription>
+					Send requests to a group of accounts by model, agent, path, client key
+					or header. The highest-priority matching rule wins; requests that
+					match no rule can use any account.
+				</CardDescription>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				<div className="flex flex-wrap items-center gap-2 text-sm">
+					<span className="text-muted-foreground">Groups:</span>
+					{groups.length === 0 ? (
+						<span className="text-muted-foreground">
+							none yet. Tag accounts above to create groups.
+						</span>
+					) : (
+						groups.map((group) => (
+							<Badge
+								key={group.name}
+								variant="secondary"
+								title={group.accounts.join(", ")}
+							>
+								{group.name} ({group.accounts.length})
+							</Badge>
+						))
+					)}
+				</div>
+
+				<div className="space-y-2">
+					{!isLoading && data?.rules.length === 0 && (
+						<p className="text-sm text-muted-foreground">No routing rules.</p>
+					)}
+					{data?.rules.map((rule) => (
+						<div
+							key={rule.id}
+							className="flex items-center gap-2 rounded-md border p-2"
+						>
+							<Switch
+								checked={rule.isEnabled}
+								onCheckedChange={(isEnabled) =>
+									updateRule.mutate({ id: rule.id, update: { isEnabled } })
+								}
+							/>
+							<div className="min-w-0 flex-1">
+								<div className="flex items-center gap-2">
+									<p className="text-sm font-medium truncate">{rule.name}</p>
+									<Badge variant="outline">Priority {rule.priority}</Badge>
+								</div>
+								<p className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+									{describeMatch(rule.match, keys)}
+									<ArrowRight className="h-3 w-3" />
+									<span className="font-medium text-foreground">
+										{rule.group}
+									</span>
+									{rule.fallbackGroups.length > 0 &&
+										`, then ${rule.fallbackGroups.join(", then ")}`}
+								</p>
+							</div>
+							<Button
+								variant="ghost"
+								size="sm"
+								onClick={() => {
+									setForm(toForm(rule));
+									setEditingId(rule.id);
+								}}
+								title="Edit rule"
+							>
+								<Pencil className="h-4 w-4" />
+							</Button>
+							<Button
+								variant="ghost"
+								size="sm"
+								onClick={() => {
+									if (confirm(`Delete routing rule "${rule.name}"?`)) {
+										deleteRule.mutate(rule.id);
+										if (editingId === rule.id) resetForm();
+									}
+								}}
+								title="Delete rule"
+							>
+								<Trash2 className="h-4 w-4" />
+							</Button>
+						</div>
+					))}
+				</div>
+
+				<form onSubmit={handleSubmit} className="space-y-4 border-t pt-4">
+					<p className="text-sm font-medium">
+						{editingId ? `Edit "${form.name}"` : "New rule"}
+					</p>
+					<div className="grid gap-4 md:grid-cols-2">
+						<div className="space-y-2">
+							<Label htmlFor="routing-name">Name</Label>
+							<Input
+								id="routing-name"
+								placeholder="e.g. Opus to opus-capable"
+								value={form.name}
+								onChange={(e) => setField("name")(e.target.value)}
+							/>
+						</div>
+						<div className="space-y-2">
+							<Label htmlFor="routing-priority">Priority</Label>
+							<Input
+								id="routing-priority"
+								type="number"
+								value={form.priority}
+								onChange={(e) => setField("priority")(e.target.value)}
+							/>
+						</div>
+						<div className="space-y-2">
+							<Label htmlFor="routing-model">Model contains</Label>
+							<Input
+								id="routing-model"
+								placeholder="e.g. opus"
+								value={form.model}
+								onChange={(e) => setField("model")(e.target.value)}
+							/>
+						</div>
+						<div className="space-y-2">
+							<Label htmlFor="routing-agent">Agent</Label>
+							<Select value={form.agent} onValueChange={setField("agent")}>
+								<SelectTrigger id="routing-agent">
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value={ANY}>Any</SelectItem>
+									<SelectItem value="main">Main agent</SelectItem>
+									{agentsData?.agents.map((agent) => (
+										<SelectItem key={agent.id} value={agent.id}>
+											Agent: {agent.name}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</div>
+						<div className="space-y-2">
+							<Label htmlFor="routing-path">Path prefix</Label>
+							<Input
+								id="routing-path"
+								placeholder="e.g. /v1/messages"
+								value={form.path}
+								onChange={(e) => setField("path")(e.target.value)}
+							/>
+						</div>
+						<div className="space-y-2">
+							<Label htmlFor="routing-key">Client key</Label>
+							<Select
+								value={form.apiKeyId}
+								onValueChange={setField("apiKeyId")}
+							>
+								<SelectTrigger id="routing-key">
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value={ANY}>Any</SelectItem>
+									{keys.map((key) => (
+										<SelectItem key={key.id} value={key.id}>
+											{key.name}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</div>
+						<div className="space-y-2">
+							<Label htmlFor="routing-header">Header</Label>
+							<div className="flex gap-2">
+								<Input
+									id="routing-header"
+									placeholder="e.g. x-ccflare-group"
+									value={form.headerName}
+									onChange={(e) => setField("headerName")(e.target.value)}
+								/>
+								<Input
+									placeholder="Value (optional)"
+									value={form.headerValue}
+									onChange={(e) => setField("headerValue")(e.target.value)}
+								/>
+							</div>
+						</div>
+						<div className="space-y-2">
+							<Label htmlFor="routing-group">Group</Label>
+							<Input
+								id="routing-group"
+								list="routing-groups"
+								placeholder="e.g. opus-capable"
+								value={form.group}
+								onChange={(e) => setField("group")(e.target.value)}
+							/>
+							<datalist id="routing-groups">
+								{groups.map((group) => (
+									<option key={group.name} value={group.name} />
+								))}
+							</datalist>
+						</div>
+						<div className="space-y-2 md:col-span-2">
+							<Label htmlFor="routing-fallback">Fallback groups</Label>
+							<Input
+								id="routing-fallback"
+								placeholder="Tried in order when no account in the group is available, e.g. team-a, ci"
+								value={form.fallbackGroups}
+								onChange={(e) => setField("fallbackGroups")(e.target.value)}
+							/>
+						</div>
+					</div>
+					<p className="text-sm text-muted-foreground">
+						Leave a condition empty to match any value. If a rule matches but
+						none of its groups has an available account, the request fails with
+						503.
+					</p>
+					<div className="flex gap-2">
+						<Button
+							type="submit"
+							size="sm"
+							disabled={isSaving || !form.name.trim() || !form.group.trim()}
+						>
+							{editingId ? "Save rule" : "Add rule"}
+						</Button>
+						{editingId && (
+							<Button
+								type="button"
+								variant="outline"
+								size="sm"
+								onClick={resetForm}
+							>
+								Cancel
+							</Button>
+						)}
+					</div>
+				</form>
+
+				{error && (
+					<p className="text-sm text-destructive">{formatError(error)}</p>
+				)}
+			</CardContent>
+		</Card>
+	);
+}
@@ -1,6 +1,8 @@
 export { AccountAddForm } from "./AccountAddForm";
+export { AccountGroupsDialog } from "./AccountGroupsDialog";
 export { AccountList } from "./AccountList";
 export { AccountListItem } from "./AccountListItem";
 export { DeleteConfirmationDialog } from "./DeleteConfirmationDialog";
 export { RateLimitProgress } from "./RateLimitProgress";
 export { RenameAccountDialog } from "./RenameAccountDialog";
+export { RoutingRulesCard } from "./RoutingRulesCard";
@@ -0,0 +1,129 @@
+import { useState } from "react";
+import type { ApiKeyLimits } from "../../api";
+import { Button } from "../ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "../ui/dialog";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+
+interface ApiKeyLimitsDialogProps {
+	isOpen: boolean;
+	keyName: string;
+	limits: ApiKeyLimits;
+	onClose: () => void;
+	onSave: (limits: ApiKeyLimits) => void;
+	isLoading?: boolean;
+}
+
+const FIELDS: Array<{
+	field: keyof ApiKeyLimits;
+	label: string;
+	integer: boolean;
+}> = [
+	{ field: "requestsPerMinute", label: "Requests per minute", integer: true },
+	{ field: "tokensPerDay", label: "Tokens per day (UTC)", integer: true },
+	{ field: "usdPerMonth", label: "USD per month (UTC)", integer: false },
+];
+
+function toInputs(limits: ApiKeyLimits): Record<keyof ApiKeyLimits, string> {
+	return {
+		requestsPerMinute: limits.requestsPerMinute?.toString() ?? "",
+		tokensPerDay: limits.tokensPerDay?.toString() ?? "",
+		usdPerMonth: limits.usdPerMonth?.toString() ?? "",
+	};
+}
+
+export function ApiKeyLimitsDialog({
+	isOpen,
+	keyName,
+	limits,
+	onClose,
+	onSave,
+	isLoading = false,
+}: ApiKeyLimitsDialogProps) {
+	const [inputs, setInputs] = useState(() => toInputs(limits));
+	const [error, setError] = useState("");
+
+	const handleSubmit = (e: React.FormEvent) => {
+		e.preventDefault();
+
+		const parsed: ApiKeyLimits = {
+			requestsPerMinute: null,
+			tokensPerDay: null,
+			usdPerMonth: null,
+		};
+		for (const { field, label, integer } of FIELDS) {
+			const raw = inputs[field].trim();
+			if (!raw) continue;
+			const value = Number(raw);
+			if (!Number.isFinite(value) || value <= 0) {
+				setError(`${label} must be a positive number`);
+				return;
+			}
+			if (integer && !Number.isInteger(value)) {
+				setError(`${label} must be a whole number`);
+				return;
+			}
+			parsed[field] = value;
+		}
+
+		setError("");
+		onSave(parsed);
+	};
+
+	return (
+		<Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+			<DialogContent>
+				<form onSubmit={handleSubmit}>
+					<DialogHeader>
+						<DialogTitle>Limits for "{keyName}"</DialogTitle>
+						<DialogDescription>
+							Requests over a limit are rejected with 429 before reaching any
+							account. Leave a field empty for no limit.
+						</DialogDescription>
+					</DialogHeader>
+					<div className="grid gap-4 py-4">
+						{FIELDS.map(({ field, label, integer }) => (
+							<div key={field} className="grid gap-2">
+								<Label htmlFor={`limit-${field}`}>{label}</Label>
+								<Input
+									id={`limit-${field}`}
+									type="number"
+									min={0}
+									step={integer ? 1 : "any"}
+									placeholder="No limit"
+									value={inputs[field]}
+									onChange={(e) => {
+										setInputs({ ...inputs, [field]: e.target.value });
+										setError("");
+									}}
+									disabled={isLoading}
+								/>
+							</div>
+						))}
+						{error && <p className="text-sm text-destructive">{error}</p>}
+					</div>
+					<DialogFooter>
+						<Button
+							type="button"
+							variant="outline"
+							onClick={onClose}
+							disabled={isLoading}
+						>
+							Cancel
+						</Button>
+						<Button type="submit" disabled={isLoading}>
+							{isLoading ? "Saving..." : "Save Limits"}
+						</Button>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,69 @@
+import { formatCost, formatNumber } from "@ccflare/ui-common";
+import type { ApiKeyQuota } from "../../api";
+import { Progress } from "../ui/progress";
+
+interface QuotaRowProps {
+	label: string;
+	used: number;
+	limit: number | null;
+	format: (value: number) => string;
+	resetsAt: number;
+}
+
+function QuotaRow({ label, used, limit, format, resetsAt }: QuotaRowProps) {
+	if (limit === null) {
+		return (
+			<div className="flex items-center justify-between text-xs">
+				<span className="text-muted-foreground">{label}</span>
+				<span>{format(used)} · no limit</span>
+			</div>
+		);
+	}
+
+	const percentage = Math.min(100, (used / limit) * 100);
+	const remaining = Math.max(0, limit - used);
+	return (
+		<div className="space-y-1">
+			<div className="flex items-center justify-between text-xs">
+				<span className="text-muted-foreground">{label}</span>
+				<span className={remaining === 0 ? "text-destructive" : undefined}>
+					{format(remaining)} of {format(limit)} left
+				</span>
+			</div>
+			<Progress value={percentage} className="h-1.5" />
+			{remaining === 0 && (
+				<p className="text-xs text-destructive">
+					Blocked until {new Date(resetsAt).toLocaleString()}
+				</p>
+			)}
+		</div>
+	);
+}
+
+export function ApiKeyQuotaSummary({ quota }: { quota: ApiKeyQuota }) {
+	return (
+		<div className="grid gap-3 sm:grid-cols-3">
+			<QuotaRow
+				label="Requests / minute"
+				used={quota.usage.requestsLastMinute}
+				limit={quota.limits.requestsPerMinute}
+				format={formatNumber}
+				resetsAt={quota.resets.minute}
+			/>
+			<QuotaRow
+				label="Tokens today (UTC)"
+				used={quota.usage.tokensToday}
+				limit={quota.limits.tokensPerDay}
+				format={formatNumber}
+				resetsAt={quota.resets.day}
+			/>
+			<QuotaRow
+				label="Spend this month (UTC)"
+				used={quota.usage.usdThisMonth}
+				limit={quota.limits.usdPerMonth}
+				format={formatCost}
+				resetsAt={quota.resets.month}
+			/>
+		</div>
+	);
+}
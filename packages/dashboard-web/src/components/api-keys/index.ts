@@ -0,0 +1,2 @@
+export { ApiKeyLimitsDialog } from "./ApiKeyLimitsDialog";
+export { ApiKeyQuotaSummary } from "./ApiKeyQuotaSummary";
@@ -4,8 +4,11 @@ import {
 	Bot,
 	FileText,
 	GitBranch,
+	KeyRound,
 	LayoutDashboard,
+	LogOut,
 	Menu,
+	MessagesSquare,
 	Shield,
 	Users,
 	Wrench,
@@ -14,6 +17,7 @@ import {
 } from "lucide-react";
 import { useState } from "react";
 import { Link, useLocation } from "react-router-dom";
+import { useAuthSession, useLogout } from "../hooks/queries";
 import { cn } from "../lib/utils";
 import { ThemeToggle } from "./theme-toggle";
 import { Button } from "./ui/button";
@@ -30,15 +34,19 @@ const navItems: NavItem[] = [
 	{ label: "Overview", icon: LayoutDashboard, path: "/" },
 	{ label: "Analytics", icon: BarChart3, path: "/analytics" },
 	{ label: "Requests", icon: Activity, path: "/requests" },
+	{ label: "Sessions", icon: MessagesSquare, path: "/sessions" },
 	{ label: "Accounts", icon: Users, path: "/accounts" },
 	{ label: "Agents", icon: Bot, path: "/agents" },
 	{ label: "Tools", icon: Wrench, path: "/tools" },
+	{ label: "API Keys", icon: KeyRound, path: "/keys" },
 	{ label: "Logs", icon: FileText, path: "/logs" },
 ];
 
 export function Navigation() {
 	const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
 	const location = useLocation();
+	const { data: session } = useAuthSession();
+	const logout = useLogout();
 
 	return (
 		<>
@@ -147,6 +155,28 @@ export function Navigation() {
 							</p>
 						</div>
 
+						{session?.user && (
+							<div className="flex items-center justify-between gap-2">
+								<div className="min-w-0 text-sm">
+									<p className="font-medium truncate">
+										{session.user.username}
+									</p>
+									<p className="text-xs text-muted-foreground capitalize">
+										{session.user.role}
+									</p>
+								</div>
+								<Button
+									variant="ghost"
+									size="sm"
+									onClick={() => logout.mutate()}
+									disabled={logout.isPending}
+									title="Sign out"
+								>
+									<LogOut className="h-4 w-4" />
+								</Button>
+							</div>
+						)}
+
 						<div className="hidden lg:flex items-center justify-between">
 							<div className="flex items-center gap-2 text-xs text-muted-foreground">
 								<GitBranch className="h-3 w-3" />
@@ -0,0 +1,142 @@
+import { ArrowRight, Pencil, Trash2 } from "lucide-react";
+import { useState } from "react";
+import {
+	useDeleteModelFallbacks,
+	useModelFallbacks,
+	useSetModelFallbacks,
+} from "../../hooks/queries";
+import { useApiError } from "../../hooks/useApiError";
+import { Button } from "../ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "../ui/card";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+
+export function ModelFallbacksCard() {
+	const { formatError } = useApiError();
+	const { data: chains, isLoading } = useModelFallbacks();
+	const setFallbacks = useSetModelFallbacks();
+	const deleteFallbacks = useDeleteModelFallbacks();
+	const [model, setModel] = useState("");
+	const [fallbacks, setFallbacksInput] = useState("");
+
+	const error = setFallbacks.error ?? deleteFallbacks.error;
+	const fallbackList = fallbacks
+		.split(",")
+		.map((fallback) => fallback.trim())
+		.filter(Boolean);
+
+	const handleSubmit = (e: React.FormEvent) => {
+		e.preventDefault();
+		setFallbacks.mutate(
+			{ model: model.trim(), fallbacks: fallbackList },
+			{
+				onSuccess: () => {
+					setModel("");
+					setFallbacksInput("");
+				},
+			},
+		);
+	};
+
+	return (
+		<Card className="card-hover">
+			<CardHeader>
+				<CardTitle>Model Fallbacks</CardTitle>
+				<CardDescription>
+					When a model fails on every account, retry the request with the next
+					model in its chain. Downgraded requests are flagged in the request
+					log.
+				</CardDescription>
+			</CardHeader>
+			<CardContent className="space-y-3">
+				<div className="space-y-2">
+					{!isLoading && chains?.length === 0 && (
+						<p className="text-sm text-muted-foreground">No fallback chains.</p>
+					)}
+					{chains?.map((chain) => (
+						<div
+							key={chain.model}
+							className="flex items-center gap-2 rounded-md border p-2"
+						>
+							<p className="flex min-w-0 flex-1 flex-wrap items-center gap-1 text-sm font-mono">
+								{[chain.model, ...chain.fallbacks].map((name, index) => (
+									<span key={name} className="flex items-center gap-1">
+										{index > 0 && (
+											<ArrowRight className="h-3 w-3 text-muted-foreground" />
+										)}
+										{name}
+									</span>
+								))}
+							</p>
+							<Button
+								variant="ghost"
+								size="sm"
+								onClick={() => {
+									setModel(chain.model);
+									setFallbacksInput(chain.fallbacks.join(", "));
+								}}
+								title="Edit chain"
+							>
+								<Pencil className="h-4 w-4" />
+							</Button>
+							<Button
+								variant="ghost"
+								size="sm"
+								onClick={() => {
+									if (confirm(`Delete the fallback chain of ${chain.model}?`)) {
+										deleteFallbacks.mutate(chain.model);
+									}
+								}}
+								title="Delete chain"
+							>
+								<Trash2 className="h-4 w-4" />
+							</Button>
+						</div>
+					))}
+				</div>
+
+				<form onSubmit={handleSubmit} className="space-y-3 border-t pt-3">
+					<div className="space-y-2">
+						<Label htmlFor="fallback-model">Model</Label>
+						<Input
+							id="fallback-model"
+							placeholder="e.g. claude-opus-4-1-20250805"
+							value={model}
+							onChange={(e) => setModel(e.target.value)}
+						/>
+					</div>
+					<div className="space-y-2">
+						<Label htmlFor="fallback-chain">Fallbacks</Label>
+						<Input
+							id="fallback-chain"
+							placeholder="Tried in order, e.g. claude-opus-4-20250514, claude-sonnet-4-20250514"
+							value={fallbacks}
+							onChange={(e) => setFallbacksInput(e.target.value)}
+						/>
+					</div>
+					<Button
+						type="submit"
+						size="sm"
+						disabled={
+							setFallbacks.isPending ||
+							!model.trim() ||
+							fallbackList.length === 0
+						}
+					>
+						Save chain
+					</Button>
+				</form>
+
+				{error && (
+					<p className="text-sm text-destructive">{formatError(error)}</p>
+				)}
+			</CardContent>
+		</Card>
+	);
+}
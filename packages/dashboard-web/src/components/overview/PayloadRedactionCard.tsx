@@ -0,0 +1,235 @@
+import { Trash2 } from "lucide-react";
+import { useState } from "react";
+import type { RedactionAction } from "../../api";
+import {
+	useCreateRedactionRule,
+	useDeleteRedactionRule,
+	useRedactionSettings,
+	useSetPayloadStorageMode,
+	useUpdateRedactionRule,
+} from "../../hooks/queries";
+import { useApiError } from "../../hooks/useApiError";
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "../ui/card";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "../ui/select";
+import { Switch } from "../ui/switch";
+
+const CUSTOM_SOURCE = "custom";
+
+const ACTION_LABELS: Record<RedactionAction, string> = {
+	mask: "Mask match",
+	drop: "Drop field",
+};
+
+function ActionSelect({
+	value,
+	onChange,
+	disabled,
+}: {
+	value: RedactionAction;
+	onChange: (action: RedactionAction) => void;
+	disabled?: boolean;
+}) {
+	return (
+		<Select
+			value={value}
+			onValueChange={(v) => onChange(v as RedactionAction)}
+			disabled={disabled}
+		>
+			<SelectTrigger className="w-32 h-8">
+				<SelectValue />
+			</SelectTrigger>
+			<SelectContent>
+				{Object.entries(ACTION_LABELS).map(([action, label]) => (
+					<SelectItem key={action} value={action}>
+						{label}
+					</SelectItem>
+				))}
+			</SelectContent>
+		</Select>
+	);
+}
+
+export function PayloadRedactionCard() {
+	const { formatError } = useApiError();
+	const { data, isLoading } = useRedactionSettings();
+	const setMode = useSetPayloadStorageMode();
+	const createRule = useCreateRedactionRule();
+	const updateRule = useUpdateRedactionRule();
+	const deleteRule = useDeleteRedactionRule();
+
+	const [source, setSource] = useState("api_key");
+	const [name, setName] = useState("");
+	const [pattern, setPattern] = useState("");
+	const [action, setAction] = useState<RedactionAction>("mask");
+
+	const detectors = data?.detectors ?? [];
+	const detectorLabel = (id: string | null) =>
+		detectors.find((d) => d.id === id)?.label ?? id;
+	const isCustom = source === CUSTOM_SOURCE;
+	const metadataOnly = data?.mode === "metadata_only";
+	const error = createRule.error ?? updateRule.error ?? deleteRule.error;
+
+	const handleAdd = (e: React.FormEvent) => {
+		e.preventDefault();
+		createRule.mutate(
+			{
+				name: name.trim() || source,
+				action,
+				...(isCustom ? { pattern } : { detector: source }),
+			},
+			{
+				onSuccess: () => {
+					setName("");
+					setPattern("");
+				},
+			},
+		);
+	};
+
+	return (
+		<Card className="card-hover">
+			<CardHeader>
+				<CardTitle>Payload Redaction</CardTitle>
+				<CardDescription>
+					Scrub secrets and personal data from request/response bodies before
+					they are stored.
+				</CardDescription>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				<div className="flex items-center justify-between gap-4">
+					<div>
+						<Label htmlFor="metadata-only">Metadata only</Label>
+						<p className="text-xs text-muted-foreground">
+							Never store bodies; keep headers, status and usage
+						</p>
+					</div>
+					<Switch
+						id="metadata-only"
+						checked={metadataOnly}
+						disabled={isLoading || setMode.isPending}
+						onCheckedChange={(checked) =>
+							setMode.mutate(checked ? "metadata_only" : "full")
+						}
+					/>
+				</div>
+
+				<div className="space-y-2">
+					{data?.rules.length === 0 && (
+						<p className="text-sm text-muted-foreground">
+							No redaction rules. Bodies are stored as sent.
+						</p>
+					)}
+					{data?.rules.map((rule) => (
+						<div
+							key={rule.id}
+							className="flex items-center gap-2 rounded-md border p-2"
+						>
+							<Switch
+								checked={rule.isEnabled}
+								onCheckedChange={(isEnabled) =>
+									updateRule.mutate({ id: rule.id, update: { isEnabled } })
+								}
+							/>
+							<div className="min-w-0 flex-1">
+								<p className="text-sm font-medium truncate">{rule.name}</p>
+								{rule.detector ? (
+									<Badge variant="secondary">
+										{detectorLabel(rule.detector)}
+									</Badge>
+								) : (
+									<code className="text-xs text-muted-foreground break-all">
+										/{rule.pattern}/
+									</code>
+								)}
+							</div>
+							<ActionSelect
+								value={rule.action}
+								onChange={(next) =>
+									updateRule.mutate({ id: rule.id, update: { action: next } })
+								}
+							/>
+							<Button
+								variant="ghost"
+								size="sm"
+								onClick={() => {
+									if (confirm(`Delete redaction rule "${rule.name}"?`)) {
+										deleteRule.mutate(rule.id);
+									}
+								}}
+							>
+								<Trash2 className="h-4 w-4" />
+							</Button>
+						</div>
+					))}
+				</div>
+
+				<form onSubmit={handleAdd} className="space-y-2 border-t pt-4">
+					<div className="flex flex-wrap items-center gap-2">
+						<Select value={source} onValueChange={setSource}>
+							<SelectTrigger className="w-44 h-8">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{detectors.map((detector) => (
+									<SelectItem key={detector.id} value={detector.id}>
+										{detector.label}
+									</SelectItem>
+								))}
+								<SelectItem value={CUSTOM_SOURCE}>Custom regex</SelectItem>
+							</SelectContent>
+						</Select>
+						<Input
+							placeholder={isCustom ? "Rule name" : source}
+							value={name}
+							onChange={(e) => setName(e.target.value)}
+							className="w-36 h-8"
+						/>
+						<ActionSelect value={action} onChange={setAction} />
+					</div>
+					{isCustom && (
+						<Input
+							placeholder="Regular expression, e.g. secret-[0-9a-f]{32}"
+							value={pattern}
+							onChange={(e) => setPattern(e.target.value)}
+							className="h-8 font-mono"
+						/>
+					)}
+					{!isCustom && (
+						<p className="text-xs text-muted-foreground">
+							{detectors.find((d) => d.id === source)?.description}
+						</p>
+					)}
+					<Button
+						type="submit"
+						size="sm"
+						disabled={
+							createRule.isPending || (isCustom && (!pattern || !name.trim()))
+						}
+					>
+						Add rule
+					</Button>
+				</form>
+
+				{error && (
+					<p className="text-sm text-destructive">{formatError(error)}</p>
+				)}
+			</CardContent>
+		</Card>
+	);
+}
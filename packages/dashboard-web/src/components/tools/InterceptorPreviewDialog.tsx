@@ -0,0 +1,208 @@
+import type { JsonChange } from "@ccflare/core";
+import { formatTokens } from "@ccflare/ui-common";
+import { FlaskConical } from "lucide-react";
+import { useState } from "react";
+import type { InterceptorPreviewResult } from "../../api";
+import { usePreviewInterceptors } from "../../hooks/queries";
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+} from "../ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "../ui/tabs";
+
+const CHANGE_STYLES: Record<JsonChange["kind"], string> = {
+	added: "text-green-700 dark:text-green-400",
+	removed: "text-red-700 dark:text-red-400",
+	changed: "text-amber-700 dark:text-amber-400",
+	reordered: "text-blue-700 dark:text-blue-400",
+};
+
+/**
+ * Render a changed value compactly, truncating long strings and objects
+ */
+function formatValue(value: unknown): string {
+	const text = typeof value === "string" ? value : JSON.stringify(value);
+	return text.length > 300 ? `${text.slice(0, 300)}…` : text;
+}
+
+function ChangeList({ changes }: { changes: JsonChange[] }) {
+	if (changes.length === 0) {
+		return (
+			<p className="text-sm text-muted-foreground">
+				The interceptors would forward this request unchanged.
+			</p>
+		);
+	}
+
+	return (
+		<div className="space-y-2">
+			{changes.map((change) => (
+				<div
+					key={`${change.kind}:${change.path}`}
+					className="p-2 border rounded-md text-xs space-y-1"
+				>
+					<div className="flex items-center gap-2">
+						<span className={`font-medium ${CHANGE_STYLES[change.kind]}`}>
+							{change.kind}
+						</span>
+						<code className="font-mono">{change.path}</code>
+					</div>
+					{change.before !== undefined && (
+						<pre className="whitespace-pre-wrap break-all text-red-700 dark:text-red-400">
+							- {formatValue(change.before)}
+						</pre>
+					)}
+					{change.after !== undefined && (
+						<pre className="whitespace-pre-wrap break-all text-green-700 dark:text-green-400">
+							+ {formatValue(change.after)}
+						</pre>
+					)}
+				</div>
+			))}
+		</div>
+	);
+}
+
+function PreviewSummary({ preview }: { preview: InterceptorPreviewResult }) {
+	const { agent, systemPrompt, tokens } = preview;
+
+	return (
+		<div className="space-y-4 text-sm">
+			<div className="flex flex-wrap items-center gap-2">
+				<span className="text-muted-foreground">Estimated input tokens:</span>
+				<span>
+					{formatTokens(tokens.before)} → {formatTokens(tokens.after)}
+				</span>
+				<Badge variant={tokens.delta > 0 ? "destructive" : "secondary"}>
+					{tokens.delta > 0 ? "+" : ""}
+					{tokens.delta}
+				</Badge>
+			</div>
+
+			<div className="space-y-1">
+				<p className="font-medium">Agent</p>
+				<p className="text-muted-foreground">{agent.reason}</p>
+				{agent.originalModel && (
+					<p className="text-muted-foreground">
+						Model: {agent.originalModel}
+						{agent.appliedModel !== agent.originalModel &&
+							` → ${agent.appliedModel}`}
+					</p>
+				)}
+			</div>
+
+			<div className="space-y-2">
+				<p className="font-medium">
+					System prompt profiles
+					{systemPrompt.agentType && (
+						<span className="ml-2 font-normal text-muted-foreground">
+							(request from {systemPrompt.agentType} agent
+							{systemPrompt.workspacePath &&
+								` in ${systemPrompt.workspacePath}`}
+							)
+						</span>
+					)}
+				</p>
+				{systemPrompt.skippedReason && (
+					<p className="text-muted-foreground">{systemPrompt.skippedReason}</p>
+				)}
+				{systemPrompt.profiles.map((profile) => (
+					<div
+						key={profile.id}
+						className="flex items-start justify-between gap-2 p-2 border rounded-md"
+					>
+						<div>
+							<span className="font-medium">{profile.name}</span>
+							<span className="ml-2 text-xs text-muted-foreground">
+								priority {profile.priority}
+							</span>
+							<p className="text-xs text-muted-foreground">{profile.reason}</p>
+						</div>
+						<div className="flex gap-1 shrink-0">
+							{profile.id === systemPrompt.promptProfileId && (
+								<Badge>Prompt</Badge>
+							)}
+							<Badge variant={profile.matched ? "default" : "outline"}>
+								{profile.matched ? "Matched" : "Skipped"}
+							</Badge>
+						</div>
+					</div>
+				))}
+			</div>
+		</div>
+	);
+}
+
+/**
+ * Button that dry-runs the saved interceptor configuration against the most
+ * recent stored Messages API request and shows what would change
+ */
+export function InterceptorPreviewDialog() {
+	const [isOpen, setIsOpen] = useState(false);
+	const { mutate: preview, data, error, isPending } = usePreviewInterceptors();
+
+	const handlePreview = () => {
+		setIsOpen(true);
+		preview({ requestId: "latest" });
+	};
+
+	return (
+		<>
+			<Button variant="outline" onClick={handlePreview} disabled={isPending}>
+				<FlaskConical className="h-4 w-4 mr-2" />
+				Preview against last request
+			</Button>
+			<Dialog open={isOpen} onOpenChange={setIsOpen}>
+				<DialogContent className="max-w-4xl max-h-[90vh] overflow-hidden flex flex-col">
+					<DialogHeader>
+						<DialogTitle>Interceptor Preview</DialogTitle>
+						<DialogDescription>
+							{data?.requestId
+								? `Saved interceptor settings applied to request ${data.requestId}. Nothing is sent upstream.`
+								: "Saved interceptor settings applied to the last request. Nothing is sent upstream."}
+						</DialogDescription>
+					</DialogHeader>
+
+					{isPending && (
+						<p className="text-sm text-muted-foreground">Running preview...</p>
+					)}
+					{error && (
+						<p className="text-sm text-destructive">
+							{error instanceof Error ? error.message : String(error)}
+						</p>
+					)}
+					{data && !isPending && (
+						<Tabs
+							defaultValue="summary"
+							className="flex-1 overflow-hidden flex flex-col"
+						>
+							<TabsList>
+								<TabsTrigger value="summary">Summary</TabsTrigger>
+								<TabsTrigger value="changes">
+									Changes ({data.changes.length})
+								</TabsTrigger>
+								<TabsTrigger value="body">Transformed Body</TabsTrigger>
+							</TabsList>
+							<TabsContent value="summary" className="flex-1 overflow-auto">
+								<PreviewSummary preview={data} />
+							</TabsContent>
+							<TabsContent value="changes" className="flex-1 overflow-auto">
+								<ChangeList changes={data.changes} />
+							</TabsContent>
+							<TabsContent value="body" className="flex-1 overflow-auto">
+								<pre className="text-xs font-mono whitespace-pre-wrap break-all p-3 bg-muted rounded-md">
+									{JSON.stringify(data.transformed, null, 2)}
+								</pre>
+							</TabsContent>
+						</Tabs>
+					)}
+				</DialogContent>
+			</Dialog>
+		</>
+	);
+}
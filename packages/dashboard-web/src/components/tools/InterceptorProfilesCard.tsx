@@ -0,0 +1,150 @@
+import { Pencil, Plus } from "lucide-react";
+import { useState } from "react";
+import type { InterceptorMatchRules, InterceptorProfile } from "../../api";
+import {
+	useCreateInterceptorProfile,
+	useInterceptorProfiles,
+	useUpdateInterceptorProfile,
+} from "../../hooks/queries";
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "../ui/card";
+import { Input } from "../ui/input";
+import { Switch } from "../ui/switch";
+
+interface InterceptorProfilesCardProps {
+	selectedId: string | null;
+	onSelect: (id: string) => void;
+}
+
+/**
+ * Summarise a profile's match rules for the list view
+ */
+function describeMatch(match: InterceptorMatchRules | undefined): string {
+	const agent = match?.agent || "main";
+	const parts = [
+		agent === "main"
+			? "Main agent"
+			: agent === "subagent"
+				? "Subagents"
+				: agent === "any"
+					? "Any agent"
+					: `Agent ${agent}`,
+	];
+	if (match?.workspacePath) parts.push(`in ${match.workspacePath}`);
+	if (match?.model) parts.push(`model ~ ${match.model}`);
+	if (match?.promptPattern) parts.push(`prompt /${match.promptPattern}/`);
+	return parts.join(" · ");
+}
+
+export function InterceptorProfilesCard({
+	selectedId,
+	onSelect,
+}: InterceptorProfilesCardProps) {
+	const { data: profiles, isLoading } = useInterceptorProfiles();
+	const { mutate: createProfile, isPending: isCreating } =
+		useCreateInterceptorProfile();
+	const { mutate: updateProfile } = useUpdateInterceptorProfile();
+	const [newName, setNewName] = useState("");
+
+	const handleCreate = () => {
+		const name = newName.trim();
+		if (!name) return;
+		createProfile(
+			{ name },
+			{
+				onSuccess: (profile) => {
+					setNewName("");
+					onSelect(profile.id);
+				},
+			},
+		);
+	};
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Interceptor Profiles</CardTitle>
+				<CardDescription>
+					Enabled profiles whose rules match a request are applied in priority
+					order. The highest-priority template wins and tool overrides are
+					merged.
+				</CardDescription>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				{isLoading ? (
+					<p className="text-sm text-muted-foreground">Loading profiles...</p>
+				) : profiles && profiles.length > 0 ? (
+					<div className="space-y-2">
+						{profiles.map((profile: InterceptorProfile) => (
+							<div
+								key={profile.id}
+								className={`flex items-center justify-between gap-4 p-3 border rounded-lg ${
+									profile.id === selectedId ? "border-primary" : ""
+								}`}
+							>
+								<div className="space-y-1 min-w-0">
+									<div className="flex items-center gap-2">
+										<span className="font-medium truncate">{profile.name}</span>
+										<Badge variant="outline">Priority {profile.priority}</Badge>
+									</div>
+									<p className="text-sm text-muted-foreground truncate">
+										{describeMatch(profile.config.match)}
+									</p>
+								</div>
+								<div className="flex items-center gap-2">
+									<Button
+										variant="ghost"
+										size="icon"
+										onClick={() => onSelect(profile.id)}
+										title="Edit profile"
+									>
+										<Pencil className="h-4 w-4" />
+									</Button>
+									<Switch
+										checked={profile.isEnabled}
+										onCheckedChange={(checked) =>
+											updateProfile({
+												id: profile.id,
+												data: { isEnabled: checked },
+											})
+										}
+										title={profile.isEnabled ? "Disable" : "Enable"}
+									/>
+								</div>
+							</div>
+						))}
+					</div>
+				) : (
+					<p className="text-sm text-muted-foreground">
+						No profiles yet. Create one to start customizing system prompts.
+					</p>
+				)}
+
+				<div className="flex gap-2">
+					<Input
+						placeholder="New profile name"
+						value={newName}
+						onChange={(e) => setNewName(e.target.value)}
+						onKeyDown={(e) => {
+							if (e.key === "Enter") handleCreate();
+						}}
+					/>
+					<Button
+						onClick={handleCreate}
+						disabled={isCreating || newName.trim() === ""}
+					>
+						<Plus className="h-4 w-4 mr-2" />
+						Add Profile
+					</Button>
+				</div>
+			</CardContent>
+		</Card>
+	);
+}
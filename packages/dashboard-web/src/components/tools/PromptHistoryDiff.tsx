@@ -0,0 +1,220 @@
+import type { DiffLine } from "@ccflare/core";
+import { formatTimestamp } from "@ccflare/ui-common";
+import { useEffect, useState } from "react";
+import type { PromptHistoryKind, PromptVersionSummary } from "../../api";
+import { usePromptDiff, usePromptHistory } from "../../hooks/queries";
+import { Badge } from "../ui/badge";
+import { Label } from "../ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "../ui/select";
+
+// Unchanged lines shown around each change
+const CONTEXT_LINES = 3;
+
+type DiffRow = DiffLine | { type: "skipped"; count: number };
+
+/**
+ * Collapse long runs of unchanged lines, keeping some context around changes
+ */
+function collapseUnchanged(lines: DiffLine[]): DiffRow[] {
+	const keep = lines.map((line) => line.type !== "equal");
+	for (let i = 0; i < lines.length; i++) {
+		if (lines[i].type === "equal") continue;
+		const from = Math.max(0, i - CONTEXT_LINES);
+		const to = Math.min(lines.length - 1, i + CONTEXT_LINES);
+		for (let j = from; j <= to; j++) keep[j] = true;
+	}
+
+	const rows: DiffRow[] = [];
+	let skipped = 0;
+	lines.forEach((line, index) => {
+		if (keep[index]) {
+			if (skipped > 0) rows.push({ type: "skipped", count: skipped });
+			skipped = 0;
+			rows.push(line);
+		} else {
+			skipped++;
+		}
+	});
+	if (skipped > 0) rows.push({ type: "skipped", count: skipped });
+	return rows;
+}
+
+function describeVersion(version: PromptVersionSummary): string {
+	return `#${version.id} · first seen ${formatTimestamp(version.firstSeen)}`;
+}
+
+function VersionSelect({
+	label,
+	value,
+	versions,
+	onChange,
+}: {
+	label: string;
+	value: number | null;
+	versions: PromptVersionSummary[];
+	onChange: (id: number) => void;
+}) {
+	return (
+		<div className="space-y-2">
+			<Label>{label}</Label>
+			<Select
+				value={value !== null ? String(value) : undefined}
+				onValueChange={(id) => onChange(Number(id))}
+			>
+				<SelectTrigger>
+					<SelectValue placeholder="Select version" />
+				</SelectTrigger>
+				<SelectContent>
+					{versions.map((version) => (
+						<SelectItem key={version.id} value={String(version.id)}>
+							{describeVersion(version)}
+						</SelectItem>
+					))}
+				</SelectContent>
+			</Select>
+		</div>
+	);
+}
+
+/**
+ * Shows what changed between recorded versions of the upstream system prompt
+ * or tools array
+ */
+export function PromptHistoryDiff() {
+	const [kind, setKind] = useState<PromptHistoryKind>("system_prompt");
+	const [fromId, setFromId] = useState<number | null>(null);
+	const [toId, setToId] = useState<number | null>(null);
+	const { data: versions, isLoading } = usePromptHistory(kind);
+	const { data: diff, isLoading: isDiffLoading } = usePromptDiff(fromId, toId);
+
+	// Default to comparing the previous version with the latest one
+	useEffect(() => {
+		if (!versions) return;
+		setToId(versions[0]?.id ?? null);
+		setFromId(versions[1]?.id ?? null);
+	}, [versions]);
+
+	return (
+		<div className="space-y-4">
+			<div className="grid gap-4 md:grid-cols-3">
+				<div className="space-y-2">
+					<Label>History</Label>
+					<Select
+						value={kind}
+						onValueChange={(value) => setKind(value as PromptHistoryKind)}
+					>
+						<SelectTrigger>
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectItem value="system_prompt">System prompt</SelectItem>
+							<SelectItem value="tools">Tools</SelectItem>
+						</SelectContent>
+					</Select>
+				</div>
+				{versions && versions.length > 1 && (
+					<>
+						<VersionSelect
+							label="From"
+							value={fromId}
+							versions={versions}
+							onChange={setFromId}
+						/>
+						<VersionSelect
+							label="To"
+							value={toId}
+							versions={versions}
+							onChange={setToId}
+						/>
+					</>
+				)}
+			</div>
+
+			{isLoading ? (
+				<p className="text-sm text-muted-foreground">Loading history...</p>
+			) : !versions || versions.length < 2 ? (
+				<p className="text-sm text-muted-foreground">
+					{versions?.length === 1
+						? "Only one version has been seen so far. Changes will appear here when upstream updates it."
+						: "No versions recorded yet. Send a request through the proxy to capture one."}
+				</p>
+			) : fromId === toId ? (
+				<p className="text-sm text-muted-foreground">
+					Select two different versions to compare.
+				</p>
+			) : isDiffLoading || !diff ? (
+				<p className="text-sm text-muted-foreground">Computing diff...</p>
+			) : (
+				<div className="space-y-3">
+					<div className="flex flex-wrap items-center gap-2 text-sm">
+						<Badge variant="outline" className="text-green-600">
+							+{diff.added}
+						</Badge>
+						<Badge variant="outline" className="text-red-600">
+							-{diff.removed}
+						</Badge>
+						{diff.toolChanges?.added.map((name) => (
+							<Badge key={`added-${name}`} variant="secondary">
+								Added {name}
+							</Badge>
+						))}
+						{diff.toolChanges?.removed.map((name) => (
+							<Badge key={`removed-${name}`} variant="secondary">
+								Removed {name}
+							</Badge>
+						))}
+						{diff.toolChanges?.changed.map((name) => (
+							<Badge key={`changed-${name}`} variant="secondary">
+								Changed {name}
+							</Badge>
+						))}
+					</div>
+					{diff.added === 0 && diff.removed === 0 ? (
+						<p className="text-sm text-muted-foreground">
+							The versions are identical.
+						</p>
+					) : (
+						<pre className="max-h-[500px] overflow-auto rounded-lg border bg-muted/30 p-2 text-xs font-mono">
+							{collapseUnchanged(diff.lines).map((row, index) =>
+								row.type === "skipped" ? (
+									<div
+										// biome-ignore lint/suspicious/noArrayIndexKey: rows have no stable id
+										key={index}
+										className="text-muted-foreground italic py-1"
+									>
+										… {row.count} unchanged line{row.count === 1 ? "" : "s"}
+									</div>
+								) : (
+									<div
+										// biome-ignore lint/suspicious/noArrayIndexKey: rows have no stable id
+										key={index}
+										className={`whitespace-pre-wrap ${
+											row.type === "added"
+												? "bg-green-500/10 text-green-700 dark:text-green-400"
+												: row.type === "removed"
+													? "bg-red-500/10 text-red-700 dark:text-red-400"
+													: ""
+										}`}
+									>
+										{row.type === "added"
+											? "+ "
+											: row.type === "removed"
+												? "- "
+												: "  "}
+										{row.text}
+									</div>
+								),
+							)}
+						</pre>
+					)}
+				</div>
+			)}
+		</div>
+	);
+}
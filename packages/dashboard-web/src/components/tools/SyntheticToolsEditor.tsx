@@ -0,0 +1,161 @@
+import { Plus, Trash2 } from "lucide-react";
+import type { SyntheticToolConfig } from "../../api";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Textarea } from "../ui/textarea";
+
+/**
+ * Editable form state of a synthetic tool; the schema is kept as JSON text
+ */
+export interface SyntheticToolDraft {
+	name: string;
+	description: string;
+	inputSchema: string;
+}
+
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+const EMPTY_SCHEMA = JSON.stringify(
+	{ type: "object", properties: {}, required: [] },
+	null,
+	2,
+);
+
+/**
+ * Validate a draft, returning a message for the first problem found
+ */
+function getDraftProblem(
+	tool: SyntheticToolDraft,
+	drafts: SyntheticToolDraft[],
+): string | null {
+	if (!TOOL_NAME_PATTERN.test(tool.name)) {
+		return "Name must be 1-64 letters, digits, underscores or hyphens";
+	}
+	if (drafts.filter((other) => other.name === tool.name).length > 1) {
+		return "Name is used by another synthetic tool";
+	}
+	try {
+		const schema = JSON.parse(tool.inputSchema);
+		if (
+			typeof schema !== "object" ||
+			schema === null ||
+			Array.isArray(schema) ||
+			schema.type !== "object"
+		) {
+			return 'Input schema must be an object with "type": "object"';
+		}
+	} catch (error) {
+		return `Input schema: ${error instanceof Error ? error.message : "Invalid JSON"}`;
+	}
+	return null;
+}
+
+/**
+ * Collect the problems of all drafts, prefixed with the tool name
+ */
+export function getSyntheticToolProblems(
+	drafts: SyntheticToolDraft[],
+): string[] {
+	return drafts.flatMap((tool, index) => {
+		const problem = getDraftProblem(tool, drafts);
+		return problem ? [`${tool.name || `Tool ${index + 1}`}: ${problem}`] : [];
+	});
+}
+
+/**
+ * Convert a valid draft into the saved configuration shape
+ */
+export function toSyntheticToolConfig(
+	tool: SyntheticToolDraft,
+): SyntheticToolConfig {
+	return {
+		name: tool.name,
+		...(tool.description ? { description: tool.description } : {}),
+		input_schema: JSON.parse(tool.inputSchema),
+	};
+}
+
+interface SyntheticToolsEditorProps {
+	tools: SyntheticToolDraft[];
+	onChange: (tools: SyntheticToolDraft[]) => void;
+}
+
+export function SyntheticToolsEditor({
+	tools,
+	onChange,
+}: SyntheticToolsEditorProps) {
+	const update = (index: number, changes: Partial<SyntheticToolDraft>) => {
+		onChange(
+			tools.map((tool, i) => (i === index ? { ...tool, ...changes } : tool)),
+		);
+	};
+
+	return (
+		<div className="space-y-4 pt-4">
+			<p className="text-sm text-muted-foreground">
+				Synthetic tools are appended to requests that already send tools. A
+				synthetic tool is skipped if the request has a tool with the same name.
+			</p>
+
+			{tools.map((tool, index) => {
+				const problem = getDraftProblem(tool, tools);
+				return (
+					<div
+						// biome-ignore lint/suspicious/noArrayIndexKey: drafts are edited in place and names may be blank
+						key={index}
+						className="space-y-3 p-4 border rounded-lg"
+					>
+						<div className="flex items-center gap-2">
+							<Input
+								placeholder="tool_name"
+								value={tool.name}
+								onChange={(e) => update(index, { name: e.target.value })}
+								className="font-mono"
+							/>
+							<Button
+								variant="ghost"
+								size="icon"
+								onClick={() => onChange(tools.filter((_, i) => i !== index))}
+								title="Remove tool"
+							>
+								<Trash2 className="h-4 w-4" />
+							</Button>
+						</div>
+						<div className="space-y-2">
+							<Label>Description</Label>
+							<Textarea
+								placeholder="What the tool does and when to use it"
+								value={tool.description}
+								onChange={(e) => update(index, { description: e.target.value })}
+								className="min-h-[80px]"
+							/>
+						</div>
+						<div className="space-y-2">
+							<Label>Input Schema (JSON)</Label>
+							<Textarea
+								value={tool.inputSchema}
+								onChange={(e) => update(index, { inputSchema: e.target.value })}
+								className="min-h-[120px] font-mono text-xs"
+							/>
+						</div>
+						{problem && <p className="text-xs text-destructive">{problem}</p>}
+					</div>
+				);
+			})}
+
+			<Button
+				variant="outline"
+				onClick={() =>
+					onChange([
+						...tools,
+						{ name: "", description: "", inputSchema: EMPTY_SCHEMA },
+					])
+				}
+			>
+				<Plus className="h-4 w-4 mr-2" />
+				Add Synthetic Tool
+			</Button>
+		</div>
+	);
+}
@@ -1,9 +1,14 @@
-import { useEffect, useState } from "react";
-import type { Tool } from "../../api";
 import {
-	useResetSystemPromptOverride,
-	useSetSystemPromptOverride,
-	useSystemPromptOverride,
+	PROMPT_TEMPLATE_VARIABLES,
+	validatePromptTemplate,
+} from "@ccflare/core";
+import { useEffect, useMemo, useState } from "react";
+import type { Tool, ToolOverrideConfig } from "../../api";
+import {
+	useAgents,
+	useDeleteInterceptorProfile,
+	useInterceptorProfile,
+	useUpdateInterceptorProfile,
 } from "../../hooks/queries";
 import {
 	Accordion,
@@ -20,31 +25,116 @@ import {
 	CardHeader,
 	CardTitle,
 } from "../ui/card";
+import { Input } from "../ui/input";
 import { Label } from "../ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "../ui/select";
 import { Switch } from "../ui/switch";
 import { Textarea } from "../ui/textarea";
+import { PromptHistoryDiff } from "./PromptHistoryDiff";
+import {
+	getSyntheticToolProblems,
+	type SyntheticToolDraft,
+	SyntheticToolsEditor,
+	toSyntheticToolConfig,
+} from "./SyntheticToolsEditor";
+import { ToolOrderEditor } from "./ToolOrderEditor";
 
 interface ToolOverride {
 	isEnabled: boolean;
 	description: string;
+	hiddenParameters: string[];
+	/** JSON text of the schema patch, empty for none */
+	schemaPatch: string;
 }
 
-export function SystemPromptInterceptorCard() {
-	const { data, isLoading } = useSystemPromptOverride();
-	const { mutate, isPending, isSuccess } = useSetSystemPromptOverride();
-	const { mutate: resetMutate } = useResetSystemPromptOverride();
+/**
+ * Parse JSON text that must hold an object
+ */
+function parseJsonObject(text: string): {
+	value?: Record<string, unknown>;
+	error?: string;
+} {
+	try {
+		const value = JSON.parse(text);
+		if (typeof value !== "object" || value === null || Array.isArray(value)) {
+			return { error: "Must be a JSON object" };
+		}
+		return { value };
+	} catch (error) {
+		return { error: error instanceof Error ? error.message : "Invalid JSON" };
+	}
+}
+
+/**
+ * Check whether a tool override differs from the tool's defaults
+ */
+function isToolModified(tool: Tool, override: ToolOverride): boolean {
+	return (
+		!override.isEnabled ||
+		(override.description !== "" &&
+			override.description !== (tool.description ?? "")) ||
+		override.hiddenParameters.length > 0 ||
+		override.schemaPatch.trim() !== ""
+	);
+}
+
+/**
+ * Property names declared in a tool's input schema
+ */
+function getToolParameters(tool: Tool): string[] {
+	const properties = tool.input_schema?.properties;
+	return properties && typeof properties === "object"
+		? Object.keys(properties)
+		: [];
+}
+
+interface SystemPromptInterceptorCardProps {
+	profileId: string;
+	onDeleted: () => void;
+}
+
+export function SystemPromptInterceptorCard({
+	profileId,
+	onDeleted,
+}: SystemPromptInterceptorCardProps) {
+	const { data, isLoading } = useInterceptorProfile(profileId);
+	const { data: agentsData } = useAgents();
+	const { mutate, isPending, isSuccess } = useUpdateInterceptorProfile();
+	const { mutate: deleteMutate } = useDeleteInterceptorProfile();
 
 	// Local form state
+	const [name, setName] = useState("");
+	const [priority, setPriority] = useState("0");
+	const [agentRule, setAgentRule] = useState("main");
+	const [workspacePath, setWorkspacePath] = useState("");
+	const [modelRule, setModelRule] = useState("");
+	const [promptPattern, setPromptPattern] = useState("");
 	const [isEnabled, setIsEnabled] = useState(false);
 	const [targetPrompt, setTargetPrompt] = useState("");
 	const [replacementPrompt, setReplacementPrompt] = useState("");
 	const [toolOverrides, setToolOverrides] = useState<
 		Record<string, ToolOverride>
 	>({});
+	const [syntheticTools, setSyntheticTools] = useState<SyntheticToolDraft[]>(
+		[],
+	);
+	const [toolOrder, setToolOrder] = useState<string[]>([]);
 
 	// Sync server data to local state
 	useEffect(() => {
 		if (data) {
+			setName(data.name);
+			setPriority(String(data.priority));
+			setAgentRule(data.config.match?.agent || "main");
+			setWorkspacePath(data.config.match?.workspacePath ?? "");
+			setModelRule(data.config.match?.model ?? "");
+			setPromptPattern(data.config.match?.promptPattern ?? "");
 			setIsEnabled(data.isEnabled);
 			setTargetPrompt(data.config.targetPrompt);
 			setReplacementPrompt(data.config.replacementPrompt);
@@ -56,70 +146,100 @@ export function SystemPromptInterceptorCard() {
 				overrides[tool.name] = {
 					isEnabled: savedOverride?.isEnabled ?? true,
 					description: savedOverride?.description ?? tool.description ?? "",
+					hiddenParameters: savedOverride?.hiddenParameters ?? [],
+					schemaPatch: savedOverride?.schemaPatch
+						? JSON.stringify(savedOverride.schemaPatch, null, 2)
+						: "",
 				};
 			}
 			setToolOverrides(overrides);
+			setSyntheticTools(
+				(data.config.syntheticTools ?? []).map((tool) => ({
+					name: tool.name,
+					description: tool.description ?? "",
+					inputSchema: JSON.stringify(tool.input_schema, null, 2),
+				})),
+			);
+			setToolOrder(data.config.toolOrder ?? []);
 		}
 	}, [data]);
 
+	const templateProblems = useMemo(
+		() => validatePromptTemplate(replacementPrompt),
+		[replacementPrompt],
+	);
+
+	// Schema JSON that does not parse blocks saving
+	const schemaProblems = useMemo(() => {
+		const problems: string[] = [];
+		for (const [toolName, override] of Object.entries(toolOverrides)) {
+			if (!override.isEnabled || override.schemaPatch.trim() === "") continue;
+			const { error } = parseJsonObject(override.schemaPatch);
+			if (error) problems.push(`${toolName} schema patch: ${error}`);
+		}
+		problems.push(...getSyntheticToolProblems(syntheticTools));
+		return problems;
+	}, [toolOverrides, syntheticTools]);
+
 	const handleSave = () => {
 		// Build tools config with only modified overrides
-		const tools: Record<string, { isEnabled: boolean; description?: string }> =
-			{};
+		const tools: Record<string, ToolOverrideConfig> = {};
 
 		if (data?.availableTools) {
 			for (const tool of data.availableTools) {
 				const override = toolOverrides[tool.name];
-				if (!override) continue;
+				if (!override || !isToolModified(tool, override)) continue;
 
-				// Only include if different from defaults
-				const needsOverride =
-					!override.isEnabled ||
-					(override.description &&
-						override.description !== (tool.description ?? ""));
-
-				if (needsOverride) {
-					tools[tool.name] = {
-						isEnabled: override.isEnabled,
-					};
-					// Only include description if it was changed
-					if (
-						override.description &&
-						override.description !== (tool.description ?? "")
-					) {
-						tools[tool.name].description = override.description;
-					}
+				tools[tool.name] = { isEnabled: override.isEnabled };
+				// Only include the fields that were changed
+				if (
+					override.description &&
+					override.description !== (tool.description ?? "")
+				) {
+					tools[tool.name].description = override.description;
+				}
+				if (override.hiddenParameters.length > 0) {
+					tools[tool.name].hiddenParameters = override.hiddenParameters;
+				}
+				if (override.schemaPatch.trim() !== "") {
+					tools[tool.name].schemaPatch = parseJsonObject(
+						override.schemaPatch,
+					).value;
 				}
 			}
 		}
 
 		mutate({
-			isEnabled,
-			config: {
-				targetPrompt,
-				replacementPrompt,
-				tools,
+			id: profileId,
+			data: {
+				name,
+				isEnabled,
+				priority: Number.parseInt(priority, 10) || 0,
+				config: {
+					replacementPrompt,
+					tools,
+					syntheticTools: syntheticTools.map(toSyntheticToolConfig),
+					toolOrder,
+					match: {
+						agent: agentRule,
+						workspacePath,
+						model: modelRule,
+						promptPattern,
+					},
+				},
 			},
-			availableTools: data?.availableTools || [],
 		});
 	};
 
-	const handleToolToggle = (toolName: string, checked: boolean) => {
+	const handleToolChange = (
+		toolName: string,
+		changes: Partial<ToolOverride>,
+	) => {
 		setToolOverrides((prev) => ({
 			...prev,
 			[toolName]: {
 				...prev[toolName],
-				isEnabled: checked,
-			},
-		}));
-	};
-
-	const handleToolDescriptionChange = (toolName: string, value: string) => {
-		setToolOverrides((prev) => ({
-			...prev,
-			[toolName]: {
-				...prev[toolName],
-				description: value,
+				...changes,
 			},
 		}));
 	};
@@ -130,6 +250,8 @@ export function SystemPromptInterceptorCard() {
 			[tool.name]: {
 				isEnabled: true,
 				description: tool.description ?? "",
+				hiddenParameters: [],
+				schemaPatch: "",
 			},
 		}));
 	};
@@ -139,7 +261,7 @@ export function SystemPromptInterceptorCard() {
 			<Card>
 				<CardHeader>
 					<CardTitle>System Prompt Interceptor</CardTitle>
-					<CardDescription>Loading configuration...</CardDescription>
+					<CardDescription>Loading profile...</CardDescription>
 				</CardHeader>
 			</Card>
 		);
@@ -151,15 +273,16 @@ export function SystemPromptInterceptorCard() {
 				<CardTitle>System Prompt Interceptor</CardTitle>
 				<CardDescription>
 					Configure a custom system prompt to override the default Claude
-					behavior
+					behavior for requests matching this profile
 				</CardDescription>
 			</CardHeader>
 			<CardContent className="space-y-6">
 				<div className="flex items-center justify-between">
 					<div className="space-y-0.5">
-						<Label htmlFor="enable-interceptor">Enable Interceptor</Label>
+						<Label htmlFor="enable-interceptor">Enable Profile</Label>
 						<p className="text-sm text-muted-foreground">
-							When enabled, your custom prompt will be used
+							When enabled, your custom prompt will be used for matching
+							requests
 						</p>
 					</div>
 					<Switch
@@ -169,6 +292,76 @@ export function SystemPromptInterceptorCard() {
 					/>
 				</div>
 
+				<div className="grid gap-4 md:grid-cols-2">
+					<div className="space-y-2">
+						<Label htmlFor="profile-name">Profile Name</Label>
+						<Input
+							id="profile-name"
+							value={name}
+							onChange={(e) => setName(e.target.value)}
+						/>
+					</div>
+					<div className="space-y-2">
+						<Label htmlFor="profile-priority">Priority</Label>
+						<Input
+							id="profile-priority"
+							type="number"
+							value={priority}
+							onChange={(e) => setPriority(e.target.value)}
+						/>
+					</div>
+					<div className="space-y-2">
+						<Label htmlFor="match-agent">Agent</Label>
+						<Select value={agentRule} onValueChange={setAgentRule}>
+							<SelectTrigger id="match-agent">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value="main">Main agent</SelectItem>
+								<SelectItem value="subagent">Any subagent</SelectItem>
+								<SelectItem value="any">Any request</SelectItem>
+								{agentsData?.agents.map((agent) => (
+									<SelectItem key={agent.id} value={agent.id}>
+										Agent: {agent.name}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+					<div className="space-y-2">
+						<Label htmlFor="match-model">Model contains</Label>
+						<Input
+							id="match-model"
+							placeholder="e.g. sonnet"
+							value={modelRule}
+							onChange={(e) => setModelRule(e.target.value)}
+						/>
+					</div>
+					<div className="space-y-2">
+						<Label htmlFor="match-workspace">Workspace path</Label>
+						<Input
+							id="match-workspace"
+							placeholder="e.g. /home/me/projects/app"
+							value={workspacePath}
+							onChange={(e) => setWorkspacePath(e.target.value)}
+						/>
+					</div>
+					<div className="space-y-2">
+						<Label htmlFor="match-pattern">Prompt regex</Label>
+						<Input
+							id="match-pattern"
+							placeholder="e.g. CLAUDE\.md"
+							value={promptPattern}
+							onChange={(e) => setPromptPattern(e.target.value)}
+						/>
+					</div>
+				</div>
+				<p className="text-sm text-muted-foreground">
+					Leave a rule empty to match any value. The workspace is read from the{" "}
+					<code className="bg-muted px-1 py-0.5 rounded">{"<env>"}</code> block
+					of the original prompt.
+				</p>
+
 				<div className="space-y-2">
 					<Label htmlFor="target-prompt">Target Prompt</Label>
 					<Textarea
@@ -180,8 +373,8 @@ export function SystemPromptInterceptorCard() {
 						readOnly
 					/>
 					<p className="text-sm text-muted-foreground">
-						This is the prompt that will be detected and replaced. After reset,
-						this shows the last-seen system prompt.
+						This is the prompt that will be detected and replaced. New profiles
+						start from the last-seen system prompt.
 					</p>
 				</div>
 
@@ -194,18 +387,43 @@ export function SystemPromptInterceptorCard() {
 						onChange={(e) => setReplacementPrompt(e.target.value)}
 						className="min-h-[200px]"
 					/>
-					<p className="text-sm text-muted-foreground">
-						Use{" "}
-						<code className="bg-muted px-1 py-0.5 rounded">
-							{"{{env_block}}"}
-						</code>{" "}
-						and{" "}
-						<code className="bg-muted px-1 py-0.5 rounded">
-							{"{{git_status_block}}"}
-						</code>{" "}
-						to preserve dynamic content (e.g., environment, git status) from the
-						original prompt.
-					</p>
+					{templateProblems.length > 0 && (
+						<div className="text-sm text-destructive space-y-1">
+							{templateProblems.map((problem) => (
+								<p key={problem}>{problem}</p>
+							))}
+						</div>
+					)}
+					<div className="text-sm text-muted-foreground space-y-2">
+						<p>
+							Variables preserve dynamic content from the original request.
+							Blocks:{" "}
+							<code className="bg-muted px-1 py-0.5 rounded">
+								{"{{#if name}}…{{else}}…{{/if}}"}
+							</code>
+							,{" "}
+							<code className="bg-muted px-1 py-0.5 rounded">
+								{'{{#if name == "value"}}'}
+							</code>{" "}
+							(also <code>!=</code> and <code>contains</code>) and{" "}
+							<code className="bg-muted px-1 py-0.5 rounded">
+								{"{{#each tool_names}}{{this}}{{/each}}"}
+							</code>
+							.
+						</p>
+						<ul className="grid gap-1 sm:grid-cols-2">
+							{Object.entries(PROMPT_TEMPLATE_VARIABLES).map(
+								([variable, description]) => (
+									<li key={variable}>
+										<code className="bg-muted px-1 py-0.5 rounded">
+											{`{{${variable}}}`}
+										</code>{" "}
+										{description}
+									</li>
+								),
+							)}
+						</ul>
+					</div>
 				</div>
 
 				{data?.availableTools && data.availableTools.length > 0 && (
@@ -220,12 +438,7 @@ export function SystemPromptInterceptorCard() {
 											const modifiedCount = data.availableTools.filter(
 												(tool: Tool) => {
 													const override = toolOverrides[tool.name];
-													if (!override) return false;
-													return (
-														!override.isEnabled ||
-														(override.description &&
-															override.description !== (tool.description ?? ""))
-													);
+													return !!override && isToolModified(tool, override);
 												},
 											).length;
 											return modifiedCount > 0
@@ -242,10 +455,12 @@ export function SystemPromptInterceptorCard() {
 										if (!override) return null;
 
 										// Check if tool has been modified from defaults
-										const isModified =
-											!override.isEnabled ||
-											(override.description &&
-												override.description !== (tool.description ?? ""));
+										const isModified = isToolModified(tool, override);
+										const parameters = getToolParameters(tool);
+										const patchError =
+											override.schemaPatch.trim() !== ""
+												? parseJsonObject(override.schemaPatch).error
+												: undefined;
 
 										return (
 											<div
@@ -287,7 +502,9 @@ export function SystemPromptInterceptorCard() {
 															id={`tool-${tool.name}`}
 															checked={override.isEnabled}
 															onCheckedChange={(checked) =>
-																handleToolToggle(tool.name, checked)
+																handleToolChange(tool.name, {
+																	isEnabled: checked,
+																})
 															}
 														/>
 													</div>
@@ -318,10 +535,9 @@ export function SystemPromptInterceptorCard() {
 															placeholder={tool.description || "No description"}
 															value={override.description}
 															onChange={(e) =>
-																handleToolDescriptionChange(
-																	tool.name,
-																	e.target.value,
-																)
+																handleToolChange(tool.name, {
+																	description: e.target.value,
+																})
 															}
 															className="min-h-[100px]"
 														/>
@@ -330,6 +546,76 @@ export function SystemPromptInterceptorCard() {
 														</p>
 													</div>
 												)}
+
+												{override.isEnabled && parameters.length > 0 && (
+													<div className="space-y-2">
+														<Label>Hidden Parameters</Label>
+														<div className="flex flex-wrap gap-2">
+															{parameters.map((parameter) => {
+																const isHidden =
+																	override.hiddenParameters.includes(parameter);
+																return (
+																	<Button
+																		key={parameter}
+																		variant={
+																			isHidden ? "destructive" : "outline"
+																		}
+																		size="sm"
+																		onClick={() =>
+																			handleToolChange(tool.name, {
+																				hiddenParameters: isHidden
+																					? override.hiddenParameters.filter(
+																							(name) => name !== parameter,
+																						)
+																					: [
+																							...override.hiddenParameters,
+																							parameter,
+																						],
+																			})
+																		}
+																	>
+																		{isHidden ? <s>{parameter}</s> : parameter}
+																	</Button>
+																);
+															})}
+														</div>
+														<p className="text-xs text-muted-foreground">
+															Hidden parameters are removed from the schema and
+															its required list
+														</p>
+													</div>
+												)}
+
+												{override.isEnabled && (
+													<div className="space-y-2">
+														<Label htmlFor={`tool-schema-${tool.name}`}>
+															Schema Patch (optional JSON)
+														</Label>
+														<Textarea
+															id={`tool-schema-${tool.name}`}
+															placeholder={
+																'{"properties": {"timeout": {"default": 60000}}}'
+															}
+															value={override.schemaPatch}
+															onChange={(e) =>
+																handleToolChange(tool.name, {
+																	schemaPatch: e.target.value,
+																})
+															}
+															className="min-h-[80px] font-mono text-xs"
+														/>
+														{patchError ? (
+															<p className="text-xs text-destructive">
+																{patchError}
+															</p>
+														) : (
+															<p className="text-xs text-muted-foreground">
+																Deep-merged into input_schema. Use it to tighten
+																enums or add defaults; null removes a key.
+															</p>
+														)}
+													</div>
+												)}
 											</div>
 										);
 									})}
@@ -338,13 +624,82 @@ export function SystemPromptInterceptorCard() {
 						</AccordionItem>
 					</Accordion>
 				)}
+
+				<Accordion type="single" collapsible className="w-full">
+					<AccordionItem value="synthetic-tools">
+						<AccordionTrigger>
+							<div className="flex items-center gap-2">
+								<span>Synthetic Tools</span>
+								<span className="text-sm text-muted-foreground">
+									({syntheticTools.length} injected)
+								</span>
+							</div>
+						</AccordionTrigger>
+						<AccordionContent>
+							<SyntheticToolsEditor
+								tools={syntheticTools}
+								onChange={setSyntheticTools}
+							/>
+						</AccordionContent>
+					</AccordionItem>
+					<AccordionItem value="tool-order">
+						<AccordionTrigger>
+							<div className="flex items-center gap-2">
+								<span>Tool Order</span>
+								<span className="text-sm text-muted-foreground">
+									(
+									{toolOrder.length > 0
+										? `${toolOrder.length} pinned`
+										: "request order"}
+									)
+								</span>
+							</div>
+						</AccordionTrigger>
+						<AccordionContent>
+							<ToolOrderEditor
+								toolNames={[
+									...(data?.availableTools ?? []).map((tool) => tool.name),
+									...syntheticTools.map((tool) => tool.name),
+								]}
+								order={toolOrder}
+								onChange={setToolOrder}
+							/>
+						</AccordionContent>
+					</AccordionItem>
+				</Accordion>
+
+				<Accordion type="single" collapsible className="w-full">
+					<AccordionItem value="history">
+						<AccordionTrigger>
+							<div className="flex items-center gap-2">
+								<span>Upstream Changes</span>
+								<span className="text-sm text-muted-foreground">
+									(compare recorded system prompt and tool versions)
+								</span>
+							</div>
+						</AccordionTrigger>
+						<AccordionContent>
+							<PromptHistoryDiff />
+						</AccordionContent>
+					</AccordionItem>
+				</Accordion>
 			</CardContent>
 			<CardFooter className="flex gap-2">
-				<Button onClick={handleSave} disabled={isPending}>
+				<Button
+					onClick={handleSave}
+					disabled={
+						isPending ||
+						templateProblems.length > 0 ||
+						schemaProblems.length > 0
+					}
+				>
 					{isPending ? "Saving..." : isSuccess ? "Saved!" : "Save"}
 				</Button>
-				<Button variant="outline" onClick={() => resetMutate()}>
-					Reset to Default
+				<Button
+					variant="outline"
+					onClick={() => deleteMutate(profileId, { onSuccess: onDeleted })}
+				>
+					Delete Profile
 				</Button>
 			</CardFooter>
 		</Card>
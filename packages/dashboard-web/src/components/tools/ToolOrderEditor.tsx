@@ -0,0 +1,100 @@
+import { ArrowDown, ArrowUp, Pin, PinOff } from "lucide-react";
+import { Button } from "../ui/button";
+
+interface ToolOrderEditorProps {
+	/** Tools known to the profile, in request order */
+	toolNames: string[];
+	/** Pinned tool names, moved to the front in this order */
+	order: string[];
+	onChange: (order: string[]) => void;
+}
+
+export function ToolOrderEditor({
+	toolNames,
+	order,
+	onChange,
+}: ToolOrderEditorProps) {
+	const unpinned = [...new Set(toolNames)].filter(
+		(name) => !order.includes(name),
+	);
+
+	const move = (index: number, offset: number) => {
+		const next = [...order];
+		const [name] = next.splice(index, 1);
+		next.splice(index + offset, 0, name);
+		onChange(next);
+	};
+
+	return (
+		<div className="space-y-4 pt-4">
+			<p className="text-sm text-muted-foreground">
+				Pinned tools are moved to the front of the tools array in this order.
+				All other tools keep the order the client sent them in.
+			</p>
+
+			{order.length > 0 && (
+				<div className="space-y-1">
+					{order.map((name, index) => (
+						<div
+							key={name}
+							className="flex items-center justify-between gap-2 px-3 py-1.5 border rounded-md"
+						>
+							<span className="font-mono text-sm">
+								{index + 1}. {name}
+								{!toolNames.includes(name) && (
+									<span className="ml-2 text-xs text-muted-foreground">
+										(not seen recently)
+									</span>
+								)}
+							</span>
+							<div className="flex items-center">
+								<Button
+									variant="ghost"
+									size="icon"
+									disabled={index === 0}
+									onClick={() => move(index, -1)}
+									title="Move up"
+								>
+									<ArrowUp className="h-4 w-4" />
+								</Button>
+								<Button
+									variant="ghost"
+									size="icon"
+									disabled={index === order.length - 1}
+									onClick={() => move(index, 1)}
+									title="Move down"
+								>
+									<ArrowDown className="h-4 w-4" />
+								</Button>
+								<Button
+									variant="ghost"
+									size="icon"
+									onClick={() => onChange(order.filter((n) => n !== name))}
+									title="Unpin"
+								>
+									<PinOff className="h-4 w-4" />
+								</Button>
+							</div>
+						</div>
+					))}
+				</div>
+			)}
+
+			{unpinned.length > 0 && (
+				<div className="flex flex-wrap gap-2">
+					{unpinned.map((name) => (
+						<Button
+							key={name}
+							variant="outline"
+							size="sm"
+							onClick={() => onChange([...order, name])}
+						>
+							<Pin className="h-3 w-3 mr-1" />
+							{name}
+						</Button>
+					))}
+				</div>
+			)}
+		</div>
+	);
+}
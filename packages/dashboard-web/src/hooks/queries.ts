@@ -1,6 +1,23 @@
 import type { AgentUpdatePayload } from "@ccflare/types";
-import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import { api } from "../api";
+import {
+	useInfiniteQuery,
+	useMutation,
+	useQuery,
+	useQueryClient,
+} from "@tanstack/react-query";
+import {
+	type ApiKeyLimits,
+	api,
+	type InterceptorPreviewInput,
+	type InterceptorProfileInput,
+	type LoginCredentials,
+	type PayloadStorageMode,
+	type PromptHistoryKind,
+	type RedactionRule,
+	type RedactionRuleInput,
+	type RequestFilters,
+	type RoutingRuleInput,
+} from "../api";
 import { REFRESH_INTERVALS } from "../constants";
 import { queryKeys } from "../lib/query-keys";
 
@@ -46,27 +63,46 @@ export const useAnalytics = (
 	});
 };
 
-export const useRequests = (limit: number, refetchInterval?: number) => {
-	return useQuery({
-		queryKey: queryKeys.requests(limit),
-		queryFn: async () => {
-			const [requestsDetail, requestsSummary] = await Promise.all([
-				api.getRequestsDetail(limit),
-				api.getRequestsSummary(limit),
-			]);
-			return { requests: requestsDetail, detailsMap: requestsSummary };
-		},
-		refetchInterval: refetchInterval ?? REFRESH_INTERVALS.fast,
+/**
+ * Request history matching the filters, loaded a page at a time. New
+ * requests arrive through useRequestStream rather than polling.
+ */
+export const useRequests = (filters: RequestFilters, pageSize = 50) => {
+	return useInfiniteQuery({
+		queryKey: queryKeys.requests(filters),
+		queryFn: ({ pageParam }) => api.getRequests(filters, pageParam, pageSize),
+		initialPageParam: null as string | null,
+		getNextPageParam: (lastPage) => lastPage.nextCursor,
 	});
 };
 
 export const useRequestDetails = (id: string) => {
 	return useQuery({
 		queryKey: queryKeys.requestDetails(id),
-		queryFn: () =>
-			api
-				.getRequestsDetail(1)
-				.then((requests) => requests.find((r) => r.id === id)),
+		queryFn: () => api.getRequestPayload(id),
+		enabled: !!id,
+	});
+};
+
+export const useRequestTextSearch = (query: string) => {
+	return useQuery({
+		queryKey: queryKeys.requestTextSearch(query),
+		queryFn: () => api.searchRequestText(query),
+		enabled: !!query,
+	});
+};
+
+export const useConversations = () => {
+	return useQuery({
+		queryKey: queryKeys.conversations(),
+		queryFn: () => api.getConversations(),
+	});
+};
+
+export const useConversation = (id: string) => {
+	return useQuery({
+		queryKey: queryKeys.conversation(id),
+		queryFn: () => api.getConversation(id),
 		enabled: !!id,
 	});
 };
@@ -111,6 +147,23 @@ export const useRenameAccount = () => {
 	});
 };
 
+export const useSetAccountGroups = () => {
+	const queryClient = useQueryClient();
+	return useMutation({
+		mutationFn: ({
+			accountId,
+			groups,
+		}: {
+			accountId: string;
+			groups: string[];
+		}) => api.setAccountGroups(accountId, groups),
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: queryKeys.accounts() });
+			queryClient.invalidateQueries({ queryKey: queryKeys.routing() });
+		},
+	});
+};
+
 export const useResetStats = () => {
 	const queryClient = useQueryClient();
 	return useMutation({
@@ -201,6 +254,138 @@ export const useSetRetention = () => {
 	});
 };
 
+// Payload redaction settings
+export const useRedactionSettings = () => {
+	return useQuery({
+		queryKey: queryKeys.redaction(),
+		queryFn: () => api.getRedactionSettings(),
+	});
+};
+
+export const useSetPayloadStorageMode = () => {
+	const queryClient = useQueryClient();
+	return useMutation({
+		mutationFn: (mode: PayloadStorageMode) => api.setPayloadStorageMode(mode),
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: queryKeys.redaction() });
+		},
+	});
+};
+
+export const useCreateRedactionRule = () => {
+	const queryClient = useQueryClient();
+	return useMutation({
+		mutationFn: (input: RedactionRuleInput) => api.createRedactionRule(input),
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: queryKeys.redaction() });
+		},
+	});
+};
+
+export const useUpdateRedactionRule = () => {
+	const queryClient = useQueryClient();
+	return useMutation({
+		mutationFn: ({
+			id,
+			update,
+		}: {
+			id: string;
+			update: Partial<Pick<RedactionRule, "name" | "action" | "isEnabled">>;
+		}) => api.updateRedactionRule(id, update),
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: queryKeys.redaction() });
+		},
+	});
+};
+
+export const useDeleteRedactionRule = () => {
+	const queryClient = useQueryClient();
+	return useMutation({
+		mutationFn: (id: string) => api.deleteRedactionRule(id),
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: queryKeys.redaction() });
+		},
+	});
+};
+
+// Account group routing rules
+export const useRoutingSettings = () => {
+	return useQuery({
+		queryKey: queryKeys.routing(),
+		queryFn: () => api.getRoutingSettings(),
+	});
+};
+
+export const useCreateRoutingRule = () => {
+	const queryClient = useQueryClient();
+	return useMutation({
+		mutationFn: (input: RoutingRuleInput) => api.createRoutingRule(input),
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: queryKeys.routing() });
+		},
+	});
+};
+
+export const useUpdateRoutingRule = () => {
+	const queryClient = useQueryClient();
+	return useMutation({
+		mutationFn: ({
+			id,
+			update,
+		}: {
+			id: string;
+			update: Partial<RoutingRuleInput & { isEnabled: boolean }>;
+		}) => api.updateRoutingRule(id, update),
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: queryKeys.routing() });
+		},
+	});
+};
+
+export const useDeleteRoutingRule = () => {
+	const queryClient = useQueryClient();
+	return useMutation({
+		mutationFn: (id: string) => api.deleteRoutingRule(id),
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: queryKeys.routing() });
+		},
+	});
+};
+
+// Per-model fallback chains
+export const useModelFallbacks = () => {
+	return useQuery({
+		queryKey: queryKeys.modelFallbacks(),
+		queryFn: () => api.getModelFallbacks(),
+	});
+};
+
+export const useSetModelFallbacks = () => {
+	const queryClient = useQueryClient();
+	return useMutation({
+		mutationFn: ({
+			model,
+			fallbacks,
+		}: {
+			model: string;
+			fallbacks: string[];
+		}) => api.setModelFallbacks(model, fallbacks),
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: queryKeys.modelFallbacks() });
+		},
+	});
+};
+
+export const useDeleteModelFallbacks = () => {
+	const queryClient = useQueryClient();
+	return useMutation({
+		mutationFn: (model: string) => api.deleteModelFallbacks(model),
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: queryKeys.modelFallbacks() });
+		},
+	});
+};
+
 export const useCleanupNow = () => {
 	return useMutation({
 		mutationFn: () => api.cleanupNow(),
@@ -214,39 +399,175 @@ export const useCompactDb = () => {
 };
 
 /**
- * Hook to fetch the current system prompt interceptor configuration
+ * Hook to fetch all system prompt interceptor profiles
  * Polls for changes at a slow interval and continues in background
  */
-
-export const useSystemPromptOverride = () => {
+export const useInterceptorProfiles = () => {
 	return useQuery({
-		queryKey: queryKeys.systemPromptOverride(),
-		queryFn: () => api.getSystemPromptOverride(),
+		queryKey: queryKeys.interceptorProfiles(),
+		queryFn: () => api.getInterceptorProfiles(),
 		refetchInterval: REFRESH_INTERVALS.slow, // Poll for config changes
 	});
 };
 
-export const useSetSystemPromptOverride = () => {
+/**
+ * Hook to fetch a single interceptor profile with the last-seen tools
+ */
+export const useInterceptorProfile = (id: string | null) => {
+	return useQuery({
+		queryKey: queryKeys.interceptorProfile(id ?? ""),
+		queryFn: () => api.getInterceptorProfile(id as string),
+		enabled: !!id,
+	});
+};
+
+export const useCreateInterceptorProfile = () => {
+	const queryClient = useQueryClient();
+	return useMutation({
+		mutationFn: (data: InterceptorProfileInput) =>
+			api.createInterceptorProfile(data),
+		onSuccess: () => {
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.interceptorProfiles(),
+			});
+		},
+	});
+};
+
+export const useUpdateInterceptorProfile = () => {
 	const queryClient = useQueryClient();
 	return useMutation({
-		mutationFn: (data: Parameters<typeof api.setSystemPromptOverride>[0]) =>
-			api.setSystemPromptOverride(data),
+		mutationFn: ({ id, data }: { id: string; data: InterceptorProfileInput }) =>
+			api.updateInterceptorProfile(id, data),
 		onSuccess: () => {
+			// Prefix match also refreshes the individual profile queries
 			queryClient.invalidateQueries({
-				queryKey: queryKeys.systemPromptOverride(),
+				queryKey: queryKeys.interceptorProfiles(),
 			});
 		},
 	});
 };
 
-export const useResetSystemPromptOverride = () => {
+export const useDeleteInterceptorProfile = () => {
 	const queryClient = useQueryClient();
 	return useMutation({
-		mutationFn: () => api.resetSystemPromptOverride(),
+		mutationFn: (id: string) => api.deleteInterceptorProfile(id),
 		onSuccess: () => {
 			queryClient.invalidateQueries({
-				queryKey: queryKeys.systemPromptOverride(),
+				queryKey: queryKeys.interceptorProfiles(),
 			});
 		},
 	});
 };
+
+/**
+ * Hook to list recorded versions of the upstream system prompt or tools
+ */
+export const usePromptHistory = (kind: PromptHistoryKind) => {
+	return useQuery({
+		queryKey: queryKeys.promptHistory(kind),
+		queryFn: () => api.getPromptHistory(kind),
+		refetchInterval: REFRESH_INTERVALS.slow,
+	});
+};
+
+/**
+ * Hook to diff two recorded versions
+ */
+export const usePromptDiff = (from: number | null, to: number | null) => {
+	return useQuery({
+		queryKey: queryKeys.promptDiff(from ?? 0, to ?? 0),
+		queryFn: () => api.getPromptDiff(from as number, to as number),
+		enabled: from !== null && to !== null && from !== to,
+	});
+};
+
+/**
+ * Hook to dry-run the interceptors against a request body or stored request
+ */
+export const usePreviewInterceptors = () => {
+	return useMutation({
+		mutationFn: (input: InterceptorPreviewInput) =>
+			api.previewInterceptors(input),
+	});
+};
+
+/**
+ * Hook to list client API keys
+ */
+export const useApiKeys = () => {
+	return useQuery({
+		queryKey: queryKeys.apiKeys(),
+		queryFn: () => api.getApiKeys(),
+		refetchInterval: REFRESH_INTERVALS.fast, // Keep remaining budgets current
+	});
+};
+
+export const useCreateApiKey = () => {
+	const queryClient = useQueryClient();
+	return useMutation({
+		mutationFn: (name: string) => api.createApiKey(name),
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: queryKeys.apiKeys() });
+		},
+	});
+};
+
+export const useRevokeApiKey = () => {
+	const queryClient = useQueryClient();
+	return useMutation({
+		mutationFn: (id: string) => api.revokeApiKey(id),
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: queryKeys.apiKeys() });
+		},
+	});
+};
+
+export const useUpdateApiKeyLimits = () => {
+	const queryClient = useQueryClient();
+	return useMutation({
+		mutationFn: ({
+			id,
+			limits,
+		}: {
+			id: string;
+			limits: Partial<ApiKeyLimits>;
+		}) => api.updateApiKeyLimits(id, limits),
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: queryKeys.apiKeys() });
+		},
+	});
+};
+
+/**
+ * Hook to read the dashboard login state
+ */
+export const useAuthSession = () => {
+	return useQuery({
+		queryKey: queryKeys.authSession(),
+		queryFn: () => api.getAuthSession(),
+		refetchInterval: false,
+		staleTime: Number.POSITIVE_INFINITY,
+	});
+};
+
+export const useLogin = () => {
+	const queryClient = useQueryClient();
+	return useMutation({
+		mutationFn: (credentials: LoginCredentials) => api.login(credentials),
+		onSuccess: (session) => {
+			queryClient.setQueryData(queryKeys.authSession(), session);
+			queryClient.invalidateQueries();
+		},
+	});
+};
+
+export const useLogout = () => {
+	const queryClient = useQueryClient();
+	return useMutation({
+		mutationFn: () => api.logout(),
+		onSuccess: () => {
+			queryClient.resetQueries();
+		},
+	});
+};
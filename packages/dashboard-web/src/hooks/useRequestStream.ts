@@ -1,10 +1,31 @@
-import { useQueryClient } from "@tanstack/react-query";
+import { type InfiniteData, useQueryClient } from "@tanstack/react-query";
 import { useEffect } from "react";
-import type { Account, RequestPayload, RequestResponse } from "../api";
+import type {
+	Account,
+	RequestFilters,
+	RequestPage,
+	RequestPayload,
+	RequestResponse,
+} from "../api";
 import { queryKeys } from "../lib/query-keys";
 
-export function useRequestStream(limit = 200) {
+/** A request in the history list; pending until its summary arrives */
+export type RequestListItem = RequestResponse & { pending?: boolean };
+
+/**
+ * Keep the request history for the given filters up to date. Requests that
+ * start while no filters are applied are added to the top of the first page;
+ * with filters, only requests already listed are updated, since the server
+ * decides what matches.
+ */
+export function useRequestStream(filters: RequestFilters) {
 	const queryClient = useQueryClient();
+	const hasFilters = Object.values(filters).some(
+		(value) =>
+			value !== undefined &&
+			value !== "" &&
+			!(Array.isArray(value) && value.length === 0),
+	);
 
 	useEffect(() => {
 		let es: EventSource | null = null;
@@ -41,121 +62,60 @@ export function useRequestStream(limit = 200) {
 					| { type: "summary"; payload: RequestResponse }
 					| { type: "payload"; payload: RequestPayload };
 
-				queryClient.setQueryData(
-					queryKeys.requests(limit),
-					(
-						current:
-							| {
-									requests: RequestPayload[];
-									detailsMap: Map<string, RequestResponse> | RequestResponse[];
-							  }
-							| undefined,
-					) => {
-						if (!current) return current;
-
-						// Ensure detailsMap is a Map
-						const currentDetailsMap =
-							current.detailsMap instanceof Map
-								? current.detailsMap
-								: new Map(
-										(current.detailsMap as RequestResponse[]).map((s) => [
-											s.id,
-											s,
-										]),
-									);
-
-						if (evt.type === "start") {
-							// Look up account name from cache
-							const accounts = queryClient.getQueryData<Account[]>(
-								queryKeys.accounts(),
-							);
-							const account = accounts?.find((a) => a.id === evt.accountId);
-
-							// Create a lightweight placeholder payload
-							const placeholder: RequestPayload = {
-								id: evt.id,
-								request: { headers: {}, body: null },
-								response: {
-									status: evt.statusCode,
-									headers: {},
-									body: null,
-								},
-								meta: {
-									timestamp: evt.timestamp,
-									path: evt.path,
-									method: evt.method,
-									accountId: evt.accountId || undefined,
-									accountName: account?.name,
-									success: false,
-									pending: true,
-									agentUsed: evt.agentUsed || undefined,
-								},
-							};
-
-							// Check if this request already exists
-							const existingIndex = current.requests.findIndex(
-								(r) => r.id === evt.id,
-							);
-							if (existingIndex >= 0) {
-								// Update existing placeholder
-								const newRequests = [...current.requests];
-								newRequests[existingIndex] = placeholder;
-								return {
-									...current,
-									requests: newRequests,
-									detailsMap: currentDetailsMap,
-								};
-							}
-
-							// Add new placeholder at the beginning
-							return {
-								...current,
-								requests: [placeholder, ...current.requests].slice(0, limit),
-								detailsMap: currentDetailsMap,
-							};
-						} else if (evt.type === "payload") {
-							// Replace placeholder or insert if missing
-							const newRequests = [...current.requests];
-							const idx = newRequests.findIndex((r) => r.id === evt.payload.id);
-							if (idx >= 0) {
-								newRequests[idx] = evt.payload;
-							} else {
-								newRequests.unshift(evt.payload);
-							}
-							return {
-								...current,
-								requests: newRequests.slice(0, limit),
-								detailsMap: currentDetailsMap,
-							};
-						} else {
-							// Update details map with summary
-							const map = new Map(currentDetailsMap);
-							map.set(evt.payload.id, evt.payload);
-
-							// Update the request if it exists
-							const requestIndex = current.requests.findIndex(
-								(r) => r.id === evt.payload.id,
-							);
-							if (requestIndex >= 0) {
-								const newRequests = [...current.requests];
-								// Update meta to remove pending status
-								if (newRequests[requestIndex].meta) {
-									newRequests[requestIndex] = {
-										...newRequests[requestIndex],
-										meta: {
-											...newRequests[requestIndex].meta,
-											pending: false,
-											success: evt.payload.success,
-										},
-									};
-								}
-								return { ...current, requests: newRequests, detailsMap: map };
-							}
-
-							return { ...current, detailsMap: map };
-						}
-					},
-				);
+				// Payloads are fetched when a request is opened
+				if (evt.type === "payload") return;
+
+				queryClient.setQueryData<
+					InfiniteData<RequestPage<RequestListItem>, string | null>
+				>(queryKeys.requests(filters), (current) => {
+					if (!current || current.pages.length === 0) return current;
+
+					let item: RequestListItem;
+					if (evt.type === "start") {
+						// Look up account name from cache
+						const accounts = queryClient.getQueryData<Account[]>(
+							queryKeys.accounts(),
+						);
+						const account = accounts?.find((a) => a.id === evt.accountId);
+
+						// Create a lightweight placeholder until the summary arrives
+						item = {
+							id: evt.id,
+							timestamp: new Date(evt.timestamp).toISOString(),
+							method: evt.method,
+							path: evt.path,
+							accountUsed: account?.name ?? evt.accountId,
+							statusCode: evt.statusCode,
+							success: false,
+							errorMessage: null,
+							responseTimeMs: null,
+							failoverAttempts: 0,
+							agentUsed: evt.agentUsed || undefined,
+							pending: true,
+						};
+					} else {
+						item = evt.payload;
+					}
+
+					// Replace the request wherever it is already listed
+					let found = false;
+					const pages = current.pages.map((page) => {
+						const index = page.requests.findIndex((r) => r.id === item.id);
+						if (index < 0) return page;
+						found = true;
+						const requests = [...page.requests];
+						requests[index] = item;
+						return { ...page, requests };
+					});
+					if (found) return { ...current, pages };
+					if (hasFilters) return current;
+
+					const [first, ...rest] = current.pages;
+					return {
+						...current,
+						pages: [{ ...first, requests: [item, ...first.requests] }, ...rest],
+					};
+				});
 			});
 
 			es.addEventListener("error", (error) => {
@@ -187,5 +147,5 @@ export function useRequestStream(limit = 200) {
 				es.close();
 			}
 		};
-	}, [limit, queryClient]);
+	}, [filters, hasFilters, queryClient]);
 }
@@ -14,14 +14,30 @@ export const queryKeys = {
 			"analytics",
 			{ timeRange, filters, viewMode, modelBreakdown },
 		] as const,
-	requests: (limit?: number) =>
-		[...queryKeys.all, "requests", { limit }] as const,
+	requests: (filters?: unknown) =>
+		[...queryKeys.all, "requests", { filters }] as const,
 	requestDetails: (id: string) =>
 		[...queryKeys.all, "requests", "detail", id] as const,
+	requestTextSearch: (query: string) =>
+		[...queryKeys.all, "requests", "search", query] as const,
+	conversations: () => [...queryKeys.all, "conversations"] as const,
+	conversation: (id: string) =>
+		[...queryKeys.all, "conversations", id] as const,
 	logs: () => [...queryKeys.all, "logs"] as const,
 	logHistory: () => [...queryKeys.all, "logs", "history"] as const,
 	defaultAgentModel: () =>
 		[...queryKeys.all, "config", "defaultAgentModel"] as const,
-	systemPromptOverride: () =>
-		[...queryKeys.all, "tools", "systemPromptOverride"] as const,
+	interceptorProfiles: () =>
+		[...queryKeys.all, "tools", "interceptorProfiles"] as const,
+	interceptorProfile: (id: string) =>
+		[...queryKeys.all, "tools", "interceptorProfiles", id] as const,
+	promptHistory: (kind: string) =>
+		[...queryKeys.all, "tools", "history", kind] as const,
+	promptDiff: (from: number, to: number) =>
+		[...queryKeys.all, "tools", "history", "diff", { from, to }] as const,
+	apiKeys: () => [...queryKeys.all, "apiKeys"] as const,
+	authSession: () => [...queryKeys.all, "authSession"] as const,
+	redaction: () => [...queryKeys.all, "redaction"] as const,
+	routing: () => [...queryKeys.all, "routing"] as const,
+	modelFallbacks: () => [...queryKeys.all, "modelFallbacks"] as const,
 } as const;
@@ -21,6 +21,11 @@ export class AsyncDbWriter implements Disposable {
 		void this.processQueue();
 	}
 
+	/** Number of jobs waiting to be written */
+	getQueueDepth(): number {
+		return this.queue.length;
+	}
+
 	private async processQueue(): Promise<void> {
 		if (this.running || this.queue.length === 0) {
 			return;
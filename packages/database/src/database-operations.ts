@@ -1,21 +1,80 @@
 import { Database } from "bun:sqlite";
-import { mkdirSync } from "node:fs";
+import { mkdirSync, renameSync, rmSync } from "node:fs";
 import { dirname } from "node:path";
 import type { Disposable } from "@ccflare/core";
-import type { Account, StrategyStore } from "@ccflare/types";
+import type {
+	Account,
+	RequestFilters,
+	RequestTextDocument,
+	StrategyStore,
+} from "@ccflare/types";
+import {
+	type EncryptionKey,
+	type EncryptionKeySource,
+	encodeEncryptionKey,
+	loadEncryptionKey,
+	TokenCipher,
+	writeKeyFile,
+} from "./encryption";
 import { ensureSchema, runMigrations } from "./migrations";
 import { resolveDbPath } from "./paths";
-import { AccountRepository } from "./repositories/account.repository";
+import {
+	AccountRepository,
+	type NewAccount,
+} from "./repositories/account.repository";
 import { AgentPreferenceRepository } from "./repositories/agent-preference.repository";
+import {
+	type ApiKey,
+	type ApiKeyLimits,
+	ApiKeyRepository,
+	type ApiKeyUsage,
+} from "./repositories/api-key.repository";
+import {
+	type DashboardSession,
+	DashboardSessionRepository,
+} from "./repositories/dashboard-session.repository";
+import {
+	type DashboardRole,
+	type DashboardUser,
+	DashboardUserRepository,
+} from "./repositories/dashboard-user.repository";
 import {
 	type InterceptorConfig,
+	type InterceptorProfile,
 	InterceptorRepository,
 } from "./repositories/interceptor.repository";
+import {
+	type ModelFallbackChain,
+	ModelFallbackRepository,
+} from "./repositories/model-fallback.repository";
 import { OAuthRepository } from "./repositories/oauth.repository";
 import {
+	type PromptHistoryKind,
+	PromptHistoryRepository,
+	type PromptVersion,
+	type PromptVersionSummary,
+} from "./repositories/prompt-history.repository";
+import {
+	type PayloadStorageMode,
+	RedactionRepository,
+	type RedactionRule,
+	type RedactionRuleInput,
+	type RedactionRuleUpdate,
+} from "./repositories/redaction.repository";
+import {
+	type ConversationRequestRow,
+	type ConversationRow,
 	type RequestData,
 	RequestRepository,
+	type RequestSearchRow,
+	type RequestTextMatchRow,
 } from "./repositories/request.repository";
+import {
+	type RoutingRule,
+	type RoutingRuleInput,
+	RoutingRuleRepository,
+	type RoutingRuleUpdate,
+} from "./repositories/routing-rule.repository";
 import { StatsRepository } from "./repositories/stats.repository";
 import { StrategyRepository } from "./repositories/strategy.repository";
 import { SystemKVRepository } from "./repositories/system-kv.repository";
@@ -24,6 +83,16 @@ export interface RuntimeConfig {
 	sessionDurationMs?: number;
 }
 
+export interface KeyRotationResult {
+	accounts: number;
+	keyId: string;
+	source: EncryptionKeySource;
+	/** Where the new key was written, for file-based keys */
+	path: string | null;
+	/** The new key, for env-based keys that the caller must store */
+	key: string | null;
+}
+
 /**
  * DatabaseOperations using Repository Pattern
  * Provides a clean, organized interface for database operations
@@ -31,6 +100,7 @@ export interface RuntimeConfig {
 export class DatabaseOperations implements StrategyStore, Disposable {
 	private db: Database;
 	private runtime?: RuntimeConfig;
+	private encryptionKey: EncryptionKey;
 
 	// Repositories
 	private accounts: AccountRepository;
@@ -41,6 +111,13 @@ export class DatabaseOperations implements StrategyStore, Disposable {
 	private agentPreferences: AgentPreferenceRepository;
 	private interceptor: InterceptorRepository;
 	private systemKV: SystemKVRepository;
+	private promptHistory: PromptHistoryRepository;
+	private apiKeys: ApiKeyRepository;
+	private dashboardUsers: DashboardUserRepository;
+	private dashboardSessions: DashboardSessionRepository;
+	private redaction: RedactionRepository;
+	private routingRules: RoutingRuleRepository;
+	private modelFallbacks: ModelFallbackRepository;
 
 	constructor(dbPath?: string) {
 		const resolvedPath = dbPath ?? resolveDbPath();
@@ -56,11 +133,15 @@ export class DatabaseOperations implements StrategyStore, Disposable {
 		this.db.exec("PRAGMA busy_timeout = 5000"); // Wait up to 5 seconds before throwing "database is locked"
 		this.db.exec("PRAGMA synchronous = NORMAL"); // Better performance while maintaining safety
 
+		// Account secrets are encrypted at rest with this key
+		this.encryptionKey = loadEncryptionKey(resolvedPath);
+		const cipher = new TokenCipher(this.encryptionKey.key);
+
 		ensureSchema(this.db);
-		runMigrations(this.db);
+		runMigrations(this.db, cipher);
 
 		// Initialize repositories
-		this.accounts = new AccountRepository(this.db);
+		this.accounts = new AccountRepository(this.db, cipher);
 		this.requests = new RequestRepository(this.db);
 		this.oauth = new OAuthRepository(this.db);
 		this.strategy = new StrategyRepository(this.db);
@@ -68,6 +149,13 @@ export class DatabaseOperations implements StrategyStore, Disposable {
 		this.agentPreferences = new AgentPreferenceRepository(this.db);
 		this.interceptor = new InterceptorRepository(this.db);
 		this.systemKV = new SystemKVRepository(this.db);
+		this.promptHistory = new PromptHistoryRepository(this.db);
+		this.apiKeys = new ApiKeyRepository(this.db);
+		this.dashboardUsers = new DashboardUserRepository(this.db);
+		this.dashboardSessions = new DashboardSessionRepository(this.db);
+		this.redaction = new RedactionRepository(this.db);
+		this.routingRules = new RoutingRuleRepository(this.db);
+		this.modelFallbacks = new ModelFallbackRepository(this.db);
 	}
 
 	setRuntimeConfig(runtime: RuntimeConfig): void {
@@ -87,6 +175,10 @@ export class DatabaseOperations implements StrategyStore, Disposable {
 		return this.accounts.findById(accountId);
 	}
 
+	createAccount(account: NewAccount): void {
+		this.accounts.create(account);
+	}
+
 	updateAccountTokens(
 		accountId: string,
 		accessToken: string,
@@ -131,6 +223,47 @@ export class DatabaseOperations implements StrategyStore, Disposable {
 		this.accounts.rename(accountId, newName);
 	}
 
+	setAccountGroups(accountId: string, groups: string[]): void {
+		this.accounts.setGroups(accountId, groups);
+	}
+
+	/**
+	 * Re-encrypt all account secrets with a freshly generated key. A key file
+	 * is only replaced once the re-encrypted rows are committed; a key from
+	 * the environment is returned so the caller can store it.
+	 */
+	rotateEncryptionKey(): KeyRotationResult {
+		const key = TokenCipher.generateKey();
+		const next = new TokenCipher(key);
+		const { source, path } = this.encryptionKey;
+
+		if (source === "env") {
+			const accounts = this.accounts.reencryptSecrets(next);
+			this.encryptionKey = { key, source, path };
+			return {
+				accounts,
+				keyId: next.keyId,
+				source,
+				path: null,
+				key: encodeEncryptionKey(key),
+			};
+		}
+
+		const pendingPath = `${path}.new`;
+		writeKeyFile(pendingPath, key);
+		let accounts: number;
+		try {
+			accounts = this.accounts.reencryptSecrets(next);
+		} catch (error) {
+			rmSync(pendingPath, { force: true });
+			throw error;
+		}
+		renameSync(pendingPath, path);
+		this.encryptionKey = { key, source, path };
+
+		return { accounts, keyId: next.keyId, source, path, key: null };
+	}
+
 	resetAccountSession(accountId: string, timestamp: number): void {
 		this.accounts.resetSession(accountId, timestamp);
 	}
@@ -147,6 +280,7 @@ export class DatabaseOperations implements StrategyStore, Disposable {
 		accountUsed: string | null,
 		statusCode: number | null,
 		timestamp?: number,
+		apiKeyId?: string | null,
 	): void {
 		this.requests.saveMeta(
 			id,
@@ -155,6 +289,7 @@ export class DatabaseOperations implements StrategyStore, Disposable {
 			accountUsed,
 			statusCode,
 			timestamp,
+			apiKeyId,
 		);
 	}
 
@@ -170,6 +305,10 @@ export class DatabaseOperations implements StrategyStore, Disposable {
 		failoverAttempts: number,
 		usage?: RequestData["usage"],
 		agentUsed?: string,
+		interceptedBy?: string[],
+		apiKeyId?: string | null,
+		fallbackFromModel?: string | null,
+		conversationId?: string | null,
 	): void {
 		this.requests.save({
 			id,
@@ -183,6 +322,10 @@ export class DatabaseOperations implements StrategyStore, Disposable {
 			failoverAttempts,
 			usage,
 			agentUsed,
+			interceptedBy,
+			apiKeyId,
+			fallbackFromModel,
+			conversationId,
 		});
 	}
 
@@ -198,16 +341,67 @@ export class DatabaseOperations implements StrategyStore, Disposable {
 		return this.requests.getPayload(id);
 	}
 
+	getLatestRequestPayloadId(path: string): string | null {
+		return this.requests.getLatestPayloadId(path);
+	}
+
 	listRequestPayloads(limit = 50): Array<{ id: string; json: string }> {
 		return this.requests.listPayloads(limit);
 	}
 
-	listRequestPayloadsWithAccountNames(
-		limit = 50,
-	): Array<{ id: string; json: string; account_name: string | null }> {
+	listRequestPayloadsWithAccountNames(limit = 50): Array<{
+		id: string;
+		json: string;
+		account_name: string | null;
+		api_key_name: string | null;
+	}> {
 		return this.requests.listPayloadsWithAccountNames(limit);
 	}
 
+	getRequestPayloadWithAccountNames(id: string): {
+		id: string;
+		json: string;
+		account_name: string | null;
+		api_key_name: string | null;
+	} | null {
+		return this.requests.getPayloadWithAccountNames(id);
+	}
+
+	/**
+	 * Search stored requests newest first, one page at a time
+	 * @throws {ValidationError} If a status filter or the cursor is invalid
+	 */
+	searchRequests(
+		filters: RequestFilters,
+		limit: number,
+		cursor?: string | null,
+	): { rows: RequestSearchRow[]; nextCursor: string | null } {
+		return this.requests.search(filters, limit, cursor);
+	}
+
+	saveRequestText(id: string, document: RequestTextDocument): void {
+		this.requests.saveText(id, document);
+	}
+
+	/**
+	 * Full-text search over the prompts and responses of stored payloads
+	 * @throws {ValidationError} If the query has no terms
+	 */
+	searchRequestText(query: string, limit: number): RequestTextMatchRow[] {
+		return this.requests.searchText(query, limit);
+	}
+
+	listConversations(
+		limit: number,
+		cursor?: string | null,
+	): { rows: ConversationRow[]; nextCursor: string | null } {
+		return this.requests.listConversations(limit, cursor);
+	}
+
+	getConversationRequests(conversationId: string): ConversationRequestRow[] {
+		return this.requests.getConversation(conversationId);
+	}
+
 	// OAuth operations delegated to repository
 	createOAuthSession(
 		sessionId: string,
@@ -313,6 +507,12 @@ export class DatabaseOperations implements StrategyStore, Disposable {
 		return this.requests.getRequestsByAccount(since);
 	}
 
+	getAccountRequestCountsSince(
+		since: number,
+	): Array<{ accountId: string; count: number }> {
+		return this.requests.countByAccountSince(since);
+	}
+
 	// Cleanup operations (payload by age; request metadata by age; plus orphan sweep)
 	cleanupOldRequests(
 		payloadRetentionMs: number,
@@ -330,11 +530,14 @@ export class DatabaseOperations implements StrategyStore, Disposable {
 		) {
 			const requestCutoff = now - requestRetentionMs;
 			removedRequests = this.requests.deleteOlderThan(requestCutoff);
+			this.promptHistory.deleteOlderThan(requestCutoff);
 		}
 		const removedPayloadsByAge =
 			this.requests.deletePayloadsOlderThan(payloadCutoff);
 		const removedOrphans = this.requests.deleteOrphanedPayloads();
 		const removedPayloads = removedPayloadsByAge + removedOrphans;
+		// The search index only covers requests whose payload is still stored
+		this.requests.deleteOrphanedText();
 		return { removedRequests, removedPayloads };
 	}
 
@@ -378,6 +581,18 @@ export class DatabaseOperations implements StrategyStore, Disposable {
 		return this.interceptor.delete(id);
 	}
 
+	listInterceptorProfiles(): InterceptorProfile[] {
+		return this.interceptor.listProfiles();
+	}
+
+	getInterceptorProfile(id: string): InterceptorProfile | null {
+		return this.interceptor.getProfile(id);
+	}
+
+	saveInterceptorProfile(profile: InterceptorProfile): void {
+		this.interceptor.saveProfile(profile);
+	}
+
 	// System KV operations delegated to repository
 	getSystemKV(key: string): string | null {
 		return this.systemKV.getValue(key);
@@ -387,6 +602,232 @@ export class DatabaseOperations implements StrategyStore, Disposable {
 		this.systemKV.setValue(key, value);
 	}
 
+	// Prompt history operations delegated to repository
+	recordPromptVersion(
+		kind: PromptHistoryKind,
+		content: string,
+		timestamp?: number,
+	): boolean {
+		return this.promptHistory.record(kind, content, timestamp);
+	}
+
+	listPromptVersions(
+		kind: PromptHistoryKind,
+		limit?: number,
+	): PromptVersionSummary[] {
+		return this.promptHistory.list(kind, limit);
+	}
+
+	getPromptVersion(id: number): PromptVersion | null {
+		return this.promptHistory.getById(id);
+	}
+
+	// Client API key operations delegated to repository
+	createApiKey(name: string): { apiKey: ApiKey; key: string } {
+		return this.apiKeys.create(name);
+	}
+
+	listApiKeys(): ApiKey[] {
+		return this.apiKeys.list();
+	}
+
+	getApiKey(id: string): ApiKey | null {
+		return this.apiKeys.findById(id);
+	}
+
+	getApiKeyByName(name: string): ApiKey | null {
+		return this.apiKeys.findByName(name);
+	}
+
+	findActiveApiKey(key: string): ApiKey | null {
+		return this.apiKeys.findActiveByKey(key);
+	}
+
+	hasApiKeys(): boolean {
+		return this.apiKeys.hasAny();
+	}
+
+	touchApiKey(id: string, timestamp?: number): void {
+		this.apiKeys.touch(id, timestamp);
+	}
+
+	revokeApiKey(id: string): boolean {
+		return this.apiKeys.revoke(id);
+	}
+
+	setApiKeyLimits(id: string, limits: ApiKeyLimits): void {
+		this.apiKeys.setLimits(id, limits);
+	}
+
+	getApiKeyUsage(
+		id: string,
+		windows: { minuteStart: number; dayStart: number; monthStart: number },
+	): ApiKeyUsage {
+		return this.apiKeys.getUsage(id, windows);
+	}
+
+	// Dashboard user operations
+	createDashboardUser(
+		username: string,
+		password: string,
+		role: DashboardRole,
+	): DashboardUser {
+		return this.dashboardUsers.create(username, password, role);
+	}
+
+	listDashboardUsers(): DashboardUser[] {
+		return this.dashboardUsers.list();
+	}
+
+	getDashboardUser(id: string): DashboardUser | null {
+		return this.dashboardUsers.findById(id);
+	}
+
+	getDashboardUserByUsername(username: string): DashboardUser | null {
+		return this.dashboardUsers.findByUsername(username);
+	}
+
+	verifyDashboardUserPassword(
+		username: string,
+		password: string,
+	): DashboardUser | null {
+		return this.dashboardUsers.verifyPassword(username, password);
+	}
+
+	hasDashboardUsers(): boolean {
+		return this.dashboardUsers.hasAny();
+	}
+
+	countDashboardAdmins(): number {
+		return this.dashboardUsers.countAdmins();
+	}
+
+	updateDashboardUserRole(id: string, role: DashboardRole): void {
+		this.dashboardUsers.updateRole(id, role);
+	}
+
+	/**
+	 * Change a user's password and end all of their sessions
+	 */
+	updateDashboardUserPassword(id: string, password: string): void {
+		this.dashboardUsers.updatePassword(id, password);
+		this.dashboardSessions.deleteForUser(id);
+	}
+
+	touchDashboardUserLogin(id: string, timestamp?: number): void {
+		this.dashboardUsers.touchLogin(id, timestamp);
+	}
+
+	/**
+	 * Delete a user together with their sessions
+	 */
+	deleteDashboardUser(id: string): boolean {
+		this.dashboardSessions.deleteForUser(id);
+		return this.dashboardUsers.delete(id);
+	}
+
+	// Dashboard session operations
+	createDashboardSession(
+		userId: string | null,
+		ttlMs: number,
+		adminToken: string | null = null,
+	): { session: Omit<DashboardSession, "username" | "role">; token: string } {
+		return this.dashboardSessions.create(userId, ttlMs, adminToken);
+	}
+
+	getDashboardSession(
+		token: string,
+		adminToken: string | null,
+	): DashboardSession | null {
+		return this.dashboardSessions.findByToken(token, adminToken);
+	}
+
+	deleteDashboardSession(token: string): void {
+		this.dashboardSessions.deleteByToken(token);
+	}
+
+	deleteExpiredDashboardSessions(): number {
+		return this.dashboardSessions.deleteExpired();
+	}
+
+	// Payload redaction operations
+	listRedactionRules(): RedactionRule[] {
+		return this.redaction.list();
+	}
+
+	listEnabledRedactionRules(): RedactionRule[] {
+		return this.redaction.listEnabled();
+	}
+
+	getRedactionRule(id: string): RedactionRule | null {
+		return this.redaction.findById(id);
+	}
+
+	createRedactionRule(input: RedactionRuleInput): RedactionRule {
+		return this.redaction.create(input);
+	}
+
+	updateRedactionRule(id: string, update: RedactionRuleUpdate): void {
+		this.redaction.update(id, update);
+	}
+
+	deleteRedactionRule(id: string): boolean {
+		return this.redaction.delete(id);
+	}
+
+	getPayloadStorageMode(): PayloadStorageMode {
+		return this.redaction.getStorageMode();
+	}
+
+	setPayloadStorageMode(mode: PayloadStorageMode): void {
+		this.redaction.setStorageMode(mode);
+	}
+
+	// Routing rule operations
+	listRoutingRules(): RoutingRule[] {
+		return this.routingRules.list();
+	}
+
+	listEnabledRoutingRules(): RoutingRule[] {
+		return this.routingRules.listEnabled();
+	}
+
+	getRoutingRule(id: string): RoutingRule | null {
+		return this.routingRules.findById(id);
+	}
+
+	createRoutingRule(input: RoutingRuleInput): RoutingRule {
+		return this.routingRules.create(input);
+	}
+
+	updateRoutingRule(id: string, update: RoutingRuleUpdate): void {
+		this.routingRules.update(id, update);
+	}
+
+	deleteRoutingRule(id: string): boolean {
+		return this.routingRules.delete(id);
+	}
+
+	// Model fallback chain operations
+	listModelFallbackChains(): ModelFallbackChain[] {
+		return this.modelFallbacks.list();
+	}
+
+	getModelFallbackChain(model: string): ModelFallbackChain | null {
+		return this.modelFallbacks.findByModel(model);
+	}
+
+	setModelFallbackChain(
+		model: string,
+		fallbacks: string[],
+	): ModelFallbackChain {
+		return this.modelFallbacks.save(model, fallbacks);
+	}
+
+	deleteModelFallbackChain(model: string): boolean {
+		return this.modelFallbacks.delete(model);
+	}
+
 	close(): void {
 		// Ensure all write operations are flushed before closing
 		this.db.exec("PRAGMA wal_checkpoint(TRUNCATE)");
@@ -0,0 +1,197 @@
+import {
+	createCipheriv,
+	createDecipheriv,
+	createHash,
+	randomBytes,
+} from "node:crypto";
+import { readFileSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+
+export const ENCRYPTION_KEY_ENV = "ccflare_ENCRYPTION_KEY";
+export const ENCRYPTION_KEY_FILE_ENV = "ccflare_ENCRYPTION_KEY_FILE";
+export const ENCRYPTION_KEY_FILE_NAME = "ccflare.key";
+
+// Marks values written by TokenCipher; anything else is legacy plaintext
+export const ENCRYPTED_PREFIX = "enc:v1:";
+
+const ALGORITHM = "aes-256-gcm";
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+export type EncryptionKeySource = "env" | "file";
+
+export interface EncryptionKey {
+	key: Buffer;
+	source: EncryptionKeySource;
+	/** Key file path, set when the key is read from (or would be written to) disk */
+	path: string;
+}
+
+function seal(key: Buffer, plaintext: Buffer): string {
+	const iv = randomBytes(IV_BYTES);
+	const cipher = createCipheriv(ALGORITHM, key, iv);
+	const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+	return Buffer.concat([iv, ciphertext, cipher.getAuthTag()]).toString(
+		"base64",
+	);
+}
+
+function open(key: Buffer, sealed: string): Buffer {
+	const data = Buffer.from(sealed, "base64");
+	if (data.length < IV_BYTES + TAG_BYTES) {
+		throw new Error("Encrypted value is truncated");
+	}
+	const iv = data.subarray(0, IV_BYTES);
+	const tag = data.subarray(data.length - TAG_BYTES);
+	const decipher = createDecipheriv(ALGORITHM, key, iv);
+	decipher.setAuthTag(tag);
+	return Buffer.concat([
+		decipher.update(data.subarray(IV_BYTES, data.length - TAG_BYTES)),
+		decipher.final(),
+	]);
+}
+
+export function isEncrypted(value: string | null): boolean {
+	return value?.startsWith(ENCRYPTED_PREFIX) ?? false;
+}
+
+/**
+ * AES-256-GCM envelope encryption for account secrets. Every value gets its
+ * own random data key, which is sealed with the master key and stored next
+ * to the ciphertext as `enc:v1:<key id>:<sealed data key>:<sealed value>`.
+ */
+export class TokenCipher {
+	readonly keyId: string;
+
+	constructor(private readonly masterKey: Buffer) {
+		if (masterKey.length !== KEY_BYTES) {
+			throw new Error(`Encryption key must be ${KEY_BYTES} bytes`);
+		}
+		this.keyId = createHash("sha256")
+			.update(masterKey)
+			.digest("hex")
+			.slice(0, 8);
+	}
+
+	static generateKey(): Buffer {
+		return randomBytes(KEY_BYTES);
+	}
+
+	encrypt(plaintext: string): string {
+		const dataKey = randomBytes(KEY_BYTES);
+		const sealedKey = seal(this.masterKey, dataKey);
+		const sealedValue = seal(dataKey, Buffer.from(plaintext, "utf8"));
+		return `${ENCRYPTED_PREFIX}${this.keyId}:${sealedKey}:${sealedValue}`;
+	}
+
+	/**
+	 * Decrypt a stored value. Values without the prefix are returned as-is so
+	 * rows written before encryption keep working until they are migrated.
+	 */
+	decrypt(value: string): string {
+		if (!isEncrypted(value)) return value;
+
+		const [keyId, sealedKey, sealedValue] = value
+			.slice(ENCRYPTED_PREFIX.length)
+			.split(":");
+		if (!sealedKey || !sealedValue) {
+			throw new Error("Encrypted value is malformed");
+		}
+		if (keyId !== this.keyId) {
+			throw new Error(
+				`Account secret was encrypted with key ${keyId}, but the configured key is ${this.keyId}. Set ${ENCRYPTION_KEY_ENV} or restore the key file.`,
+			);
+		}
+
+		const dataKey = open(this.masterKey, sealedKey);
+		return open(dataKey, sealedValue).toString("utf8");
+	}
+
+	encryptNullable(value: string | null): string | null {
+		return value === null ? null : this.encrypt(value);
+	}
+
+	decryptNullable(value: string | null): string | null {
+		return value === null ? null : this.decrypt(value);
+	}
+}
+
+/**
+ * Parse a 32-byte key given as 64 hex characters or base64
+ */
+export function parseEncryptionKey(encoded: string): Buffer {
+	const trimmed = encoded.trim();
+	const key = /^[0-9a-f]{64}$/i.test(trimmed)
+		? Buffer.from(trimmed, "hex")
+		: Buffer.from(trimmed, "base64");
+	if (key.length !== KEY_BYTES) {
+		throw new Error(
+			`Encryption key must be ${KEY_BYTES} bytes, encoded as hex or base64`,
+		);
+	}
+	return key;
+}
+
+export function encodeEncryptionKey(key: Buffer): string {
+	return key.toString("base64");
+}
+
+export function resolveKeyFilePath(dbPath: string): string {
+	return (
+		process.env[ENCRYPTION_KEY_FILE_ENV] ??
+		join(dirname(dbPath), ENCRYPTION_KEY_FILE_NAME)
+	);
+}
+
+/**
+ * Write a key file readable only by the current user
+ * @param exclusive - Fail instead of overwriting an existing file
+ */
+export function writeKeyFile(path: string, key: Buffer, exclusive = false) {
+	writeFileSync(path, `${encodeEncryptionKey(key)}\n`, {
+		mode: 0o600,
+		flag: exclusive ? "wx" : "w",
+	});
+}
+
+/**
+ * Load the master key from ccflare_ENCRYPTION_KEY, falling back to a key file
+ * next to the database. The key file is generated on first use.
+ */
+export function loadEncryptionKey(dbPath: string): EncryptionKey {
+	const path = resolveKeyFilePath(dbPath);
+
+	const fromEnv = process.env[ENCRYPTION_KEY_ENV];
+	if (fromEnv) {
+		return { key: parseEncryptionKey(fromEnv), source: "env", path };
+	}
+
+	try {
+		return {
+			key: parseEncryptionKey(readFileSync(path, "utf8")),
+			source: "file",
+			path,
+		};
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+			throw error;
+		}
+	}
+
+	const key = TokenCipher.generateKey();
+	try {
+		writeKeyFile(path, key, true);
+	} catch (error) {
+		// Another process created the file first; use its key
+		if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+			return {
+				key: parseEncryptionKey(readFileSync(path, "utf8")),
+				source: "file",
+				path,
+			};
+		}
+		throw error;
+	}
+	return { key, source: "file", path };
+}
@@ -4,11 +4,70 @@ export { DatabaseOperations };
 
 // Re-export other utilities
 export { AsyncDbWriter } from "./async-writer";
-export type { RuntimeConfig } from "./database-operations";
+export type {
+	KeyRotationResult,
+	RuntimeConfig,
+} from "./database-operations";
+export {
+	ENCRYPTION_KEY_ENV,
+	ENCRYPTION_KEY_FILE_ENV,
+	TokenCipher,
+} from "./encryption";
 export { DatabaseFactory } from "./factory";
 export { ensureSchema, runMigrations } from "./migrations";
 export { resolveDbPath } from "./paths";
 export { analyzeIndexUsage } from "./performance-indexes";
 
 // Re-export repository types
+export type { NewAccount } from "./repositories/account.repository";
+export type {
+	ApiKey,
+	ApiKeyLimits,
+	ApiKeyUsage,
+} from "./repositories/api-key.repository";
+export {
+	BOOTSTRAP_SESSION_USERNAME,
+	type DashboardSession,
+} from "./repositories/dashboard-session.repository";
+export {
+	DASHBOARD_ROLES,
+	type DashboardRole,
+	type DashboardUser,
+	isDashboardRole,
+} from "./repositories/dashboard-user.repository";
+export type {
+	InterceptorConfig,
+	InterceptorMatchRules,
+	InterceptorProfile,
+	SyntheticTool,
+	ToolOverride,
+} from "./repositories/interceptor.repository";
+export type { ModelFallbackChain } from "./repositories/model-fallback.repository";
+export type {
+	PromptHistoryKind,
+	PromptVersion,
+	PromptVersionSummary,
+} from "./repositories/prompt-history.repository";
+export {
+	isPayloadStorageMode,
+	PAYLOAD_STORAGE_MODES,
+	type PayloadStorageMode,
+	type RedactionRule,
+	type RedactionRuleInput,
+	type RedactionRuleUpdate,
+} from "./repositories/redaction.repository";
+export {
+	type ConversationRequestRow,
+	type ConversationRow,
+	type RequestSearchRow,
+	type RequestTextMatchRow,
+	SNIPPET_MATCH_END,
+	SNIPPET_MATCH_START,
+} from "./repositories/request.repository";
+export type {
+	RoutingMatchRules,
+	RoutingRule,
+	RoutingRuleInput,
+	RoutingRuleUpdate,
+} from "./repositories/routing-rule.repository";
 export type { StatsRepository } from "./repositories/stats.repository";
@@ -1,5 +1,6 @@
 import type { Database } from "bun:sqlite";
 import { Logger } from "@ccflare/logger";
+import { ENCRYPTED_PREFIX, type TokenCipher } from "./encryption";
 import { addPerformanceIndexes } from "./performance-indexes";
 
 const log = new Logger("DatabaseMigrations");
@@ -12,7 +13,7 @@ export function ensureSchema(db: Database): void {
 			name TEXT NOT NULL,
 			provider TEXT DEFAULT 'anthropic',
 			api_key TEXT,
-			refresh_token TEXT NOT NULL,
+			refresh_token TEXT,
 			access_token TEXT,
 			expires_at INTEGER,
 			created_at INTEGER NOT NULL,
@@ -46,7 +47,9 @@ export function ensureSchema(db: Database): void {
 			cache_read_input_tokens INTEGER DEFAULT 0,
 			cache_creation_input_tokens INTEGER DEFAULT 0,
 			output_tokens INTEGER DEFAULT 0,
-			agent_used TEXT
+			agent_used TEXT,
+			intercepted_by TEXT,
+			api_key_id TEXT
 		)
 	`);
 
@@ -64,6 +67,19 @@ export function ensureSchema(db: Database): void {
 		)
 	`);
 
+	// Create request_fts table for full-text search over request payloads.
+	// Only the new turn of each request is indexed, not the whole conversation.
+	db.run(`
+		CREATE VIRTUAL TABLE IF NOT EXISTS request_fts USING fts5(
+			request_id UNINDEXED,
+			user_text,
+			assistant_text,
+			tool_names,
+			tool_inputs,
+			tokenize = 'porter unicode61'
+		)
+	`);
+
 	// Create oauth_sessions table for secure PKCE verifier storage
 	db.run(`
 		CREATE TABLE IF NOT EXISTS oauth_sessions (
@@ -95,7 +111,9 @@ export function ensureSchema(db: Database): void {
 	db.run(`
 		CREATE TABLE IF NOT EXISTS interceptors (
 			id TEXT PRIMARY KEY,
+			name TEXT,
 			is_enabled INTEGER NOT NULL DEFAULT 0,
+			priority INTEGER NOT NULL DEFAULT 0,
 			config TEXT NOT NULL
 		)
 	`);
@@ -107,9 +125,224 @@ export function ensureSchema(db: Database): void {
 			value TEXT
 		)
 	`);
+
+	// Create prompt_history table for distinct upstream prompts and tool arrays
+	db.run(`
+		CREATE TABLE IF NOT EXISTS prompt_history (
+			id INTEGER PRIMARY KEY AUTOINCREMENT,
+			kind TEXT NOT NULL,
+			content_hash TEXT NOT NULL,
+			content TEXT NOT NULL,
+			first_seen INTEGER NOT NULL,
+			last_seen INTEGER NOT NULL,
+			seen_count INTEGER NOT NULL DEFAULT 1,
+			UNIQUE(kind, content_hash)
+		)
+	`);
+
+	db.run(
+		`CREATE INDEX IF NOT EXISTS idx_prompt_history_kind_first_seen ON prompt_history(kind, first_seen DESC)`,
+	);
+
+	// Create api_keys table for client keys (only a hash of each key is stored)
+	db.run(`
+		CREATE TABLE IF NOT EXISTS api_keys (
+			id TEXT PRIMARY KEY,
+			name TEXT NOT NULL UNIQUE,
+			key_hash TEXT NOT NULL UNIQUE,
+			key_prefix TEXT NOT NULL,
+			created_at INTEGER NOT NULL,
+			last_used INTEGER,
+			revoked_at INTEGER,
+			requests_per_minute INTEGER,
+			tokens_per_day INTEGER,
+			usd_per_month REAL
+		)
+	`);
+
+	// Create dashboard_users table for dashboard and management API logins
+	db.run(`
+		CREATE TABLE IF NOT EXISTS dashboard_users (
+			id TEXT PRIMARY KEY,
+			username TEXT NOT NULL UNIQUE,
+			password_hash TEXT NOT NULL,
+			role TEXT NOT NULL,
+			created_at INTEGER NOT NULL,
+			last_login INTEGER
+		)
+	`);
+
+	// Create dashboard_sessions table; the id is a hash of the session cookie.
+	// user_id is NULL for sessions opened with the bootstrap admin token, which
+	// also get the token's hash (admin_token_hash, added in runMigrations).
+	db.run(`
+		CREATE TABLE IF NOT EXISTS dashboard_sessions (
+			id TEXT PRIMARY KEY,
+			user_id TEXT,
+			csrf_token TEXT NOT NULL,
+			created_at INTEGER NOT NULL,
+			expires_at INTEGER NOT NULL
+		)
+	`);
+
+	db.run(
+		`CREATE INDEX IF NOT EXISTS idx_dashboard_sessions_user ON dashboard_sessions(user_id)`,
+	);
+
+	// Create redaction_rules table for scrubbing stored request/response bodies
+	db.run(`
+		CREATE TABLE IF NOT EXISTS redaction_rules (
+			id TEXT PRIMARY KEY,
+			name TEXT NOT NULL,
+			detector TEXT,
+			pattern TEXT,
+			action TEXT NOT NULL,
+			is_enabled INTEGER NOT NULL DEFAULT 1,
+			created_at INTEGER NOT NULL
+		)
+	`);
+
+	// Create routing_rules table for picking account groups per request
+	db.run(`
+		CREATE TABLE IF NOT EXISTS routing_rules (
+			id TEXT PRIMARY KEY,
+			name TEXT NOT NULL,
+			priority INTEGER NOT NULL DEFAULT 0,
+			match TEXT NOT NULL,
+			group_name TEXT NOT NULL,
+			fallback_groups TEXT NOT NULL DEFAULT '[]',
+			is_enabled INTEGER NOT NULL DEFAULT 1,
+			created_at INTEGER NOT NULL
+		)
+	`);
+
+	// Create model_fallback_chains table for downgrading exhausted models
+	db.run(`
+		CREATE TABLE IF NOT EXISTS model_fallback_chains (
+			model TEXT PRIMARY KEY,
+			fallbacks TEXT NOT NULL,
+			updated_at INTEGER NOT NULL
+		)
+	`);
+}
+
+/**
+ * Create the conversations table, which keeps each conversation's first and
+ * last request time so conversations can be listed without grouping the whole
+ * requests table. Existing requests are backfilled once, when it is created.
+ */
+function createConversationsTable(db: Database): void {
+	const exists = db
+		.prepare(
+			"SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'conversations'",
+		)
+		.get();
+	if (exists) return;
+
+	db.transaction(() => {
+		db.run(`
+			CREATE TABLE conversations (
+				id TEXT PRIMARY KEY,
+				first_timestamp INTEGER NOT NULL,
+				last_timestamp INTEGER NOT NULL
+			)
+		`);
+		db.run(
+			`CREATE INDEX idx_conversations_last_timestamp ON conversations(last_timestamp DESC, id DESC)`,
+		);
+		db.run(`
+			INSERT INTO conversations (id, first_timestamp, last_timestamp)
+			SELECT conversation_id, MIN(timestamp), MAX(timestamp)
+			FROM requests
+			WHERE conversation_id IS NOT NULL
+			GROUP BY conversation_id
+		`);
+	})();
+	log.info("Created conversations table");
+}
+
+/**
+ * Rebuild the accounts table of older databases, where refresh_token is NOT
+ * NULL, so API-key accounts can be stored without one
+ */
+function allowAccountsWithoutRefreshToken(db: Database): void {
+	const columns = db.prepare("PRAGMA table_info(accounts)").all() as Array<{
+		name: string;
+		type: string;
+		notnull: number;
+		dflt_value: string | null;
+		pk: number;
+	}>;
+	if (!columns.find((col) => col.name === "refresh_token")?.notnull) return;
+
+	const definitions = columns.map((col) =>
+		[
+			col.name,
+			col.type,
+			col.pk ? "PRIMARY KEY" : "",
+			col.notnull && col.name !== "refresh_token" ? "NOT NULL" : "",
+			col.dflt_value !== null ? `DEFAULT ${col.dflt_value}` : "",
+		]
+			.filter(Boolean)
+			.join(" "),
+	);
+	const names = columns.map((col) => col.name).join(", ");
+
+	// Indexes are dropped with the old table and recreated by addPerformanceIndexes
+	db.transaction(() => {
+		db.run(`CREATE TABLE accounts_new (${definitions.join(", ")})`);
+		db.run(`INSERT INTO accounts_new (${names}) SELECT ${names} FROM accounts`);
+		db.run("DROP TABLE accounts");
+		db.run("ALTER TABLE accounts_new RENAME TO accounts");
+	})();
+	log.info("Made refresh_token optional in accounts table");
+}
+
+/**
+ * Encrypt account secrets that were stored before encryption at rest
+ */
+function encryptAccountSecrets(db: Database, cipher: TokenCipher): void {
+	const pattern = `${ENCRYPTED_PREFIX}%`;
+	const rows = db
+		.query(
+			`
+			SELECT id, api_key, refresh_token, access_token FROM accounts
+			WHERE (api_key IS NOT NULL AND api_key NOT LIKE ?1)
+				OR (refresh_token IS NOT NULL AND refresh_token NOT LIKE ?1)
+				OR (access_token IS NOT NULL AND access_token NOT LIKE ?1)
+		`,
+		)
+		.all(pattern) as Array<{
+		id: string;
+		api_key: string | null;
+		refresh_token: string | null;
+		access_token: string | null;
+	}>;
+	if (rows.length === 0) return;
+
+	// Values that are already encrypted are left untouched
+	const encrypt = (value: string | null) =>
+		value === null || value.startsWith(ENCRYPTED_PREFIX)
+			? value
+			: cipher.encrypt(value);
+
+	db.transaction(() => {
+		for (const row of rows) {
+			db.run(
+				"UPDATE accounts SET api_key = ?, refresh_token = ?, access_token = ? WHERE id = ?",
+				[
+					encrypt(row.api_key),
+					encrypt(row.refresh_token),
+					encrypt(row.access_token),
+					row.id,
+				],
+			);
+		}
+	})();
+	log.info(`Encrypted secrets of ${rows.length} existing account(s)`);
 }
 
-export function runMigrations(db: Database): void {
+export function runMigrations(db: Database, cipher?: TokenCipher): void {
 	// Ensure base schema exists first
 	ensureSchema(db);
 	// Check if columns exist before adding them
@@ -187,6 +420,36 @@ export function runMigrations(db: Database): void {
 		log.info("Added rate_limit_remaining column to accounts table");
 	}
 
+	// Add account_groups column if it doesn't exist (JSON array of group names)
+	if (!accountsColumnNames.includes("account_groups")) {
+		db.prepare("ALTER TABLE accounts ADD COLUMN account_groups TEXT").run();
+		log.info("Added account_groups column to accounts table");
+	}
+
+	// Add auth_type column if it doesn't exist ('oauth' or 'api_key')
+	if (!accountsColumnNames.includes("auth_type")) {
+		db.prepare(
+			"ALTER TABLE accounts ADD COLUMN auth_type TEXT NOT NULL DEFAULT 'oauth'",
+		).run();
+		// Accounts created through the console flow only store an API key
+		db.prepare(
+			"UPDATE accounts SET auth_type = 'api_key' WHERE api_key IS NOT NULL",
+		).run();
+		log.info("Added auth_type column to accounts table");
+	}
+
+	// Add base_url and model_map columns if they don't exist (OpenAI-compatible accounts)
+	if (!accountsColumnNames.includes("base_url")) {
+		db.prepare("ALTER TABLE accounts ADD COLUMN base_url TEXT").run();
+		log.info("Added base_url column to accounts table");
+	}
+	if (!accountsColumnNames.includes("model_map")) {
+		db.prepare("ALTER TABLE accounts ADD COLUMN model_map TEXT").run();
+		log.info("Added model_map column to accounts table");
+	}
+
+	allowAccountsWithoutRefreshToken(db);
+
 	// Check columns in requests table
 	const requestsInfo = db
 		.prepare("PRAGMA table_info(requests)")
@@ -284,6 +547,103 @@ export function runMigrations(db: Database): void {
 		log.info("Added output_tokens_per_second column to requests table");
 	}
 
+	// Add intercepted_by column if it doesn't exist
+	if (!requestsColumnNames.includes("intercepted_by")) {
+		db.prepare("ALTER TABLE requests ADD COLUMN intercepted_by TEXT").run();
+		log.info("Added intercepted_by column to requests table");
+	}
+
+	// Add api_key_id column if it doesn't exist
+	if (!requestsColumnNames.includes("api_key_id")) {
+		db.prepare("ALTER TABLE requests ADD COLUMN api_key_id TEXT").run();
+		log.info("Added api_key_id column to requests table");
+	}
+
+	// Add fallback_from_model column if it doesn't exist
+	if (!requestsColumnNames.includes("fallback_from_model")) {
+		db.prepare(
+			"ALTER TABLE requests ADD COLUMN fallback_from_model TEXT",
+		).run();
+		log.info("Added fallback_from_model column to requests table");
+	}
+
+	// Add conversation_id column if it doesn't exist
+	if (!requestsColumnNames.includes("conversation_id")) {
+		db.prepare("ALTER TABLE requests ADD COLUMN conversation_id TEXT").run();
+		log.info("Added conversation_id column to requests table");
+	}
+	db.run(
+		`CREATE INDEX IF NOT EXISTS idx_requests_api_key_timestamp ON requests(api_key_id, timestamp DESC)`,
+	);
+	db.run(
+		`CREATE INDEX IF NOT EXISTS idx_requests_conversation_timestamp ON requests(conversation_id, timestamp)`,
+	);
+	createConversationsTable(db);
+
+	// Check columns in api_keys table
+	const apiKeysColumnNames = (
+		db.prepare("PRAGMA table_info(api_keys)").all() as Array<{
+			name: string;
+		}>
+	).map((col) => col.name);
+
+	// Add quota columns if they don't exist (NULL means unlimited)
+	if (!apiKeysColumnNames.includes("requests_per_minute")) {
+		db.prepare(
+			"ALTER TABLE api_keys ADD COLUMN requests_per_minute INTEGER",
+		).run();
+		log.info("Added requests_per_minute column to api_keys table");
+	}
+	if (!apiKeysColumnNames.includes("tokens_per_day")) {
+		db.prepare("ALTER TABLE api_keys ADD COLUMN tokens_per_day INTEGER").run();
+		log.info("Added tokens_per_day column to api_keys table");
+	}
+	if (!apiKeysColumnNames.includes("usd_per_month")) {
+		db.prepare("ALTER TABLE api_keys ADD COLUMN usd_per_month REAL").run();
+		log.info("Added usd_per_month column to api_keys table");
+	}
+
+	// Check columns in interceptors table
+	const interceptorsColumnNames = (
+		db.prepare("PRAGMA table_info(interceptors)").all() as Array<{
+			name: string;
+		}>
+	).map((col) => col.name);
+
+	// Add name column if it doesn't exist (interceptor profiles)
+	if (!interceptorsColumnNames.includes("name")) {
+		db.prepare("ALTER TABLE interceptors ADD COLUMN name TEXT").run();
+		log.info("Added name column to interceptors table");
+	}
+
+	// Add priority column if it doesn't exist (interceptor profiles)
+	if (!interceptorsColumnNames.includes("priority")) {
+		db.prepare(
+			"ALTER TABLE interceptors ADD COLUMN priority INTEGER NOT NULL DEFAULT 0",
+		).run();
+		log.info("Added priority column to interceptors table");
+	}
+
+	// Check columns in dashboard_sessions table
+	const dashboardSessionsColumnNames = (
+		db.prepare("PRAGMA table_info(dashboard_sessions)").all() as Array<{
+			name: string;
+		}>
+	).map((col) => col.name);
+
+	// Add admin_token_hash column if it doesn't exist (bootstrap sessions)
+	if (!dashboardSessionsColumnNames.includes("admin_token_hash")) {
+		db.prepare(
+			"ALTER TABLE dashboard_sessions ADD COLUMN admin_token_hash TEXT",
+		).run();
+		log.info("Added admin_token_hash column to dashboard_sessions table");
+	}
+
+	// Encrypt plaintext account secrets at rest
+	if (cipher) {
+		encryptAccountSecrets(db, cipher);
+	}
+
 	// Add performance indexes
 	addPerformanceIndexes(db);
 }
@@ -1,38 +1,113 @@
-import { type Account, type AccountRow, toAccount } from "@ccflare/types";
+import type { Database } from "bun:sqlite";
+import {
+	type Account,
+	type AccountAuthType,
+	type AccountRow,
+	toAccount,
+} from "@ccflare/types";
+import type { TokenCipher } from "../encryption";
 import { BaseRepository } from "./base.repository";
 
+export interface NewAccount {
+	id: string;
+	name: string;
+	provider: string;
+	authType: AccountAuthType;
+	apiKey: string | null;
+	refreshToken: string | null;
+	accessToken: string | null;
+	expiresAt: number | null;
+	tier: number;
+	/** Upstream base URL, for providers whose upstream differs per account */
+	baseUrl?: string | null;
+	modelMap?: Record<string, string>;
+}
+
+type AccountSecretsRow = Pick<
+	AccountRow,
+	"id" | "api_key" | "refresh_token" | "access_token"
+>;
+
+/**
+ * Accounts repository. The api_key, refresh_token and access_token columns
+ * are encrypted on write and decrypted on read with the TokenCipher.
+ */
 export class AccountRepository extends BaseRepository<Account> {
+	constructor(
+		db: Database,
+		private cipher: TokenCipher,
+	) {
+		super(db);
+	}
+
+	private decryptRow(row: AccountRow): Account {
+		return toAccount({
+			...row,
+			api_key: this.cipher.decryptNullable(row.api_key),
+			refresh_token: this.cipher.decryptNullable(row.refresh_token),
+			access_token: this.cipher.decryptNullable(row.access_token),
+		});
+	}
+
 	findAll(): Account[] {
 		const rows = this.query<AccountRow>(`
 			SELECT 
-				id, name, provider, api_key, refresh_token, access_token,
+				id, name, provider, auth_type, api_key, refresh_token, access_token,
 				expires_at, created_at, last_used, request_count, total_requests,
 				rate_limited_until, session_start, session_request_count,
 				COALESCE(account_tier, 1) as account_tier,
 				COALESCE(paused, 0) as paused,
-				rate_limit_reset, rate_limit_status, rate_limit_remaining
+				rate_limit_reset, rate_limit_status, rate_limit_remaining,
+				account_groups, base_url, model_map
 			FROM accounts
 		`);
-		return rows.map(toAccount);
+		return rows.map((row) => this.decryptRow(row));
 	}
 
 	findById(accountId: string): Account | null {
 		const row = this.get<AccountRow>(
 			`
 			SELECT 
-				id, name, provider, api_key, refresh_token, access_token,
+				id, name, provider, auth_type, api_key, refresh_token, access_token,
 				expires_at, created_at, last_used, request_count, total_requests,
 				rate_limited_until, session_start, session_request_count,
 				COALESCE(account_tier, 1) as account_tier,
 				COALESCE(paused, 0) as paused,
-				rate_limit_reset, rate_limit_status, rate_limit_remaining
+				rate_limit_reset, rate_limit_status, rate_limit_remaining,
+				account_groups, base_url, model_map
 			FROM accounts
 			WHERE id = ?
 		`,
 			[accountId],
 		);
 
-		return row ? toAccount(row) : null;
+		return row ? this.decryptRow(row) : null;
+	}
+
+	create(account: NewAccount): void {
+		this.run(
+			`
+			INSERT INTO accounts (
+				id, name, provider, auth_type, api_key, refresh_token, access_token,
+				expires_at, created_at, request_count, total_requests, account_tier,
+				base_url, model_map
+			) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 0, 0, ?, ?, ?)
+			`,
+			[
+				account.id,
+				account.name,
+				account.provider,
+				account.authType,
+				this.cipher.encryptNullable(account.apiKey),
+				this.cipher.encryptNullable(account.refreshToken),
+				this.cipher.encryptNullable(account.accessToken),
+				account.expiresAt,
+				Date.now(),
+				account.tier,
+				account.baseUrl ?? null,
+				account.modelMap ? JSON.stringify(account.modelMap) : null,
+			],
+		);
 	}
 
 	updateTokens(
@@ -44,12 +119,17 @@ export class AccountRepository extends BaseRepository<Account> {
 		if (refreshToken) {
 			this.run(
 				`UPDATE accounts SET access_token = ?, expires_at = ?, refresh_token = ? WHERE id = ?`,
-				[accessToken, expiresAt, refreshToken, accountId],
+				[
+					this.cipher.encrypt(accessToken),
+					expiresAt,
+					this.cipher.encrypt(refreshToken),
+					accountId,
+				],
 			);
 		} else {
 			this.run(
 				`UPDATE accounts SET access_token = ?, expires_at = ? WHERE id = ?`,
-				[accessToken, expiresAt, accountId],
+				[this.cipher.encrypt(accessToken), expiresAt, accountId],
 			);
 		}
 	}
@@ -128,4 +208,40 @@ export class AccountRepository extends BaseRepository<Account> {
 	rename(accountId: string, newName: string): void {
 		this.run(`UPDATE accounts SET name = ? WHERE id = ?`, [newName, accountId]);
 	}
+
+	setGroups(accountId: string, groups: string[]): void {
+		this.run(`UPDATE accounts SET account_groups = ? WHERE id = ?`, [
+			groups.length > 0 ? JSON.stringify(groups) : null,
+			accountId,
+		]);
+	}
+
+	/**
+	 * Re-encrypt every account secret with a new key and switch to it
+	 * @returns The number of accounts re-encrypted
+	 */
+	reencryptSecrets(next: TokenCipher): number {
+		const rows = this.query<AccountSecretsRow>(
+			"SELECT id, api_key, refresh_token, access_token FROM accounts",
+		);
+
+		this.db.transaction(() => {
+			for (const row of rows) {
+				this.run(
+					`UPDATE accounts SET api_key = ?, refresh_token = ?, access_token = ? WHERE id = ?`,
+					[
+						next.encryptNullable(this.cipher.decryptNullable(row.api_key)),
+						next.encryptNullable(
+							this.cipher.decryptNullable(row.refresh_token),
+						),
+						next.encryptNullable(this.cipher.decryptNullable(row.access_token)),
+						row.id,
+					],
+				);
+			}
+		})();
+
+		this.cipher = next;
+		return rows.length;
+	}
 }
@@ -0,0 +1,235 @@
+import { createHash, randomBytes } from "node:crypto";
+import { BaseRepository } from "./base.repository";
+
+const KEY_PREFIX = "ccf_";
+// Characters of the key shown in listings to tell keys apart
+const DISPLAY_PREFIX_LENGTH = 12;
+
+/**
+ * Usage limits of a client key. null means unlimited.
+ */
+export interface ApiKeyLimits {
+	requestsPerMinute: number | null;
+	/** Total tokens per UTC day */
+	tokensPerDay: number | null;
+	/** Cost in USD per UTC calendar month */
+	usdPerMonth: number | null;
+}
+
+/**
+ * Usage of a client key in each quota window
+ */
+export interface ApiKeyUsage {
+	requestsLastMinute: number;
+	tokensToday: number;
+	usdThisMonth: number;
+	/** Timestamp of the oldest request in the last minute, if any */
+	oldestRequestLastMinute: number | null;
+}
+
+/**
+ * A ccflare-issued key that clients use to call the proxy. Only a hash of
+ * the key is stored; the key itself is shown once when it is created.
+ */
+export interface ApiKey {
+	id: string;
+	name: string;
+	/** Start of the key, for recognising it in listings */
+	prefix: string;
+	createdAt: number;
+	lastUsed: number | null;
+	revokedAt: number | null;
+	/** Number of logged requests made with the key */
+	requestCount: number;
+	limits: ApiKeyLimits;
+}
+
+interface ApiKeyRow {
+	id: string;
+	name: string;
+	key_prefix: string;
+	created_at: number;
+	last_used: number | null;
+	revoked_at: number | null;
+	requests_per_minute: number | null;
+	tokens_per_day: number | null;
+	usd_per_month: number | null;
+	request_count?: number;
+}
+
+function toApiKey(row: ApiKeyRow): ApiKey {
+	return {
+		id: row.id,
+		name: row.name,
+		prefix: row.key_prefix,
+		createdAt: row.created_at,
+		lastUsed: row.last_used,
+		revokedAt: row.revoked_at,
+		requestCount: row.request_count ?? 0,
+		limits: {
+			requestsPerMinute: row.requests_per_minute,
+			tokensPerDay: row.tokens_per_day,
+			usdPerMonth: row.usd_per_month,
+		},
+	};
+}
+
+function hashKey(key: string): string {
+	return createHash("sha256").update(key).digest("hex");
+}
+
+const SELECT_COLUMNS = `k.id, k.name, k.key_prefix, k.created_at, k.last_used, k.revoked_at,
+	k.requests_per_minute, k.tokens_per_day, k.usd_per_month,
+	(SELECT COUNT(*) FROM requests r WHERE r.api_key_id = k.id) as request_count`;
+
+export class ApiKeyRepository extends BaseRepository<ApiKeyRow> {
+	/**
+	 * Create a key with a random secret
+	 * @returns The stored key and the secret, which cannot be recovered later
+	 */
+	create(name: string): { apiKey: ApiKey; key: string } {
+		const id = crypto.randomUUID();
+		const key = `${KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+		const prefix = key.slice(0, DISPLAY_PREFIX_LENGTH);
+		const now = Date.now();
+
+		this.run(
+			`INSERT INTO api_keys (id, name, key_hash, key_prefix, created_at)
+			VALUES (?, ?, ?, ?, ?)`,
+			[id, name, hashKey(key), prefix, now],
+		);
+
+		return {
+			apiKey: {
+				id,
+				name,
+				prefix,
+				createdAt: now,
+				lastUsed: null,
+				revokedAt: null,
+				requestCount: 0,
+				limits: {
+					requestsPerMinute: null,
+					tokensPerDay: null,
+					usdPerMonth: null,
+				},
+			},
+			key,
+		};
+	}
+
+	list(): ApiKey[] {
+		return this.query<ApiKeyRow>(
+			`SELECT ${SELECT_COLUMNS} FROM api_keys k ORDER BY k.created_at DESC`,
+		).map(toApiKey);
+	}
+
+	findById(id: string): ApiKey | null {
+		const row = super.get<ApiKeyRow>(
+			`SELECT ${SELECT_COLUMNS} FROM api_keys k WHERE k.id = ?`,
+			[id],
+		);
+		return row ? toApiKey(row) : null;
+	}
+
+	findByName(name: string): ApiKey | null {
+		const row = super.get<ApiKeyRow>(
+			`SELECT ${SELECT_COLUMNS} FROM api_keys k WHERE k.name = ?`,
+			[name],
+		);
+		return row ? toApiKey(row) : null;
+	}
+
+	/**
+	 * Look up a key presented by a client, ignoring revoked keys
+	 */
+	findActiveByKey(key: string): ApiKey | null {
+		const row = super.get<ApiKeyRow>(
+			`SELECT id, name, key_prefix, created_at, last_used, revoked_at,
+				requests_per_minute, tokens_per_day, usd_per_month
+			FROM api_keys
+			WHERE key_hash = ? AND revoked_at IS NULL`,
+			[hashKey(key)],
+		);
+		return row ? toApiKey(row) : null;
+	}
+
+	/**
+	 * Whether any key was ever created. Revoked keys count, so revoking every
+	 * key does not turn client authentication off again.
+	 */
+	hasAny(): boolean {
+		return (
+			super.get<{ id: string }>(`SELECT id FROM api_keys LIMIT 1`) !== null
+		);
+	}
+
+	touch(id: string, timestamp = Date.now()): void {
+		this.run(`UPDATE api_keys SET last_used = ? WHERE id = ?`, [timestamp, id]);
+	}
+
+	setLimits(id: string, limits: ApiKeyLimits): void {
+		this.run(
+			`UPDATE api_keys
+			SET requests_per_minute = ?, tokens_per_day = ?, usd_per_month = ?
+			WHERE id = ?`,
+			[limits.requestsPerMinute, limits.tokensPerDay, limits.usdPerMonth, id],
+		);
+	}
+
+	/**
+	 * Sum the logged usage of a key in each quota window
+	 * @param windows - Start timestamps of the minute, day and month windows
+	 */
+	getUsage(
+		id: string,
+		windows: { minuteStart: number; dayStart: number; monthStart: number },
+	): ApiKeyUsage {
+		const earliest = Math.min(
+			windows.minuteStart,
+			windows.dayStart,
+			windows.monthStart,
+		);
+		const row = super.get<{
+			requests_last_minute: number | null;
+			oldest_last_minute: number | null;
+			tokens_today: number | null;
+			usd_this_month: number | null;
+		}>(
+			`SELECT
+				SUM(CASE WHEN timestamp >= ? THEN 1 ELSE 0 END) as requests_last_minute,
+				MIN(CASE WHEN timestamp >= ? THEN timestamp END) as oldest_last_minute,
+				SUM(CASE WHEN timestamp >= ? THEN COALESCE(total_tokens, 0) ELSE 0 END) as tokens_today,
+				SUM(CASE WHEN timestamp >= ? THEN COALESCE(cost_usd, 0) ELSE 0 END) as usd_this_month
+			FROM requests
+			WHERE api_key_id = ? AND timestamp >= ?`,
+			[
+				windows.minuteStart,
+				windows.minuteStart,
+				windows.dayStart,
+				windows.monthStart,
+				id,
+				earliest,
+			],
+		);
+
+		return {
+			requestsLastMinute: row?.requests_last_minute ?? 0,
+			tokensToday: row?.tokens_today ?? 0,
+			usdThisMonth: row?.usd_this_month ?? 0,
+			oldestRequestLastMinute: row?.oldest_last_minute ?? null,
+		};
+	}
+
+	/**
+	 * @returns true if the key existed and was not already revoked
+	 */
+	revoke(id: string): boolean {
+		return (
+			this.runWithChanges(
+				`UPDATE api_keys SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL`,
+				[Date.now(), id],
+			) > 0
+		);
+	}
+}
@@ -0,0 +1,131 @@
+import { createHash, randomBytes } from "node:crypto";
+import { BaseRepository } from "./base.repository";
+import type { DashboardRole } from "./dashboard-user.repository";
+
+// Username reported for sessions opened with the bootstrap admin token
+export const BOOTSTRAP_SESSION_USERNAME = "admin-token";
+
+/**
+ * A logged-in dashboard session. The role is read from the user on every
+ * lookup, so role changes apply to open sessions immediately.
+ */
+export interface DashboardSession {
+	userId: string | null;
+	username: string;
+	role: DashboardRole;
+	csrfToken: string;
+	createdAt: number;
+	expiresAt: number;
+}
+
+interface DashboardSessionRow {
+	user_id: string | null;
+	username: string | null;
+	role: DashboardRole | null;
+	csrf_token: string;
+	admin_token_hash: string | null;
+	created_at: number;
+	expires_at: number;
+}
+
+function hashToken(token: string): string {
+	return createHash("sha256").update(token).digest("hex");
+}
+
+export class DashboardSessionRepository extends BaseRepository<DashboardSessionRow> {
+	/**
+	 * Open a session
+	 * @param userId - The user, or null for the bootstrap admin token
+	 * @param adminToken - The admin token a bootstrap session was opened with
+	 * @returns The session and its cookie token, which is only stored hashed
+	 */
+	create(
+		userId: string | null,
+		ttlMs: number,
+		adminToken: string | null = null,
+	): { session: Omit<DashboardSession, "username" | "role">; token: string } {
+		const token = randomBytes(32).toString("base64url");
+		const csrfToken = randomBytes(32).toString("base64url");
+		const now = Date.now();
+		const expiresAt = now + ttlMs;
+
+		this.run(
+			`INSERT INTO dashboard_sessions (id, user_id, csrf_token, admin_token_hash, created_at, expires_at)
+			VALUES (?, ?, ?, ?, ?, ?)`,
+			[
+				hashToken(token),
+				userId,
+				csrfToken,
+				userId === null && adminToken ? hashToken(adminToken) : null,
+				now,
+				expiresAt,
+			],
+		);
+
+		return {
+			session: { userId, csrfToken, createdAt: now, expiresAt },
+			token,
+		};
+	}
+
+	/**
+	 * Look up an unexpired session by its cookie token. Sessions of deleted
+	 * users, and bootstrap sessions opened with another admin token than the
+	 * current one, are not returned.
+	 * @param adminToken - The current admin token, or null when none is set
+	 */
+	findByToken(
+		token: string,
+		adminToken: string | null,
+		now = Date.now(),
+	): DashboardSession | null {
+		const row = super.get<DashboardSessionRow>(
+			`SELECT s.user_id, u.username, u.role, s.csrf_token, s.admin_token_hash,
+				s.created_at, s.expires_at
+			FROM dashboard_sessions s
+			LEFT JOIN dashboard_users u ON u.id = s.user_id
+			WHERE s.id = ? AND s.expires_at > ?`,
+			[hashToken(token), now],
+		);
+		if (!row) return null;
+
+		if (row.user_id === null) {
+			if (!adminToken || row.admin_token_hash !== hashToken(adminToken)) {
+				return null;
+			}
+			return {
+				userId: null,
+				username: BOOTSTRAP_SESSION_USERNAME,
+				role: "admin",
+				csrfToken: row.csrf_token,
+				createdAt: row.created_at,
+				expiresAt: row.expires_at,
+			};
+		}
+		if (!row.username || !row.role) return null;
+
+		return {
+			userId: row.user_id,
+			username: row.username,
+			role: row.role,
+			csrfToken: row.csrf_token,
+			createdAt: row.created_at,
+			expiresAt: row.expires_at,
+		};
+	}
+
+	deleteByToken(token: string): void {
+		this.run(`DELETE FROM dashboard_sessions WHERE id = ?`, [hashToken(token)]);
+	}
+
+	deleteForUser(userId: string): void {
+		this.run(`DELETE FROM dashboard_sessions WHERE user_id = ?`, [userId]);
+	}
+
+	deleteExpired(now = Date.now()): number {
+		return this.runWithChanges(
+			`DELETE FROM dashboard_sessions WHERE expires_at <= ?`,
+			[now],
+		);
+	}
+}
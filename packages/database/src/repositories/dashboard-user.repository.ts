@@ -0,0 +1,138 @@
+import { BaseRepository } from "./base.repository";
+
+export const DASHBOARD_ROLES = ["viewer", "admin"] as const;
+
+/**
+ * viewer can read everything; admin can also change state
+ */
+export type DashboardRole = (typeof DASHBOARD_ROLES)[number];
+
+/**
+ * A local login for the dashboard and management API
+ */
+export interface DashboardUser {
+	id: string;
+	username: string;
+	role: DashboardRole;
+	createdAt: number;
+	lastLogin: number | null;
+}
+
+interface DashboardUserRow {
+	id: string;
+	username: string;
+	password_hash: string;
+	role: DashboardRole;
+	created_at: number;
+	last_login: number | null;
+}
+
+function toDashboardUser(row: DashboardUserRow): DashboardUser {
+	return {
+		id: row.id,
+		username: row.username,
+		role: row.role,
+		createdAt: row.created_at,
+		lastLogin: row.last_login,
+	};
+}
+
+export function isDashboardRole(value: unknown): value is DashboardRole {
+	return DASHBOARD_ROLES.includes(value as DashboardRole);
+}
+
+export class DashboardUserRepository extends BaseRepository<DashboardUserRow> {
+	/**
+	 * Create a user. Only an argon2id hash of the password is stored.
+	 */
+	create(
+		username: string,
+		password: string,
+		role: DashboardRole,
+	): DashboardUser {
+		const id = crypto.randomUUID();
+		const now = Date.now();
+		this.run(
+			`INSERT INTO dashboard_users (id, username, password_hash, role, created_at)
+			VALUES (?, ?, ?, ?, ?)`,
+			[id, username, Bun.password.hashSync(password), role, now],
+		);
+		return { id, username, role, createdAt: now, lastLogin: null };
+	}
+
+	list(): DashboardUser[] {
+		return this.query<DashboardUserRow>(
+			`SELECT * FROM dashboard_users ORDER BY username`,
+		).map(toDashboardUser);
+	}
+
+	findById(id: string): DashboardUser | null {
+		const row = super.get<DashboardUserRow>(
+			`SELECT * FROM dashboard_users WHERE id = ?`,
+			[id],
+		);
+		return row ? toDashboardUser(row) : null;
+	}
+
+	findByUsername(username: string): DashboardUser | null {
+		const row = super.get<DashboardUserRow>(
+			`SELECT * FROM dashboard_users WHERE username = ?`,
+			[username],
+		);
+		return row ? toDashboardUser(row) : null;
+	}
+
+	/**
+	 * Check a username and password
+	 * @returns The user, or null if the user does not exist or the password is wrong
+	 */
+	verifyPassword(username: string, password: string): DashboardUser | null {
+		const row = super.get<DashboardUserRow>(
+			`SELECT * FROM dashboard_users WHERE username = ?`,
+			[username],
+		);
+		if (!row || !Bun.password.verifySync(password, row.password_hash)) {
+			return null;
+		}
+		return toDashboardUser(row);
+	}
+
+	hasAny(): boolean {
+		return (
+			super.get<{ id: string }>(`SELECT id FROM dashboard_users LIMIT 1`) !==
+			null
+		);
+	}
+
+	countAdmins(): number {
+		return (
+			super.get<{ count: number }>(
+				`SELECT COUNT(*) as count FROM dashboard_users WHERE role = 'admin'`,
+			)?.count ?? 0
+		);
+	}
+
+	updateRole(id: string, role: DashboardRole): void {
+		this.run(`UPDATE dashboard_users SET role = ? WHERE id = ?`, [role, id]);
+	}
+
+	updatePassword(id: string, password: string): void {
+		this.run(`UPDATE dashboard_users SET password_hash = ? WHERE id = ?`, [
+			Bun.password.hashSync(password),
+			id,
+		]);
+	}
+
+	touchLogin(id: string, timestamp = Date.now()): void {
+		this.run(`UPDATE dashboard_users SET last_login = ? WHERE id = ?`, [
+			timestamp,
+			id,
+		]);
+	}
+
+	delete(id: string): boolean {
+		return (
+			this.runWithChanges(`DELETE FROM dashboard_users WHERE id = ?`, [id]) > 0
+		);
+	}
+}
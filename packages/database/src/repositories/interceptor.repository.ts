@@ -3,20 +3,73 @@ import { BaseRepository } from "./base.repository";
 export interface ToolOverride {
 	isEnabled: boolean;
 	description?: string;
+	/** Parameters removed from the tool's input_schema properties and required list */
+	hiddenParameters?: string[];
+	/** Deep-merged into the tool's input_schema; null values delete keys */
+	schemaPatch?: Record<string, unknown>;
+}
+
+/**
+ * A tool definition injected into requests that carry a tools array
+ */
+export interface SyntheticTool {
+	name: string;
+	description?: string;
+	input_schema: Record<string, unknown>;
+}
+
+/**
+ * Rules deciding which requests a profile applies to. All rules that are set
+ * must match. When agent is omitted the profile targets the main agent only.
+ */
+export interface InterceptorMatchRules {
+	/** Working directory prefix, taken from the <env> block */
+	workspacePath?: string;
+	/** Case-insensitive substring of the request model */
+	model?: string;
+	/** "main", "subagent", "any" or a detected agent id */
+	agent?: string;
+	/** Regular expression tested against the original system prompt */
+	promptPattern?: string;
 }
 
 export interface InterceptorConfig {
 	targetPrompt: string;
 	replacementPrompt: string;
 	tools: Record<string, ToolOverride>;
+	/** Tools appended to the request's tools array */
+	syntheticTools?: SyntheticTool[];
+	/** Tool names moved to the front in this order; others keep their order */
+	toolOrder?: string[];
+	match?: InterceptorMatchRules;
+}
+
+export interface InterceptorProfile {
+	id: string;
+	name: string;
+	isEnabled: boolean;
+	priority: number;
+	config: InterceptorConfig;
 }
 
 interface InterceptorRow {
 	id: string;
+	name: string | null;
 	is_enabled: number;
+	priority: number | null;
 	config: string;
 }
 
+function toProfile(row: InterceptorRow): InterceptorProfile {
+	return {
+		id: row.id,
+		name: row.name ?? row.id,
+		isEnabled: row.is_enabled === 1,
+		priority: row.priority ?? 0,
+		config: JSON.parse(row.config) as InterceptorConfig,
+	};
+}
+
 export class InterceptorRepository extends BaseRepository<InterceptorRow> {
 	getConfig(
 		id: string,
@@ -40,12 +93,45 @@ export class InterceptorRepository extends BaseRepository<InterceptorRow> {
 		const configJson = JSON.stringify(config);
 		const isEnabledInt = isEnabled ? 1 : 0;
 
+		// Upsert so the profile name and priority survive config updates
 		this.run(
-			"INSERT OR REPLACE INTO interceptors (id, is_enabled, config) VALUES (?, ?, ?)",
+			`INSERT INTO interceptors (id, is_enabled, config) VALUES (?, ?, ?)
+			ON CONFLICT(id) DO UPDATE SET is_enabled = excluded.is_enabled, config = excluded.config`,
 			[id, isEnabledInt, configJson],
 		);
 	}
 
+	/**
+	 * List all profiles, highest priority first
+	 */
+	listProfiles(): InterceptorProfile[] {
+		return this.query<InterceptorRow>(
+			`SELECT id, name, is_enabled, priority, config FROM interceptors
+			ORDER BY priority DESC, COALESCE(name, id) ASC`,
+		).map(toProfile);
+	}
+
+	getProfile(id: string): InterceptorProfile | null {
+		const row = super.get<InterceptorRow>(
+			"SELECT id, name, is_enabled, priority, config FROM interceptors WHERE id = ?",
+			[id],
+		);
+		return row ? toProfile(row) : null;
+	}
+
+	saveProfile(profile: InterceptorProfile): void {
+		this.run(
+			"INSERT OR REPLACE INTO interceptors (id, name, is_enabled, priority, config) VALUES (?, ?, ?, ?, ?)",
+			[
+				profile.id,
+				profile.name,
+				profile.isEnabled ? 1 : 0,
+				profile.priority,
+				JSON.stringify(profile.config),
+			],
+		);
+	}
+
 	/**
 	 * Delete an interceptor configuration
 	 */
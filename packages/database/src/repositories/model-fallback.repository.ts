@@ -0,0 +1,58 @@
+import { BaseRepository } from "./base.repository";
+
+/**
+ * Models tried in order, with the same accounts, once a model is rate
+ * limited or failing on every account
+ */
+export interface ModelFallbackChain {
+	model: string;
+	fallbacks: string[];
+	updatedAt: number;
+}
+
+interface ModelFallbackRow {
+	model: string;
+	fallbacks: string;
+	updated_at: number;
+}
+
+function toChain(row: ModelFallbackRow): ModelFallbackChain {
+	return {
+		model: row.model,
+		fallbacks: JSON.parse(row.fallbacks) as string[],
+		updatedAt: row.updated_at,
+	};
+}
+
+export class ModelFallbackRepository extends BaseRepository<ModelFallbackRow> {
+	list(): ModelFallbackChain[] {
+		return this.query<ModelFallbackRow>(
+			"SELECT * FROM model_fallback_chains ORDER BY model ASC",
+		).map(toChain);
+	}
+
+	findByModel(model: string): ModelFallbackChain | null {
+		const row = super.get<ModelFallbackRow>(
+			"SELECT * FROM model_fallback_chains WHERE model = ?",
+			[model],
+		);
+		return row ? toChain(row) : null;
+	}
+
+	save(model: string, fallbacks: string[]): ModelFallbackChain {
+		const chain = { model, fallbacks, updatedAt: Date.now() };
+		this.run(
+			"INSERT OR REPLACE INTO model_fallback_chains (model, fallbacks, updated_at) VALUES (?, ?, ?)",
+			[model, JSON.stringify(fallbacks), chain.updatedAt],
+		);
+		return chain;
+	}
+
+	delete(model: string): boolean {
+		return (
+			this.runWithChanges("DELETE FROM model_fallback_chains WHERE model = ?", [
+				model,
+			]) > 0
+		);
+	}
+}
@@ -0,0 +1,107 @@
+import { createHash } from "node:crypto";
+import { BaseRepository } from "./base.repository";
+
+export type PromptHistoryKind = "system_prompt" | "tools";
+
+export interface PromptVersionSummary {
+	id: number;
+	kind: PromptHistoryKind;
+	contentHash: string;
+	firstSeen: number;
+	lastSeen: number;
+	seenCount: number;
+	size: number;
+}
+
+export interface PromptVersion extends PromptVersionSummary {
+	content: string;
+}
+
+interface PromptHistoryRow {
+	id: number;
+	kind: PromptHistoryKind;
+	content_hash: string;
+	content?: string;
+	first_seen: number;
+	last_seen: number;
+	seen_count: number;
+	size: number;
+}
+
+function toSummary(row: PromptHistoryRow): PromptVersionSummary {
+	return {
+		id: row.id,
+		kind: row.kind,
+		contentHash: row.content_hash,
+		firstSeen: row.first_seen,
+		lastSeen: row.last_seen,
+		seenCount: row.seen_count,
+		size: row.size,
+	};
+}
+
+export class PromptHistoryRepository extends BaseRepository<PromptHistoryRow> {
+	/**
+	 * Record that a prompt or tools array was seen. New content creates a
+	 * version, known content only bumps its last-seen time and count.
+	 * @returns true if a new version was created
+	 */
+	record(
+		kind: PromptHistoryKind,
+		content: string,
+		timestamp = Date.now(),
+	): boolean {
+		const hash = createHash("sha256").update(content).digest("hex");
+		const updated = this.runWithChanges(
+			`UPDATE prompt_history
+			SET last_seen = MAX(last_seen, ?), seen_count = seen_count + 1
+			WHERE kind = ? AND content_hash = ?`,
+			[timestamp, kind, hash],
+		);
+		if (updated > 0) return false;
+
+		this.run(
+			`INSERT INTO prompt_history (kind, content_hash, content, first_seen, last_seen)
+			VALUES (?, ?, ?, ?, ?)`,
+			[kind, hash, content, timestamp, timestamp],
+		);
+		return true;
+	}
+
+	list(kind: PromptHistoryKind, limit = 100): PromptVersionSummary[] {
+		return this.query<PromptHistoryRow>(
+			`SELECT id, kind, content_hash, first_seen, last_seen, seen_count,
+				LENGTH(content) as size
+			FROM prompt_history
+			WHERE kind = ?
+			ORDER BY first_seen DESC, id DESC
+			LIMIT ?`,
+			[kind, limit],
+		).map(toSummary);
+	}
+
+	getById(id: number): PromptVersion | null {
+		const row = super.get<PromptHistoryRow>(
+			`SELECT id, kind, content_hash, content, first_seen, last_seen,
+				seen_count, LENGTH(content) as size
+			FROM prompt_history
+			WHERE id = ?`,
+			[id],
+		);
+		if (!row) return null;
+		return { ...toSummary(row), content: row.content ?? "" };
+	}
+
+	/**
+	 * Delete versions last seen before the cutoff, always keeping the newest
+	 * version of each kind
+	 */
+	deleteOlderThan(cutoffTs: number): number {
+		return this.runWithChanges(
+			`DELETE FROM prompt_history
+			WHERE last_seen < ?
+				AND id NOT IN (SELECT MAX(id) FROM prompt_history GROUP BY kind)`,
+			[cutoffTs],
+		);
+	}
+}
@@ -0,0 +1,137 @@
+import type { RedactionAction } from "@ccflare/core";
+import { BaseRepository } from "./base.repository";
+
+/**
+ * "full" stores bodies (after redaction); "metadata_only" never stores them
+ */
+export type PayloadStorageMode = "full" | "metadata_only";
+
+export const PAYLOAD_STORAGE_MODES: readonly PayloadStorageMode[] = [
+	"full",
+	"metadata_only",
+];
+
+const STORAGE_MODE_KEY = "payload_storage_mode";
+
+export interface RedactionRule {
+	id: string;
+	name: string;
+	detector: string | null;
+	pattern: string | null;
+	action: RedactionAction;
+	isEnabled: boolean;
+	createdAt: number;
+}
+
+export type RedactionRuleInput = Pick<
+	RedactionRule,
+	"name" | "detector" | "pattern" | "action"
+>;
+
+export type RedactionRuleUpdate = Partial<
+	Pick<RedactionRule, "name" | "action" | "isEnabled">
+>;
+
+interface RedactionRuleRow {
+	id: string;
+	name: string;
+	detector: string | null;
+	pattern: string | null;
+	action: RedactionAction;
+	is_enabled: number;
+	created_at: number;
+}
+
+function toRule(row: RedactionRuleRow): RedactionRule {
+	return {
+		id: row.id,
+		name: row.name,
+		detector: row.detector,
+		pattern: row.pattern,
+		action: row.action,
+		isEnabled: row.is_enabled === 1,
+		createdAt: row.created_at,
+	};
+}
+
+export function isPayloadStorageMode(
+	value: unknown,
+): value is PayloadStorageMode {
+	return PAYLOAD_STORAGE_MODES.includes(value as PayloadStorageMode);
+}
+
+export class RedactionRepository extends BaseRepository<RedactionRuleRow> {
+	list(): RedactionRule[] {
+		return this.query<RedactionRuleRow>(
+			"SELECT * FROM redaction_rules ORDER BY created_at ASC",
+		).map(toRule);
+	}
+
+	listEnabled(): RedactionRule[] {
+		return this.query<RedactionRuleRow>(
+			"SELECT * FROM redaction_rules WHERE is_enabled = 1 ORDER BY created_at ASC",
+		).map(toRule);
+	}
+
+	findById(id: string): RedactionRule | null {
+		const row = super.get<RedactionRuleRow>(
+			"SELECT * FROM redaction_rules WHERE id = ?",
+			[id],
+		);
+		return row ? toRule(row) : null;
+	}
+
+	create(input: RedactionRuleInput): RedactionRule {
+		const rule: RedactionRule = {
+			id: crypto.randomUUID(),
+			...input,
+			isEnabled: true,
+			createdAt: Date.now(),
+		};
+		this.run(
+			`INSERT INTO redaction_rules (id, name, detector, pattern, action, is_enabled, created_at)
+			VALUES (?, ?, ?, ?, ?, 1, ?)`,
+			[
+				rule.id,
+				rule.name,
+				rule.detector,
+				rule.pattern,
+				rule.action,
+				rule.createdAt,
+			],
+		);
+		return rule;
+	}
+
+	update(id: string, update: RedactionRuleUpdate): void {
+		const current = this.findById(id);
+		if (!current) return;
+		const next = { ...current, ...update };
+		this.run(
+			"UPDATE redaction_rules SET name = ?, action = ?, is_enabled = ? WHERE id = ?",
+			[next.name, next.action, next.isEnabled ? 1 : 0, id],
+		);
+	}
+
+	delete(id: string): boolean {
+		return (
+			this.runWithChanges("DELETE FROM redaction_rules WHERE id = ?", [id]) > 0
+		);
+	}
+
+	getStorageMode(): PayloadStorageMode {
+		const row = super.get<{ value: string }>(
+			"SELECT value FROM system_kv_store WHERE key = ?",
+			[STORAGE_MODE_KEY],
+		);
+		const mode = row?.value;
+		return isPayloadStorageMode(mode) ? mode : "full";
+	}
+
+	setStorageMode(mode: PayloadStorageMode): void {
+		this.run(
+			"INSERT OR REPLACE INTO system_kv_store (key, value) VALUES (?, ?)",
+			[STORAGE_MODE_KEY, mode],
+		);
+	}
+}
@@ -1,3 +1,10 @@
+import { ValidationError } from "@ccflare/core";
+import {
+	NO_ACCOUNT_ID,
+	type RequestFilters,
+	type RequestRow,
+	type RequestTextDocument,
+} from "@ccflare/types";
 import { BaseRepository } from "./base.repository";
 
 export interface RequestData {
@@ -11,6 +18,12 @@ export interface RequestData {
 	responseTime: number;
 	failoverAttempts: number;
 	agentUsed?: string;
+	interceptedBy?: string[];
+	apiKeyId?: string | null;
+	/** Model the client asked for, set when a fallback model served the request */
+	fallbackFromModel?: string | null;
+	/** Conversation the request is a turn of */
+	conversationId?: string | null;
 	usage?: {
 		model?: string;
 		promptTokens?: number;
@@ -25,6 +38,81 @@ export interface RequestData {
 	};
 }
 
+export interface RequestSearchRow extends RequestRow {
+	account_name: string | null;
+	api_key_name: string | null;
+}
+
+export interface RequestTextMatchRow extends RequestSearchRow {
+	/** Matched terms are wrapped in SNIPPET_MATCH_START and SNIPPET_MATCH_END */
+	snippet: string;
+}
+
+export interface ConversationRow {
+	conversation_id: string;
+	first_timestamp: number;
+	last_timestamp: number;
+	request_count: number;
+	total_tokens: number;
+	cost_usd: number;
+	/** Comma separated */
+	models: string | null;
+	/** Comma separated */
+	agents: string | null;
+}
+
+export interface ConversationRequestRow extends RequestSearchRow {
+	has_payload: 0 | 1;
+}
+
+export const SNIPPET_MATCH_START = "\u0002";
+export const SNIPPET_MATCH_END = "\u0003";
+
+const STATUS_CLASS_PATTERN = /^([1-5])xx$/i;
+
+function escapeLike(value: string): string {
+	return value.replace(/[\\%_]/g, "\\$&");
+}
+
+/**
+ * Turn a user query into an FTS5 query that can't be a syntax error: every
+ * term, or "quoted phrase", is matched as a phrase and a trailing * makes it a
+ * prefix match. All terms must match.
+ * @throws {ValidationError} If the query has no terms
+ */
+function toMatchQuery(query: string): string {
+	const terms = (query.match(/"[^"]*"\*?|[^\s"]+/g) ?? []).flatMap((term) => {
+		const prefix = term.endsWith("*");
+		const text = term.replace(/^"|"?\*?$/g, "").replace(/"/g, "");
+		if (!text.trim()) return [];
+		return [`"${text}"${prefix ? "*" : ""}`];
+	});
+	if (terms.length === 0) {
+		throw new ValidationError("Search query is empty", "q", query);
+	}
+	return terms.join(" ");
+}
+
+/**
+ * Encode the position after a row; ids break ties between equal timestamps
+ */
+function encodeCursor(row: { timestamp: number; id: string }): string {
+	return Buffer.from(`${row.timestamp}:${row.id}`).toString("base64url");
+}
+
+/**
+ * @throws {ValidationError} If the cursor was not produced by encodeCursor
+ */
+function decodeCursor(cursor: string): { timestamp: number; id: string } {
+	const decoded = Buffer.from(cursor, "base64url").toString("utf-8");
+	const separator = decoded.indexOf(":");
+	const timestamp = Number(decoded.slice(0, separator));
+	if (separator <= 0 || !Number.isInteger(timestamp)) {
+		throw new ValidationError("Invalid cursor", "cursor", cursor);
+	}
+	return { timestamp, id: decoded.slice(separator + 1) };
+}
+
 export class RequestRepository extends BaseRepository<RequestData> {
 	saveMeta(
 		id: string,
@@ -33,20 +121,40 @@ export class RequestRepository extends BaseRepository<RequestData> {
 		accountUsed: string | null,
 		statusCode: number | null,
 		timestamp?: number,
+		apiKeyId?: string | null,
 	): void {
 		this.run(
 			`
 			INSERT INTO requests (
 				id, timestamp, method, path, account_used, 
-				status_code, success, error_message, response_time_ms, failover_attempts
+				status_code, success, error_message, response_time_ms, failover_attempts,
+				api_key_id
 			)
-			VALUES (?, ?, ?, ?, ?, ?, 0, NULL, 0, 0)
+			VALUES (?, ?, ?, ?, ?, ?, 0, NULL, 0, 0, ?)
 		`,
-			[id, timestamp || Date.now(), method, path, accountUsed, statusCode],
+			[
+				id,
+				timestamp || Date.now(),
+				method,
+				path,
+				accountUsed,
+				statusCode,
+				apiKeyId || null,
+			],
 		);
 	}
 
 	save(data: RequestData): void {
+		const timestamp = Date.now();
+		this.db.transaction(() => {
+			this.insert(data, timestamp);
+			if (data.conversationId) {
+				this.touchConversation(data.conversationId, timestamp);
+			}
+		})();
+	}
+
+	private insert(data: RequestData, timestamp: number): void {
 		const { usage } = data;
 		this.run(
 			`
@@ -55,13 +163,14 @@ export class RequestRepository extends BaseRepository<RequestData> {
 				status_code, success, error_message, response_time_ms, failover_attempts,
 				model, prompt_tokens, completion_tokens, total_tokens, cost_usd,
 				input_tokens, cache_read_input_tokens, cache_creation_input_tokens, output_tokens,
-				agent_used, output_tokens_per_second
+				agent_used, output_tokens_per_second, intercepted_by, api_key_id,
+				fallback_from_model, conversation_id
 			)
-			VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+			VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
 		`,
 			[
 				data.id,
-				Date.now(),
+				timestamp,
 				data.method,
 				data.path,
 				data.accountUsed,
@@ -81,10 +190,30 @@ export class RequestRepository extends BaseRepository<RequestData> {
 				usage?.outputTokens || null,
 				data.agentUsed || null,
 				usage?.tokensPerSecond || null,
+				data.interceptedBy?.length ? JSON.stringify(data.interceptedBy) : null,
+				data.apiKeyId || null,
+				data.fallbackFromModel || null,
+				data.conversationId || null,
 			],
 		);
 	}
 
+	/**
+	 * Record a request of a conversation in the conversations table
+	 */
+	private touchConversation(conversationId: string, timestamp: number): void {
+		this.run(
+			`
+			INSERT INTO conversations (id, first_timestamp, last_timestamp)
+			VALUES (?, ?, ?)
+			ON CONFLICT(id) DO UPDATE SET
+				first_timestamp = MIN(first_timestamp, excluded.first_timestamp),
+				last_timestamp = MAX(last_timestamp, excluded.last_timestamp)
+		`,
+			[conversationId, timestamp, timestamp],
+		);
+	}
+
 	updateUsage(requestId: string, usage: RequestData["usage"]): void {
 		if (!usage) return;
 
@@ -144,6 +273,21 @@ export class RequestRepository extends BaseRepository<RequestData> {
 		}
 	}
 
+	getLatestPayloadId(path: string): string | null {
+		const row = this.get<{ id: string }>(
+			`
+			SELECT r.id
+			FROM requests r
+			JOIN request_payloads rp ON rp.id = r.id
+			WHERE r.path = ?
+			ORDER BY r.timestamp DESC
+			LIMIT 1
+		`,
+			[path],
+		);
+		return row?.id ?? null;
+	}
+
 	listPayloads(limit = 50): Array<{ id: string; json: string }> {
 		return this.query<{ id: string; json: string }>(
 			`
@@ -157,19 +301,24 @@ export class RequestRepository extends BaseRepository<RequestData> {
 		);
 	}
 
-	listPayloadsWithAccountNames(
-		limit = 50,
-	): Array<{ id: string; json: string; account_name: string | null }> {
+	listPayloadsWithAccountNames(limit = 50): Array<{
+		id: string;
+		json: string;
+		account_name: string | null;
+		api_key_name: string | null;
+	}> {
 		return this.query<{
 			id: string;
 			json: string;
 			account_name: string | null;
+			api_key_name: string | null;
 		}>(
 			`
-			SELECT rp.id, rp.json, a.name as account_name
+			SELECT rp.id, rp.json, a.name as account_name, k.name as api_key_name
 			FROM request_payloads rp
 			JOIN requests r ON rp.id = r.id
 			LEFT JOIN accounts a ON r.account_used = a.id
+			LEFT JOIN api_keys k ON r.api_key_id = k.id
 			ORDER BY r.timestamp DESC
 			LIMIT ?
 		`,
@@ -177,6 +326,136 @@ export class RequestRepository extends BaseRepository<RequestData> {
 		);
 	}
 
+	/**
+	 * Search requests newest first with keyset pagination, so pages stay
+	 * stable while new requests arrive
+	 * @param cursor - nextCursor of the previous page
+	 * @throws {ValidationError} If a status filter or the cursor is invalid
+	 */
+	search(
+		filters: RequestFilters,
+		limit: number,
+		cursor?: string | null,
+	): { rows: RequestSearchRow[]; nextCursor: string | null } {
+		const conditions: string[] = [];
+		const params: Array<string | number> = [];
+
+		if (filters.account === NO_ACCOUNT_ID) {
+			conditions.push("r.account_used IS NULL");
+		} else if (filters.account) {
+			conditions.push(
+				"(r.account_used = ? OR r.account_used IN (SELECT id FROM accounts WHERE name = ?))",
+			);
+			params.push(filters.account, filters.account);
+		}
+		if (filters.model) {
+			conditions.push("r.model LIKE ? ESCAPE '\\'");
+			params.push(`%${escapeLike(filters.model)}%`);
+		}
+		if (filters.agent) {
+			conditions.push("r.agent_used = ?");
+			params.push(filters.agent);
+		}
+		if (filters.status?.length) {
+			const statusConditions = filters.status.map((status) => {
+				if (status === "error") {
+					return "r.success = 0";
+				}
+				const statusClass = status.match(STATUS_CLASS_PATTERN);
+				if (statusClass) {
+					const base = Number(statusClass[1]) * 100;
+					params.push(base, base + 99);
+					return "r.status_code BETWEEN ? AND ?";
+				}
+				if (/^\d{3}$/.test(status)) {
+					params.push(Number(status));
+					return "r.status_code = ?";
+				}
+				throw new ValidationError(
+					`Invalid status filter '${status}'`,
+					"status",
+					status,
+				);
+			});
+			conditions.push(`(${statusConditions.join(" OR ")})`);
+		}
+		if (filters.from !== undefined) {
+			conditions.push("r.timestamp >= ?");
+			params.push(filters.from);
+		}
+		if (filters.to !== undefined) {
+			conditions.push("r.timestamp <= ?");
+			params.push(filters.to);
+		}
+		if (filters.minCost !== undefined) {
+			conditions.push("r.cost_usd >= ?");
+			params.push(filters.minCost);
+		}
+		if (filters.minTokens !== undefined) {
+			conditions.push("r.total_tokens >= ?");
+			params.push(filters.minTokens);
+		}
+		if (filters.path) {
+			conditions.push("r.path LIKE ? ESCAPE '\\'");
+			params.push(`%${escapeLike(filters.path)}%`);
+		}
+		if (cursor) {
+			const after = decodeCursor(cursor);
+			conditions.push("(r.timestamp < ? OR (r.timestamp = ? AND r.id < ?))");
+			params.push(after.timestamp, after.timestamp, after.id);
+		}
+
+		const whereClause =
+			conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+		// Fetch one extra row to know whether another page follows
+		const rows = this.query<RequestSearchRow>(
+			`
+			SELECT r.*, a.name as account_name, k.name as api_key_name
+			FROM requests r
+			LEFT JOIN accounts a ON r.account_used = a.id
+			LEFT JOIN api_keys k ON r.api_key_id = k.id
+			${whereClause}
+			ORDER BY r.timestamp DESC, r.id DESC
+			LIMIT ?
+		`,
+			[...params, limit + 1],
+		);
+
+		const hasMore = rows.length > limit;
+		const page = hasMore ? rows.slice(0, limit) : rows;
+		return {
+			rows: page,
+			nextCursor: hasMore ? encodeCursor(page[page.length - 1]) : null,
+		};
+	}
+
+	/**
+	 * Get one stored payload with the names of its account and client key
+	 */
+	getPayloadWithAccountNames(id: string): {
+		id: string;
+		json: string;
+		account_name: string | null;
+		api_key_name: string | null;
+	} | null {
+		return this.get<{
+			id: string;
+			json: string;
+			account_name: string | null;
+			api_key_name: string | null;
+		}>(
+			`
+			SELECT rp.id, rp.json, a.name as account_name, k.name as api_key_name
+			FROM request_payloads rp
+			JOIN requests r ON rp.id = r.id
+			LEFT JOIN accounts a ON r.account_used = a.id
+			LEFT JOIN api_keys k ON r.api_key_id = k.id
+			WHERE rp.id = ?
+		`,
+			[id],
+		);
+	}
+
 	// Analytics queries
 	getRecentRequests(limit = 100): Array<{
 		id: string;
@@ -379,7 +658,168 @@ export class RequestRepository extends BaseRepository<RequestData> {
 		}));
 	}
 
+	/**
+	 * Count requests per account since a timestamp
+	 */
+	countByAccountSince(
+		since: number,
+	): Array<{ accountId: string; count: number }> {
+		return this.query<{ account_id: string; count: number }>(
+			`
+			SELECT account_used as account_id, COUNT(*) as count
+			FROM requests
+			WHERE timestamp > ? AND account_used IS NOT NULL
+			GROUP BY account_used
+		`,
+			[since],
+		).map((row) => ({ accountId: row.account_id, count: row.count }));
+	}
+
+	/**
+	 * Index the text of a request for full-text search. Each request is indexed
+	 * once, when its response ends, so there is no earlier entry to replace
+	 * (looking one up by the unindexed request_id would scan the whole index).
+	 */
+	saveText(id: string, document: RequestTextDocument): void {
+		this.run(
+			`
+			INSERT INTO request_fts (
+				request_id, user_text, assistant_text, tool_names, tool_inputs
+			)
+			VALUES (?, ?, ?, ?, ?)
+		`,
+			[
+				id,
+				document.userText,
+				document.assistantText,
+				document.toolNames,
+				document.toolInputs,
+			],
+		);
+	}
+
+	/**
+	 * Full-text search over indexed requests whose payload is still stored,
+	 * best matches first
+	 * @throws {ValidationError} If the query has no terms
+	 */
+	searchText(query: string, limit: number): RequestTextMatchRow[] {
+		return this.query<RequestTextMatchRow>(
+			`
+			SELECT
+				r.*,
+				a.name as account_name,
+				k.name as api_key_name,
+				snippet(request_fts, -1, ?, ?, '…', 24) as snippet
+			FROM request_fts
+			JOIN requests r ON r.id = request_fts.request_id
+			JOIN request_payloads rp ON rp.id = r.id
+			LEFT JOIN accounts a ON r.account_used = a.id
+			LEFT JOIN api_keys k ON r.api_key_id = k.id
+			WHERE request_fts MATCH ?
+			ORDER BY request_fts.rank, r.timestamp DESC
+			LIMIT ?
+		`,
+			[SNIPPET_MATCH_START, SNIPPET_MATCH_END, toMatchQuery(query), limit],
+		);
+	}
+
+	/**
+	 * List conversations by their latest request, newest first, with keyset
+	 * pagination over the conversations table. Totals are only aggregated for
+	 * the conversations on the page.
+	 * @param cursor - nextCursor of the previous page
+	 * @throws {ValidationError} If the cursor is invalid
+	 */
+	listConversations(
+		limit: number,
+		cursor?: string | null,
+	): { rows: ConversationRow[]; nextCursor: string | null } {
+		const params: Array<string | number> = [];
+		let whereClause = "";
+		if (cursor) {
+			const after = decodeCursor(cursor);
+			whereClause =
+				"WHERE c.last_timestamp < ? OR (c.last_timestamp = ? AND c.id < ?)";
+			params.push(after.timestamp, after.timestamp, after.id);
+		}
+
+		// Fetch one extra conversation to know whether another page follows
+		const rows = this.query<ConversationRow & { position: number }>(
+			`
+			WITH page AS (
+				SELECT c.id, c.last_timestamp
+				FROM conversations c
+				${whereClause}
+				ORDER BY c.last_timestamp DESC, c.id DESC
+				LIMIT ?
+			)
+			SELECT
+				p.id as conversation_id,
+				p.last_timestamp as position,
+				MIN(r.timestamp) as first_timestamp,
+				MAX(r.timestamp) as last_timestamp,
+				COUNT(r.id) as request_count,
+				COALESCE(SUM(r.total_tokens), 0) as total_tokens,
+				COALESCE(SUM(r.cost_usd), 0) as cost_usd,
+				GROUP_CONCAT(DISTINCT r.model) as models,
+				GROUP_CONCAT(DISTINCT r.agent_used) as agents
+			FROM page p
+			LEFT JOIN requests r ON r.conversation_id = p.id
+			GROUP BY p.id
+			ORDER BY p.last_timestamp DESC, p.id DESC
+		`,
+			[...params, limit + 1],
+		);
+
+		const hasMore = rows.length > limit;
+		const page = hasMore ? rows.slice(0, limit) : rows;
+		const last = page[page.length - 1];
+		return {
+			// Conversations whose requests were all cleared have no rows left
+			rows: page
+				.filter((row) => row.request_count > 0)
+				.map(({ position: _position, ...row }) => row),
+			nextCursor:
+				hasMore && last
+					? encodeCursor({ timestamp: last.position, id: last.conversation_id })
+					: null,
+		};
+	}
+
+	/**
+	 * Get the requests of a conversation in the order they were made
+	 */
+	getConversation(conversationId: string): ConversationRequestRow[] {
+		return this.query<ConversationRequestRow>(
+			`
+			SELECT
+				r.*,
+				a.name as account_name,
+				k.name as api_key_name,
+				EXISTS (SELECT 1 FROM request_payloads rp WHERE rp.id = r.id) as has_payload
+			FROM requests r
+			LEFT JOIN accounts a ON r.account_used = a.id
+			LEFT JOIN api_keys k ON r.api_key_id = k.id
+			WHERE r.conversation_id = ?
+			ORDER BY r.timestamp ASC, r.id ASC
+		`,
+			[conversationId],
+		);
+	}
+
+	/**
+	 * Drop search entries of requests whose payload has been deleted
+	 */
+	deleteOrphanedText(): number {
+		return this.runWithChanges(
+			`DELETE FROM request_fts WHERE request_id NOT IN (SELECT id FROM request_payloads)`,
+		);
+	}
+
 	deleteOlderThan(cutoffTs: number): number {
+		// Conversations last active before the cutoff have no requests left
+		this.run(`DELETE FROM conversations WHERE last_timestamp < ?`, [cutoffTs]);
 		return this.runWithChanges(`DELETE FROM requests WHERE timestamp < ?`, [
 			cutoffTs,
 		]);
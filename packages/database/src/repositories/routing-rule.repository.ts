@@ -0,0 +1,140 @@
+import { BaseRepository } from "./base.repository";
+
+/**
+ * Conditions deciding which requests a routing rule applies to. All
+ * conditions that are set must match; a rule without conditions matches
+ * every request.
+ */
+export interface RoutingMatchRules {
+	/** Case-insensitive substring of the requested model */
+	model?: string;
+	/** "main" for requests without a detected agent, or a detected agent id */
+	agent?: string;
+	/** Request path prefix, e.g. /v1/messages */
+	path?: string;
+	/** Id of the client API key that authenticated the request */
+	apiKeyId?: string;
+	/** Request header; when value is omitted the header only has to be present */
+	header?: { name: string; value?: string };
+}
+
+export interface RoutingRule {
+	id: string;
+	name: string;
+	/** Rules are evaluated highest priority first; the first match wins */
+	priority: number;
+	match: RoutingMatchRules;
+	/** Account group tried first */
+	group: string;
+	/** Groups tried in order when no account in the previous group is available */
+	fallbackGroups: string[];
+	isEnabled: boolean;
+	createdAt: number;
+}
+
+export type RoutingRuleInput = Pick<
+	RoutingRule,
+	"name" | "priority" | "match" | "group" | "fallbackGroups"
+>;
+
+export type RoutingRuleUpdate = Partial<
+	RoutingRuleInput & { isEnabled: boolean }
+>;
+
+interface RoutingRuleRow {
+	id: string;
+	name: string;
+	priority: number;
+	match: string;
+	group_name: string;
+	fallback_groups: string;
+	is_enabled: number;
+	created_at: number;
+}
+
+function toRule(row: RoutingRuleRow): RoutingRule {
+	return {
+		id: row.id,
+		name: row.name,
+		priority: row.priority,
+		match: JSON.parse(row.match) as RoutingMatchRules,
+		group: row.group_name,
+		fallbackGroups: JSON.parse(row.fallback_groups) as string[],
+		isEnabled: row.is_enabled === 1,
+		createdAt: row.created_at,
+	};
+}
+
+export class RoutingRuleRepository extends BaseRepository<RoutingRuleRow> {
+	/**
+	 * List all rules in evaluation order
+	 */
+	list(): RoutingRule[] {
+		return this.query<RoutingRuleRow>(
+			"SELECT * FROM routing_rules ORDER BY priority DESC, created_at ASC",
+		).map(toRule);
+	}
+
+	listEnabled(): RoutingRule[] {
+		return this.query<RoutingRuleRow>(
+			`SELECT * FROM routing_rules WHERE is_enabled = 1
+			ORDER BY priority DESC, created_at ASC`,
+		).map(toRule);
+	}
+
+	findById(id: string): RoutingRule | null {
+		const row = super.get<RoutingRuleRow>(
+			"SELECT * FROM routing_rules WHERE id = ?",
+			[id],
+		);
+		return row ? toRule(row) : null;
+	}
+
+	create(input: RoutingRuleInput): RoutingRule {
+		const rule: RoutingRule = {
+			id: crypto.randomUUID(),
+			...input,
+			isEnabled: true,
+			createdAt: Date.now(),
+		};
+		this.run(
+			`INSERT INTO routing_rules (id, name, priority, match, group_name, fallback_groups, is_enabled, created_at)
+			VALUES (?, ?, ?, ?, ?, ?, 1, ?)`,
+			[
+				rule.id,
+				rule.name,
+				rule.priority,
+				JSON.stringify(rule.match),
+				rule.group,
+				JSON.stringify(rule.fallbackGroups),
+				rule.createdAt,
+			],
+		);
+		return rule;
+	}
+
+	update(id: string, update: RoutingRuleUpdate): void {
+		const current = this.findById(id);
+		if (!current) return;
+		const next = { ...current, ...update };
+		this.run(
+			`UPDATE routing_rules SET name = ?, priority = ?, match = ?, group_name = ?,
+			fallback_groups = ?, is_enabled = ? WHERE id = ?`,
+			[
+				next.name,
+				next.priority,
+				JSON.stringify(next.match),
+				next.group,
+				JSON.stringify(next.fallbackGroups),
+				next.isEnabled ? 1 : 0,
+				id,
+			],
+		);
+	}
+
+	delete(id: string): boolean {
+		return (
+			this.runWithChanges("DELETE FROM routing_rules WHERE id = ?", [id]) > 0
+		);
+	}
+}
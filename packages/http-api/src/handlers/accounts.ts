@@ -9,6 +9,7 @@ import {
 } from "@ccflare/core";
 import type { DatabaseOperations } from "@ccflare/database";
 import {
+	BadGateway,
 	BadRequest,
 	errorResponse,
 	InternalServerError,
@@ -16,6 +17,11 @@ import {
 	NotFound,
 } from "@ccflare/http-common";
 import { Logger } from "@ccflare/logger";
+import {
+	ACCOUNT_GROUP_PATTERN,
+	parseAccountGroups,
+	parseModelMap,
+} from "@ccflare/types";
 import type { AccountResponse } from "../types";
 
 const log = new Logger("AccountsHandler");
@@ -35,6 +41,7 @@ export function createAccountsListHandler(db: Database) {
 					id,
 					name,
 					provider,
+					auth_type,
 					request_count,
 					total_requests,
 					last_used,
@@ -48,8 +55,11 @@ export function createAccountsListHandler(db: Database) {
 					session_request_count,
 					COALESCE(account_tier, 1) as account_tier,
 					COALESCE(paused, 0) as paused,
+					account_groups,
+					base_url,
+					model_map,
 					CASE 
-						WHEN expires_at > ?1 THEN 1 
+						WHEN auth_type = 'api_key' OR expires_at > ?1 THEN 1 
 						ELSE 0 
 					END as token_valid,
 					CASE 
@@ -69,6 +79,7 @@ export function createAccountsListHandler(db: Database) {
 			id: string;
 			name: string;
 			provider: string | null;
+			auth_type: string;
 			request_count: number;
 			total_requests: number;
 			last_used: number | null;
@@ -82,6 +93,9 @@ export function createAccountsListHandler(db: Database) {
 			session_request_count: number;
 			account_tier: number;
 			paused: 0 | 1;
+			account_groups: string | null;
+			base_url: string | null;
+			model_map: string | null;
 			token_valid: 0 | 1;
 			rate_limited: 0 | 1;
 			session_info: string | null;
@@ -115,6 +129,7 @@ export function createAccountsListHandler(db: Database) {
 				id: account.id,
 				name: account.name,
 				provider: account.provider || "anthropic",
+				authType: account.auth_type === "api_key" ? "api_key" : "oauth",
 				requestCount: account.request_count,
 				totalRequests: account.total_requests,
 				lastUsed: account.last_used
@@ -133,6 +148,9 @@ export function createAccountsListHandler(db: Database) {
 					: null,
 				rateLimitRemaining: account.rate_limit_remaining,
 				sessionInfo: account.session_info || "",
+				groups: parseAccountGroups(account.account_groups),
+				baseUrl: account.base_url,
+				modelMap: parseModelMap(account.model_map),
 			};
 		});
 
@@ -171,7 +189,8 @@ export function createAccountTierUpdateHandler(dbOps: DatabaseOperations) {
 
 /**
  * Create an account add handler (manual token addition)
- * This is primarily used for adding accounts with existing tokens
+ * This is primarily used for adding accounts with existing tokens, or with an
+ * existing Anthropic API key when the body has an apiKey.
  * For OAuth flow, use the OAuth handlers
  */
 export function createAccountAddHandler(
@@ -195,6 +214,59 @@ export function createAccountAddHandler(
 				return errorResponse(BadRequest("Account name is required"));
 			}
 
+			// Validate tier
+			const tier = (validateNumber(body.tier, "tier", {
+				allowedValues: [1, 5, 20] as const,
+			}) || 1) as 1 | 5 | 20;
+
+			if (body.provider === "openai-compatible") {
+				const result = cliCommands.addOpenAICompatibleAccount(dbOps, {
+					name,
+					baseUrl: body.baseUrl,
+					apiKey: body.apiKey,
+					modelMap: body.modelMap,
+					tier,
+				});
+
+				if (!result.success) {
+					return errorResponse(BadRequest(result.message));
+				}
+				return jsonResponse({
+					success: true,
+					message: result.message,
+					tier,
+					accountId: result.accountId,
+					authType: "api_key",
+				});
+			}
+
+			if (body.apiKey !== undefined) {
+				const apiKey = validateString(body.apiKey, "apiKey", {
+					required: true,
+					minLength: 1,
+				});
+				const result = await cliCommands.addApiKeyAccount(dbOps, {
+					name,
+					apiKey: apiKey ?? "",
+					tier,
+				});
+
+				if (!result.success) {
+					return errorResponse(
+						result.reason === "unreachable"
+							? BadGateway(result.message)
+							: BadRequest(result.message),
+					);
+				}
+				return jsonResponse({
+					success: true,
+					message: result.message,
+					tier,
+					accountId: result.accountId,
+					authType: "api_key",
+				});
+			}
+
 			// Validate tokens
 			const accessToken = validateString(body.accessToken, "accessToken", {
 				required: true,
@@ -218,23 +290,21 @@ export function createAccountAddHandler(
 					allowedValues: ["anthropic"] as const,
 				}) || "anthropic";
 
-			// Validate tier
-			const tier = (validateNumber(body.tier, "tier", {
-				allowedValues: [1, 5, 20] as const,
-			}) || 1) as 1 | 5 | 20;
-
 			try {
-				// Add account directly to database
+				// Add account through the repository so its tokens are encrypted
 				const accountId = crypto.randomUUID();
-				const now = Date.now();
-
-				dbOps.getDatabase().run(
-					`INSERT INTO accounts (
-						id, name, provider, refresh_token, access_token,
-						created_at, request_count, total_requests, account_tier
-					) VALUES (?, ?, ?, ?, ?, ?, 0, 0, ?)`,
-					[accountId, name, provider, refreshToken, accessToken, now, tier],
-				);
+
+				dbOps.createAccount({
+					id: accountId,
+					name,
+					provider,
+					authType: "oauth",
+					apiKey: null,
+					refreshToken,
+					accessToken,
+					expiresAt: null,
+					tier,
+				});
 
 				return jsonResponse({
 					success: true,
@@ -434,3 +504,38 @@ export function createAccountRenameHandler(dbOps: DatabaseOperations) {
 		}
 	};
 }
+
+/**
+ * Create an account groups update handler. Groups are named sets of accounts
+ * that routing rules send requests to.
+ */
+export function createAccountGroupsHandler(dbOps: DatabaseOperations) {
+	return async (req: Request, accountId: string): Promise<Response> => {
+		const body = await req.json().catch(() => null);
+		const groups: unknown = body?.groups;
+
+		if (!Array.isArray(groups)) {
+			return errorResponse(BadRequest("groups must be an array of names"));
+		}
+		const names = groups.map((group) =>
+			typeof group === "string" ? group.trim() : "",
+		);
+		const invalid = names.find((name) => !ACCOUNT_GROUP_PATTERN.test(name));
+		if (invalid !== undefined) {
+			return errorResponse(
+				BadRequest(
+					"Group names must be 1-64 letters, digits, underscores, dots or hyphens",
+					{ group: invalid },
+				),
+			);
+		}
+
+		if (!dbOps.getAccount(accountId)) {
+			return errorResponse(NotFound("Account not found"));
+		}
+
+		const unique = [...new Set(names)];
+		dbOps.setAccountGroups(accountId, unique);
+		return jsonResponse({ success: true, groups: unique });
+	};
+}
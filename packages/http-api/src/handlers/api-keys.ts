@@ -0,0 +1,133 @@
+import type {
+	ApiKey,
+	ApiKeyLimits,
+	DatabaseOperations,
+} from "@ccflare/database";
+import {
+	BadRequest,
+	Conflict,
+	errorResponse,
+	jsonResponse,
+	NotFound,
+} from "@ccflare/http-common";
+import { getClientQuota } from "@ccflare/proxy";
+
+const KEY_NAME_PATTERN = /^[\w.@-]{1,64}$/;
+
+const LIMIT_FIELDS = [
+	"requestsPerMinute",
+	"tokensPerDay",
+	"usdPerMonth",
+] as const satisfies ReadonlyArray<keyof ApiKeyLimits>;
+
+/**
+ * Attach the current usage and remaining allowance to a key
+ */
+function withQuota(apiKey: ApiKey, dbOps: DatabaseOperations) {
+	return { ...apiKey, quota: getClientQuota(apiKey, dbOps) };
+}
+
+/**
+ * Create client API key handlers
+ */
+export function createApiKeysHandler(dbOps: DatabaseOperations) {
+	return {
+		/**
+		 * List all client keys with their quotas, newest first. Secrets are
+		 * never returned.
+		 */
+		listKeys: (): Response => {
+			return jsonResponse(
+				dbOps.listApiKeys().map((apiKey) => withQuota(apiKey, dbOps)),
+			);
+		},
+
+		/**
+		 * Create a key. The response is the only time the secret is shown.
+		 */
+		createKey: async (req: Request): Promise<Response> => {
+			let body: { name?: unknown };
+			try {
+				body = await req.json();
+			} catch {
+				return errorResponse(BadRequest("Invalid JSON"));
+			}
+
+			const name = typeof body?.name === "string" ? body.name.trim() : "";
+			if (!KEY_NAME_PATTERN.test(name)) {
+				return errorResponse(
+					BadRequest(
+						"name must be 1-64 letters, digits, underscores, dots, @ or hyphens",
+					),
+				);
+			}
+			if (dbOps.getApiKeyByName(name)) {
+				return errorResponse(Conflict(`A key named '${name}' already exists`));
+			}
+
+			const { apiKey, key } = dbOps.createApiKey(name);
+			return jsonResponse({ ...apiKey, key }, 201);
+		},
+
+		/**
+		 * Revoke a key; requests using it are rejected from then on
+		 */
+		revokeKey: (id: string): Response => {
+			const apiKey = dbOps.getApiKey(id);
+			if (!apiKey) {
+				return errorResponse(NotFound("API key not found"));
+			}
+			if (apiKey.revokedAt === null) {
+				dbOps.revokeApiKey(id);
+			}
+			return jsonResponse(dbOps.getApiKey(id));
+		},
+
+		/**
+		 * Update the quotas of a key. Omitted fields keep their value; null
+		 * removes a limit.
+		 */
+		updateLimits: async (req: Request, id: string): Promise<Response> => {
+			const apiKey = dbOps.getApiKey(id);
+			if (!apiKey) {
+				return errorResponse(NotFound("API key not found"));
+			}
+
+			let body: Record<string, unknown>;
+			try {
+				body = await req.json();
+			} catch {
+				return errorResponse(BadRequest("Invalid JSON"));
+			}
+			if (typeof body !== "object" || body === null || Array.isArray(body)) {
+				return errorResponse(BadRequest("Request body must be a JSON object"));
+			}
+
+			const limits: ApiKeyLimits = { ...apiKey.limits };
+			for (const field of LIMIT_FIELDS) {
+				const value = body[field];
+				if (value === undefined) continue;
+				if (
+					value !== null &&
+					(typeof value !== "number" || !Number.isFinite(value) || value <= 0)
+				) {
+					return errorResponse(
+						BadRequest(`${field} must be a positive number or null`),
+					);
+				}
+				if (
+					value !== null &&
+					field !== "usdPerMonth" &&
+					!Number.isInteger(value)
+				) {
+					return errorResponse(BadRequest(`${field} must be an integer`));
+				}
+				limits[field] = value;
+			}
+
+			dbOps.setApiKeyLimits(id, limits);
+			const updated = dbOps.getApiKey(id);
+			return jsonResponse(updated ? withQuota(updated, dbOps) : null);
+		},
+	};
+}
@@ -0,0 +1,121 @@
+import type { Config } from "@ccflare/config";
+import {
+	BOOTSTRAP_SESSION_USERNAME,
+	type DatabaseOperations,
+} from "@ccflare/database";
+import {
+	BadRequest,
+	errorResponse,
+	jsonResponse,
+	Unauthorized,
+} from "@ccflare/http-common";
+import { Logger } from "@ccflare/logger";
+import {
+	clearedSessionCookie,
+	getRequestSession,
+	getSessionToken,
+	isAuthRequired,
+	SESSION_TTL_MS,
+	secretsMatch,
+	sessionCookie,
+} from "../utils/session";
+
+const log = new Logger("DashboardAuth");
+
+/**
+ * Create dashboard login handlers
+ */
+export function createAuthHandlers(dbOps: DatabaseOperations, config: Config) {
+	return {
+		/**
+		 * Report whether a login is needed and who is logged in
+		 */
+		getSession: (req: Request): Response => {
+			if (!isAuthRequired(dbOps, config)) {
+				return jsonResponse({
+					authRequired: false,
+					user: null,
+					csrfToken: null,
+				});
+			}
+
+			const session = getRequestSession(req, dbOps, config);
+			return jsonResponse({
+				authRequired: true,
+				user: session
+					? { username: session.username, role: session.role }
+					: null,
+				csrfToken: session?.csrfToken ?? null,
+			});
+		},
+
+		/**
+		 * Log in with a username and password, or with the bootstrap admin token
+		 */
+		login: async (req: Request): Promise<Response> => {
+			let body: { username?: unknown; password?: unknown; token?: unknown };
+			try {
+				body = await req.json();
+			} catch {
+				return errorResponse(BadRequest("Invalid JSON"));
+			}
+
+			let userId: string | null;
+			let user: { username: string; role: string };
+
+			if (typeof body?.token === "string") {
+				const adminToken = config.getAdminToken();
+				if (!adminToken || !secretsMatch(body.token, adminToken)) {
+					log.warn("Rejected dashboard login with an invalid admin token");
+					return errorResponse(Unauthorized("Invalid admin token"));
+				}
+				userId = null;
+				user = { username: BOOTSTRAP_SESSION_USERNAME, role: "admin" };
+			} else if (
+				typeof body?.username === "string" &&
+				typeof body?.password === "string"
+			) {
+				const found = dbOps.verifyDashboardUserPassword(
+					body.username,
+					body.password,
+				);
+				if (!found) {
+					log.warn(`Rejected dashboard login for '${body.username}'`);
+					return errorResponse(Unauthorized("Invalid username or password"));
+				}
+				userId = found.id;
+				user = { username: found.username, role: found.role };
+				dbOps.touchDashboardUserLogin(found.id);
+			} else {
+				return errorResponse(
+					BadRequest("Provide a username and password, or a token"),
+				);
+			}
+
+			dbOps.deleteExpiredDashboardSessions();
+			const { session, token } = dbOps.createDashboardSession(
+				userId,
+				SESSION_TTL_MS,
+				userId === null ? config.getAdminToken() : null,
+			);
+			log.info(`Dashboard login: ${user.username} (${user.role})`);
+
+			return jsonResponse({ user, csrfToken: session.csrfToken }, 200, {
+				"Set-Cookie": sessionCookie(req, token),
+			});
+		},
+
+		/**
+		 * End the current session
+		 */
+		logout: (req: Request): Response => {
+			const token = getSessionToken(req);
+			if (token) {
+				dbOps.deleteDashboardSession(token);
+			}
+			return jsonResponse({ success: true }, 200, {
+				"Set-Cookie": clearedSessionCookie(req),
+			});
+		},
+	};
+}
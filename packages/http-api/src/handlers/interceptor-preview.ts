@@ -0,0 +1,100 @@
+import type { DatabaseOperations } from "@ccflare/database";
+import {
+	BadRequest,
+	errorResponse,
+	jsonResponse,
+	NotFound,
+} from "@ccflare/http-common";
+import { previewInterception } from "@ccflare/proxy";
+import type { RequestPayload } from "@ccflare/types";
+
+const MESSAGES_PATH = "/v1/messages";
+
+/**
+ * Load the request body of a stored request payload
+ * @throws {HttpError} 404 if the request or its body is missing, 400 if the body is not JSON
+ */
+function loadStoredBody(
+	dbOps: DatabaseOperations,
+	requestId: string,
+): { requestId: string; body: unknown } {
+	const id =
+		requestId === "latest"
+			? dbOps.getLatestRequestPayloadId(MESSAGES_PATH)
+			: requestId;
+	if (!id) {
+		throw NotFound("No stored Messages API request found");
+	}
+
+	const payload = dbOps.getRequestPayload(id) as RequestPayload | null;
+	if (!payload) {
+		throw NotFound("Request not found");
+	}
+	// Intercepted requests keep the client's body, which is what the
+	// interceptors should be previewed against
+	const storedBody = payload.request?.originalBody || payload.request?.body;
+	if (!storedBody) {
+		throw NotFound("The stored request has no body");
+	}
+
+	try {
+		return {
+			requestId: id,
+			body: JSON.parse(Buffer.from(storedBody, "base64").toString()),
+		};
+	} catch {
+		throw BadRequest("The stored request body is not valid JSON");
+	}
+}
+
+/**
+ * Create the interceptor preview handler
+ */
+export function createInterceptorPreviewHandler(dbOps: DatabaseOperations) {
+	/**
+	 * Run the interceptors against a raw Messages API body or a stored request
+	 * without forwarding it upstream
+	 */
+	return async (req: Request): Promise<Response> => {
+		let input: unknown;
+		try {
+			input = await req.json();
+		} catch {
+			return errorResponse(BadRequest("Invalid JSON"));
+		}
+		if (typeof input !== "object" || input === null || Array.isArray(input)) {
+			return errorResponse(BadRequest("Request body must be a JSON object"));
+		}
+
+		const { body, requestId } = input as Record<string, unknown>;
+		if ((body === undefined) === (requestId === undefined)) {
+			return errorResponse(
+				BadRequest("Provide exactly one of body or requestId"),
+			);
+		}
+
+		let source: { requestId: string | null; body: unknown };
+		if (requestId !== undefined) {
+			if (typeof requestId !== "string" || !requestId) {
+				return errorResponse(BadRequest("requestId must be a string"));
+			}
+			source = loadStoredBody(dbOps, requestId);
+		} else {
+			source = { requestId: null, body };
+		}
+
+		const { messages } = (source.body ?? {}) as Record<string, unknown>;
+		if (
+			typeof source.body !== "object" ||
+			source.body === null ||
+			!Array.isArray(messages)
+		) {
+			return errorResponse(
+				BadRequest("body must be a Messages API request with a messages array"),
+			);
+		}
+
+		const preview = await previewInterception(source.body, dbOps);
+		return jsonResponse({ requestId: source.requestId, ...preview });
+	};
+}
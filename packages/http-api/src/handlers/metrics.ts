@@ -0,0 +1,166 @@
+import {
+	MetricsRegistry,
+	PROMETHEUS_CONTENT_TYPE,
+	type RequestEvt,
+	requestEvents,
+} from "@ccflare/core";
+import type { DatabaseOperations } from "@ccflare/database";
+import { getRequestQueue, getUsageWorkerWriterDepth } from "@ccflare/proxy";
+import type { RequestResponse } from "@ccflare/types";
+
+// Time to first token is much shorter than a full response
+const TTFT_BUCKETS = [0.1, 0.25, 0.5, 1, 2, 3, 5, 10, 20, 30];
+
+/**
+ * Create the Prometheus metrics handler. Request, latency, token, cost and
+ * token refresh series accumulate from the request event bus from the moment
+ * the handler is created; account, queue and writer gauges are read on each
+ * scrape.
+ */
+export function createMetricsHandler(dbOps: DatabaseOperations) {
+	const registry = new MetricsRegistry();
+	const requests = registry.counter(
+		"ccflare_requests_total",
+		"Proxied requests by response status, account, model and agent",
+		["status", "account", "model", "agent"],
+	);
+	const duration = registry.histogram(
+		"ccflare_request_duration_seconds",
+		"Time from receiving a request to the end of its response",
+		["account", "model"],
+	);
+	const ttft = registry.histogram(
+		"ccflare_time_to_first_token_seconds",
+		"Time from receiving a streamed request to its first content block",
+		["account", "model"],
+		TTFT_BUCKETS,
+	);
+	const tokens = registry.counter(
+		"ccflare_tokens_total",
+		"Tokens used, by type: input, output, cache_read or cache_creation",
+		["account", "model", "type"],
+	);
+	const cost = registry.counter(
+		"ccflare_cost_usd_total",
+		"Estimated cost in US dollars",
+		["account", "model"],
+	);
+	const refreshFailures = registry.counter(
+		"ccflare_token_refresh_failures_total",
+		"Failed OAuth token refreshes",
+		["account"],
+	);
+
+	const accountName = (accountId: string | null | undefined): string => {
+		if (!accountId) return "none";
+		return dbOps.getAccount(accountId)?.name ?? accountId;
+	};
+
+	const recordSummary = (summary: RequestResponse) => {
+		const account = accountName(summary.accountUsed);
+		const model = summary.model ?? "unknown";
+
+		requests.inc({
+			status: summary.statusCode ? String(summary.statusCode) : "error",
+			account,
+			model,
+			agent: summary.agentUsed ?? "main",
+		});
+		if (summary.responseTimeMs != null) {
+			duration.observe({ account, model }, summary.responseTimeMs / 1000);
+		}
+		if (summary.ttftMs != null) {
+			ttft.observe({ account, model }, summary.ttftMs / 1000);
+		}
+
+		const usage = {
+			input: summary.inputTokens,
+			output: summary.outputTokens,
+			cache_read: summary.cacheReadInputTokens,
+			cache_creation: summary.cacheCreationInputTokens,
+		};
+		for (const [type, count] of Object.entries(usage)) {
+			if (count) tokens.inc({ account, model, type }, count);
+		}
+		if (summary.costUsd) cost.inc({ account, model }, summary.costUsd);
+	};
+
+	requestEvents.on("event", (evt: RequestEvt) => {
+		if (evt.type === "summary") {
+			recordSummary(evt.payload);
+		} else if (evt.type === "token_refresh_failed") {
+			refreshFailures.inc({ account: accountName(evt.accountId) });
+		}
+	});
+
+	// Scrape-time gauges, re-populated from current state on every request
+	const gauges = new MetricsRegistry();
+	const rateLimited = gauges.gauge(
+		"ccflare_account_rate_limited",
+		"1 while the account is rate limited, otherwise 0",
+		["account", "provider"],
+	);
+	const rateLimitStatus = gauges.gauge(
+		"ccflare_account_rate_limit_status",
+		"Last rate limit status reported by the provider, always 1",
+		["account", "status"],
+	);
+	const rateLimitRemaining = gauges.gauge(
+		"ccflare_account_rate_limit_remaining",
+		"Requests left in the current rate limit window, when reported",
+		["account"],
+	);
+	const paused = gauges.gauge(
+		"ccflare_account_paused",
+		"1 while the account is paused, otherwise 0",
+		["account"],
+	);
+	const queueDepth = gauges.gauge(
+		"ccflare_request_queue_depth",
+		"Requests waiting for a rate-limited account to become available",
+	);
+	const writerDepth = gauges.gauge(
+		"ccflare_async_writer_queue_depth",
+		"Request log and payload writes the post-processor has not flushed yet",
+	);
+
+	const collectGauges = () => {
+		const now = Date.now();
+		for (const gauge of [
+			rateLimited,
+			rateLimitStatus,
+			rateLimitRemaining,
+			paused,
+		]) {
+			gauge.reset();
+		}
+
+		for (const account of dbOps.getAllAccounts()) {
+			const labels = { account: account.name };
+			rateLimited.set(
+				{ ...labels, provider: account.provider },
+				account.rate_limited_until && account.rate_limited_until > now ? 1 : 0,
+			);
+			if (account.rate_limit_status) {
+				rateLimitStatus.set(
+					{ ...labels, status: account.rate_limit_status },
+					1,
+				);
+			}
+			if (account.rate_limit_remaining != null) {
+				rateLimitRemaining.set(labels, account.rate_limit_remaining);
+			}
+			paused.set(labels, account.paused ? 1 : 0);
+		}
+
+		queueDepth.set({}, getRequestQueue().getStats().depth);
+		writerDepth.set({}, getUsageWorkerWriterDepth());
+	};
+
+	return (): Response => {
+		collectGauges();
+		return new Response(registry.render() + gauges.render(), {
+			headers: { "Content-Type": PROMETHEUS_CONTENT_TYPE },
+		});
+	};
+}
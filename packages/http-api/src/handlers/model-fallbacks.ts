@@ -0,0 +1,76 @@
+import type { DatabaseOperations } from "@ccflare/database";
+import {
+	BadRequest,
+	errorResponse,
+	jsonResponse,
+	NotFound,
+} from "@ccflare/http-common";
+
+const MODEL_PATTERN = /^[\w.:@/-]{1,128}$/;
+
+/**
+ * Validate a model id
+ * @throws {HttpError} 400 if it is empty or has unsupported characters
+ */
+function validateModel(value: unknown, field: string): string {
+	const model = typeof value === "string" ? value.trim() : "";
+	if (!MODEL_PATTERN.test(model)) {
+		throw BadRequest(`${field} must be a model id`);
+	}
+	return model;
+}
+
+/**
+ * Validate a fallback chain, dropping duplicates and the model itself
+ * @throws {HttpError} 400 if it is not a non-empty array of model ids
+ */
+function validateFallbacks(value: unknown, model: string): string[] {
+	if (!Array.isArray(value)) {
+		throw BadRequest("fallbacks must be an array of model ids");
+	}
+	const fallbacks = [
+		...new Set(value.map((fallback) => validateModel(fallback, "fallbacks"))),
+	].filter((fallback) => fallback !== model);
+	if (fallbacks.length === 0) {
+		throw BadRequest("fallbacks must name at least one other model");
+	}
+	return fallbacks;
+}
+
+/**
+ * Create handlers for per-model fallback chains
+ */
+export function createModelFallbackHandler(dbOps: DatabaseOperations) {
+	return {
+		listChains: (): Response => {
+			return jsonResponse({ chains: dbOps.listModelFallbackChains() });
+		},
+
+		/**
+		 * Create or replace the fallback chain of a model
+		 */
+		setChain: async (req: Request, model: string): Promise<Response> => {
+			let body: Record<string, unknown>;
+			try {
+				body = await req.json();
+			} catch {
+				return errorResponse(BadRequest("Invalid JSON"));
+			}
+
+			try {
+				const id = validateModel(model, "model");
+				const fallbacks = validateFallbacks(body?.fallbacks, id);
+				return jsonResponse(dbOps.setModelFallbackChain(id, fallbacks));
+			} catch (error) {
+				return errorResponse(error);
+			}
+		},
+
+		deleteChain: (model: string): Response => {
+			if (!dbOps.deleteModelFallbackChain(model)) {
+				return errorResponse(NotFound("Fallback chain not found"));
+			}
+			return jsonResponse({ success: true });
+		},
+	};
+}
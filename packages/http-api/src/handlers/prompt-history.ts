@@ -0,0 +1,178 @@
+import { diffLines, ValidationError, validateNumber } from "@ccflare/core";
+import type {
+	DatabaseOperations,
+	PromptHistoryKind,
+	PromptVersion,
+} from "@ccflare/database";
+import {
+	BadRequest,
+	errorResponse,
+	jsonResponse,
+	NotFound,
+} from "@ccflare/http-common";
+
+const HISTORY_KINDS: PromptHistoryKind[] = ["system_prompt", "tools"];
+
+interface HistoryTool {
+	name?: string;
+	description?: string;
+	input_schema?: unknown;
+}
+
+/**
+ * Parse a stored tools array, tolerating malformed history rows
+ */
+function parseTools(content: string): HistoryTool[] {
+	try {
+		const tools = JSON.parse(content);
+		return Array.isArray(tools) ? tools : [];
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * Render a tools array as readable text so descriptions diff line by line
+ */
+function formatToolsForDiff(content: string): string {
+	return parseTools(content)
+		.map((tool) =>
+			[
+				`### ${tool.name ?? "(unnamed)"}`,
+				tool.description ?? "",
+				"",
+				JSON.stringify(tool.input_schema ?? {}, null, 2),
+			].join("\n"),
+		)
+		.join("\n\n");
+}
+
+/**
+ * Summarise which tools were added, removed or changed between two versions
+ */
+function compareTools(from: PromptVersion, to: PromptVersion) {
+	const index = (content: string) =>
+		new Map(
+			parseTools(content).map((tool) => [
+				tool.name ?? "",
+				JSON.stringify(tool),
+			]),
+		);
+	const before = index(from.content);
+	const after = index(to.content);
+
+	return {
+		added: [...after.keys()].filter((name) => !before.has(name)),
+		removed: [...before.keys()].filter((name) => !after.has(name)),
+		changed: [...after.keys()].filter(
+			(name) => before.has(name) && before.get(name) !== after.get(name),
+		),
+	};
+}
+
+/**
+ * Parse a numeric path segment or query parameter
+ * @throws {HttpError} 400 if the value is invalid
+ */
+function parseNumberParam(
+	value: string | null,
+	field: string,
+	options: Parameters<typeof validateNumber>[2],
+): number | undefined {
+	try {
+		return validateNumber(value ?? undefined, field, options);
+	} catch (error) {
+		if (error instanceof ValidationError) {
+			throw BadRequest(error.message);
+		}
+		throw error;
+	}
+}
+
+/**
+ * Parse a version id, which must be a positive integer
+ * @throws {HttpError} 400 if the id is missing or invalid
+ */
+function parseVersionId(value: string | null, field: string): number {
+	return parseNumberParam(value, field, {
+		required: true,
+		min: 1,
+		integer: true,
+	}) as number;
+}
+
+/**
+ * Create handlers for the upstream system prompt and tools history
+ */
+export function createPromptHistoryHandler(dbOps: DatabaseOperations) {
+	return {
+		/**
+		 * List versions of one kind, newest first, without their content
+		 */
+		listVersions: (url: URL): Response => {
+			const kind = (url.searchParams.get("kind") ||
+				"system_prompt") as PromptHistoryKind;
+			if (!HISTORY_KINDS.includes(kind)) {
+				return errorResponse(
+					BadRequest(`kind must be one of: ${HISTORY_KINDS.join(", ")}`),
+				);
+			}
+			const limit = parseNumberParam(
+				url.searchParams.get("limit") || "100",
+				"limit",
+				{ min: 1, max: 1000, integer: true },
+			);
+
+			return jsonResponse(dbOps.listPromptVersions(kind, limit));
+		},
+
+		/**
+		 * Get a single version including its content
+		 */
+		getVersion: (idParam: string): Response => {
+			const version = dbOps.getPromptVersion(parseVersionId(idParam, "id"));
+			if (!version) {
+				return errorResponse(NotFound("Prompt version not found"));
+			}
+			return jsonResponse(version);
+		},
+
+		/**
+		 * Diff two versions of the same kind
+		 */
+		diffVersions: (url: URL): Response => {
+			const fromId = parseVersionId(url.searchParams.get("from"), "from");
+			const toId = parseVersionId(url.searchParams.get("to"), "to");
+
+			const from = dbOps.getPromptVersion(fromId);
+			const to = dbOps.getPromptVersion(toId);
+			if (!from || !to) {
+				return errorResponse(NotFound("Prompt version not found"));
+			}
+			if (from.kind !== to.kind) {
+				return errorResponse(
+					BadRequest("Cannot diff versions of different kinds"),
+				);
+			}
+
+			const isTools = from.kind === "tools";
+			const diff = isTools
+				? diffLines(
+						formatToolsForDiff(from.content),
+						formatToolsForDiff(to.content),
+					)
+				: diffLines(from.content, to.content);
+
+			const { content: _fromContent, ...fromSummary } = from;
+			const { content: _toContent, ...toSummary } = to;
+
+			return jsonResponse({
+				kind: from.kind,
+				from: fromSummary,
+				to: toSummary,
+				...diff,
+				...(isTools ? { toolChanges: compareTools(from, to) } : {}),
+			});
+		},
+	};
+}
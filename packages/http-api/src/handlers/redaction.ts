@@ -0,0 +1,159 @@
+import {
+	isRedactionAction,
+	REDACTION_ACTIONS,
+	REDACTION_DETECTORS,
+	type RedactionAction,
+	ValidationError,
+	validateRedactionRule,
+} from "@ccflare/core";
+import {
+	type DatabaseOperations,
+	isPayloadStorageMode,
+	PAYLOAD_STORAGE_MODES,
+	type RedactionRuleUpdate,
+} from "@ccflare/database";
+import {
+	BadRequest,
+	errorResponse,
+	jsonResponse,
+	NotFound,
+} from "@ccflare/http-common";
+
+const RULE_NAME_PATTERN = /^[\w.-]{1,64}$/;
+const RULE_NAME_ERROR =
+	"name must be 1-64 letters, digits, underscores, dots or hyphens";
+
+async function readJson(req: Request): Promise<Record<string, unknown> | null> {
+	try {
+		const body = await req.json();
+		return body && typeof body === "object" ? body : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Create handlers for the payload storage mode and redaction rules
+ */
+export function createRedactionHandler(dbOps: DatabaseOperations) {
+	return {
+		/**
+		 * Current storage mode, rules and the available built-in detectors
+		 */
+		getSettings: (): Response => {
+			return jsonResponse({
+				mode: dbOps.getPayloadStorageMode(),
+				rules: dbOps.listRedactionRules(),
+				detectors: Object.entries(REDACTION_DETECTORS).map(
+					([id, { label, description }]) => ({ id, label, description }),
+				),
+			});
+		},
+
+		setMode: async (req: Request): Promise<Response> => {
+			const body = await readJson(req);
+			if (!body) {
+				return errorResponse(BadRequest("Invalid JSON"));
+			}
+			if (!isPayloadStorageMode(body.mode)) {
+				return errorResponse(
+					BadRequest(
+						`mode must be one of: ${PAYLOAD_STORAGE_MODES.join(", ")}`,
+					),
+				);
+			}
+
+			dbOps.setPayloadStorageMode(body.mode);
+			return jsonResponse({ mode: body.mode });
+		},
+
+		/**
+		 * Create a rule from a built-in detector or a custom pattern
+		 */
+		createRule: async (req: Request): Promise<Response> => {
+			const body = await readJson(req);
+			if (!body) {
+				return errorResponse(BadRequest("Invalid JSON"));
+			}
+
+			const name = typeof body.name === "string" ? body.name.trim() : "";
+			if (!RULE_NAME_PATTERN.test(name)) {
+				return errorResponse(BadRequest(RULE_NAME_ERROR));
+			}
+			const detector =
+				typeof body.detector === "string" && body.detector
+					? body.detector
+					: null;
+			const pattern =
+				!detector && typeof body.pattern === "string" && body.pattern
+					? body.pattern
+					: null;
+			const action = (body.action ?? "mask") as RedactionAction;
+
+			try {
+				validateRedactionRule({ name, detector, pattern, action });
+			} catch (error) {
+				if (error instanceof ValidationError) {
+					return errorResponse(BadRequest(error.message));
+				}
+				throw error;
+			}
+
+			const rule = dbOps.createRedactionRule({
+				name,
+				detector,
+				pattern,
+				action,
+			});
+			return jsonResponse(rule, 201);
+		},
+
+		/**
+		 * Rename a rule, change its action or turn it on or off
+		 */
+		updateRule: async (req: Request, id: string): Promise<Response> => {
+			if (!dbOps.getRedactionRule(id)) {
+				return errorResponse(NotFound("Redaction rule not found"));
+			}
+			const body = await readJson(req);
+			if (!body) {
+				return errorResponse(BadRequest("Invalid JSON"));
+			}
+
+			const update: RedactionRuleUpdate = {};
+			if (body.name !== undefined) {
+				const name = typeof body.name === "string" ? body.name.trim() : "";
+				if (!RULE_NAME_PATTERN.test(name)) {
+					return errorResponse(BadRequest(RULE_NAME_ERROR));
+				}
+				update.name = name;
+			}
+			if (body.action !== undefined) {
+				if (!isRedactionAction(body.action)) {
+					return errorResponse(
+						BadRequest(
+							`action must be one of: ${REDACTION_ACTIONS.join(", ")}`,
+						),
+					);
+				}
+				update.action = body.action;
+			}
+			if (body.isEnabled !== undefined) {
+				if (typeof body.isEnabled !== "boolean") {
+					return errorResponse(BadRequest("isEnabled must be a boolean"));
+				}
+				update.isEnabled = body.isEnabled;
+			}
+
+			dbOps.updateRedactionRule(id, update);
+			return jsonResponse(dbOps.getRedactionRule(id));
+		},
+
+		deleteRule: (id: string): Response => {
+			if (!dbOps.deleteRedactionRule(id)) {
+				return errorResponse(NotFound("Redaction rule not found"));
+			}
+			return jsonResponse({ success: true });
+		},
+	};
+}
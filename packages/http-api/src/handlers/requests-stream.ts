@@ -11,6 +11,8 @@ export function createRequestsStreamHandler() {
 
 				// Helper to send SSE formatted data
 				writeHandler = (data: RequestEvt) => {
+					// Only request lifecycle events belong in the request feed
+					if (data.type === "token_refresh_failed") return;
 					const message = `data: ${JSON.stringify(data)}\n\n`;
 					controller.enqueue(encoder.encode(message));
 				};
@@ -1,96 +1,304 @@
-import type { Database } from "bun:sqlite";
-import type { DatabaseOperations } from "@ccflare/database";
-import { jsonResponse } from "@ccflare/http-common";
+import { ValidationError, validateNumber } from "@ccflare/core";
+import {
+	type ConversationRow,
+	type DatabaseOperations,
+	type RequestSearchRow,
+	SNIPPET_MATCH_END,
+	SNIPPET_MATCH_START,
+} from "@ccflare/database";
+import {
+	BadRequest,
+	errorResponse,
+	jsonResponse,
+	NotFound,
+} from "@ccflare/http-common";
+import {
+	type ConversationPage,
+	type ConversationSummary,
+	type ConversationTimeline,
+	type ConversationTurn,
+	type RequestFilters,
+	type RequestPage,
+	type RequestTextMatch,
+	type SearchSnippetPart,
+	toRequest,
+	toRequestResponse,
+} from "@ccflare/types";
 import type { RequestResponse } from "../types";
 
 /**
- * Create a requests summary handler (existing functionality)
+ * Parse an optional numeric query parameter
+ * @throws {HttpError} 400 if the value is invalid
  */
-export function createRequestsSummaryHandler(db: Database) {
-	return (limit: number = 50): Response => {
-		const requests = db
-			.query(
-				`
-				SELECT r.*, a.name as account_name
-				FROM requests r
-				LEFT JOIN accounts a ON r.account_used = a.id
-				ORDER BY r.timestamp DESC
-				LIMIT ?1
-			`,
-			)
-			.all(limit) as Array<{
-			id: string;
-			timestamp: number;
-			method: string;
-			path: string;
-			account_used: string | null;
-			account_name: string | null;
-			status_code: number | null;
-			success: 0 | 1;
-			error_message: string | null;
-			response_time_ms: number | null;
-			failover_attempts: number;
-			model: string | null;
-			prompt_tokens: number | null;
-			completion_tokens: number | null;
-			total_tokens: number | null;
-			input_tokens: number | null;
-			cache_read_input_tokens: number | null;
-			cache_creation_input_tokens: number | null;
-			output_tokens: number | null;
-			cost_usd: number | null;
-			agent_used: string | null;
-			output_tokens_per_second: number | null;
-		}>;
-
-		const response: RequestResponse[] = requests.map((request) => ({
-			id: request.id,
-			timestamp: new Date(request.timestamp).toISOString(),
-			method: request.method,
-			path: request.path,
-			accountUsed: request.account_name || request.account_used,
-			statusCode: request.status_code,
-			success: request.success === 1,
-			errorMessage: request.error_message,
-			responseTimeMs: request.response_time_ms,
-			failoverAttempts: request.failover_attempts,
-			model: request.model || undefined,
-			promptTokens: request.prompt_tokens || undefined,
-			completionTokens: request.completion_tokens || undefined,
-			totalTokens: request.total_tokens || undefined,
-			inputTokens: request.input_tokens || undefined,
-			cacheReadInputTokens: request.cache_read_input_tokens || undefined,
-			cacheCreationInputTokens:
-				request.cache_creation_input_tokens || undefined,
-			outputTokens: request.output_tokens || undefined,
-			costUsd: request.cost_usd || undefined,
-			agentUsed: request.agent_used || undefined,
-			tokensPerSecond: request.output_tokens_per_second || undefined,
+function parseNumberParam(
+	params: URLSearchParams,
+	field: string,
+	options: Parameters<typeof validateNumber>[2],
+): number | undefined {
+	const value = params.get(field);
+	if (!value) return undefined;
+	try {
+		return validateNumber(value, field, options);
+	} catch (error) {
+		if (error instanceof ValidationError) {
+			throw BadRequest(error.message);
+		}
+		throw error;
+	}
+}
+
+/**
+ * Parse a date query parameter given as unix milliseconds or an ISO date
+ * @throws {HttpError} 400 if the value is not a date
+ */
+function parseDateParam(
+	params: URLSearchParams,
+	field: string,
+): number | undefined {
+	const value = params.get(field);
+	if (!value) return undefined;
+	const timestamp = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+	if (Number.isNaN(timestamp)) {
+		throw BadRequest(`${field} must be a timestamp or ISO date`);
+	}
+	return timestamp;
+}
+
+/**
+ * Parse the request search filters from query parameters
+ * @throws {HttpError} 400 if a filter is invalid
+ */
+function parseRequestFilters(params: URLSearchParams): RequestFilters {
+	const status = params.get("status")?.split(",").filter(Boolean);
+	return {
+		account: params.get("account") || undefined,
+		model: params.get("model") || undefined,
+		agent: params.get("agent") || undefined,
+		status: status?.length ? status : undefined,
+		from: parseDateParam(params, "from"),
+		to: parseDateParam(params, "to"),
+		minCost: parseNumberParam(params, "minCost", { min: 0 }),
+		minTokens: parseNumberParam(params, "minTokens", {
+			min: 0,
+			integer: true,
+		}),
+		path: params.get("path") || undefined,
+	};
+}
+
+function toSummary(row: RequestSearchRow): RequestResponse {
+	return toRequestResponse({
+		...toRequest(row),
+		accountUsed: row.account_name || row.account_used,
+		apiKeyName: row.api_key_name || undefined,
+	});
+}
+
+function toConversationSummary(row: ConversationRow): ConversationSummary {
+	return {
+		id: row.conversation_id,
+		firstTimestamp: new Date(row.first_timestamp).toISOString(),
+		lastTimestamp: new Date(row.last_timestamp).toISOString(),
+		requestCount: row.request_count,
+		totalTokens: row.total_tokens,
+		costUsd: row.cost_usd,
+		models: row.models?.split(",") ?? [],
+		agents: row.agents?.split(",") ?? [],
+	};
+}
+
+/**
+ * Parse a stored payload, adding the account and client key names to its meta
+ */
+function toPayloadResponse(row: {
+	id: string;
+	json: string;
+	account_name: string | null;
+	api_key_name: string | null;
+}) {
+	try {
+		const data = JSON.parse(row.json);
+		// Add account name to the meta field if available
+		if (row.account_name && data.meta) {
+			data.meta.accountName = row.account_name;
+		}
+		if (row.api_key_name && data.meta) {
+			data.meta.apiKeyName = row.api_key_name;
+		}
+		return { id: row.id, ...data };
+	} catch {
+		return { id: row.id, error: "Failed to parse payload" };
+	}
+}
+
+/**
+ * Split a search snippet into plain and matched parts
+ */
+function toSnippetParts(snippet: string): SearchSnippetPart[] {
+	const parts: SearchSnippetPart[] = [];
+	for (const [i, section] of snippet.split(SNIPPET_MATCH_START).entries()) {
+		const [matched, rest] =
+			i === 0 ? [null, section] : section.split(SNIPPET_MATCH_END, 2);
+		if (matched) parts.push({ text: matched, match: true });
+		if (rest) parts.push({ text: rest, match: false });
+	}
+	return parts;
+}
+
+/**
+ * Create a requests summary handler that searches the full request history,
+ * filtered by the query parameters and paginated with an opaque cursor
+ */
+export function createRequestsSummaryHandler(dbOps: DatabaseOperations) {
+	return (params: URLSearchParams): Response => {
+		const limit =
+			parseNumberParam(params, "limit", { min: 1, max: 1000, integer: true }) ??
+			50;
+		const filters = parseRequestFilters(params);
+
+		let page: ReturnType<DatabaseOperations["searchRequests"]>;
+		try {
+			page = dbOps.searchRequests(filters, limit, params.get("cursor"));
+		} catch (error) {
+			if (error instanceof ValidationError) {
+				throw BadRequest(error.message);
+			}
+			throw error;
+		}
+
+		const response: RequestPage = {
+			requests: page.rows.map(toSummary),
+			nextCursor: page.nextCursor,
+		};
+		return jsonResponse(response);
+	};
+}
+
+/**
+ * Create a handler for full-text search over the prompts, responses and tool
+ * calls of stored requests
+ */
+export function createRequestTextSearchHandler(dbOps: DatabaseOperations) {
+	return (params: URLSearchParams): Response => {
+		const query = params.get("q")?.trim();
+		if (!query) {
+			throw BadRequest("q is required");
+		}
+		const limit =
+			parseNumberParam(params, "limit", { min: 1, max: 200, integer: true }) ??
+			50;
+
+		let rows: ReturnType<DatabaseOperations["searchRequestText"]>;
+		try {
+			rows = dbOps.searchRequestText(query, limit);
+		} catch (error) {
+			if (error instanceof ValidationError) {
+				throw BadRequest(error.message);
+			}
+			throw error;
+		}
+
+		const results: RequestTextMatch[] = rows.map((row) => ({
+			...toSummary(row),
+			snippet: toSnippetParts(row.snippet),
 		}));
+		return jsonResponse({ results });
+	};
+}
+
+/**
+ * Create a handler listing conversations, most recently active first and
+ * paginated with an opaque cursor
+ */
+export function createConversationsListHandler(dbOps: DatabaseOperations) {
+	return (params: URLSearchParams): Response => {
+		const limit =
+			parseNumberParam(params, "limit", { min: 1, max: 200, integer: true }) ??
+			50;
+
+		let page: ReturnType<DatabaseOperations["listConversations"]>;
+		try {
+			page = dbOps.listConversations(limit, params.get("cursor"));
+		} catch (error) {
+			if (error instanceof ValidationError) {
+				throw BadRequest(error.message);
+			}
+			throw error;
+		}
 
+		const response: ConversationPage = {
+			conversations: page.rows.map(toConversationSummary),
+			nextCursor: page.nextCursor,
+		};
 		return jsonResponse(response);
 	};
 }
 
+/**
+ * Create a handler returning the timeline of a conversation, with running
+ * token and cost totals
+ */
+export function createConversationHandler(dbOps: DatabaseOperations) {
+	return (id: string): Response => {
+		const rows = dbOps.getConversationRequests(id);
+		if (rows.length === 0) {
+			return errorResponse(NotFound("Conversation not found"));
+		}
+
+		let cumulativeTokens = 0;
+		let cumulativeCostUsd = 0;
+		const turns: ConversationTurn[] = rows.map((row) => {
+			cumulativeTokens += row.total_tokens || 0;
+			cumulativeCostUsd += row.cost_usd || 0;
+			return {
+				...toSummary(row),
+				cumulativeTokens,
+				cumulativeCostUsd,
+				hasPayload: row.has_payload === 1,
+			};
+		});
+
+		const models = new Set<string>();
+		const agents = new Set<string>();
+		for (const turn of turns) {
+			if (turn.model) models.add(turn.model);
+			if (turn.agentUsed) agents.add(turn.agentUsed);
+		}
+
+		const timeline: ConversationTimeline = {
+			id,
+			firstTimestamp: turns[0].timestamp,
+			lastTimestamp: turns[turns.length - 1].timestamp,
+			requestCount: turns.length,
+			totalTokens: cumulativeTokens,
+			costUsd: cumulativeCostUsd,
+			models: [...models],
+			agents: [...agents],
+			turns,
+		};
+		return jsonResponse(timeline);
+	};
+}
+
 /**
  * Create a detailed requests handler with full payload data
  */
 export function createRequestsDetailHandler(dbOps: DatabaseOperations) {
 	return (limit = 100): Response => {
 		const rows = dbOps.listRequestPayloadsWithAccountNames(limit);
-		const parsed = rows.map((r) => {
-			try {
-				const data = JSON.parse(r.json);
-				// Add account name to the meta field if available
-				if (r.account_name && data.meta) {
-					data.meta.accountName = r.account_name;
-				}
-				return { id: r.id, ...data };
-			} catch {
-				return { id: r.id, error: "Failed to parse payload" };
-			}
-		});
+		return jsonResponse(rows.map(toPayloadResponse));
+	};
+}
 
-		return jsonResponse(parsed);
+/**
+ * Create a handler returning the stored payload of one request
+ */
+export function createRequestPayloadHandler(dbOps: DatabaseOperations) {
+	return (id: string): Response => {
+		const row = dbOps.getRequestPayloadWithAccountNames(id);
+		if (!row) {
+			return errorResponse(NotFound("Request payload not found"));
+		}
+		return jsonResponse(toPayloadResponse(row));
 	};
 }
@@ -0,0 +1,220 @@
+import type {
+	DatabaseOperations,
+	RoutingMatchRules,
+	RoutingRuleUpdate,
+} from "@ccflare/database";
+import {
+	BadRequest,
+	errorResponse,
+	jsonResponse,
+	NotFound,
+} from "@ccflare/http-common";
+import { ACCOUNT_GROUP_PATTERN } from "@ccflare/types";
+
+const RULE_NAME_PATTERN = /^[\w .-]{1,64}$/;
+const HEADER_NAME_PATTERN = /^[\w-]{1,128}$/;
+
+async function readJson(req: Request): Promise<Record<string, unknown> | null> {
+	try {
+		const body = await req.json();
+		return body && typeof body === "object" ? body : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Validate a rule name
+ * @throws {HttpError} 400 if it is empty or has unsupported characters
+ */
+function validateName(value: unknown): string {
+	const name = typeof value === "string" ? value.trim() : "";
+	if (!RULE_NAME_PATTERN.test(name)) {
+		throw BadRequest(
+			"name must be 1-64 letters, digits, spaces, underscores, dots or hyphens",
+		);
+	}
+	return name;
+}
+
+/**
+ * Validate an account group name
+ * @throws {HttpError} 400 if it is not a valid group name
+ */
+function validateGroup(value: unknown, field: string): string {
+	const group = typeof value === "string" ? value.trim() : "";
+	if (!ACCOUNT_GROUP_PATTERN.test(group)) {
+		throw BadRequest(
+			`${field} must be 1-64 letters, digits, underscores, dots or hyphens`,
+		);
+	}
+	return group;
+}
+
+/**
+ * Validate fallback groups, dropping duplicates and the primary group
+ * @throws {HttpError} 400 if it is not an array of group names
+ */
+function validateFallbackGroups(value: unknown, primary: string): string[] {
+	if (value === undefined || value === null) return [];
+	if (!Array.isArray(value)) {
+		throw BadRequest("fallbackGroups must be an array of group names");
+	}
+	const groups = value.map((group) => validateGroup(group, "fallbackGroups"));
+	return [...new Set(groups)].filter((group) => group !== primary);
+}
+
+function validatePriority(value: unknown): number {
+	if (value === undefined || value === null) return 0;
+	if (typeof value !== "number" || !Number.isInteger(value)) {
+		throw BadRequest("priority must be an integer");
+	}
+	return value;
+}
+
+/**
+ * Validate rule match conditions, dropping empty values
+ * @throws {HttpError} 400 if a condition is malformed
+ */
+function validateMatch(match: unknown): RoutingMatchRules {
+	if (match === undefined || match === null) return {};
+	if (typeof match !== "object" || Array.isArray(match)) {
+		throw BadRequest("match must be an object");
+	}
+
+	const input = match as Record<string, unknown>;
+	const rules: RoutingMatchRules = {};
+	for (const key of ["model", "agent", "path", "apiKeyId"] as const) {
+		const value = input[key];
+		if (value === undefined || value === null || value === "") continue;
+		if (typeof value !== "string") {
+			throw BadRequest(`match.${key} must be a string`);
+		}
+		rules[key] = value.trim();
+	}
+
+	if (rules.path && !rules.path.startsWith("/")) {
+		throw BadRequest("match.path must start with /");
+	}
+
+	const header = input.header;
+	if (header !== undefined && header !== null) {
+		if (typeof header !== "object" || Array.isArray(header)) {
+			throw BadRequest("match.header must be an object with a name");
+		}
+		const { name, value } = header as Record<string, unknown>;
+		if (typeof name !== "string" || !HEADER_NAME_PATTERN.test(name.trim())) {
+			throw BadRequest("match.header.name must be a valid header name");
+		}
+		if (value !== undefined && value !== null && typeof value !== "string") {
+			throw BadRequest("match.header.value must be a string");
+		}
+		rules.header = {
+			name: name.trim().toLowerCase(),
+			...(typeof value === "string" && value !== "" ? { value } : {}),
+		};
+	}
+
+	return rules;
+}
+
+/**
+ * Create handlers for account group routing rules
+ */
+export function createRoutingHandler(dbOps: DatabaseOperations) {
+	return {
+		/**
+		 * Rules in evaluation order and the groups accounts are tagged with
+		 */
+		getRouting: (): Response => {
+			const groups = new Map<string, string[]>();
+			for (const account of dbOps.getAllAccounts()) {
+				for (const group of account.groups) {
+					groups.set(group, [...(groups.get(group) ?? []), account.name]);
+				}
+			}
+
+			return jsonResponse({
+				rules: dbOps.listRoutingRules(),
+				groups: [...groups.entries()]
+					.sort(([a], [b]) => a.localeCompare(b))
+					.map(([name, accounts]) => ({ name, accounts })),
+			});
+		},
+
+		createRule: async (req: Request): Promise<Response> => {
+			const body = await readJson(req);
+			if (!body) {
+				return errorResponse(BadRequest("Invalid JSON"));
+			}
+
+			try {
+				const group = validateGroup(body.group, "group");
+				const rule = dbOps.createRoutingRule({
+					name: validateName(body.name),
+					priority: validatePriority(body.priority),
+					match: validateMatch(body.match),
+					group,
+					fallbackGroups: validateFallbackGroups(body.fallbackGroups, group),
+				});
+				return jsonResponse(rule, 201);
+			} catch (error) {
+				return errorResponse(error);
+			}
+		},
+
+		/**
+		 * Update any field of a rule, including turning it on or off
+		 */
+		updateRule: async (req: Request, id: string): Promise<Response> => {
+			const current = dbOps.getRoutingRule(id);
+			if (!current) {
+				return errorResponse(NotFound("Routing rule not found"));
+			}
+			const body = await readJson(req);
+			if (!body) {
+				return errorResponse(BadRequest("Invalid JSON"));
+			}
+
+			try {
+				const update: RoutingRuleUpdate = {};
+				if (body.name !== undefined) {
+					update.name = validateName(body.name);
+				}
+				if (body.priority !== undefined) {
+					update.priority = validatePriority(body.priority);
+				}
+				if (body.match !== undefined) {
+					update.match = validateMatch(body.match);
+				}
+				if (body.group !== undefined) {
+					update.group = validateGroup(body.group, "group");
+				}
+				if (body.fallbackGroups !== undefined || update.group) {
+					update.fallbackGroups = validateFallbackGroups(
+						body.fallbackGroups ?? current.fallbackGroups,
+						update.group ?? current.group,
+					);
+				}
+				if (body.isEnabled !== undefined) {
+					if (typeof body.isEnabled !== "boolean") {
+						throw BadRequest("isEnabled must be a boolean");
+					}
+					update.isEnabled = body.isEnabled;
+				}
+
+				dbOps.updateRoutingRule(id, update);
+				return jsonResponse(dbOps.getRoutingRule(id));
+			} catch (error) {
+				return errorResponse(error);
+			}
+		},
+
+		deleteRule: (id: string): Response => {
+			if (!dbOps.deleteRoutingRule(id)) {
+				return errorResponse(NotFound("Routing rule not found"));
+			}
+			return jsonResponse({ success: true });
+		},
+	};
+}
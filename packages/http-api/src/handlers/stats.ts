@@ -1,5 +1,6 @@
 import type { DatabaseOperations } from "@ccflare/database";
 import { jsonResponse } from "@ccflare/http-common";
+import { getRequestQueue } from "@ccflare/proxy";
 
 /**
  * Create a stats handler
@@ -37,6 +38,7 @@ export function createStatsHandler(dbOps: DatabaseOperations) {
 			avgTokensPerSecond: stats.avgTokensPerSecond,
 			accounts: accountsWithStats,
 			recentErrors,
+			queue: getRequestQueue().getStats(),
 		};
 
 		return jsonResponse(response);
@@ -51,6 +53,7 @@ export function createStatsResetHandler(dbOps: DatabaseOperations) {
 		const db = dbOps.getDatabase();
 		// Clear request history
 		db.run("DELETE FROM requests");
+		db.run("DELETE FROM conversations");
 		// Reset account statistics
 		db.run("UPDATE accounts SET request_count = 0, session_request_count = 0");
 
@@ -1,5 +1,211 @@
-import type { DatabaseOperations } from "@ccflare/database";
-import { BadRequest, errorResponse, jsonResponse } from "@ccflare/http-common";
+import crypto from "node:crypto";
+import {
+	ValidationError,
+	validateBoolean,
+	validateNumber,
+	validatePromptTemplate,
+	validateString,
+} from "@ccflare/core";
+import type {
+	DatabaseOperations,
+	InterceptorMatchRules,
+	InterceptorProfile,
+	SyntheticTool,
+	ToolOverride,
+} from "@ccflare/database";
+import {
+	BadRequest,
+	errorResponse,
+	jsonResponse,
+	NotFound,
+} from "@ccflare/http-common";
+
+const DEFAULT_TARGET_PROMPT =
+	"You are Claude Code, Anthropic's official CLI for Claude.";
+const DEFAULT_TEMPLATE =
+	"You are a helpful assistant.\n\n---\n\n{{env_block}}\n\n{{git_status_block}}";
+// Tool names accepted by the Messages API
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+/**
+ * Read the last-seen tools array of the main agent from the KV store
+ */
+function getAvailableTools(dbOps: DatabaseOperations): unknown[] {
+	const lastSeenToolsJson = dbOps.getSystemKV("last_seen_tools");
+	if (!lastSeenToolsJson) return [];
+	try {
+		return JSON.parse(lastSeenToolsJson);
+	} catch (_error) {
+		// If parsing fails, default to empty array
+		return [];
+	}
+}
+
+/**
+ * Validate a per-tool overrides object
+ * @throws {HttpError} 400 if any override is malformed
+ */
+function validateToolOverrides(
+	tools: unknown,
+	field = "config.tools",
+): Record<string, ToolOverride> {
+	if (tools === undefined || tools === null) {
+		return {};
+	}
+	if (typeof tools !== "object" || Array.isArray(tools)) {
+		throw BadRequest(`${field} must be an object`);
+	}
+
+	for (const [toolName, override] of Object.entries(tools)) {
+		if (typeof override !== "object" || override === null) {
+			throw BadRequest(`${field}.${toolName} must be an object`);
+		}
+		const toolOverride = override as Record<string, unknown>;
+		if (typeof toolOverride.isEnabled !== "boolean") {
+			throw BadRequest(`${field}.${toolName}.isEnabled must be a boolean`);
+		}
+		if (
+			toolOverride.description !== undefined &&
+			typeof toolOverride.description !== "string"
+		) {
+			throw BadRequest(
+				`${field}.${toolName}.description must be a string if provided`,
+			);
+		}
+		if (
+			toolOverride.hiddenParameters !== undefined &&
+			(!Array.isArray(toolOverride.hiddenParameters) ||
+				toolOverride.hiddenParameters.some((name) => typeof name !== "string"))
+		) {
+			throw BadRequest(
+				`${field}.${toolName}.hiddenParameters must be an array of strings`,
+			);
+		}
+		if (
+			toolOverride.schemaPatch !== undefined &&
+			!isJsonObject(toolOverride.schemaPatch)
+		) {
+			throw BadRequest(`${field}.${toolName}.schemaPatch must be an object`);
+		}
+	}
+
+	return tools as Record<string, ToolOverride>;
+}
+
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate synthetic tool definitions
+ * @throws {HttpError} 400 if a definition is malformed or names repeat
+ */
+function validateSyntheticTools(tools: unknown): SyntheticTool[] {
+	if (!Array.isArray(tools)) {
+		throw BadRequest("config.syntheticTools must be an array");
+	}
+
+	const names = new Set<string>();
+	return tools.map((tool, index) => {
+		const field = `config.syntheticTools[${index}]`;
+		if (!isJsonObject(tool)) {
+			throw BadRequest(`${field} must be an object`);
+		}
+		if (typeof tool.name !== "string" || !TOOL_NAME_PATTERN.test(tool.name)) {
+			throw BadRequest(
+				`${field}.name must be 1-64 letters, digits, underscores or hyphens`,
+			);
+		}
+		if (names.has(tool.name)) {
+			throw BadRequest(`Duplicate synthetic tool name: ${tool.name}`);
+		}
+		names.add(tool.name);
+		if (
+			tool.description !== undefined &&
+			typeof tool.description !== "string"
+		) {
+			throw BadRequest(`${field}.description must be a string if provided`);
+		}
+		if (
+			!isJsonObject(tool.input_schema) ||
+			tool.input_schema.type !== "object"
+		) {
+			throw BadRequest(
+				`${field}.input_schema must be a JSON schema object with type "object"`,
+			);
+		}
+
+		return {
+			name: tool.name,
+			...(tool.description ? { description: tool.description } : {}),
+			input_schema: tool.input_schema,
+		};
+	});
+}
+
+/**
+ * Validate a tool order list
+ * @throws {HttpError} 400 if it is not an array of unique names
+ */
+function validateToolOrder(order: unknown): string[] {
+	if (!Array.isArray(order) || order.some((name) => typeof name !== "string")) {
+		throw BadRequest("config.toolOrder must be an array of tool names");
+	}
+	return [...new Set(order as string[])];
+}
+
+/**
+ * Validate profile match rules, dropping empty values
+ * @throws {HttpError} 400 if a rule is malformed
+ */
+function validateMatchRules(match: unknown): InterceptorMatchRules | undefined {
+	if (match === undefined || match === null) {
+		return undefined;
+	}
+	if (typeof match !== "object" || Array.isArray(match)) {
+		throw BadRequest("config.match must be an object");
+	}
+
+	const rules: InterceptorMatchRules = {};
+	for (const key of [
+		"workspacePath",
+		"model",
+		"agent",
+		"promptPattern",
+	] as const) {
+		const value = (match as Record<string, unknown>)[key];
+		if (value === undefined || value === null || value === "") continue;
+		if (typeof value !== "string") {
+			throw BadRequest(`config.match.${key} must be a string`);
+		}
+		rules[key] = value.trim();
+	}
+
+	if (rules.promptPattern) {
+		try {
+			new RegExp(rules.promptPattern);
+		} catch {
+			throw BadRequest(
+				"config.match.promptPattern must be a valid regular expression",
+			);
+		}
+	}
+
+	return rules;
+}
+
+/**
+ * Validate a replacement prompt template's syntax and variables
+ * @throws {HttpError} 400 listing every problem found
+ */
+function validateReplacementPrompt(template: string): void {
+	const problems = validatePromptTemplate(template);
+	if (problems.length > 0) {
+		throw BadRequest("config.replacementPrompt is not a valid template", {
+			problems,
+		});
+	}
+}
 
 /**
  * Create system prompt interceptor handlers
@@ -15,31 +221,18 @@ export function createSystemPromptInterceptorHandler(
 			const config = dbOps.getInterceptorConfig("system_prompt");
 
 			// Fetch the last-seen tools from KV store
-			const lastSeenToolsJson = dbOps.getSystemKV("last_seen_tools");
-			let availableTools: any[] = [];
-			if (lastSeenToolsJson) {
-				try {
-					availableTools = JSON.parse(lastSeenToolsJson);
-				} catch (_error) {
-					// If parsing fails, default to empty array
-					availableTools = [];
-				}
-			}
+			const availableTools = getAvailableTools(dbOps);
 
 			// Return default configuration if none exists
 			if (!config) {
 				// Try to get the last-seen system prompt as the default target
 				const lastSeenPrompt = dbOps.getSystemKV("last_seen_system_prompt");
-				const DEFAULT_TARGET_PROMPT =
-					"You are Claude Code, Anthropic's official CLI for Claude.";
-				const defaultTemplate =
-					"You are a helpful assistant.\n\n---\n\n{{env_block}}\n\n{{git_status_block}}";
 
 				return jsonResponse({
 					isEnabled: false,
 					config: {
 						targetPrompt: lastSeenPrompt || DEFAULT_TARGET_PROMPT,
-						replacementPrompt: defaultTemplate,
+						replacementPrompt: DEFAULT_TEMPLATE,
 						tools: {},
 					},
 					availableTools,
@@ -112,51 +305,20 @@ export function createSystemPromptInterceptorHandler(
 				}
 				// Note: Empty strings are intentionally allowed for replacementPrompt
 				// This enables users to effectively disable prompt replacement
+				validateReplacementPrompt(body.config.replacementPrompt);
 
-				// Validate tools object
-				if (body.config.tools === undefined || body.config.tools === null) {
-					// If tools is not provided, default to empty object
-					body.config.tools = {};
-				}
-				if (
-					typeof body.config.tools !== "object" ||
-					Array.isArray(body.config.tools)
-				) {
-					return errorResponse(BadRequest("config.tools must be an object"));
-				}
-
-				// Validate each tool override
-				for (const [toolName, override] of Object.entries(body.config.tools)) {
-					if (typeof override !== "object" || override === null) {
-						return errorResponse(
-							BadRequest(`config.tools.${toolName} must be an object`),
-						);
-					}
-					const toolOverride = override as any;
-					if (typeof toolOverride.isEnabled !== "boolean") {
-						return errorResponse(
-							BadRequest(
-								`config.tools.${toolName}.isEnabled must be a boolean`,
-							),
-						);
-					}
-					if (
-						toolOverride.description !== undefined &&
-						typeof toolOverride.description !== "string"
-					) {
-						return errorResponse(
-							BadRequest(
-								`config.tools.${toolName}.description must be a string if provided`,
-							),
-						);
-					}
-				}
+				// Validate tools object (defaults to empty object when omitted)
+				body.config.tools = validateToolOverrides(body.config.tools);
 
-				// Save configuration to database
+				// Save configuration to database, keeping any profile match rules
+				const existing = dbOps.getInterceptorConfig("system_prompt");
 				dbOps.setInterceptorConfig("system_prompt", body.isEnabled, {
 					targetPrompt: body.config.targetPrompt,
 					replacementPrompt: body.config.replacementPrompt,
 					tools: body.config.tools,
+					syntheticTools: existing?.config.syntheticTools,
+					toolOrder: existing?.config.toolOrder,
+					match: existing?.config.match,
 				});
 
 				return jsonResponse({
@@ -189,3 +351,196 @@ export function createSystemPromptInterceptorHandler(
 		},
 	};
 }
+
+/**
+ * Parse the profile fields shared by create and update requests
+ * @throws {HttpError} 400 if a field is invalid
+ */
+function parseProfileInput(
+	body: Record<string, unknown>,
+	required: boolean,
+): {
+	name?: string;
+	priority?: number;
+	isEnabled?: boolean;
+	replacementPrompt?: string;
+	tools?: Record<string, ToolOverride>;
+	syntheticTools?: SyntheticTool[];
+	toolOrder?: string[];
+	match?: InterceptorMatchRules;
+} {
+	try {
+		const name = validateString(body.name, "name", {
+			required,
+			minLength: 1,
+			maxLength: 100,
+			transform: (value) => value.trim(),
+		});
+		const priority = validateNumber(body.priority, "priority", {
+			min: -1000,
+			max: 1000,
+			integer: true,
+		});
+		const isEnabled = validateBoolean(body.isEnabled, "isEnabled");
+
+		const config = body.config;
+		if (config !== undefined && (typeof config !== "object" || !config)) {
+			throw BadRequest("config must be an object");
+		}
+		const configInput = (config ?? {}) as Record<string, unknown>;
+		const replacementPrompt = validateString(
+			configInput.replacementPrompt,
+			"config.replacementPrompt",
+		);
+		if (replacementPrompt !== undefined) {
+			validateReplacementPrompt(replacementPrompt);
+		}
+
+		return {
+			name,
+			priority,
+			isEnabled,
+			replacementPrompt,
+			tools:
+				configInput.tools === undefined
+					? undefined
+					: validateToolOverrides(configInput.tools),
+			syntheticTools:
+				configInput.syntheticTools === undefined
+					? undefined
+					: validateSyntheticTools(configInput.syntheticTools),
+			toolOrder:
+				configInput.toolOrder === undefined
+					? undefined
+					: validateToolOrder(configInput.toolOrder),
+			match:
+				configInput.match === undefined
+					? undefined
+					: validateMatchRules(configInput.match),
+		};
+	} catch (error) {
+		if (error instanceof ValidationError) {
+			throw BadRequest(error.message);
+		}
+		throw error;
+	}
+}
+
+/**
+ * Read and parse a JSON request body
+ * @throws {HttpError} 400 if the body is not a JSON object
+ */
+async function readJsonObject(req: Request): Promise<Record<string, unknown>> {
+	try {
+		const body = await req.json();
+		if (typeof body !== "object" || body === null || Array.isArray(body)) {
+			throw BadRequest("Request body must be a JSON object");
+		}
+		return body as Record<string, unknown>;
+	} catch (error) {
+		if (error instanceof SyntaxError) {
+			throw BadRequest("Invalid JSON");
+		}
+		throw error;
+	}
+}
+
+/**
+ * Create system prompt interceptor profile handlers
+ */
+export function createInterceptorProfilesHandler(dbOps: DatabaseOperations) {
+	return {
+		/**
+		 * List all profiles, highest priority first
+		 */
+		listProfiles: (): Response => {
+			return jsonResponse(dbOps.listInterceptorProfiles());
+		},
+
+		/**
+		 * Get a single profile along with the last-seen tools
+		 */
+		getProfile: (id: string): Response => {
+			const profile = dbOps.getInterceptorProfile(id);
+			if (!profile) {
+				return errorResponse(NotFound("Interceptor profile not found"));
+			}
+
+			return jsonResponse({
+				...profile,
+				config: {
+					...profile.config,
+					tools: profile.config.tools || {},
+				},
+				availableTools: getAvailableTools(dbOps),
+			});
+		},
+
+		/**
+		 * Create a new profile
+		 */
+		createProfile: async (req: Request): Promise<Response> => {
+			const input = parseProfileInput(await readJsonObject(req), true);
+
+			const profile: InterceptorProfile = {
+				id: crypto.randomUUID(),
+				name: input.name as string,
+				isEnabled: input.isEnabled ?? false,
+				priority: input.priority ?? 0,
+				config: {
+					targetPrompt:
+						dbOps.getSystemKV("last_seen_system_prompt") ||
+						DEFAULT_TARGET_PROMPT,
+					replacementPrompt: input.replacementPrompt ?? DEFAULT_TEMPLATE,
+					tools: input.tools ?? {},
+					syntheticTools: input.syntheticTools ?? [],
+					toolOrder: input.toolOrder ?? [],
+					match: input.match,
+				},
+			};
+			dbOps.saveInterceptorProfile(profile);
+
+			return jsonResponse(profile, 201);
+		},
+
+		/**
+		 * Update a profile; omitted fields keep their current value
+		 */
+		updateProfile: async (req: Request, id: string): Promise<Response> => {
+			const profile = dbOps.getInterceptorProfile(id);
+			if (!profile) {
+				return errorResponse(NotFound("Interceptor profile not found"));
+			}
+
+			const input = parseProfileInput(await readJsonObject(req), false);
+			const updated: InterceptorProfile = {
+				...profile,
+				name: input.name ?? profile.name,
+				isEnabled: input.isEnabled ?? profile.isEnabled,
+				priority: input.priority ?? profile.priority,
+				config: {
+					...profile.config,
+					replacementPrompt:
+						input.replacementPrompt ?? profile.config.replacementPrompt,
+					tools: input.tools ?? profile.config.tools,
+					syntheticTools: input.syntheticTools ?? profile.config.syntheticTools,
+					toolOrder: input.toolOrder ?? profile.config.toolOrder,
+					match: input.match !== undefined ? input.match : profile.config.match,
+				},
+			};
+			dbOps.saveInterceptorProfile(updated);
+
+			return jsonResponse(updated);
+		},
+
+		/**
+		 * Delete a profile
+		 */
+		deleteProfile: (id: string): Response => {
+			if (!dbOps.deleteInterceptorConfig(id)) {
+				return errorResponse(NotFound("Interceptor profile not found"));
+			}
+			return new Response(null, { status: 204 });
+		},
+	};
+}
@@ -0,0 +1,145 @@
+import type { Config } from "@ccflare/config";
+import {
+	DASHBOARD_ROLES,
+	type DatabaseOperations,
+	isDashboardRole,
+} from "@ccflare/database";
+import {
+	BadRequest,
+	Conflict,
+	errorResponse,
+	jsonResponse,
+	NotFound,
+} from "@ccflare/http-common";
+
+const USERNAME_PATTERN = /^[\w.@-]{1,64}$/;
+const MIN_PASSWORD_LENGTH = 8;
+
+function validatePassword(password: unknown): string | null {
+	return typeof password === "string" && password.length >= MIN_PASSWORD_LENGTH
+		? null
+		: `password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+}
+
+/**
+ * Create dashboard user management handlers (admin only)
+ */
+export function createUsersHandler(dbOps: DatabaseOperations, config: Config) {
+	/**
+	 * Without the bootstrap token, at least one admin must remain so the
+	 * management API cannot lock itself out
+	 */
+	const wouldLeaveNoAdmin = (removedAdmins: number): boolean =>
+		config.getAdminToken() === null &&
+		dbOps.countDashboardAdmins() - removedAdmins <= 0;
+
+	return {
+		listUsers: (): Response => {
+			return jsonResponse(dbOps.listDashboardUsers());
+		},
+
+		createUser: async (req: Request): Promise<Response> => {
+			let body: { username?: unknown; password?: unknown; role?: unknown };
+			try {
+				body = await req.json();
+			} catch {
+				return errorResponse(BadRequest("Invalid JSON"));
+			}
+
+			const username =
+				typeof body?.username === "string" ? body.username.trim() : "";
+			if (!USERNAME_PATTERN.test(username)) {
+				return errorResponse(
+					BadRequest(
+						"username must be 1-64 letters, digits, underscores, dots, @ or hyphens",
+					),
+				);
+			}
+			const passwordError = validatePassword(body.password);
+			if (passwordError) {
+				return errorResponse(BadRequest(passwordError));
+			}
+			const role = body.role ?? "viewer";
+			if (!isDashboardRole(role)) {
+				return errorResponse(
+					BadRequest(`role must be one of: ${DASHBOARD_ROLES.join(", ")}`),
+				);
+			}
+			if (dbOps.getDashboardUserByUsername(username)) {
+				return errorResponse(
+					Conflict(`A user named '${username}' already exists`),
+				);
+			}
+			if (role !== "admin" && wouldLeaveNoAdmin(0)) {
+				return errorResponse(Conflict("The first user must be an admin"));
+			}
+
+			const user = dbOps.createDashboardUser(
+				username,
+				body.password as string,
+				role,
+			);
+			return jsonResponse(user, 201);
+		},
+
+		/**
+		 * Change the role or password of a user. A password change ends the
+		 * user's sessions.
+		 */
+		updateUser: async (req: Request, id: string): Promise<Response> => {
+			const user = dbOps.getDashboardUser(id);
+			if (!user) {
+				return errorResponse(NotFound("User not found"));
+			}
+
+			let body: { password?: unknown; role?: unknown };
+			try {
+				body = await req.json();
+			} catch {
+				return errorResponse(BadRequest("Invalid JSON"));
+			}
+
+			if (body.role !== undefined) {
+				if (!isDashboardRole(body.role)) {
+					return errorResponse(
+						BadRequest(`role must be one of: ${DASHBOARD_ROLES.join(", ")}`),
+					);
+				}
+				if (
+					user.role === "admin" &&
+					body.role !== "admin" &&
+					wouldLeaveNoAdmin(1)
+				) {
+					return errorResponse(Conflict("Cannot demote the last admin"));
+				}
+			}
+			if (body.password !== undefined) {
+				const passwordError = validatePassword(body.password);
+				if (passwordError) {
+					return errorResponse(BadRequest(passwordError));
+				}
+			}
+
+			if (isDashboardRole(body.role)) {
+				dbOps.updateDashboardUserRole(id, body.role);
+			}
+			if (typeof body.password === "string") {
+				dbOps.updateDashboardUserPassword(id, body.password);
+			}
+			return jsonResponse(dbOps.getDashboardUser(id));
+		},
+
+		deleteUser: (id: string): Response => {
+			const user = dbOps.getDashboardUser(id);
+			if (!user) {
+				return errorResponse(NotFound("User not found"));
+			}
+			if (user.role === "admin" && wouldLeaveNoAdmin(1)) {
+				return errorResponse(Conflict("Cannot delete the last admin"));
+			}
+
+			dbOps.deleteDashboardUser(id);
+			return jsonResponse({ success: true });
+		},
+	};
+}
@@ -1,6 +1,7 @@
 import { validateNumber } from "@ccflare/core";
 import {
 	createAccountAddHandler,
+	createAccountGroupsHandler,
 	createAccountPauseHandler,
 	createAccountRemoveHandler,
 	createAccountRenameHandler,
@@ -16,27 +17,56 @@ import {
 } from "./handlers/agents";
 import { createAgentUpdateHandler } from "./handlers/agents-update";
 import { createAnalyticsHandler } from "./handlers/analytics";
+import { createApiKeysHandler } from "./handlers/api-keys";
+import { createAuthHandlers } from "./handlers/auth";
 import { createConfigHandlers } from "./handlers/config";
 import { createHealthHandler } from "./handlers/health";
+import { createInterceptorPreviewHandler } from "./handlers/interceptor-preview";
 import { createLogsStreamHandler } from "./handlers/logs";
 import { createLogsHistoryHandler } from "./handlers/logs-history";
 import {
 	createCleanupHandler,
 	createCompactHandler,
 } from "./handlers/maintenance";
+import { createMetricsHandler } from "./handlers/metrics";
+import { createModelFallbackHandler } from "./handlers/model-fallbacks";
 import {
 	createOAuthCallbackHandler,
 	createOAuthInitHandler,
 } from "./handlers/oauth";
+import { createPromptHistoryHandler } from "./handlers/prompt-history";
+import { createRedactionHandler } from "./handlers/redaction";
 import {
+	createConversationHandler,
+	createConversationsListHandler,
+	createRequestPayloadHandler,
 	createRequestsDetailHandler,
 	createRequestsSummaryHandler,
+	createRequestTextSearchHandler,
 } from "./handlers/requests";
 import { createRequestsStreamHandler } from "./handlers/requests-stream";
+import { createRoutingHandler } from "./handlers/routing";
 import { createStatsHandler, createStatsResetHandler } from "./handlers/stats";
-import { createSystemPromptInterceptorHandler } from "./handlers/tools";
+import {
+	createInterceptorProfilesHandler,
+	createSystemPromptInterceptorHandler,
+} from "./handlers/tools";
+import { createUsersHandler } from "./handlers/users";
 import type { APIContext } from "./types";
-import { errorResponse } from "./utils/http-error";
+import { BadRequest, errorResponse } from "./utils/http-error";
+import { authorizeRequest } from "./utils/session";
+
+/**
+ * Decode a percent-encoded path segment
+ * @throws {HttpError} 400 if the encoding is invalid
+ */
+function decodePathSegment(segment: string): string {
+	try {
+		return decodeURIComponent(segment);
+	} catch {
+		throw BadRequest("Invalid path encoding");
+	}
+}
 
 /**
  * API Router that handles all API endpoints
@@ -59,14 +89,17 @@ export class APIRouter {
 
 		// Create handlers
 		const healthHandler = createHealthHandler(db, config);
+		const metricsHandler = createMetricsHandler(dbOps);
 		const statsHandler = createStatsHandler(dbOps);
 		const statsResetHandler = createStatsResetHandler(dbOps);
 		const accountsHandler = createAccountsListHandler(db);
 		const accountAddHandler = createAccountAddHandler(dbOps, config);
 		const _accountRemoveHandler = createAccountRemoveHandler(dbOps);
 		const _accountTierHandler = createAccountTierUpdateHandler(dbOps);
-		const requestsSummaryHandler = createRequestsSummaryHandler(db);
+		const requestsSummaryHandler = createRequestsSummaryHandler(dbOps);
 		const requestsDetailHandler = createRequestsDetailHandler(dbOps);
+		const requestTextSearchHandler = createRequestTextSearchHandler(dbOps);
+		const conversationsListHandler = createConversationsListHandler(dbOps);
 		const configHandlers = createConfigHandlers(config);
 		const logsStreamHandler = createLogsStreamHandler();
 		const logsHistoryHandler = createLogsHistoryHandler();
@@ -79,9 +112,19 @@ export class APIRouter {
 		const cleanupHandler = createCleanupHandler(dbOps, config);
 		const compactHandler = createCompactHandler(dbOps);
 		const toolsHandler = createSystemPromptInterceptorHandler(dbOps);
+		const profilesHandler = createInterceptorProfilesHandler(dbOps);
+		const promptHistoryHandler = createPromptHistoryHandler(dbOps);
+		const interceptorPreviewHandler = createInterceptorPreviewHandler(dbOps);
+		const apiKeysHandler = createApiKeysHandler(dbOps);
+		const authHandlers = createAuthHandlers(dbOps, config);
+		const usersHandler = createUsersHandler(dbOps, config);
+		const redactionHandler = createRedactionHandler(dbOps);
+		const routingHandler = createRoutingHandler(dbOps);
+		const modelFallbackHandler = createModelFallbackHandler(dbOps);
 
 		// Register routes
 		this.handlers.set("GET:/health", () => healthHandler());
+		this.handlers.set("GET:/metrics", () => metricsHandler());
 		this.handlers.set("GET:/api/stats", () => statsHandler());
 		this.handlers.set("POST:/api/stats/reset", () => statsResetHandler());
 		this.handlers.set("GET:/api/accounts", () => accountsHandler());
@@ -90,16 +133,9 @@ export class APIRouter {
 		this.handlers.set("POST:/api/oauth/callback", (req) =>
 			oauthCallbackHandler(req),
 		);
-		this.handlers.set("GET:/api/requests", (_req, url) => {
-			const limitParam = url.searchParams.get("limit");
-			const limit =
-				validateNumber(limitParam || "50", "limit", {
-					min: 1,
-					max: 1000,
-					integer: true,
-				}) || 50;
-			return requestsSummaryHandler(limit);
-		});
+		this.handlers.set("GET:/api/requests", (_req, url) =>
+			requestsSummaryHandler(url.searchParams),
+		);
 		this.handlers.set("GET:/api/requests/detail", (_req, url) => {
 			const limitParam = url.searchParams.get("limit");
 			const limit =
@@ -110,9 +146,15 @@ export class APIRouter {
 				}) || 100;
 			return requestsDetailHandler(limit);
 		});
+		this.handlers.set("GET:/api/requests/search", (_req, url) =>
+			requestTextSearchHandler(url.searchParams),
+		);
 		this.handlers.set("GET:/api/requests/stream", () =>
 			requestsStreamHandler(),
 		);
+		this.handlers.set("GET:/api/conversations", (_req, url) =>
+			conversationsListHandler(url.searchParams),
+		);
 		this.handlers.set("GET:/api/config", () => configHandlers.getConfig());
 		this.handlers.set("GET:/api/config/strategy", () =>
 			configHandlers.getStrategy(),
@@ -159,6 +201,48 @@ export class APIRouter {
 		this.handlers.set("DELETE:/api/tools/interceptors/system-prompt", () =>
 			toolsHandler.resetSystemPromptConfig(),
 		);
+		this.handlers.set("GET:/api/tools/interceptors/profiles", () =>
+			profilesHandler.listProfiles(),
+		);
+		this.handlers.set("POST:/api/tools/interceptors/profiles", (req) =>
+			profilesHandler.createProfile(req),
+		);
+		this.handlers.set("POST:/api/tools/interceptors/preview", (req) =>
+			interceptorPreviewHandler(req),
+		);
+		this.handlers.set("GET:/api/tools/history", (_req, url) =>
+			promptHistoryHandler.listVersions(url),
+		);
+		this.handlers.set("GET:/api/tools/history/diff", (_req, url) =>
+			promptHistoryHandler.diffVersions(url),
+		);
+		this.handlers.set("GET:/api/keys", () => apiKeysHandler.listKeys());
+		this.handlers.set("POST:/api/keys", (req) => apiKeysHandler.createKey(req));
+		this.handlers.set("GET:/api/auth/session", (req) =>
+			authHandlers.getSession(req),
+		);
+		this.handlers.set("POST:/api/auth/login", (req) => authHandlers.login(req));
+		this.handlers.set("POST:/api/auth/logout", (req) =>
+			authHandlers.logout(req),
+		);
+		this.handlers.set("GET:/api/users", () => usersHandler.listUsers());
+		this.handlers.set("POST:/api/users", (req) => usersHandler.createUser(req));
+		this.handlers.set("GET:/api/redaction", () =>
+			redactionHandler.getSettings(),
+		);
+		this.handlers.set("POST:/api/redaction/mode", (req) =>
+			redactionHandler.setMode(req),
+		);
+		this.handlers.set("POST:/api/redaction/rules", (req) =>
+			redactionHandler.createRule(req),
+		);
+		this.handlers.set("GET:/api/routing", () => routingHandler.getRouting());
+		this.handlers.set("POST:/api/routing/rules", (req) =>
+			routingHandler.createRule(req),
+		);
+		this.handlers.set("GET:/api/model-fallbacks", () =>
+			modelFallbackHandler.listChains(),
+		);
 	}
 
 	/**
@@ -184,6 +268,17 @@ export class APIRouter {
 		const method = req.method;
 		const key = `${method}:${path}`;
 
+		// Enforce dashboard sessions and roles for every management endpoint
+		const denied = authorizeRequest(
+			req,
+			path,
+			this.context.dbOps,
+			this.context.config,
+		);
+		if (denied) {
+			return denied;
+		}
+
 		// Check for exact match
 		const handler = this.handlers.get(key);
 		if (handler) {
@@ -231,6 +326,15 @@ export class APIRouter {
 				);
 			}
 
+			// Account groups
+			if (path.endsWith("/groups") && method === "POST") {
+				const groupsHandler = createAccountGroupsHandler(this.context.dbOps);
+				return await this.wrapHandler((req) => groupsHandler(req, accountId))(
+					req,
+					url,
+				);
+			}
+
 			// Account removal
 			if (parts.length === 4 && method === "DELETE") {
 				const removeHandler = createAccountRemoveHandler(this.context.dbOps);
@@ -241,6 +345,30 @@ export class APIRouter {
 			}
 		}
 
+		// Check for dynamic request endpoints
+		if (path.startsWith("/api/requests/") && method === "GET") {
+			const parts = path.split("/");
+			if (parts.length === 4) {
+				const payloadHandler = createRequestPayloadHandler(this.context.dbOps);
+				return await this.wrapHandler(() =>
+					payloadHandler(decodePathSegment(parts[3])),
+				)(req, url);
+			}
+		}
+
+		// Check for dynamic conversation endpoints
+		if (path.startsWith("/api/conversations/") && method === "GET") {
+			const parts = path.split("/");
+			if (parts.length === 4) {
+				const conversationHandler = createConversationHandler(
+					this.context.dbOps,
+				);
+				return await this.wrapHandler(() =>
+					conversationHandler(decodePathSegment(parts[3])),
+				)(req, url);
+			}
+		}
+
 		// Check for dynamic agent endpoints
 		if (path.startsWith("/api/agents/")) {
 			const parts = path.split("/");
@@ -267,6 +395,144 @@ export class APIRouter {
 			}
 		}
 
+		// Check for dynamic interceptor profile endpoints
+		if (path.startsWith("/api/tools/interceptors/profiles/")) {
+			const parts = path.split("/");
+			const profilesHandler = createInterceptorProfilesHandler(
+				this.context.dbOps,
+			);
+
+			if (parts.length === 6) {
+				if (method === "GET") {
+					return await this.wrapHandler(() =>
+						profilesHandler.getProfile(decodePathSegment(parts[5])),
+					)(req, url);
+				}
+				if (method === "PATCH") {
+					return await this.wrapHandler((req) =>
+						profilesHandler.updateProfile(req, decodePathSegment(parts[5])),
+					)(req, url);
+				}
+				if (method === "DELETE") {
+					return await this.wrapHandler(() =>
+						profilesHandler.deleteProfile(decodePathSegment(parts[5])),
+					)(req, url);
+				}
+			}
+		}
+
+		// Check for dynamic prompt history endpoints
+		if (path.startsWith("/api/tools/history/") && method === "GET") {
+			const parts = path.split("/");
+			if (parts.length === 5) {
+				const historyHandler = createPromptHistoryHandler(this.context.dbOps);
+				return await this.wrapHandler(() =>
+					historyHandler.getVersion(parts[4]),
+				)(req, url);
+			}
+		}
+
+		// Check for dynamic client API key endpoints
+		if (path.startsWith("/api/keys/")) {
+			const parts = path.split("/");
+			const keysHandler = createApiKeysHandler(this.context.dbOps);
+
+			// Key revocation
+			if (parts.length === 4 && method === "DELETE") {
+				return await this.wrapHandler(() =>
+					keysHandler.revokeKey(decodePathSegment(parts[3])),
+				)(req, url);
+			}
+
+			// Key quota update
+			if (path.endsWith("/limits") && method === "PATCH") {
+				return await this.wrapHandler((req) =>
+					keysHandler.updateLimits(req, decodePathSegment(parts[3])),
+				)(req, url);
+			}
+		}
+
+		// Check for dynamic dashboard user endpoints
+		if (path.startsWith("/api/users/")) {
+			const parts = path.split("/");
+			if (parts.length === 4) {
+				const usersHandler = createUsersHandler(
+					this.context.dbOps,
+					this.context.config,
+				);
+
+				if (method === "PATCH") {
+					return await this.wrapHandler((req) =>
+						usersHandler.updateUser(req, decodePathSegment(parts[3])),
+					)(req, url);
+				}
+				if (method === "DELETE") {
+					return await this.wrapHandler(() =>
+						usersHandler.deleteUser(decodePathSegment(parts[3])),
+					)(req, url);
+				}
+			}
+		}
+
+		// Check for dynamic redaction rule endpoints
+		if (path.startsWith("/api/redaction/rules/")) {
+			const parts = path.split("/");
+			if (parts.length === 5) {
+				const redactionHandler = createRedactionHandler(this.context.dbOps);
+
+				if (method === "PATCH") {
+					return await this.wrapHandler((req) =>
+						redactionHandler.updateRule(req, decodePathSegment(parts[4])),
+					)(req, url);
+				}
+				if (method === "DELETE") {
+					return await this.wrapHandler(() =>
+						redactionHandler.deleteRule(decodePathSegment(parts[4])),
+					)(req, url);
+				}
+			}
+		}
+
+		// Check for dynamic routing rule endpoints
+		if (path.startsWith("/api/routing/rules/")) {
+			const parts = path.split("/");
+			if (parts.length === 5) {
+				const routingHandler = createRoutingHandler(this.context.dbOps);
+
+				if (method === "PATCH") {
+					return await this.wrapHandler((req) =>
+						routingHandler.updateRule(req, decodePathSegment(parts[4])),
+					)(req, url);
+				}
+				if (method === "DELETE") {
+					return await this.wrapHandler(() =>
+						routingHandler.deleteRule(decodePathSegment(parts[4])),
+					)(req, url);
+				}
+			}
+		}
+
+		// Check for dynamic model fallback chain endpoints
+		if (path.startsWith("/api/model-fallbacks/")) {
+			const parts = path.split("/");
+			if (parts.length === 4) {
+				const modelFallbackHandler = createModelFallbackHandler(
+					this.context.dbOps,
+				);
+
+				if (method === "PUT") {
+					return await this.wrapHandler((req) =>
+						modelFallbackHandler.setChain(req, decodePathSegment(parts[3])),
+					)(req, url);
+				}
+				if (method === "DELETE") {
+					return await this.wrapHandler(() =>
+						modelFallbackHandler.deleteChain(decodePathSegment(parts[3])),
+					)(req, url);
+				}
+			}
+		}
+
 		// No matching route
 		return null;
 	}
@@ -0,0 +1,152 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import type { Config } from "@ccflare/config";
+import type {
+	DashboardRole,
+	DashboardSession,
+	DatabaseOperations,
+} from "@ccflare/database";
+import { errorResponse, Forbidden, Unauthorized } from "./http-error";
+
+export const SESSION_COOKIE = "ccflare_session";
+export const CSRF_HEADER = "x-csrf-token";
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Endpoints reachable without a session, so clients can log in
+const PUBLIC_API_PATHS = new Set([
+	"/api/auth/session",
+	"/api/auth/login",
+	"/api/auth/logout",
+]);
+
+// Outside /api/ but still behind dashboard authentication; also accepts the
+// metrics token as a bearer token so scrapers don't need a session
+const METRICS_PATH = "/metrics";
+
+// Read-only endpoints that still need the admin role
+const ADMIN_READ_PREFIXES = ["/api/users"];
+
+const SAFE_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+/**
+ * Compare two secrets without leaking their contents through timing
+ */
+export function secretsMatch(a: string, b: string): boolean {
+	const digest = (value: string) => createHash("sha256").update(value).digest();
+	return timingSafeEqual(digest(a), digest(b));
+}
+
+/**
+ * Authentication is enforced once a dashboard user exists or the bootstrap
+ * admin token is configured
+ */
+export function isAuthRequired(
+	dbOps: DatabaseOperations,
+	config: Config,
+): boolean {
+	return config.getAdminToken() !== null || dbOps.hasDashboardUsers();
+}
+
+export function getSessionToken(req: Request): string | null {
+	const cookies = req.headers.get("cookie");
+	if (!cookies) return null;
+	for (const part of cookies.split(";")) {
+		const [name, ...value] = part.trim().split("=");
+		if (name === SESSION_COOKIE) {
+			try {
+				return decodeURIComponent(value.join("="));
+			} catch {
+				return null;
+			}
+		}
+	}
+	return null;
+}
+
+/**
+ * Look up the session of a request's cookie. Bootstrap sessions end when the
+ * admin token is changed or removed.
+ */
+export function getRequestSession(
+	req: Request,
+	dbOps: DatabaseOperations,
+	config: Config,
+): DashboardSession | null {
+	const token = getSessionToken(req);
+	return token
+		? dbOps.getDashboardSession(token, config.getAdminToken())
+		: null;
+}
+
+function cookieAttributes(req: Request, maxAgeSeconds: number): string {
+	const secure = new URL(req.url).protocol === "https:" ? "; Secure" : "";
+	return `Path=/; HttpOnly; SameSite=Strict; Max-Age=${maxAgeSeconds}${secure}`;
+}
+
+export function sessionCookie(req: Request, token: string): string {
+	return `${SESSION_COOKIE}=${encodeURIComponent(token)}; ${cookieAttributes(
+		req,
+		Math.floor(SESSION_TTL_MS / 1000),
+	)}`;
+}
+
+export function clearedSessionCookie(req: Request): string {
+	return `${SESSION_COOKIE}=; ${cookieAttributes(req, 0)}`;
+}
+
+/**
+ * The role a request needs: viewers may read, changes need an admin
+ */
+export function requiredRole(method: string, path: string): DashboardRole {
+	if (!SAFE_METHODS.has(method)) return "admin";
+	return ADMIN_READ_PREFIXES.some((prefix) => path.startsWith(prefix))
+		? "admin"
+		: "viewer";
+}
+
+function hasMetricsToken(req: Request, config: Config): boolean {
+	const metricsToken = config.getMetricsToken();
+	const header = req.headers.get("authorization");
+	if (!metricsToken || !header?.startsWith("Bearer ")) return false;
+	return secretsMatch(header.slice("Bearer ".length), metricsToken);
+}
+
+/**
+ * Check the session, CSRF token and role of a management API or metrics
+ * request
+ * @returns An error response, or null if the request may proceed
+ */
+export function authorizeRequest(
+	req: Request,
+	path: string,
+	dbOps: DatabaseOperations,
+	config: Config,
+): Response | null {
+	const isMetrics = path === METRICS_PATH;
+	if ((!path.startsWith("/api/") && !isMetrics) || PUBLIC_API_PATHS.has(path)) {
+		return null;
+	}
+	if (!isAuthRequired(dbOps, config)) {
+		return null;
+	}
+	if (isMetrics && hasMetricsToken(req, config)) {
+		return null;
+	}
+
+	const session = getRequestSession(req, dbOps, config);
+	if (!session) {
+		return errorResponse(Unauthorized("Authentication required"));
+	}
+
+	if (!SAFE_METHODS.has(req.method)) {
+		const csrfToken = req.headers.get(CSRF_HEADER);
+		if (!csrfToken || !secretsMatch(csrfToken, session.csrfToken)) {
+			return errorResponse(Forbidden("Missing or invalid CSRF token"));
+		}
+	}
+
+	if (requiredRole(req.method, path) === "admin" && session.role !== "admin") {
+		return errorResponse(Forbidden("This action requires the admin role"));
+	}
+
+	return null;
+}
@@ -0,0 +1,52 @@
+import { StrategyName, TIME_CONSTANTS } from "@ccflare/core";
+import type { LoadBalancingStrategy, StrategyStore } from "@ccflare/types";
+import {
+	HeadroomStrategy,
+	LeastRequestsStrategy,
+	RoundRobinStrategy,
+	SessionStrategy,
+	WeightedStrategy,
+} from "./strategies";
+
+export interface StrategyOptions {
+	sessionDurationMs?: number;
+	store?: StrategyStore;
+}
+
+/**
+ * Creates a load balancing strategy by name and initializes it with the store
+ * @param name - The strategy to create
+ * @param options - Session window and optional store for strategies that persist state
+ * @returns The initialized strategy
+ */
+export function createStrategy(
+	name: StrategyName,
+	options: StrategyOptions = {},
+): LoadBalancingStrategy {
+	const sessionDurationMs =
+		options.sessionDurationMs ?? TIME_CONSTANTS.SESSION_DURATION_DEFAULT;
+
+	let strategy: LoadBalancingStrategy;
+	switch (name) {
+		case StrategyName.RoundRobin:
+			strategy = new RoundRobinStrategy();
+			break;
+		case StrategyName.LeastRequests:
+			strategy = new LeastRequestsStrategy(sessionDurationMs);
+			break;
+		case StrategyName.Weighted:
+			strategy = new WeightedStrategy(sessionDurationMs);
+			break;
+		case StrategyName.Headroom:
+			strategy = new HeadroomStrategy();
+			break;
+		default:
+			strategy = new SessionStrategy(sessionDurationMs);
+			break;
+	}
+
+	if (options.store) {
+		strategy.initialize?.(options.store);
+	}
+	return strategy;
+}
@@ -1 +1,8 @@
-export { SessionStrategy } from "./strategies";
+export { createStrategy, type StrategyOptions } from "./factory";
+export {
+	HeadroomStrategy,
+	LeastRequestsStrategy,
+	RoundRobinStrategy,
+	SessionStrategy,
+	WeightedStrategy,
+} from "./strategies";
@@ -0,0 +1,130 @@
+import { isAccountAvailable, TIME_CONSTANTS } from "@ccflare/core";
+import { Logger } from "@ccflare/logger";
+import type {
+	Account,
+	LoadBalancingStrategy,
+	RequestMeta,
+	StrategyStore,
+} from "@ccflare/types";
+
+// Unified rate limit statuses that still allow requests but signal the
+// account is close to a hard limit
+const SOFT_LIMIT_STATUSES = new Set(["allowed_warning", "queueing_soft"]);
+
+// How far back to look when estimating each account's request rate
+const FORECAST_WINDOW_MS = 15 * TIME_CONSTANTS.MINUTE;
+
+// Selection bands, lower is preferred
+enum Band {
+	Healthy = 0,
+	ForecastExhausted = 1,
+	SoftLimited = 2,
+}
+
+interface ScoredAccount {
+	account: Account;
+	band: Band;
+	headroom: number;
+	recentRequests: number;
+	exhaustsAt: number | null;
+}
+
+export class HeadroomStrategy implements LoadBalancingStrategy {
+	private store: StrategyStore | null = null;
+	private log = new Logger("HeadroomStrategy");
+
+	initialize(store: StrategyStore): void {
+		this.store = store;
+	}
+
+	private getRecentRequestCounts(now: number): Map<string, number> {
+		const counts = new Map<string, number>();
+		if (!this.store?.getAccountRequestCountsSince) return counts;
+
+		try {
+			for (const row of this.store.getAccountRequestCountsSince(
+				now - FORECAST_WINDOW_MS,
+			)) {
+				counts.set(row.accountId, row.count);
+			}
+		} catch (error) {
+			this.log.warn("Failed to load recent request counts", error);
+		}
+		return counts;
+	}
+
+	private score(
+		account: Account,
+		recentRequests: number,
+		now: number,
+	): ScoredAccount {
+		// Rate limit metadata only describes the window it was reported for;
+		// once the reset time passes the account starts a fresh window
+		const windowActive =
+			!account.rate_limit_reset || account.rate_limit_reset > now;
+		const status = windowActive ? account.rate_limit_status : null;
+		const remaining = windowActive ? account.rate_limit_remaining : null;
+
+		// Unknown remaining means we have not seen this window yet - assume full headroom
+		const headroom = remaining ?? Number.POSITIVE_INFINITY;
+
+		// Forecast when the account runs out at its recent request rate
+		let exhaustsAt: number | null = null;
+		if (remaining !== null && recentRequests > 0) {
+			const requestsPerMs = recentRequests / FORECAST_WINDOW_MS;
+			exhaustsAt = now + remaining / requestsPerMs;
+		}
+
+		let band = Band.Healthy;
+		if (status && SOFT_LIMIT_STATUSES.has(status)) {
+			band = Band.SoftLimited;
+		} else if (
+			exhaustsAt !== null &&
+			account.rate_limit_reset &&
+			exhaustsAt < account.rate_limit_reset
+		) {
+			band = Band.ForecastExhausted;
+		}
+
+		return { account, band, headroom, recentRequests, exhaustsAt };
+	}
+
+	select(accounts: Account[], _meta: RequestMeta): Account[] {
+		const now = Date.now();
+		const available = accounts.filter((a) => isAccountAvailable(a, now));
+
+		if (available.length === 0) return [];
+
+		const recentCounts = this.getRecentRequestCounts(now);
+		const ordered = available
+			.map((account) =>
+				this.score(account, recentCounts.get(account.id) ?? 0, now),
+			)
+			.sort(
+				(a, b) =>
+					a.band - b.band ||
+					b.headroom - a.headroom ||
+					a.recentRequests - b.recentRequests,
+			);
+
+		const chosen = ordered[0];
+		this.log.info(
+			`Selected account ${chosen.account.name} (band ${Band[chosen.band]}, remaining ${
+				Number.isFinite(chosen.headroom) ? chosen.headroom : "unknown"
+			}, ${chosen.recentRequests} requests in last ${FORECAST_WINDOW_MS / TIME_CONSTANTS.MINUTE}m)`,
+		);
+		for (const entry of ordered) {
+			if (entry.band !== Band.Healthy) {
+				this.log.info(
+					`Deprioritizing account ${entry.account.name}: ${
+						entry.band === Band.SoftLimited
+							? `status ${entry.account.rate_limit_status}`
+							: `forecast to exhaust at ${new Date(entry.exhaustsAt ?? now).toISOString()}`
+					}`,
+				);
+			}
+		}
+
+		return ordered.map((entry) => entry.account);
+	}
+}
@@ -0,0 +1,47 @@
+import { isAccountAvailable, TIME_CONSTANTS } from "@ccflare/core";
+import { Logger } from "@ccflare/logger";
+import type {
+	Account,
+	LoadBalancingStrategy,
+	RequestMeta,
+} from "@ccflare/types";
+import { getWindowRequestCount } from "./utils";
+
+export class LeastRequestsStrategy implements LoadBalancingStrategy {
+	private sessionDurationMs: number;
+	private log = new Logger("LeastRequestsStrategy");
+
+	constructor(
+		sessionDurationMs: number = TIME_CONSTANTS.SESSION_DURATION_DEFAULT,
+	) {
+		this.sessionDurationMs = sessionDurationMs;
+	}
+
+	select(accounts: Account[], _meta: RequestMeta): Account[] {
+		const now = Date.now();
+		const available = accounts.filter((a) => isAccountAvailable(a, now));
+
+		if (available.length === 0) return [];
+
+		// Fewest requests in the current window first, lifetime count breaks ties
+		const ordered = available
+			.map((account) => ({
+				account,
+				windowCount: getWindowRequestCount(
+					account,
+					this.sessionDurationMs,
+					now,
+				),
+			}))
+			.sort(
+				(a, b) =>
+					a.windowCount - b.windowCount ||
+					a.account.request_count - b.account.request_count,
+			);
+
+		this.log.info(
+			`Selected account ${ordered[0].account.name} (${ordered[0].windowCount} requests in window)`,
+		);
+		return ordered.map((entry) => entry.account);
+	}
+}
@@ -0,0 +1,31 @@
+import { isAccountAvailable } from "@ccflare/core";
+import { Logger } from "@ccflare/logger";
+import type {
+	Account,
+	LoadBalancingStrategy,
+	RequestMeta,
+} from "@ccflare/types";
+
+export class RoundRobinStrategy implements LoadBalancingStrategy {
+	private cursor = 0;
+	private log = new Logger("RoundRobinStrategy");
+
+	select(accounts: Account[], _meta: RequestMeta): Account[] {
+		const now = Date.now();
+
+		// Sort by id so the rotation order is stable across account list reloads
+		const available = accounts
+			.filter((a) => isAccountAvailable(a, now))
+			.sort((a, b) => a.id.localeCompare(b.id));
+
+		if (available.length === 0) return [];
+
+		const start = this.cursor % available.length;
+		this.cursor = (start + 1) % available.length;
+
+		// Rotate so the next account in line is tried first, others as fallback
+		const ordered = [...available.slice(start), ...available.slice(0, start)];
+		this.log.info(`Rotating to account ${ordered[0].name}`);
+		return ordered;
+	}
+}
@@ -0,0 +1,20 @@
+import type { Account } from "@ccflare/types";
+
+/**
+ * Returns the number of requests an account has served in its current
+ * session window. Accounts whose session has expired count as zero since
+ * their usage will be reset on the next request.
+ */
+export function getWindowRequestCount(
+	account: Account,
+	sessionDurationMs: number,
+	now = Date.now(),
+): number {
+	if (
+		!account.session_start ||
+		now - account.session_start >= sessionDurationMs
+	) {
+		return 0;
+	}
+	return account.session_request_count;
+}
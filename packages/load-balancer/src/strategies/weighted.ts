@@ -0,0 +1,45 @@
+import { isAccountAvailable, TIME_CONSTANTS } from "@ccflare/core";
+import { Logger } from "@ccflare/logger";
+import type {
+	Account,
+	LoadBalancingStrategy,
+	RequestMeta,
+} from "@ccflare/types";
+import { getWindowRequestCount } from "./utils";
+
+export class WeightedStrategy implements LoadBalancingStrategy {
+	private sessionDurationMs: number;
+	private log = new Logger("WeightedStrategy");
+
+	constructor(
+		sessionDurationMs: number = TIME_CONSTANTS.SESSION_DURATION_DEFAULT,
+	) {
+		this.sessionDurationMs = sessionDurationMs;
+	}
+
+	select(accounts: Account[], _meta: RequestMeta): Account[] {
+		const now = Date.now();
+		const available = accounts.filter((a) => isAccountAvailable(a, now));
+
+		if (available.length === 0) return [];
+
+		// Load relative to tier capacity: a tier 20 account takes 20x the
+		// requests of a tier 1 account before it falls behind in the order
+		const ordered = available
+			.map((account) => {
+				const weight = Math.max(account.account_tier || 1, 1);
+				const windowCount = getWindowRequestCount(
+					account,
+					this.sessionDurationMs,
+					now,
+				);
+				return { account, weight, load: windowCount / weight };
+			})
+			.sort((a, b) => a.load - b.load || b.weight - a.weight);
+
+		this.log.info(
+			`Selected account ${ordered[0].account.name} (tier ${ordered[0].weight}, load ${ordered[0].load.toFixed(2)})`,
+		);
+		return ordered.map((entry) => entry.account);
+	}
+}
@@ -207,26 +207,17 @@ export class OAuthFlow {
 		tokens: OAuthTokens,
 		tier: AccountTier,
 	): AccountCreated {
-		const db = this.dbOps.getDatabase();
-
-		db.run(
-			`
-			INSERT INTO accounts (
-				id, name, provider, api_key, refresh_token, access_token, expires_at, 
-				created_at, request_count, total_requests, account_tier
-			) VALUES (?, ?, ?, NULL, ?, ?, ?, ?, 0, 0, ?)
-			`,
-			[
-				id,
-				name,
-				"anthropic",
-				tokens.refreshToken || "",
-				tokens.accessToken,
-				tokens.expiresAt,
-				Date.now(),
-				tier,
-			],
-		);
+		this.dbOps.createAccount({
+			id,
+			name,
+			provider: "anthropic",
+			authType: "oauth",
+			apiKey: null,
+			refreshToken: tokens.refreshToken || "",
+			accessToken: tokens.accessToken,
+			expiresAt: tokens.expiresAt,
+			tier,
+		});
 
 		return {
 			id,
@@ -255,17 +246,17 @@ export class OAuthFlow {
 		apiKey: string,
 		tier: AccountTier,
 	): AccountCreated {
-		const db = this.dbOps.getDatabase();
-
-		db.run(
-			`
-			INSERT INTO accounts (
-				id, name, provider, api_key, refresh_token, access_token, expires_at, 
-				created_at, request_count, total_requests, account_tier
-			) VALUES (?, ?, ?, ?, NULL, NULL, NULL, ?, 0, 0, ?)
-			`,
-			[id, name, "anthropic", apiKey, Date.now(), tier],
-		);
+		this.dbOps.createAccount({
+			id,
+			name,
+			provider: "anthropic",
+			authType: "api_key",
+			apiKey,
+			refreshToken: null,
+			accessToken: null,
+			expiresAt: null,
+			tier,
+		});
 
 		return {
 			id,
@@ -17,7 +17,9 @@ export {
 export * from "./types";
 
 import { AnthropicProvider } from "./providers/anthropic/provider";
+import { OpenAICompatibleProvider } from "./providers/openai-compatible/provider";
 // Auto-register built-in providers
 import { registry } from "./registry";
 
 registry.registerProvider(new AnthropicProvider());
+registry.registerProvider(new OpenAICompatibleProvider());
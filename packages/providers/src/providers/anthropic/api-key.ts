@@ -0,0 +1,55 @@
+// Anthropic API keys look like sk-ant-api03-<base64url>
+export const ANTHROPIC_API_KEY_PATTERN = /^sk-ant-[\w-]{20,}$/;
+
+const VERIFY_URL = "https://api.anthropic.com/v1/models?limit=1";
+const VERIFY_TIMEOUT_MS = 10000;
+
+export type ApiKeyVerification =
+	| { valid: true }
+	| { valid: false; reason: "rejected" | "unreachable"; message: string };
+
+/**
+ * Check an API key with a free call to the models endpoint before it is
+ * stored, so typos and revoked keys surface when the account is added
+ * rather than on the first proxied request.
+ */
+export async function verifyAnthropicApiKey(
+	apiKey: string,
+): Promise<ApiKeyVerification> {
+	let response: Response;
+	try {
+		response = await fetch(VERIFY_URL, {
+			headers: {
+				"x-api-key": apiKey,
+				"anthropic-version": "2023-06-01",
+			},
+			signal: AbortSignal.timeout(VERIFY_TIMEOUT_MS),
+		});
+	} catch (error) {
+		return {
+			valid: false,
+			reason: "unreachable",
+			message: `Could not reach the Anthropic API: ${(error as Error).message}`,
+		};
+	}
+
+	if (response.ok) return { valid: true };
+
+	const message = await response
+		.json()
+		.then((body: { error?: { message?: string } }) => body.error?.message)
+		.catch(() => undefined);
+
+	if (response.status === 401 || response.status === 403) {
+		return {
+			valid: false,
+			reason: "rejected",
+			message: message || "The Anthropic API rejected this key",
+		};
+	}
+	return {
+		valid: false,
+		reason: "unreachable",
+		message: `The Anthropic API answered ${response.status}${message ? `: ${message}` : ""}`,
+	};
+}
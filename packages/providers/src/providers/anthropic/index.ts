@@ -1,2 +1,7 @@
+export {
+	ANTHROPIC_API_KEY_PATTERN,
+	type ApiKeyVerification,
+	verifyAnthropicApiKey,
+} from "./api-key";
 export { AnthropicOAuthProvider } from "./oauth";
 export { AnthropicProvider } from "./provider";
@@ -1,4 +1,11 @@
 export {
+	ANTHROPIC_API_KEY_PATTERN,
 	AnthropicOAuthProvider,
 	AnthropicProvider,
+	type ApiKeyVerification,
+	verifyAnthropicApiKey,
 } from "./anthropic/index";
+export {
+	OpenAICompatibleProvider,
+	resolveModel,
+} from "./openai-compatible/index";
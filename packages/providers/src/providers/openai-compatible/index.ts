@@ -0,0 +1,2 @@
+export { OpenAICompatibleProvider } from "./provider";
+export { resolveModel } from "./translate";
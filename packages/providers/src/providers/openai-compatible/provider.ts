@@ -0,0 +1,124 @@
+import { sanitizeProxyHeaders } from "@ccflare/http-common";
+import { Logger } from "@ccflare/logger";
+import type { Account } from "@ccflare/types";
+import { BaseProvider } from "../../base";
+import type { TokenRefreshResult } from "../../types";
+import { createAnthropicStreamTransform } from "./stream";
+import {
+	type AnthropicRequest,
+	type OpenAIResponse,
+	resolveModel,
+	toAnthropicError,
+	toAnthropicMessage,
+	toOpenAIRequest,
+} from "./translate";
+
+const log = new Logger("OpenAICompatibleProvider");
+
+/**
+ * Provider for upstreams that speak the OpenAI chat completions API, such as
+ * OpenRouter, vLLM, LiteLLM or llama.cpp. Anthropic Messages requests are
+ * translated to chat completions and the responses, including streams and
+ * tool calls, back to Anthropic messages, so clients don't notice the
+ * difference. Each account carries its own base URL and model map.
+ */
+export class OpenAICompatibleProvider extends BaseProvider {
+	name = "openai-compatible";
+
+	canHandle(path: string): boolean {
+		// Only the Messages API has a chat completions equivalent
+		return path === "/v1/messages";
+	}
+
+	async refreshToken(
+		account: Account,
+		_clientId: string,
+	): Promise<TokenRefreshResult> {
+		throw new Error(
+			`Account ${account.name} authenticates with an API key and has no token to refresh`,
+		);
+	}
+
+	buildUrl(_path: string, _query: string, account?: Account | null): string {
+		if (!account?.base_url) {
+			throw new Error(
+				`OpenAI-compatible account ${account?.name ?? "(none)"} has no base URL`,
+			);
+		}
+		return `${account.base_url.replace(/\/+$/, "")}/chat/completions`;
+	}
+
+	prepareHeaders(
+		headers: Headers,
+		_accessToken?: string,
+		apiKey?: string,
+	): Headers {
+		// Start from scratch so client credentials and Anthropic headers are
+		// never sent to a third-party upstream
+		const newHeaders = new Headers({ "content-type": "application/json" });
+		const accept = headers.get("accept");
+		if (accept) newHeaders.set("accept", accept);
+		if (apiKey) newHeaders.set("Authorization", `Bearer ${apiKey}`);
+		return newHeaders;
+	}
+
+	transformRequestBody(body: ArrayBuffer, account: Account): ArrayBuffer {
+		let request: AnthropicRequest;
+		try {
+			request = JSON.parse(new TextDecoder().decode(body)) as AnthropicRequest;
+		} catch {
+			return body;
+		}
+		if (!Array.isArray(request.messages)) return body;
+
+		const model = resolveModel(request.model ?? "", account.model_map);
+		log.info(
+			`Translating ${request.model} request to ${model} for ${account.name}`,
+		);
+		return new TextEncoder().encode(
+			JSON.stringify(toOpenAIRequest(request, model)),
+		).buffer as ArrayBuffer;
+	}
+
+	async processResponse(
+		response: Response,
+		account: Account | null,
+	): Promise<Response> {
+		const headers = sanitizeProxyHeaders(response.headers);
+		headers.delete("content-length");
+		headers.delete("content-encoding");
+		const init = {
+			status: response.status,
+			statusText: response.statusText,
+			headers,
+		};
+		const fallbackModel = account?.model_map["*"] ?? "unknown";
+
+		if (!response.ok) {
+			headers.set("content-type", "application/json");
+			return new Response(
+				JSON.stringify(
+					toAnthropicError(response.status, await response.text()),
+				),
+				init,
+			);
+		}
+
+		if (this.isStreamingResponse?.(response) && response.body) {
+			headers.set("content-type", "text/event-stream");
+			return new Response(
+				response.body.pipeThrough(
+					createAnthropicStreamTransform(fallbackModel),
+				),
+				init,
+			);
+		}
+
+		const json = (await response.json()) as OpenAIResponse;
+		headers.set("content-type", "application/json");
+		return new Response(
+			JSON.stringify(toAnthropicMessage(json, fallbackModel)),
+			init,
+		);
+	}
+}
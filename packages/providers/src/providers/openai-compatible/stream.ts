@@ -0,0 +1,186 @@
+import { type OpenAIUsage, toAnthropicUsage, toStopReason } from "./translate";
+
+interface ChatCompletionChunk {
+	id?: string;
+	model?: string;
+	choices?: Array<{
+		delta?: {
+			content?: string | null;
+			tool_calls?: Array<{
+				index: number;
+				id?: string;
+				function?: { name?: string; arguments?: string };
+			}>;
+		};
+		finish_reason?: string | null;
+	}>;
+	usage?: OpenAIUsage | null;
+}
+
+function sse(event: string, data: Record<string, unknown>): string {
+	return `event: ${event}\ndata: ${JSON.stringify({ type: event, ...data })}\n\n`;
+}
+
+/**
+ * Create a transform from a chat completions SSE stream to an Anthropic
+ * Messages SSE stream: message_start, then content_block_start/delta/stop for
+ * each text or tool_use block, then message_delta with the stop reason and
+ * usage, and message_stop.
+ */
+export function createAnthropicStreamTransform(
+	fallbackModel: string,
+): TransformStream<Uint8Array, Uint8Array> {
+	const encoder = new TextEncoder();
+	const decoder = new TextDecoder();
+	let buffered = "";
+	let started = false;
+	let finished = false;
+	let blockIndex = -1;
+	let openBlock: "text" | "tool_use" | null = null;
+	// Upstream tool call index -> Anthropic content block index
+	const toolBlocks = new Map<number, number>();
+	let stopReason = "end_turn";
+	let usage: OpenAIUsage | undefined;
+
+	const closeBlock = (out: string[]) => {
+		if (openBlock === null) return;
+		out.push(sse("content_block_stop", { index: blockIndex }));
+		openBlock = null;
+	};
+
+	const start = (chunk: ChatCompletionChunk, out: string[]) => {
+		if (started) return;
+		started = true;
+		out.push(
+			sse("message_start", {
+				message: {
+					id: `msg_${chunk.id ?? crypto.randomUUID()}`,
+					type: "message",
+					role: "assistant",
+					model: chunk.model ?? fallbackModel,
+					content: [],
+					stop_reason: null,
+					stop_sequence: null,
+					usage: { input_tokens: 0, output_tokens: 0 },
+				},
+			}),
+		);
+	};
+
+	const finish = (out: string[]) => {
+		if (finished || !started) return;
+		finished = true;
+		closeBlock(out);
+		out.push(
+			sse("message_delta", {
+				delta: { stop_reason: stopReason, stop_sequence: null },
+				usage: toAnthropicUsage(usage),
+			}),
+		);
+		out.push(sse("message_stop", {}));
+	};
+
+	const handleChunk = (chunk: ChatCompletionChunk, out: string[]) => {
+		start(chunk, out);
+		if (chunk.usage) usage = chunk.usage;
+
+		const choice = chunk.choices?.[0];
+		if (!choice) return;
+		const delta = choice.delta;
+
+		if (delta?.content) {
+			if (openBlock !== "text") {
+				closeBlock(out);
+				blockIndex++;
+				openBlock = "text";
+				out.push(
+					sse("content_block_start", {
+						index: blockIndex,
+						content_block: { type: "text", text: "" },
+					}),
+				);
+			}
+			out.push(
+				sse("content_block_delta", {
+					index: blockIndex,
+					delta: { type: "text_delta", text: delta.content },
+				}),
+			);
+		}
+
+		for (const call of delta?.tool_calls ?? []) {
+			if (!toolBlocks.has(call.index)) {
+				closeBlock(out);
+				blockIndex++;
+				openBlock = "tool_use";
+				toolBlocks.set(call.index, blockIndex);
+				out.push(
+					sse("content_block_start", {
+						index: blockIndex,
+						content_block: {
+							type: "tool_use",
+							id: call.id ?? `toolu_${crypto.randomUUID()}`,
+							name: call.function?.name ?? "",
+							input: {},
+						},
+					}),
+				);
+			}
+			// Arguments of earlier tool calls can't be continued once their
+			// block is closed, which compatible servers don't do in practice
+			if (
+				call.function?.arguments &&
+				toolBlocks.get(call.index) === blockIndex
+			) {
+				out.push(
+					sse("content_block_delta", {
+						index: blockIndex,
+						delta: {
+							type: "input_json_delta",
+							partial_json: call.function.arguments,
+						},
+					}),
+				);
+			}
+		}
+
+		if (choice.finish_reason) {
+			stopReason = toStopReason(choice.finish_reason);
+		}
+	};
+
+	const processLines = (lines: string[], out: string[]) => {
+		for (const line of lines) {
+			if (!line.startsWith("data:")) continue;
+			const data = line.slice(5).trim();
+			if (data === "[DONE]") {
+				finish(out);
+				continue;
+			}
+			try {
+				handleChunk(JSON.parse(data) as ChatCompletionChunk, out);
+			} catch {
+				// Skip malformed chunks
+			}
+		}
+	};
+
+	return new TransformStream({
+		transform(bytes, controller) {
+			buffered += decoder.decode(bytes, { stream: true });
+			const lines = buffered.split("\n");
+			buffered = lines.pop() ?? "";
+
+			const out: string[] = [];
+			processLines(lines, out);
+			if (out.length > 0) controller.enqueue(encoder.encode(out.join("")));
+		},
+		flush(controller) {
+			const out: string[] = [];
+			processLines([buffered], out);
+			// Streams that end without [DONE] still get a complete message
+			finish(out);
+			if (out.length > 0) controller.enqueue(encoder.encode(out.join("")));
+		},
+	});
+}
@@ -0,0 +1,382 @@
+/**
+ * Translation between the Anthropic Messages API and the OpenAI chat
+ * completions API. Only the fields both APIs share are carried over; Anthropic
+ * features without an equivalent (thinking, cache control, top_k) are dropped.
+ */
+
+type AnthropicContentBlock =
+	| { type: "text"; text: string }
+	| {
+			type: "image";
+			source:
+				| { type: "base64"; media_type: string; data: string }
+				| { type: "url"; url: string };
+	  }
+	| { type: "tool_use"; id: string; name: string; input: unknown }
+	| {
+			type: "tool_result";
+			tool_use_id: string;
+			content?: string | AnthropicContentBlock[];
+			is_error?: boolean;
+	  }
+	| { type: string; [key: string]: unknown };
+
+interface AnthropicMessage {
+	role: "user" | "assistant";
+	content: string | AnthropicContentBlock[];
+}
+
+interface AnthropicTool {
+	name: string;
+	description?: string;
+	input_schema?: unknown;
+}
+
+export interface AnthropicRequest {
+	model: string;
+	max_tokens?: number;
+	system?: string | Array<{ type: string; text?: string }>;
+	messages: AnthropicMessage[];
+	temperature?: number;
+	top_p?: number;
+	stop_sequences?: string[];
+	stream?: boolean;
+	tools?: AnthropicTool[];
+	tool_choice?: { type: "auto" | "any" | "none" | "tool"; name?: string };
+	metadata?: { user_id?: string };
+}
+
+type OpenAIContentPart =
+	| { type: "text"; text: string }
+	| { type: "image_url"; image_url: { url: string } };
+
+interface OpenAIToolCall {
+	id: string;
+	type: "function";
+	function: { name: string; arguments: string };
+}
+
+type OpenAIMessage =
+	| { role: "system"; content: string }
+	| { role: "user"; content: string | OpenAIContentPart[] }
+	| {
+			role: "assistant";
+			content: string | null;
+			tool_calls?: OpenAIToolCall[];
+	  }
+	| { role: "tool"; tool_call_id: string; content: string };
+
+export interface OpenAIRequest {
+	model: string;
+	messages: OpenAIMessage[];
+	max_tokens?: number;
+	temperature?: number;
+	top_p?: number;
+	stop?: string[];
+	stream?: boolean;
+	stream_options?: { include_usage: boolean };
+	tools?: Array<{
+		type: "function";
+		function: { name: string; description?: string; parameters?: unknown };
+	}>;
+	tool_choice?:
+		| "auto"
+		| "required"
+		| "none"
+		| { type: "function"; function: { name: string } };
+	user?: string;
+}
+
+export interface OpenAIUsage {
+	prompt_tokens?: number;
+	completion_tokens?: number;
+	prompt_tokens_details?: { cached_tokens?: number };
+}
+
+export interface OpenAIResponse {
+	id?: string;
+	model?: string;
+	choices?: Array<{
+		message?: {
+			content?: string | null;
+			tool_calls?: OpenAIToolCall[];
+		};
+		finish_reason?: string | null;
+	}>;
+	usage?: OpenAIUsage;
+}
+
+export interface AnthropicUsage {
+	input_tokens: number;
+	output_tokens: number;
+	cache_read_input_tokens?: number;
+}
+
+/**
+ * Resolve the upstream model for a requested model: an exact key of the map
+ * first, then the longest key the model contains, then the "*" default. Models
+ * without a match are sent unchanged.
+ */
+export function resolveModel(
+	model: string,
+	modelMap: Record<string, string>,
+): string {
+	if (modelMap[model]) return modelMap[model];
+	const match = Object.keys(modelMap)
+		.filter((key) => key !== "*" && model.includes(key))
+		.sort((a, b) => b.length - a.length)[0];
+	return match ? modelMap[match] : (modelMap["*"] ?? model);
+}
+
+function textOf(content: string | AnthropicContentBlock[] | undefined): string {
+	if (content === undefined) return "";
+	if (typeof content === "string") return content;
+	return content
+		.filter((block) => block.type === "text")
+		.map((block) => (block as { text: string }).text)
+		.join("\n");
+}
+
+function toContentPart(block: AnthropicContentBlock): OpenAIContentPart | null {
+	if (block.type === "text") {
+		return { type: "text", text: (block as { text: string }).text };
+	}
+	if (block.type === "image") {
+		const { source } = block as Extract<
+			AnthropicContentBlock,
+			{ type: "image" }
+		>;
+		return {
+			type: "image_url",
+			image_url: {
+				url:
+					source.type === "base64"
+						? `data:${source.media_type};base64,${source.data}`
+						: source.url,
+			},
+		};
+	}
+	return null;
+}
+
+/**
+ * Convert one Anthropic message into OpenAI messages. Tool results become
+ * separate "tool" messages, which must directly follow the assistant message
+ * with the matching tool calls, so they come before the user's other content.
+ */
+function toOpenAIMessages(message: AnthropicMessage): OpenAIMessage[] {
+	if (typeof message.content === "string") {
+		return [{ role: message.role, content: message.content }];
+	}
+
+	if (message.role === "assistant") {
+		const text = textOf(message.content);
+		const toolCalls = message.content
+			.filter((block) => block.type === "tool_use")
+			.map((block) => {
+				const toolUse = block as { id: string; name: string; input: unknown };
+				return {
+					id: toolUse.id,
+					type: "function" as const,
+					function: {
+						name: toolUse.name,
+						arguments: JSON.stringify(toolUse.input ?? {}),
+					},
+				};
+			});
+		return [
+			{
+				role: "assistant",
+				content: text || null,
+				...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+			},
+		];
+	}
+
+	const messages: OpenAIMessage[] = [];
+	const parts: OpenAIContentPart[] = [];
+	for (const block of message.content) {
+		if (block.type === "tool_result") {
+			const result = block as Extract<
+				AnthropicContentBlock,
+				{ type: "tool_result" }
+			>;
+			const content = textOf(result.content);
+			messages.push({
+				role: "tool",
+				tool_call_id: result.tool_use_id,
+				content: result.is_error ? `Error: ${content}` : content,
+			});
+			continue;
+		}
+		const part = toContentPart(block);
+		if (part) parts.push(part);
+	}
+
+	if (parts.length > 0) {
+		messages.push({
+			role: "user",
+			content: parts.every((part) => part.type === "text")
+				? parts.map((part) => (part as { text: string }).text).join("\n")
+				: parts,
+		});
+	}
+	return messages;
+}
+
+/**
+ * Translate an Anthropic Messages request into a chat completions request
+ */
+export function toOpenAIRequest(
+	request: AnthropicRequest,
+	model: string,
+): OpenAIRequest {
+	const system = textOf(
+		request.system as string | AnthropicContentBlock[] | undefined,
+	);
+
+	const body: OpenAIRequest = {
+		model,
+		messages: [
+			...(system ? [{ role: "system" as const, content: system }] : []),
+			...request.messages.flatMap(toOpenAIMessages),
+		],
+	};
+
+	if (request.max_tokens !== undefined) body.max_tokens = request.max_tokens;
+	if (request.temperature !== undefined) body.temperature = request.temperature;
+	if (request.top_p !== undefined) body.top_p = request.top_p;
+	if (request.stop_sequences?.length) body.stop = request.stop_sequences;
+	if (request.metadata?.user_id) body.user = request.metadata.user_id;
+	if (request.stream) {
+		body.stream = true;
+		body.stream_options = { include_usage: true };
+	}
+
+	if (request.tools?.length) {
+		body.tools = request.tools.map((tool) => ({
+			type: "function",
+			function: {
+				name: tool.name,
+				description: tool.description,
+				parameters: tool.input_schema,
+			},
+		}));
+
+		const choice = request.tool_choice;
+		if (choice?.type === "any") body.tool_choice = "required";
+		else if (choice?.type === "none") body.tool_choice = "none";
+		else if (choice?.type === "tool" && choice.name) {
+			body.tool_choice = { type: "function", function: { name: choice.name } };
+		} else if (choice?.type === "auto") body.tool_choice = "auto";
+	}
+
+	return body;
+}
+
+export function toStopReason(finishReason: string | null | undefined): string {
+	switch (finishReason) {
+		case "length":
+			return "max_tokens";
+		case "tool_calls":
+		case "function_call":
+			return "tool_use";
+		default:
+			return "end_turn";
+	}
+}
+
+export function toAnthropicUsage(
+	usage: OpenAIUsage | undefined,
+): AnthropicUsage {
+	const cached = usage?.prompt_tokens_details?.cached_tokens ?? 0;
+	return {
+		input_tokens: (usage?.prompt_tokens ?? 0) - cached,
+		output_tokens: usage?.completion_tokens ?? 0,
+		...(cached > 0 ? { cache_read_input_tokens: cached } : {}),
+	};
+}
+
+/**
+ * Parse tool call arguments, keeping malformed JSON from the model readable
+ */
+function parseArguments(value: string): unknown {
+	try {
+		return value ? JSON.parse(value) : {};
+	} catch {
+		return { arguments: value };
+	}
+}
+
+/**
+ * Translate a chat completion into an Anthropic message
+ */
+export function toAnthropicMessage(
+	response: OpenAIResponse,
+	fallbackModel: string,
+): Record<string, unknown> {
+	const choice = response.choices?.[0];
+	const content: Array<Record<string, unknown>> = [];
+
+	if (choice?.message?.content) {
+		content.push({ type: "text", text: choice.message.content });
+	}
+	for (const call of choice?.message?.tool_calls ?? []) {
+		content.push({
+			type: "tool_use",
+			id: call.id,
+			name: call.function.name,
+			input: parseArguments(call.function.arguments),
+		});
+	}
+
+	return {
+		id: `msg_${response.id ?? crypto.randomUUID()}`,
+		type: "message",
+		role: "assistant",
+		model: response.model ?? fallbackModel,
+		content,
+		stop_reason: toStopReason(choice?.finish_reason),
+		stop_sequence: null,
+		usage: toAnthropicUsage(response.usage),
+	};
+}
+
+/**
+ * Translate an OpenAI-style error body into an Anthropic error body
+ */
+export function toAnthropicError(
+	status: number,
+	body: string,
+): Record<string, unknown> {
+	let message = body || `Upstream returned ${status}`;
+	try {
+		const parsed = JSON.parse(body) as {
+			error?: { message?: string } | string;
+			message?: string;
+		};
+		message =
+			(typeof parsed.error === "string"
+				? parsed.error
+				: parsed.error?.message) ??
+			parsed.message ??
+			message;
+	} catch {
+		// Not JSON, keep the raw body
+	}
+
+	const type =
+		status === 400
+			? "invalid_request_error"
+			: status === 401
+				? "authentication_error"
+				: status === 403
+					? "permission_error"
+					: status === 404
+						? "not_found_error"
+						: status === 429
+							? "rate_limit_error"
+							: "api_error";
+
+	return { type: "error", error: { type, message } };
+}
@@ -28,8 +28,16 @@ export interface Provider {
 
 	/**
 	 * Build the target URL for the provider
+	 * @param account - Account the request is sent with, for providers whose
+	 * upstream differs per account
 	 */
-	buildUrl(path: string, query: string): string;
+	buildUrl(path: string, query: string, account?: Account | null): string;
+
+	/**
+	 * Translate the request body into the upstream's format, for providers
+	 * that don't speak the Anthropic Messages API
+	 */
+	transformRequestBody?(body: ArrayBuffer, account: Account): ArrayBuffer;
 
 	/**
 	 * Prepare headers for the provider request
@@ -0,0 +1,69 @@
+import { createHash } from "node:crypto";
+import { HEADERS } from "./handlers/proxy-types";
+
+// Longer client-supplied ids are cut so they can't bloat the requests table
+const MAX_CONVERSATION_ID_LENGTH = 128;
+const WORKING_DIRECTORY_PATTERN = /Working directory:\s*(.+)/;
+
+type ContentBlock = { type?: string; text?: string };
+
+interface MessagesBody {
+	system?: string | ContentBlock[];
+	messages?: Array<{ role?: string; content?: string | ContentBlock[] }>;
+}
+
+/**
+ * Join the text blocks of a system prompt or message, ignoring cache_control
+ * markers, which move between turns
+ */
+function textOf(content: string | ContentBlock[] | undefined): string {
+	if (typeof content === "string") return content;
+	if (!Array.isArray(content)) return "";
+	return content
+		.filter((block) => block.type === "text" && block.text)
+		.map((block) => block.text)
+		.join("\n");
+}
+
+/**
+ * Derive the conversation a request is a turn of. Clients can name it with the
+ * x-ccflare-conversation-id header; otherwise it is a hash of the system
+ * prompt, working directory and first user message, which every turn resends.
+ * Compacting a conversation or starting a subagent begins a new one.
+ * @param headers - Request headers as sent by the client
+ * @param body - Request body as sent by the client (base64)
+ * @returns null when the request carries no messages
+ */
+export function deriveConversationId(
+	headers: Record<string, string>,
+	body: string | null,
+): string | null {
+	const headerId = headers[HEADERS.CONVERSATION_ID]?.trim();
+	if (headerId) {
+		return headerId.slice(0, MAX_CONVERSATION_ID_LENGTH);
+	}
+
+	if (!body) return null;
+	let json: MessagesBody;
+	try {
+		json = JSON.parse(Buffer.from(body, "base64").toString("utf-8"));
+	} catch {
+		return null;
+	}
+
+	const firstUserMessage = json.messages?.find(
+		(message) => message.role === "user",
+	);
+	if (!firstUserMessage) return null;
+
+	const system = textOf(json.system);
+	const workspace = system.match(WORKING_DIRECTORY_PATTERN)?.[1]?.trim() ?? "";
+	return createHash("sha256")
+		.update(system)
+		.update("\0")
+		.update(workspace)
+		.update("\0")
+		.update(textOf(firstUserMessage.content))
+		.digest("hex")
+		.slice(0, 32);
+}
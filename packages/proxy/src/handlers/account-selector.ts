@@ -1,34 +1,239 @@
+import { isAccountAvailable, ServiceUnavailableError } from "@ccflare/core";
+import { Logger } from "@ccflare/logger";
+import { getProvider, type Provider } from "@ccflare/providers";
 import type { Account, RequestMeta } from "@ccflare/types";
-import type { ProxyContext } from "./proxy-types";
+import { HEADERS, type ProxyContext } from "./proxy-types";
+import { getRequestQueue, type QueueAvailability } from "./request-queue";
+import { findRoutingRule, type RoutingTarget } from "./routing";
+
+const log = new Logger("AccountSelector");
+
+/**
+ * Gets the provider an account's requests are sent through: the account's own
+ * provider when it is registered, otherwise the context's default provider
+ */
+export function getAccountProvider(
+	account: Account,
+	ctx: ProxyContext,
+): Provider {
+	if (account.provider === ctx.provider.name) return ctx.provider;
+	return getProvider(account.provider) ?? ctx.provider;
+}
 
 /**
- * Gets accounts ordered by the load balancing strategy
+ * Whether an account can serve a request. Accounts of the default provider
+ * serve every request; accounts of other providers, such as OpenAI-compatible
+ * upstreams, only serve requests a routing rule sends to their group, on paths
+ * their provider can translate.
+ */
+function canServe(
+	account: Account,
+	ctx: ProxyContext,
+	path: string,
+	routed: boolean,
+): boolean {
+	if (account.provider === ctx.provider.name || account.provider === null) {
+		return true;
+	}
+	return routed && (getProvider(account.provider)?.canHandle(path) ?? false);
+}
+
+/**
+ * Gets accounts ordered by the load balancing strategy. Unless disabled with
+ * preferOAuthAccounts, the strategy picks among OAuth (subscription) accounts
+ * first and available API-key accounts are appended after them, so
+ * pay-as-you-go keys are only used when every OAuth account fails or none is
+ * available.
  * @param meta - Request metadata
  * @param ctx - The proxy context
+ * @param accounts - Candidate accounts; defaults to all accounts
+ * @param routed - Whether a routing rule picked the accounts
  * @returns Array of ordered accounts
  */
 export function getOrderedAccounts(
 	meta: RequestMeta,
 	ctx: ProxyContext,
+	accounts: Account[] = ctx.dbOps.getAllAccounts(),
+	routed = false,
 ): Account[] {
-	const allAccounts = ctx.dbOps.getAllAccounts();
 	// Filter accounts by provider
-	const providerAccounts = allAccounts.filter(
-		(account) =>
-			account.provider === ctx.provider.name || account.provider === null,
+	const providerAccounts = accounts.filter((account) =>
+		canServe(account, ctx, meta.path, routed),
+	);
+	if (!ctx.runtime.preferOAuthAccounts) {
+		return ctx.strategy.select(providerAccounts, meta);
+	}
+
+	const apiKeyAccounts = providerAccounts.filter(
+		(account) => account.auth_type === "api_key",
 	);
-	return ctx.strategy.select(providerAccounts, meta);
+	const oauthAccounts = ctx.strategy.select(
+		providerAccounts.filter((account) => account.auth_type === "oauth"),
+		meta,
+	);
+	if (oauthAccounts.length === 0) {
+		return ctx.strategy.select(apiKeyAccounts, meta);
+	}
+	return [
+		...oauthAccounts,
+		...apiKeyAccounts.filter((account) => isAccountAvailable(account)),
+	];
 }
 
 /**
- * Selects accounts for a request based on the load balancing strategy
+ * Selects accounts for a request based on the routing rules and the load
+ * balancing strategy. When a routing rule matches, only accounts in its group
+ * are used; its fallback groups are tried in order while no account in the
+ * previous group is available. The decision is recorded on meta.routing.
  * @param meta - Request metadata
  * @param ctx - The proxy context
+ * @param target - Request attributes for routing rules
  * @returns Array of selected accounts
+ * @throws {ServiceUnavailableError} If a rule matched but none of its groups has an available account
  */
 export function selectAccountsForRequest(
 	meta: RequestMeta,
 	ctx: ProxyContext,
+	target: RoutingTarget,
+): Account[] {
+	const rule = findRoutingRule(ctx.dbOps.listEnabledRoutingRules(), target);
+	if (!rule) {
+		return getOrderedAccounts(meta, ctx);
+	}
+
+	const allAccounts = ctx.dbOps.getAllAccounts();
+	const groups = [rule.group, ...rule.fallbackGroups];
+
+	// Groups are selected one at a time so strategies only start sessions on
+	// accounts that are actually used
+	for (const [index, group] of groups.entries()) {
+		const accounts = getOrderedAccounts(
+			meta,
+			ctx,
+			allAccounts.filter((account) => account.groups.includes(group)),
+			true,
+		);
+		if (accounts.length > 0) {
+			meta.routing = {
+				ruleId: rule.id,
+				ruleName: rule.name,
+				group,
+				fallbackUsed: index > 0,
+			};
+			log.info(
+				`Routing rule ${rule.name} matched, using group ${group}${index > 0 ? " (fallback)" : ""}`,
+			);
+			return accounts;
+		}
+	}
+
+	throw new ServiceUnavailableError(
+		`Routing rule ${rule.name} matched but no account is available in group${groups.length > 1 ? "s" : ""} ${groups.join(", ")}`,
+		ctx.provider.name,
+	);
+}
+
+/**
+ * Gets every account a request may use, available or not: accounts of the
+ * provider, limited to the groups of the matching routing rule
+ */
+function getCandidateAccounts(
+	ctx: ProxyContext,
+	target: RoutingTarget,
+	availability: QueueAvailability = {
+		accounts: ctx.dbOps.getAllAccounts(),
+		routingRules: ctx.dbOps.listEnabledRoutingRules(),
+	},
+): Account[] {
+	const { accounts, routingRules } = availability;
+	const rule = findRoutingRule(routingRules, target);
+	if (!rule) {
+		return accounts.filter((account) =>
+			canServe(account, ctx, target.path, false),
+		);
+	}
+
+	const groups = [rule.group, ...rule.fallbackGroups];
+	return accounts.filter(
+		(account) =>
+			account.groups.some((group) => groups.includes(group)) &&
+			canServe(account, ctx, target.path, true),
+	);
+}
+
+/**
+ * Gets the rate-limited accounts a request may use, soonest reset first. Rate
+ * limits are tracked per account rather than per model, so these accounts can
+ * still serve the request with a fallback model. Paused accounts are skipped.
+ * @param ctx - The proxy context
+ * @param target - Request attributes for routing rules
+ */
+export function selectRateLimitedAccounts(
+	ctx: ProxyContext,
+	target: RoutingTarget,
 ): Account[] {
-	return getOrderedAccounts(meta, ctx);
+	const now = Date.now();
+	return getCandidateAccounts(ctx, target)
+		.filter(
+			(account) => !account.paused && (account.rate_limited_until ?? 0) >= now,
+		)
+		.sort((a, b) => (a.rate_limited_until ?? 0) - (b.rate_limited_until ?? 0));
+}
+
+/**
+ * Selects accounts for a request like selectAccountsForRequest, but when every
+ * account the request can use is rate limited it first waits in the request
+ * queue for one to become available. Paused accounts are never waited for.
+ * @param meta - Request metadata
+ * @param ctx - The proxy context
+ * @param target - Request attributes for routing rules
+ * @returns Array of selected accounts, empty if none became available
+ * @throws {ServiceUnavailableError} If a rule matched but none of its groups has an available account
+ */
+export async function selectAccountsWhenAvailable(
+	meta: RequestMeta,
+	ctx: ProxyContext,
+	target: RoutingTarget,
+): Promise<Account[]> {
+	let selectionError: unknown = null;
+	try {
+		const accounts = selectAccountsForRequest(meta, ctx, target);
+		if (accounts.length > 0) {
+			return accounts;
+		}
+	} catch (error) {
+		if (!(error instanceof ServiceUnavailableError)) {
+			throw error;
+		}
+		selectionError = error;
+	}
+
+	const resets = getCandidateAccounts(ctx, target)
+		.filter((account) => !account.paused)
+		.map((account) => account.rate_limited_until ?? 0);
+	const outcome =
+		resets.length > 0
+			? await getRequestQueue().wait({
+					priority:
+						Number.parseInt(target.headers.get(HEADERS.PRIORITY) ?? "", 10) ||
+						0,
+					availableAt: Math.min(...resets),
+					loadAvailability: () => ({
+						accounts: ctx.dbOps.getAllAccounts(),
+						routingRules: ctx.dbOps.listEnabledRoutingRules(),
+					}),
+					availableAccounts: (availability) =>
+						getCandidateAccounts(ctx, target, availability)
+							.filter((account) => isAccountAvailable(account))
+							.map((account) => account.id),
+				})
+			: "skipped";
+
+	if (outcome === "skipped") {
+		if (selectionError) throw selectionError;
+		return [];
+	}
+
+	log.info(`Request left the queue: ${outcome}`);
+	return selectAccountsForRequest(meta, ctx, target);
 }
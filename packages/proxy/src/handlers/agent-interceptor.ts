@@ -14,15 +14,22 @@ export interface AgentInterceptResult {
 	appliedModel: string | null;
 }
 
+export interface AgentInterceptOptions {
+	/** Don't register agent workspaces found in the prompt (used by previews) */
+	dryRun?: boolean;
+}
+
 /**
  * Detects agent usage and modifies the request body to use the preferred model
  * @param requestBodyBuffer - The buffered request body
  * @param dbOps - Database operations instance
+ * @param options - Dry runs only detect agents of already registered workspaces
  * @returns Modified request body and agent information
  */
 export async function interceptAndModifyRequest(
 	requestBodyBuffer: ArrayBuffer | null,
 	dbOps: DatabaseOperations,
+	options: AgentInterceptOptions = {},
 ): Promise<AgentInterceptResult> {
 	// If no body, nothing to intercept
 	if (!requestBodyBuffer) {
@@ -82,7 +89,10 @@ export async function interceptAndModifyRequest(
 			log.info(`Total CLAUDE.md occurrences: ${matches ? matches.length : 0}`);
 		}
 
-		const extraDirs = extractAgentDirectories(systemPrompt);
+		// Registering workspaces changes agent discovery, so dry runs skip it
+		const extraDirs = options.dryRun
+			? []
+			: extractAgentDirectories(systemPrompt);
 		log.info(
 			`Found ${extraDirs.length} potential agent directories in system prompt`,
 		);
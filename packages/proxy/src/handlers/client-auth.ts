@@ -0,0 +1,84 @@
+import type { ApiKey } from "@ccflare/database";
+import { Logger } from "@ccflare/logger";
+import type { ProxyContext } from "./proxy-types";
+
+const log = new Logger("ClientAuth");
+
+export type ClientAuthResult =
+	| { ok: true; apiKey: ApiKey | null }
+	| { ok: false; response: Response };
+
+/**
+ * Reads the client key from x-api-key or an "Authorization: Bearer" header
+ */
+function extractClientKey(headers: Headers): string | null {
+	const apiKey = headers.get("x-api-key");
+	if (apiKey) return apiKey.trim();
+
+	const authorization = headers.get("authorization");
+	const match = authorization?.match(/^Bearer\s+(.+)$/i);
+	return match ? match[1].trim() : null;
+}
+
+/**
+ * Builds an error in the Messages API format so clients surface the message
+ */
+function authenticationError(message: string): Response {
+	return new Response(
+		JSON.stringify({
+			type: "error",
+			error: { type: "authentication_error", message },
+		}),
+		{ status: 401, headers: { "Content-Type": "application/json" } },
+	);
+}
+
+/**
+ * Checks the client key of a proxied request. Authentication is enforced once
+ * the first client key has been created; before that every request is allowed.
+ * @param req - The incoming request
+ * @param ctx - The proxy context
+ * @returns The matching key, or a 401 response to send back
+ */
+export function authenticateClient(
+	req: Request,
+	ctx: ProxyContext,
+): ClientAuthResult {
+	if (!ctx.dbOps.hasApiKeys()) {
+		return { ok: true, apiKey: null };
+	}
+
+	const key = extractClientKey(req.headers);
+	if (!key) {
+		return {
+			ok: false,
+			response: authenticationError(
+				"A ccflare API key is required. Send it in the x-api-key header.",
+			),
+		};
+	}
+
+	const apiKey = ctx.dbOps.findActiveApiKey(key);
+	if (!apiKey) {
+		log.warn("Rejected request with an invalid or revoked client key");
+		return {
+			ok: false,
+			response: authenticationError("Invalid or revoked ccflare API key"),
+		};
+	}
+
+	const timestamp = Date.now();
+	ctx.asyncWriter.enqueue(() => ctx.dbOps.touchApiKey(apiKey.id, timestamp));
+	return { ok: true, apiKey };
+}
+
+/**
+ * Removes the client key so it is neither forwarded upstream nor stored with
+ * the request payload
+ */
+export function stripClientCredentials(req: Request): Request {
+	const headers = new Headers(req.headers);
+	headers.delete("x-api-key");
+	headers.delete("authorization");
+	return new Request(req, { headers });
+}
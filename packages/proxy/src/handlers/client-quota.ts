@@ -0,0 +1,172 @@
+import type {
+	ApiKey,
+	ApiKeyUsage,
+	DatabaseOperations,
+} from "@ccflare/database";
+import { Logger } from "@ccflare/logger";
+import type { ProxyContext } from "./proxy-types";
+
+const log = new Logger("ClientQuota");
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Remaining allowance and window resets of a client key. Remaining values
+ * are null for unlimited quotas.
+ */
+export interface ClientQuota {
+	limits: ApiKey["limits"];
+	usage: Omit<ApiKeyUsage, "oldestRequestLastMinute">;
+	remaining: {
+		requestsPerMinute: number | null;
+		tokensPerDay: number | null;
+		usdPerMonth: number | null;
+	};
+	resets: {
+		/** When the oldest request leaves the one-minute window */
+		minute: number;
+		/** Next UTC midnight */
+		day: number;
+		/** Start of the next UTC calendar month */
+		month: number;
+	};
+}
+
+// Requests admitted in the last minute per key. The requests table is written
+// by the usage worker, so a burst would otherwise pass before its rows exist.
+const recentAdmissions = new Map<string, number[]>();
+
+function admissionsSince(keyId: string, since: number): number[] {
+	const recent = (recentAdmissions.get(keyId) ?? []).filter(
+		(ts) => ts >= since,
+	);
+	recentAdmissions.set(keyId, recent);
+	return recent;
+}
+
+function remainingOf(limit: number | null, used: number): number | null {
+	return limit === null ? null : Math.max(0, limit - used);
+}
+
+/**
+ * Computes the usage and remaining allowance of a client key from the logged
+ * requests. Days and months are UTC.
+ */
+export function getClientQuota(
+	apiKey: ApiKey,
+	dbOps: DatabaseOperations,
+	now = Date.now(),
+): ClientQuota {
+	const date = new Date(now);
+	const minuteStart = now - MINUTE_MS;
+	const dayStart = Date.UTC(
+		date.getUTCFullYear(),
+		date.getUTCMonth(),
+		date.getUTCDate(),
+	);
+	const monthStart = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+
+	const { oldestRequestLastMinute, ...usage } = dbOps.getApiKeyUsage(
+		apiKey.id,
+		{ minuteStart, dayStart, monthStart },
+	);
+
+	// Count requests that are admitted but not yet logged
+	const admitted = admissionsSince(apiKey.id, minuteStart);
+	let oldest = oldestRequestLastMinute;
+	if (admitted.length > usage.requestsLastMinute) {
+		usage.requestsLastMinute = admitted.length;
+		oldest = admitted[0];
+	}
+
+	const { limits } = apiKey;
+	return {
+		limits,
+		usage,
+		remaining: {
+			requestsPerMinute: remainingOf(
+				limits.requestsPerMinute,
+				usage.requestsLastMinute,
+			),
+			tokensPerDay: remainingOf(limits.tokensPerDay, usage.tokensToday),
+			usdPerMonth: remainingOf(limits.usdPerMonth, usage.usdThisMonth),
+		},
+		resets: {
+			minute: (oldest ?? now) + MINUTE_MS,
+			day: dayStart + 24 * 60 * 60 * 1000,
+			month: Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1),
+		},
+	};
+}
+
+/**
+ * Builds a 429 in the Messages API format with a retry-after header
+ */
+function rateLimitError(message: string, resetAt: number, now: number) {
+	return new Response(
+		JSON.stringify({
+			type: "error",
+			error: { type: "rate_limit_error", message },
+		}),
+		{
+			status: 429,
+			headers: {
+				"Content-Type": "application/json",
+				"retry-after": String(Math.max(1, Math.ceil((resetAt - now) / 1000))),
+			},
+		},
+	);
+}
+
+/**
+ * Rejects a request whose client key is over one of its quotas. Token and
+ * cost usage is only known once a response completes, so the request that
+ * crosses those limits still goes through and the following ones are rejected.
+ * @returns A 429 response to send back, or null if the request may proceed
+ */
+export function enforceClientQuota(
+	apiKey: ApiKey,
+	ctx: ProxyContext,
+): Response | null {
+	const { limits } = apiKey;
+	if (
+		limits.requestsPerMinute === null &&
+		limits.tokensPerDay === null &&
+		limits.usdPerMonth === null
+	) {
+		return null;
+	}
+
+	const now = Date.now();
+	const quota = getClientQuota(apiKey, ctx.dbOps, now);
+	const { remaining, resets } = quota;
+
+	let rejection: Response | null = null;
+	if (remaining.requestsPerMinute === 0) {
+		rejection = rateLimitError(
+			`Client key '${apiKey.name}' exceeded its limit of ${limits.requestsPerMinute} requests per minute`,
+			resets.minute,
+			now,
+		);
+	} else if (remaining.tokensPerDay === 0) {
+		rejection = rateLimitError(
+			`Client key '${apiKey.name}' exceeded its limit of ${limits.tokensPerDay} tokens per day`,
+			resets.day,
+			now,
+		);
+	} else if (remaining.usdPerMonth === 0) {
+		rejection = rateLimitError(
+			`Client key '${apiKey.name}' exceeded its monthly budget of $${limits.usdPerMonth}`,
+			resets.month,
+			now,
+		);
+	}
+
+	if (rejection) {
+		log.warn(`Rejected request from client key ${apiKey.name}: over quota`);
+		return rejection;
+	}
+
+	admissionsSince(apiKey.id, now - MINUTE_MS).push(now);
+	return null;
+}
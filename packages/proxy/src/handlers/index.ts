@@ -1,8 +1,23 @@
-export { selectAccountsForRequest } from "./account-selector";
+export {
+	selectAccountsForRequest,
+	selectAccountsWhenAvailable,
+	selectRateLimitedAccounts,
+} from "./account-selector";
 export {
 	type AgentInterceptResult,
 	interceptAndModifyRequest,
 } from "./agent-interceptor";
+export {
+	authenticateClient,
+	type ClientAuthResult,
+	stripClientCredentials,
+} from "./client-auth";
+export {
+	type ClientQuota,
+	enforceClientQuota,
+	getClientQuota,
+} from "./client-quota";
+export { getFallbackModels, rewriteRequestModel } from "./model-fallback";
 export { proxyUnauthenticated, proxyWithAccount } from "./proxy-operations";
 export { ERROR_MESSAGES, type ProxyContext, TIMING } from "./proxy-types";
 export {
@@ -10,6 +25,21 @@ export {
 	prepareRequestBody,
 	validateProviderPath,
 } from "./request-handler";
+export {
+	getRequestQueue,
+	type QueueOutcome,
+	RequestQueue,
+} from "./request-queue";
 export { handleProxyError } from "./response-processor";
-export { applySystemPromptInterception } from "./system-prompt-interceptor";
+export {
+	findRoutingRule,
+	matchesRoutingRule,
+	type RoutingTarget,
+} from "./routing";
+export {
+	applySystemPromptInterception,
+	type ProfileMatchResult,
+	runSystemPromptInterception,
+	type SystemPromptInterceptionReport,
+} from "./system-prompt-interceptor";
 export { getValidAccessToken } from "./token-manager";
@@ -0,0 +1,48 @@
+import type { DatabaseOperations } from "@ccflare/database";
+import { Logger } from "@ccflare/logger";
+
+const log = new Logger("ModelFallback");
+
+/**
+ * Gets the models to try, in order, once a model is exhausted on every account
+ * @param model - Model the request is sent with
+ * @param dbOps - Database operations instance
+ * @returns Fallback models, empty when no chain is configured
+ */
+export function getFallbackModels(
+	model: string | null,
+	dbOps: DatabaseOperations,
+): string[] {
+	if (!model) return [];
+	return (dbOps.getModelFallbackChain(model)?.fallbacks ?? []).filter(
+		(fallback) => fallback !== model,
+	);
+}
+
+/**
+ * Rewrites the model of a JSON request body, the same way agent model
+ * preferences are applied
+ * @param requestBodyBuffer - The buffered request body
+ * @param model - Model to send the request with
+ * @returns The rewritten body, or null if the body is not a JSON object
+ */
+export function rewriteRequestModel(
+	requestBodyBuffer: ArrayBuffer | null,
+	model: string,
+): ArrayBuffer | null {
+	if (!requestBodyBuffer) return null;
+
+	try {
+		const requestBody = JSON.parse(new TextDecoder().decode(requestBodyBuffer));
+		if (!requestBody || typeof requestBody !== "object") return null;
+		requestBody.model = model;
+
+		const encodedData = new TextEncoder().encode(JSON.stringify(requestBody));
+		const modifiedBody = new ArrayBuffer(encodedData.byteLength);
+		new Uint8Array(modifiedBody).set(encodedData);
+		return modifiedBody;
+	} catch (error) {
+		log.error("Failed to rewrite request model:", error);
+		return null;
+	}
+}
@@ -2,13 +2,75 @@ import { logError, ProviderError } from "@ccflare/core";
 import { Logger } from "@ccflare/logger";
 import type { Account, RequestMeta } from "@ccflare/types";
 import { forwardToClient } from "../response-handler";
-import { ERROR_MESSAGES, type ProxyContext } from "./proxy-types";
+import { holdStreamUntilContent } from "../stream-tee";
+import { formatTraceparent, type SpanContext, tracer } from "../tracing";
+import { getAccountProvider } from "./account-selector";
+import { ERROR_MESSAGES, type ProxyContext, TIMING } from "./proxy-types";
 import { makeProxyRequest } from "./request-handler";
-import { handleProxyError, processProxyResponse } from "./response-processor";
+import {
+	handleProxyError,
+	handleRateLimitResponse,
+	processProxyResponse,
+} from "./response-processor";
+import {
+	discardResponse,
+	getRetryDelay,
+	isRetryableNetworkError,
+	isRetryableStatus,
+	waitForRetry,
+} from "./retry-policy";
 import { getValidAccessToken } from "./token-manager";
 
 const log = new Logger("ProxyOperations");
 
+/**
+ * Sends the upstream request inside a client span that ends once response
+ * headers arrive, so its duration is the upstream time to first byte. While
+ * tracing is enabled the span replaces the client's traceparent header.
+ */
+async function tracedProxyRequest(
+	targetUrl: string,
+	method: string,
+	headers: Headers,
+	createBodyStream: () => ReadableStream<Uint8Array> | undefined,
+	hasBody: boolean,
+	parentSpan: SpanContext | null,
+	retryAttempt: number,
+): Promise<Response> {
+	const span = tracer.startSpan("upstream", {
+		kind: "client",
+		parent: parentSpan,
+		attributes: {
+			"http.request.method": method,
+			"server.address": new URL(targetUrl).host,
+			"ccflare.retry_attempt": retryAttempt,
+		},
+	});
+	if (tracer.enabled) {
+		headers.set("traceparent", formatTraceparent(span));
+	}
+
+	try {
+		const response = await makeProxyRequest(
+			targetUrl,
+			method,
+			headers,
+			createBodyStream,
+			hasBody,
+		);
+		span.setAttribute("http.response.status_code", response.status);
+		if (response.status >= 500) {
+			span.setError(`Upstream returned ${response.status}`);
+		}
+		return response;
+	} catch (error) {
+		span.recordError(error);
+		throw error;
+	} finally {
+		span.end();
+	}
+}
+
 /**
  * Handles proxy request without authentication
  * @param req - The incoming request
@@ -17,6 +79,7 @@ const log = new Logger("ProxyOperations");
  * @param requestBodyBuffer - Buffered request body
  * @param createBodyStream - Function to create body stream
  * @param ctx - The proxy context
+ * @param parentSpan - Span of the whole request, when traced
  * @returns Promise resolving to the response
  * @throws {ProviderError} If the unauthenticated request fails
  */
@@ -27,6 +90,7 @@ export async function proxyUnauthenticated(
 	requestBodyBuffer: ArrayBuffer | null,
 	createBodyStream: () => ReadableStream<Uint8Array> | undefined,
 	ctx: ProxyContext,
+	parentSpan: SpanContext | null = null,
 ): Promise<Response> {
 	log.warn(ERROR_MESSAGES.NO_ACCOUNTS);
 
@@ -38,12 +102,14 @@ export async function proxyUnauthenticated(
 	);
 
 	try {
-		const response = await makeProxyRequest(
+		const response = await tracedProxyRequest(
 			targetUrl,
 			req.method,
 			headers,
 			createBodyStream,
 			!!req.body,
+			parentSpan,
+			0,
 		);
 
 		return forwardToClient(
@@ -59,6 +125,12 @@ export async function proxyUnauthenticated(
 				retryAttempt: 0,
 				failoverAttempts: 0,
 				agentUsed: requestMeta.agentUsed,
+				interceptedBy: requestMeta.interceptedBy,
+				originalRequestBody: requestMeta.originalBody,
+				apiKeyId: requestMeta.apiKeyId,
+				routing: requestMeta.routing,
+				fallbackFromModel: requestMeta.fallbackFromModel,
+				traceParent: parentSpan,
 			},
 			ctx,
 		);
@@ -77,6 +149,16 @@ export async function proxyUnauthenticated(
 
 /**
  * Attempts to proxy a request with a specific account
+ *
+ * Transient failures (5xx, 529 overloaded and dropped connections) are retried
+ * on the same account using the runtime retry settings before giving up. The
+ * final account in the failover list forwards its last error response instead
+ * of failing over so the client sees the upstream error. Streaming responses
+ * are held until the first content block, so a stream that errors before any
+ * content (e.g. overloaded or rate limited) also fails over. Requests go
+ * through the account's own provider, which may translate the request body
+ * and response for upstreams with a different API.
+ *
  * @param req - The incoming request
  * @param url - The parsed URL
  * @param account - The account to use
@@ -85,6 +167,8 @@ export async function proxyUnauthenticated(
  * @param createBodyStream - Function to create body stream
  * @param failoverAttempts - Number of failover attempts
  * @param ctx - The proxy context
+ * @param isLastAccount - Whether no other account is left to fail over to
+ * @param parentSpan - Span of the whole request, when traced
  * @returns Promise resolving to response or null if failed
  */
 export async function proxyWithAccount(
@@ -96,55 +180,200 @@ export async function proxyWithAccount(
 	createBodyStream: () => ReadableStream<Uint8Array> | undefined,
 	failoverAttempts: number,
 	ctx: ProxyContext,
+	isLastAccount = false,
+	parentSpan: SpanContext | null = null,
 ): Promise<Response | null> {
+	const { retry } = ctx.runtime;
+
+	const provider = getAccountProvider(account, ctx);
+	if (provider !== ctx.provider) {
+		ctx = { ...ctx, provider };
+	}
+	const upstreamBody =
+		requestBodyBuffer && provider.transformRequestBody
+			? provider.transformRequestBody(requestBodyBuffer, account)
+			: null;
+	const createUpstreamBody = upstreamBody
+		? () => new Response(upstreamBody).body ?? undefined
+		: createBodyStream;
+
+	const span = tracer.startSpan("proxyWithAccount", {
+		parent: parentSpan,
+		attributes: {
+			"ccflare.account": account.name,
+			"ccflare.provider": provider.name,
+			"ccflare.failover_attempt": failoverAttempts,
+		},
+	});
+
 	try {
-		log.info(`Attempting request with account: ${account.name}`);
+		for (let retryAttempt = 0; retryAttempt <= retry.attempts; retryAttempt++) {
+			const canRetry = retryAttempt < retry.attempts;
+			let response: Response;
 
-		// Get valid access token
-		const accessToken = await getValidAccessToken(account, ctx);
+			try {
+				log.info(
+					`Attempting request with account: ${account.name}${
+						retryAttempt > 0 ? ` (retry ${retryAttempt}/${retry.attempts})` : ""
+					}`,
+				);
 
-		// Prepare request
-		const headers = ctx.provider.prepareHeaders(
-			req.headers,
-			accessToken,
-			account.api_key || undefined,
-		);
-		const targetUrl = ctx.provider.buildUrl(url.pathname, url.search);
+				// Get valid access token
+				const accessToken = await tracer.withSpan(
+					"getValidAccessToken",
+					span,
+					() => getValidAccessToken(account, ctx),
+				);
 
-		// Make the request
-		const response = await makeProxyRequest(
-			targetUrl,
-			req.method,
-			headers,
-			createBodyStream,
-			!!req.body,
-		);
+				// Prepare request
+				const headers = provider.prepareHeaders(
+					req.headers,
+					accessToken,
+					account.api_key || undefined,
+				);
+				const targetUrl = provider.buildUrl(url.pathname, url.search, account);
 
-		// Process response and check for rate limit
-		const isRateLimited = processProxyResponse(response, account, ctx);
-		if (isRateLimited) {
-			return null; // Signal to try next account
+				// Make the request
+				response = await provider.processResponse(
+					await tracedProxyRequest(
+						targetUrl,
+						req.method,
+						headers,
+						createUpstreamBody,
+						!!req.body,
+						span,
+						retryAttempt,
+					),
+					account,
+				);
+			} catch (err) {
+				if (canRetry && isRetryableNetworkError(err)) {
+					const delay = getRetryDelay(retryAttempt, retry);
+					log.warn(
+						`Network error with account ${account.name}, retrying in ${delay}ms: ${
+							(err as Error).message
+						}`,
+					);
+					await waitForRetry(delay);
+					continue;
+				}
+				span.recordError(err);
+				handleProxyError(err, account, log);
+				return null;
+			}
+
+			// Process response and check for rate limit
+			span.setAttribute("http.response.status_code", response.status);
+			const isRateLimited = processProxyResponse(response, account, ctx);
+			if (isRateLimited) {
+				span.setAttribute("ccflare.rate_limited", true);
+				return null; // Signal to try next account
+			}
+
+			// Retry transient upstream errors, then fail over
+			if (isRetryableStatus(response.status)) {
+				const delay = getRetryDelay(retryAttempt, retry, response);
+				if (canRetry && delay <= TIMING.MAX_RETRY_DELAY) {
+					log.warn(
+						`Account ${account.name} returned ${response.status}, retrying in ${delay}ms`,
+					);
+					await discardResponse(response);
+					await waitForRetry(delay);
+					continue;
+				}
+				if (!isLastAccount) {
+					log.warn(
+						`Account ${account.name} returned ${response.status} after ${retryAttempt} retries, failing over`,
+					);
+					await discardResponse(response);
+					return null;
+				}
+			}
+
+			// Hold streams until content starts so early errors can fail over
+			if (
+				response.ok &&
+				response.body &&
+				ctx.provider.isStreamingResponse?.(response)
+			) {
+				const { stream, error, readError } = await holdStreamUntilContent(
+					response.body,
+				);
+				if (readError) {
+					const message = (readError as Error).message;
+					if (canRetry && isRetryableNetworkError(readError)) {
+						const delay = getRetryDelay(retryAttempt, retry);
+						log.warn(
+							`Stream from account ${account.name} failed before content, retrying in ${delay}ms: ${message}`,
+						);
+						await stream.cancel().catch(() => {});
+						await waitForRetry(delay);
+						continue;
+					}
+					if (!isLastAccount) {
+						log.warn(
+							`Stream from account ${account.name} failed before content, failing over: ${message}`,
+						);
+						await stream.cancel().catch(() => {});
+						return null;
+					}
+					span.recordError(readError);
+				}
+				if (error) {
+					if (error.type === "rate_limit_error") {
+						handleRateLimitResponse(
+							account,
+							ctx.provider.parseRateLimit(response),
+							ctx,
+						);
+					}
+					if (!isLastAccount) {
+						log.warn(
+							`Account ${account.name} stream failed before content (${error.type}: ${error.message}), failing over`,
+						);
+						await stream.cancel().catch(() => {});
+						return null;
+					}
+				}
+				response = new Response(stream, {
+					status: response.status,
+					statusText: response.statusText,
+					headers: response.headers,
+				});
+			}
+
+			try {
+				// Forward response to client
+				return await forwardToClient(
+					{
+						requestId: requestMeta.id,
+						method: req.method,
+						path: url.pathname,
+						account,
+						requestHeaders: req.headers,
+						requestBody: requestBodyBuffer,
+						response,
+						timestamp: requestMeta.timestamp,
+						retryAttempt,
+						failoverAttempts,
+						agentUsed: requestMeta.agentUsed,
+						interceptedBy: requestMeta.interceptedBy,
+						originalRequestBody: requestMeta.originalBody,
+						apiKeyId: requestMeta.apiKeyId,
+						routing: requestMeta.routing,
+						fallbackFromModel: requestMeta.fallbackFromModel,
+						traceParent: span,
+					},
+					ctx,
+				);
+			} catch (err) {
+				handleProxyError(err, account, log);
+				return null;
+			}
 		}
 
-		// Forward response to client
-		return forwardToClient(
-			{
-				requestId: requestMeta.id,
-				method: req.method,
-				path: url.pathname,
-				account,
-				requestHeaders: req.headers,
-				requestBody: requestBodyBuffer,
-				response,
-				timestamp: requestMeta.timestamp,
-				retryAttempt: 0,
-				failoverAttempts,
-				agentUsed: requestMeta.agentUsed,
-			},
-			ctx,
-		);
-	} catch (err) {
-		handleProxyError(err, account, log);
 		return null;
+	} finally {
+		span.end();
 	}
 }
@@ -28,10 +28,14 @@ export const ERROR_MESSAGES = {
 /** Timing constants */
 export const TIMING = {
 	WORKER_SHUTDOWN_DELAY: 100, // ms
+	MAX_RETRY_DELAY: 30000, // ms - longer retry-after waits fail over instead
+	QUEUE_POLL_INTERVAL: 250, // ms - how often queued requests check for an available account
 } as const;
 
 /** HTTP headers used in proxy operations */
 export const HEADERS = {
 	CONTENT_TYPE: "Content-Type",
 	AUTHORIZATION: "Authorization",
+	PRIORITY: "x-ccflare-priority",
+	CONVERSATION_ID: "x-ccflare-conversation-id",
 } as const;
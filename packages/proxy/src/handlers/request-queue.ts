@@ -0,0 +1,192 @@
+import type { RuntimeConfig } from "@ccflare/config";
+import { LIMITS, TIME_CONSTANTS } from "@ccflare/core";
+import type { RoutingRule } from "@ccflare/database";
+import { Logger } from "@ccflare/logger";
+import type { Account, RequestQueueStats } from "@ccflare/types";
+import { TIMING } from "./proxy-types";
+
+const log = new Logger("RequestQueue");
+
+/** How a request left the queue */
+export type QueueOutcome = "released" | "timeout" | "full" | "skipped";
+
+/** Accounts and routing rules, loaded once per release tick */
+export interface QueueAvailability {
+	accounts: Account[];
+	routingRules: RoutingRule[];
+}
+
+export interface QueueWaitOptions {
+	/** Higher priorities are released first when the queue is in priority order */
+	priority: number;
+	/** When the first candidate account stops being rate limited */
+	availableAt: number;
+	/** Loads the availability that every waiting request is checked against */
+	loadAvailability: () => QueueAvailability;
+	/** Ids of the available accounts the request can use */
+	availableAccounts: (availability: QueueAvailability) => string[];
+}
+
+interface QueueEntry {
+	priority: number;
+	enqueuedAt: number;
+	deadline: number;
+	loadAvailability: () => QueueAvailability;
+	availableAccounts: (availability: QueueAvailability) => string[];
+	resolve: (outcome: QueueOutcome) => void;
+}
+
+/**
+ * Bounded in-memory queue for requests that arrive while every account they
+ * can use is rate limited. Requests wait until an account becomes available
+ * or the max wait passes, and are released in FIFO or priority order, at
+ * most one per available account each tick so a freed account is not
+ * flooded with the whole backlog at once.
+ */
+export class RequestQueue {
+	private entries: QueueEntry[] = [];
+	private timer: ReturnType<typeof setInterval> | null = null;
+	private settings: RuntimeConfig["queue"] = {
+		maxWaitMs: TIME_CONSTANTS.QUEUE_MAX_WAIT_DEFAULT,
+		maxDepth: LIMITS.QUEUE_MAX_DEPTH_DEFAULT,
+		order: "fifo",
+	};
+	private totals = { queued: 0, released: 0, timedOut: 0, rejected: 0 };
+	private totalWaitMs = 0;
+	private maxObservedWaitMs = 0;
+
+	configure(settings: RuntimeConfig["queue"]): void {
+		this.settings = { ...settings };
+	}
+
+	/**
+	 * Waits until an account is available for the request
+	 * @returns "skipped" when queueing is disabled or no account becomes available within the max wait
+	 */
+	wait(options: QueueWaitOptions): Promise<QueueOutcome> {
+		const now = Date.now();
+		const { maxWaitMs, maxDepth } = this.settings;
+		if (maxWaitMs <= 0 || options.availableAt > now + maxWaitMs) {
+			return Promise.resolve("skipped");
+		}
+		if (this.entries.length >= maxDepth) {
+			this.totals.rejected++;
+			log.warn(`Request queue is full (${maxDepth}), not queueing request`);
+			return Promise.resolve("full");
+		}
+
+		this.totals.queued++;
+		return new Promise((resolve) => {
+			this.insert({
+				priority: options.priority,
+				enqueuedAt: now,
+				deadline: now + maxWaitMs,
+				loadAvailability: options.loadAvailability,
+				availableAccounts: options.availableAccounts,
+				resolve,
+			});
+			this.startTimer();
+		});
+	}
+
+	getStats(): RequestQueueStats {
+		const now = Date.now();
+		const left = this.totals.released + this.totals.timedOut;
+		return {
+			depth: this.entries.length,
+			maxDepth: this.settings.maxDepth,
+			maxWaitMs: this.settings.maxWaitMs,
+			order: this.settings.order,
+			oldestWaitMs: this.entries.reduce(
+				(oldest, entry) => Math.max(oldest, now - entry.enqueuedAt),
+				0,
+			),
+			...this.totals,
+			avgWaitMs: left > 0 ? Math.round(this.totalWaitMs / left) : 0,
+			maxObservedWaitMs: this.maxObservedWaitMs,
+		};
+	}
+
+	/**
+	 * Keeps entries in release order: enqueue time, or priority then enqueue
+	 * time in priority order
+	 */
+	private insert(entry: QueueEntry): void {
+		const index =
+			this.settings.order === "priority"
+				? this.entries.findIndex((other) => other.priority < entry.priority)
+				: -1;
+		if (index === -1) {
+			this.entries.push(entry);
+		} else {
+			this.entries.splice(index, 0, entry);
+		}
+	}
+
+	private startTimer(): void {
+		if (this.timer) return;
+		this.timer = setInterval(() => this.release(), TIMING.QUEUE_POLL_INTERVAL);
+		// Don't keep the process alive for queued requests
+		this.timer.unref();
+	}
+
+	/**
+	 * Releases requests in queue order, each claiming one available account
+	 * it can use for this tick, and times out the ones past their max wait.
+	 * Availability is loaded once per tick.
+	 */
+	private release(): void {
+		const now = Date.now();
+		const waiting: QueueEntry[] = [];
+		const claimed = new Set<string>();
+		let availability: QueueAvailability | null = null;
+
+		for (const entry of this.entries) {
+			let accountId: string | undefined;
+			try {
+				availability ??= entry.loadAvailability();
+				accountId = entry
+					.availableAccounts(availability)
+					.find((id) => !claimed.has(id));
+			} catch (error) {
+				log.error("Failed to check account availability:", error);
+			}
+
+			if (accountId) {
+				claimed.add(accountId);
+				this.totals.released++;
+				this.finish(entry, now, "released");
+			} else if (now >= entry.deadline) {
+				this.totals.timedOut++;
+				this.finish(entry, now, "timeout");
+			} else {
+				waiting.push(entry);
+			}
+		}
+
+		this.entries = waiting;
+		if (this.entries.length === 0 && this.timer) {
+			clearInterval(this.timer);
+			this.timer = null;
+		}
+	}
+
+	private finish(entry: QueueEntry, now: number, outcome: QueueOutcome): void {
+		const waitMs = now - entry.enqueuedAt;
+		this.totalWaitMs += waitMs;
+		this.maxObservedWaitMs = Math.max(this.maxObservedWaitMs, waitMs);
+		entry.resolve(outcome);
+	}
+}
+
+let requestQueueInstance: RequestQueue | null = null;
+
+/**
+ * Gets the request queue shared by the proxy, the API and the TUI
+ */
+export function getRequestQueue(): RequestQueue {
+	if (!requestQueueInstance) {
+		requestQueueInstance = new RequestQueue();
+	}
+	return requestQueueInstance;
+}
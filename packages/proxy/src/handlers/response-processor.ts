@@ -99,8 +99,13 @@ export function processProxyResponse(
 	const isStream = ctx.provider.isStreamingResponse?.(response) ?? false;
 	const rateLimitInfo = ctx.provider.parseRateLimit(response);
 
-	// Handle rate limit
-	if (!isStream && rateLimitInfo.isRateLimited && rateLimitInfo.resetTime) {
+	// Handle rate limit - successful streams carry rate limit headers too, but
+	// only an error response means this request was actually rejected
+	if (
+		(!isStream || !response.ok) &&
+		rateLimitInfo.isRateLimited &&
+		rateLimitInfo.resetTime
+	) {
 		handleRateLimitResponse(account, rateLimitInfo, ctx);
 		// Also update metadata for rate-limited responses
 		updateAccountMetadata(account, response, ctx);
@@ -0,0 +1,93 @@
+import type { RuntimeConfig } from "@ccflare/config";
+
+/** Upstream statuses worth retrying (529 is Anthropic's overloaded_error) */
+const RETRYABLE_STATUSES = new Set([500, 502, 503, 529]);
+
+/** Error codes fetch raises when the upstream connection drops */
+const RETRYABLE_ERROR_CODES = new Set([
+	"ECONNRESET",
+	"ECONNREFUSED",
+	"ETIMEDOUT",
+	"EPIPE",
+	"ConnectionClosed",
+	"ConnectionRefused",
+	"UND_ERR_SOCKET",
+]);
+
+/**
+ * Checks whether an upstream response status is a transient failure
+ * @param status - The HTTP status code
+ * @returns Whether the request should be retried
+ */
+export function isRetryableStatus(status: number): boolean {
+	return RETRYABLE_STATUSES.has(status);
+}
+
+/**
+ * Checks whether a thrown fetch error is a transient network failure
+ * @param error - The error thrown while making the request
+ * @returns Whether the request should be retried
+ */
+export function isRetryableNetworkError(error: unknown): boolean {
+	if (!(error instanceof Error)) return false;
+
+	const code = (error as Error & { code?: string }).code;
+	if (code && RETRYABLE_ERROR_CODES.has(code)) return true;
+
+	return /socket|connection (was )?(reset|closed|refused)/i.test(error.message);
+}
+
+/**
+ * Parses a retry-after header given either in seconds or as an HTTP date
+ * @param response - The upstream response
+ * @returns Delay in milliseconds, or null if the header is missing or invalid
+ */
+export function parseRetryAfter(response: Response): number | null {
+	const header = response.headers.get("retry-after");
+	if (!header) return null;
+
+	const seconds = Number(header);
+	if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+	const date = Date.parse(header);
+	if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+
+	return null;
+}
+
+/**
+ * Calculates how long to wait before the next retry
+ * @param attempt - Zero-based retry attempt
+ * @param retry - Retry settings from the runtime config
+ * @param response - The failed response, if any, to honour retry-after
+ * @returns Delay in milliseconds
+ */
+export function getRetryDelay(
+	attempt: number,
+	retry: RuntimeConfig["retry"],
+	response?: Response,
+): number {
+	const retryAfter = response ? parseRetryAfter(response) : null;
+	if (retryAfter !== null) return retryAfter;
+	return retry.delayMs * retry.backoff ** attempt;
+}
+
+/**
+ * Releases the body of a response that will not be forwarded
+ * @param response - The response to discard
+ */
+export async function discardResponse(response: Response): Promise<void> {
+	try {
+		await response.body?.cancel();
+	} catch {
+		// Body already consumed or errored - nothing to release
+	}
+}
+
+/**
+ * Waits before retrying
+ * @param ms - Delay in milliseconds
+ */
+export function waitForRetry(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
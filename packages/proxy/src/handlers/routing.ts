@@ -0,0 +1,63 @@
+import type { RoutingRule } from "@ccflare/database";
+
+/**
+ * Request attributes that routing rules are evaluated against
+ */
+export interface RoutingTarget {
+	/** Model the request is sent with, after agent model overrides */
+	model: string | null;
+	agentUsed: string | null;
+	path: string;
+	apiKeyId: string | null;
+	headers: Headers;
+}
+
+/**
+ * Checks whether every condition set on a rule matches the request
+ */
+export function matchesRoutingRule(
+	rule: RoutingRule,
+	target: RoutingTarget,
+): boolean {
+	const { match } = rule;
+
+	if (
+		match.model &&
+		!target.model?.toLowerCase().includes(match.model.toLowerCase())
+	) {
+		return false;
+	}
+
+	if (match.agent) {
+		const agent = target.agentUsed ?? "main";
+		if (agent !== match.agent) return false;
+	}
+
+	if (match.path && !target.path.startsWith(match.path)) {
+		return false;
+	}
+
+	if (match.apiKeyId && match.apiKeyId !== target.apiKeyId) {
+		return false;
+	}
+
+	if (match.header) {
+		const value = target.headers.get(match.header.name);
+		if (value === null) return false;
+		if (match.header.value !== undefined && value !== match.header.value) {
+			return false;
+		}
+	}
+
+	return true;
+}
+
+/**
+ * Finds the first matching rule; rules must be in evaluation order
+ */
+export function findRoutingRule(
+	rules: RoutingRule[],
+	target: RoutingTarget,
+): RoutingRule | null {
+	return rules.find((rule) => matchesRoutingRule(rule, target)) ?? null;
+}
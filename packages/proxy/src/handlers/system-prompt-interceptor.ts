@@ -1,5 +1,19 @@
-import type { DatabaseOperations } from "@ccflare/database";
+import {
+	renderPromptTemplate,
+	type TemplateVariables,
+	ValidationError,
+} from "@ccflare/core";
+import type {
+	DatabaseOperations,
+	InterceptorProfile,
+	SyntheticTool,
+} from "@ccflare/database";
 import { Logger } from "@ccflare/logger";
+import {
+	rewriteTools,
+	type Tool,
+	type ToolRewriteRules,
+} from "./tool-rewriter";
 
 const interceptLog = new Logger("SystemPromptInterceptor");
 const updateLog = new Logger("UpdateLastSeenPrompt");
@@ -14,18 +28,6 @@ interface SystemMessage {
 	};
 }
 
-// Tool definition based on Anthropic API specification
-interface Tool {
-	type: string;
-	name: string;
-	description?: string;
-	input_schema?: {
-		type: string;
-		properties?: Record<string, unknown>;
-		required?: string[];
-	};
-}
-
 interface RequestBody {
 	messages?: unknown[];
 	model?: string;
@@ -48,24 +50,327 @@ function isSystemMessageWithText(
 	);
 }
 
+const MAIN_AGENT_MARKER =
+	"You are Claude Code, Anthropic's official CLI for Claude.";
+const SUB_AGENT_MARKER = "You are an agent for Claude Code";
+
+/**
+ * Request attributes that interceptor profile match rules are evaluated against
+ */
+interface MatchTarget {
+	workspacePath: string | null;
+	model: string | null;
+	isMainAgent: boolean;
+	isSubAgent: boolean;
+	agentUsed: string | null;
+	originalPrompt: string;
+}
+
+/**
+ * Optional request context supplied by earlier proxy stages
+ */
+export interface SystemPromptInterceptionContext {
+	/** Agent id detected by the agent interceptor */
+	agentUsed?: string | null;
+	/** Model the client requested, before the agent interceptor swapped it */
+	originalModel?: string | null;
+	/** Skip recording the last-seen prompt and tools (used by previews) */
+	dryRun?: boolean;
+}
+
+/**
+ * Outcome of evaluating one profile against a request
+ */
+export interface ProfileMatchResult {
+	id: string;
+	name: string;
+	priority: number;
+	isEnabled: boolean;
+	matched: boolean;
+	reason: string;
+}
+
+/**
+ * Explains what the interceptor did with a request
+ */
+export interface SystemPromptInterceptionReport {
+	agentType: "main" | "subagent" | "other" | null;
+	workspacePath: string | null;
+	profiles: ProfileMatchResult[];
+	/** Profile whose template replaced the prompt */
+	promptProfileId: string | null;
+	/** Profiles whose prompt or tool rules changed the request */
+	appliedProfileIds: string[];
+	/** Why interception stopped early, if it did */
+	skippedReason: string | null;
+}
+
+/**
+ * Extracts the <env> block(s) from a system prompt
+ */
+function extractEnvBlock(prompt: string): string {
+	// Using global regex to find all env blocks
+	const envBlockRegex = /<env>([\s\S]*?)<\/env>/g;
+	const envBlocks = prompt.match(envBlockRegex) || [];
+
+	if (envBlocks.length === 0) {
+		interceptLog.warn(
+			"No env block found in system prompt, using empty string",
+		);
+		return "";
+	}
+	if (envBlocks.length === 1) {
+		interceptLog.info(`Extracted env block (${envBlocks[0].length} chars)`);
+		return envBlocks[0];
+	}
+
+	// Multiple env blocks found - concatenate them
+	const envBlock = envBlocks.join("\n");
+	interceptLog.warn(
+		`Found ${envBlocks.length} env blocks, concatenating them (${envBlock.length} chars total)`,
+	);
+	return envBlock;
+}
+
+/**
+ * Extracts the git status block, which starts with "gitStatus:" and
+ * continues to the end of the prompt
+ */
+function extractGitStatusBlock(prompt: string): string {
+	const gitStatusIndex = prompt.indexOf("gitStatus:");
+	if (gitStatusIndex === -1) {
+		interceptLog.info("No git status block found in system prompt");
+		return "";
+	}
+	const gitStatusBlock = prompt.substring(gitStatusIndex);
+	interceptLog.info(
+		`Extracted git status block (${gitStatusBlock.length} chars)`,
+	);
+	return gitStatusBlock;
+}
+
+/**
+ * Replaces the per-session parts of a system prompt, the <env> block(s) and
+ * the gitStatus section, with their template variables, so that only
+ * upstream changes make a new prompt version
+ */
+function normalizePromptForHistory(prompt: string): string {
+	const withoutEnv = prompt.replace(/<env>[\s\S]*?<\/env>/g, "{{env_block}}");
+	const gitStatusIndex = withoutEnv.indexOf("gitStatus:");
+	return gitStatusIndex === -1
+		? withoutEnv
+		: `${withoutEnv.substring(0, gitStatusIndex)}{{git_status_block}}`;
+}
+
+/**
+ * Reads the working directory from an <env> block
+ */
+function extractWorkingDirectory(envBlock: string): string | null {
+	const match = envBlock.match(/Working directory:\s*(.+)/);
+	return match ? match[1].trim() : null;
+}
+
+/**
+ * Reads a single-line "Label: value" field from a prompt section
+ */
+function extractField(text: string, label: string): string {
+	const match = text.match(new RegExp(`${label}:\\s*(.+)`));
+	return match ? match[1].trim() : "";
+}
+
+/**
+ * Collects the text parts of a message so section markers can be found
+ */
+function collectMessageText(message: unknown): string {
+	const texts: string[] = [];
+	const collect = (value: unknown) => {
+		if (typeof value === "string") {
+			texts.push(value);
+		} else if (Array.isArray(value)) {
+			for (const item of value) collect(item);
+		} else if (typeof value === "object" && value !== null) {
+			for (const item of Object.values(value)) collect(item);
+		}
+	};
+	collect(message);
+	return texts.join("\n");
+}
+
+/**
+ * Finds the CLAUDE.md contents section, which is sent either in the system
+ * prompt or in a system reminder inside the first user message
+ */
+function extractClaudeMd(originalPrompt: string, messages: unknown[]): string {
+	for (const text of [originalPrompt, collectMessageText(messages[0])]) {
+		const start = text.indexOf("# claudeMd");
+		if (start === -1) continue;
+		const rest = text.slice(start);
+		const ends = [
+			rest.indexOf("\n# ", 1),
+			rest.indexOf("</system-reminder>"),
+		].filter((index) => index > 0);
+		return (ends.length > 0 ? rest.slice(0, Math.min(...ends)) : rest).trim();
+	}
+	return "";
+}
+
+/**
+ * Builds the variables available to replacement prompt templates
+ */
+function buildTemplateVariables(
+	originalPrompt: string,
+	envBlock: string,
+	requestBody: RequestBody,
+): TemplateVariables {
+	const gitStatusBlock = extractGitStatusBlock(originalPrompt);
+	return {
+		env_block: envBlock,
+		git_status_block: gitStatusBlock,
+		working_directory: extractWorkingDirectory(envBlock) ?? "",
+		platform: extractField(envBlock, "Platform"),
+		today: extractField(envBlock, "Today's date"),
+		git_branch: extractField(gitStatusBlock, "Current branch"),
+		claude_md: extractClaudeMd(originalPrompt, requestBody.messages ?? []),
+		original_prompt: originalPrompt,
+		tool_names: (requestBody.tools ?? []).map((tool) => tool.name),
+	};
+}
+
+/**
+ * Checks a profile's match rules against the request
+ * @returns Whether the profile matches and a human-readable reason
+ */
+function evaluateProfile(
+	profile: InterceptorProfile,
+	target: MatchTarget,
+): { matched: boolean; reason: string } {
+	const match = profile.config.match ?? {};
+	const passed: string[] = [];
+
+	// Profiles without an agent rule keep the original main-agent-only behaviour
+	const agentRule = match.agent || "main";
+	if (agentRule === "main" && !target.isMainAgent) {
+		return { matched: false, reason: "Request is not from the main agent" };
+	}
+	if (agentRule === "subagent" && !target.isSubAgent) {
+		return { matched: false, reason: "Request is not from a subagent" };
+	}
+	if (
+		agentRule !== "main" &&
+		agentRule !== "subagent" &&
+		agentRule !== "any" &&
+		agentRule !== target.agentUsed
+	) {
+		return {
+			matched: false,
+			reason: `Detected agent ${target.agentUsed ?? "(none)"} is not ${agentRule}`,
+		};
+	}
+	passed.push(`agent is ${agentRule}`);
+
+	if (match.workspacePath) {
+		const prefix = match.workspacePath.replace(/\/+$/, "");
+		const cwd = target.workspacePath;
+		if (!cwd || (cwd !== prefix && !cwd.startsWith(`${prefix}/`))) {
+			return {
+				matched: false,
+				reason: `Working directory ${cwd ?? "(unknown)"} is not under ${prefix}`,
+			};
+		}
+		passed.push(`working directory is under ${prefix}`);
+	}
+
+	if (match.model) {
+		if (!target.model?.toLowerCase().includes(match.model.toLowerCase())) {
+			return {
+				matched: false,
+				reason: `Model ${target.model ?? "(none)"} does not contain "${match.model}"`,
+			};
+		}
+		passed.push(`model contains "${match.model}"`);
+	}
+
+	if (match.promptPattern) {
+		try {
+			if (!new RegExp(match.promptPattern).test(target.originalPrompt)) {
+				return {
+					matched: false,
+					reason: `System prompt does not match /${match.promptPattern}/`,
+				};
+			}
+			passed.push(`system prompt matches /${match.promptPattern}/`);
+		} catch (error) {
+			interceptLog.warn(
+				`Invalid prompt pattern in profile ${profile.name}, skipping profile:`,
+				error,
+			);
+			return { matched: false, reason: "Prompt pattern is invalid" };
+		}
+	}
+
+	return { matched: true, reason: `Matched: ${passed.join(", ")}` };
+}
+
 /**
- * Applies system prompt interception if configured.
+ * Applies system prompt interception using the matching interceptor profiles.
  *
- * This function provides template-based system prompt replacement for the main
- * Claude Code agent. It allows users to customize the instructional portion of
- * the system prompt while preserving dynamic environment data.
+ * This function provides template-based system prompt replacement. Each enabled
+ * profile in the interceptors table declares match rules (workspace path, model,
+ * agent, prompt regex). The highest-priority matching profile with a replacement
+ * template supplies the new prompt, while tool overrides from all matching
+ * profiles are merged with higher priorities winning. The dynamic environment
+ * data of the original prompt is preserved through template placeholders.
  *
  * @param requestBodyBuffer - The buffered request body
  * @param dbOps - Database operations instance
+ * @param context - Request context from earlier proxy stages
  * @returns Modified request body buffer if changes were made, null otherwise
  */
 export async function applySystemPromptInterception(
 	requestBodyBuffer: ArrayBuffer | null,
 	dbOps: DatabaseOperations,
+	context: SystemPromptInterceptionContext = {},
 ): Promise<ArrayBuffer | null> {
+	const { body } = await runSystemPromptInterception(
+		requestBodyBuffer,
+		dbOps,
+		context,
+	);
+	return body;
+}
+
+/**
+ * Runs system prompt interception and reports which profiles matched and why
+ * @param requestBodyBuffer - The buffered request body
+ * @param dbOps - Database operations instance
+ * @param context - Request context from earlier proxy stages
+ * @returns The modified body (null if unchanged) and the interception report
+ */
+export async function runSystemPromptInterception(
+	requestBodyBuffer: ArrayBuffer | null,
+	dbOps: DatabaseOperations,
+	context: SystemPromptInterceptionContext = {},
+): Promise<{
+	body: ArrayBuffer | null;
+	report: SystemPromptInterceptionReport;
+}> {
+	const report: SystemPromptInterceptionReport = {
+		agentType: null,
+		workspacePath: null,
+		profiles: [],
+		promptProfileId: null,
+		appliedProfileIds: [],
+		skippedReason: null,
+	};
+	const skip = (reason: string) => {
+		interceptLog.info(`${reason}, skipping interception`);
+		report.skippedReason = reason;
+		return { body: null, report };
+	};
+
 	// If no body, nothing to intercept
 	if (!requestBodyBuffer) {
-		return null;
+		return skip("Request has no body");
 	}
 
 	try {
@@ -73,178 +378,186 @@ export async function applySystemPromptInterception(
 		const bodyText = new TextDecoder().decode(requestBodyBuffer);
 		const requestBody = JSON.parse(bodyText) as RequestBody;
 
-		// Early check: Fetch interceptor configuration before any processing
-		const interceptorConfig = dbOps.getInterceptorConfig("system_prompt");
-
-		// If not enabled or config missing, return unchanged
-		if (!interceptorConfig || !interceptorConfig.isEnabled) {
-			interceptLog.info("System prompt interceptor is not enabled");
-			return null;
+		// Early check: Fetch profiles (highest priority first) before any processing
+		const allProfiles = dbOps.listInterceptorProfiles();
+		const profiles = allProfiles.filter((profile) => profile.isEnabled);
+		report.profiles = allProfiles.map((profile) => ({
+			id: profile.id,
+			name: profile.name,
+			priority: profile.priority,
+			isEnabled: profile.isEnabled,
+			matched: false,
+			reason: profile.isEnabled ? "Not evaluated" : "Profile is disabled",
+		}));
+
+		// If no profile is enabled, return unchanged
+		if (profiles.length === 0) {
+			return skip("No system prompt interceptor profiles are enabled");
 		}
 
-		interceptLog.info("System prompt interceptor is enabled");
+		interceptLog.info(
+			`${profiles.length} system prompt interceptor profile(s) enabled`,
+		);
 
-		// Check if this is a main agent request
 		if (!Array.isArray(requestBody.system)) {
-			interceptLog.info("System field is not an array, skipping interception");
-			return null;
+			return skip("System field is not an array");
 		}
 
-		// Check first system message for main agent identification with type guard
+		// Check first system message for agent identification with type guard
 		const firstSystemMessage = requestBody.system[0];
 		if (!isSystemMessageWithText(firstSystemMessage)) {
-			interceptLog.info(
-				"First system message is not in expected format, skipping interception",
-			);
-			return null;
+			return skip("First system message is not in expected format");
 		}
 		const firstSystemText = firstSystemMessage.text;
 
-		// Check if it's the main Claude Code agent (not a subagent)
-		const isMainAgent = firstSystemText.includes(
-			"You are Claude Code, Anthropic's official CLI for Claude.",
-		);
-		const isSubAgent = firstSystemText.includes(
-			"You are an agent for Claude Code",
-		);
-
-		if (!isMainAgent || isSubAgent) {
-			interceptLog.info(
-				`Not a main agent request (isMainAgent: ${isMainAgent}, isSubAgent: ${isSubAgent}), skipping interception`,
-			);
-			return null;
-		}
-
-		interceptLog.info(
-			"Detected main agent request, applying system prompt interception",
-		);
+		// Distinguish the main Claude Code agent from its subagents
+		const isSubAgent = firstSystemText.includes(SUB_AGENT_MARKER);
+		const isMainAgent =
+			firstSystemText.includes(MAIN_AGENT_MARKER) && !isSubAgent;
+		report.agentType = isMainAgent ? "main" : isSubAgent ? "subagent" : "other";
 
 		// Capture and save tools array for main agent requests
-		if (requestBody.tools && Array.isArray(requestBody.tools)) {
+		if (
+			isMainAgent &&
+			!context.dryRun &&
+			requestBody.tools &&
+			Array.isArray(requestBody.tools)
+		) {
+			// Keep a reference to the original array; the tools are rewritten below
+			const originalTools = requestBody.tools;
 			// Update last-seen tools in next tick (truly non-blocking)
 			setImmediate(() => {
-				_updateLastSeenTools(requestBody.tools as Tool[], dbOps);
+				_updateLastSeenTools(originalTools, dbOps);
 			});
 		}
 
 		// Extract the second system message (contains env block and other dynamic content)
 		const secondSystemMessage = requestBody.system[1];
 		if (!isSystemMessageWithText(secondSystemMessage)) {
-			interceptLog.info(
-				"Second system message is not in expected format, skipping interception",
-			);
-			return null;
+			return skip("Second system message is not in expected format");
 		}
 
 		// Capture the original system prompt before any modifications
 		const originalPrompt = secondSystemMessage.text;
 
-		// Update last-seen prompt in next tick (truly non-blocking)
-		setImmediate(() => {
-			_updateLastSeenPrompt(originalPrompt, dbOps);
-		});
+		if (isMainAgent && !context.dryRun) {
+			// Update last-seen prompt in next tick (truly non-blocking)
+			setImmediate(() => {
+				_updateLastSeenPrompt(originalPrompt, dbOps);
+			});
+		}
 
-		// Extract the <env> block(s) from the original system prompt
-		// Using global regex to find all env blocks
-		const envBlockRegex = /<env>([\s\S]*?)<\/env>/g;
-		const envBlocks = secondSystemMessage.text.match(envBlockRegex) || [];
+		const envBlock = extractEnvBlock(originalPrompt);
+
+		// Find the profiles that apply to this request
+		const target: MatchTarget = {
+			workspacePath: extractWorkingDirectory(envBlock),
+			// Profiles match the model the client asked for, not the agent's model
+			model: context.originalModel ?? requestBody.model ?? null,
+			isMainAgent,
+			isSubAgent,
+			agentUsed: context.agentUsed ?? null,
+			originalPrompt,
+		};
+		report.workspacePath = target.workspacePath;
+		const matchingProfiles = profiles.filter((profile) => {
+			const result = evaluateProfile(profile, target);
+			const entry = report.profiles.find((p) => p.id === profile.id);
+			if (entry) Object.assign(entry, result);
+			return result.matched;
+		});
 
-		let envBlock = "";
-		if (envBlocks.length === 0) {
-			interceptLog.warn(
-				"No env block found in system prompt, using empty string",
-			);
-		} else if (envBlocks.length === 1) {
-			envBlock = envBlocks[0];
-			interceptLog.info(`Extracted env block (${envBlock.length} chars)`);
-		} else {
-			// Multiple env blocks found - concatenate them
-			envBlock = envBlocks.join("\n");
-			interceptLog.warn(
-				`Found ${envBlocks.length} env blocks, concatenating them (${envBlock.length} chars total)`,
+		if (matchingProfiles.length === 0) {
+			return skip(
+				`No interceptor profile matches this request (isMainAgent: ${isMainAgent}, isSubAgent: ${isSubAgent})`,
 			);
 		}
 
-		// Extract the git status block from the original system prompt
-		// The git status block starts with "gitStatus:" and continues to the end
-		const gitStatusIndex = secondSystemMessage.text.indexOf("gitStatus:");
-		let gitStatusBlock = "";
-		if (gitStatusIndex !== -1) {
-			gitStatusBlock = secondSystemMessage.text.substring(gitStatusIndex);
-			interceptLog.info(
-				`Extracted git status block (${gitStatusBlock.length} chars)`,
-			);
-		} else {
-			interceptLog.info("No git status block found in system prompt");
-		}
+		interceptLog.info(
+			`Applying interceptor profiles: ${matchingProfiles.map((p) => p.name).join(", ")}`,
+		);
 
-		// Validate and apply the template
-		const { replacementPrompt, tools: toolOverrides } =
-			interceptorConfig.config;
+		// The highest-priority profile with a template replaces the prompt;
+		// profiles with an empty template only contribute tool overrides
+		const promptProfile = matchingProfiles.find(
+			(profile) =>
+				typeof profile.config.replacementPrompt === "string" &&
+				profile.config.replacementPrompt !== "",
+		);
 
-		// Validate replacementPrompt is a non-empty string
-		if (!replacementPrompt || typeof replacementPrompt !== "string") {
-			interceptLog.error(
-				"Invalid replacementPrompt in config, skipping interception",
+		if (promptProfile) {
+			const { replacementPrompt } = promptProfile.config;
+			const variables = buildTemplateVariables(
+				originalPrompt,
+				envBlock,
+				requestBody,
 			);
-			return null;
-		}
 
-		// Check if the current prompt matches the target (simplified check - could be enhanced)
-		// For now, we'll always apply the replacement if the interceptor is enabled
-		// Future enhancement: actually compare originalPrompt with targetPrompt
+			// Validate template has the placeholder
+			if (!replacementPrompt.includes("env_block")) {
+				interceptLog.warn(
+					`Replacement prompt of profile ${promptProfile.name} does not use {{env_block}}, env data may be lost`,
+				);
+			}
 
-		// Validate template has the placeholder
-		if (!replacementPrompt.includes("{{env_block}}")) {
-			interceptLog.warn(
-				"Replacement prompt missing {{env_block}} placeholder, env data may be lost",
-			);
-		}
+			try {
+				const newPrompt = renderPromptTemplate(replacementPrompt, variables);
 
-		// Apply template with all occurrences replaced
-		let newPrompt = replacementPrompt.replace(/\{\{env_block\}\}/g, envBlock);
-		newPrompt = newPrompt.replace(/\{\{git_status_block\}\}/g, gitStatusBlock);
+				// Update the second system message
+				secondSystemMessage.text = newPrompt;
+				report.promptProfileId = promptProfile.id;
+				if (newPrompt !== originalPrompt) {
+					report.appliedProfileIds.push(promptProfile.id);
+				}
 
-		// Verify replacement actually happened
-		if (newPrompt === replacementPrompt && envBlock) {
-			interceptLog.warn(
-				"Template replacement may have failed - prompt unchanged despite env block present",
-			);
+				interceptLog.info(
+					`Applied replacement prompt from profile ${promptProfile.name}, new prompt length: ${newPrompt.length} chars`,
+				);
+			} catch (error) {
+				if (!(error instanceof ValidationError)) throw error;
+				// A broken template keeps the original prompt rather than failing the request
+				interceptLog.warn(
+					`Replacement prompt of profile ${promptProfile.name} is invalid, keeping original prompt: ${error.message}`,
+				);
+			}
 		}
 
-		// Update the second system message
-		secondSystemMessage.text = newPrompt;
-
-		interceptLog.info(
-			`Applied replacement prompt, new prompt length: ${newPrompt.length} chars`,
-		);
+		// Merge tool rules, applying lower priorities first so higher ones win
+		const rules: ToolRewriteRules = {
+			overrides: {},
+			syntheticTools: [],
+			toolOrder: [],
+		};
+		const syntheticByName = new Map<string, SyntheticTool>();
+		for (const profile of [...matchingProfiles].reverse()) {
+			Object.assign(rules.overrides, profile.config.tools);
+			for (const synthetic of profile.config.syntheticTools ?? []) {
+				syntheticByName.set(synthetic.name, synthetic);
+			}
+			if (profile.config.toolOrder && profile.config.toolOrder.length > 0) {
+				rules.toolOrder = profile.config.toolOrder;
+			}
+		}
+		rules.syntheticTools = [...syntheticByName.values()];
 
-		// Apply per-tool overrides
+		// Apply per-tool overrides, synthetic tools and ordering. Synthetic tools
+		// are only injected into requests that already carry a tools array.
 		if (requestBody.tools && Array.isArray(requestBody.tools)) {
-			const originalToolCount = requestBody.tools.length;
-			const modifiedTools: Tool[] = [];
-
-			for (const tool of requestBody.tools) {
-				// Look up the tool's override configuration
-				const toolName = tool.name;
-				const override = toolOverrides?.[toolName];
-
-				if (!override) {
-					// No override exists - include tool as-is (default enabled)
-					modifiedTools.push(tool);
-				} else if (override.isEnabled === false) {
-					// Tool is disabled - exclude it from the array
-					interceptLog.info(`Disabled tool: ${toolName}`);
-				} else if (override.isEnabled === true) {
-					// Tool is enabled - check for description override
-					if (override.description && override.description.trim() !== "") {
-						// Create a copy of the tool with the overridden description
-						const modifiedTool = { ...tool, description: override.description };
-						modifiedTools.push(modifiedTool);
-						interceptLog.info(`Modified description for tool: ${toolName}`);
-					} else {
-						// No description override - include tool as-is
-						modifiedTools.push(tool);
+			const modifiedTools = rewriteTools(requestBody.tools, rules);
+			const removedCount = requestBody.tools.filter(
+				(tool) =>
+					!modifiedTools.some((modified) => modified.name === tool.name),
+			).length;
+
+			if (JSON.stringify(modifiedTools) !== JSON.stringify(requestBody.tools)) {
+				for (const profile of matchingProfiles) {
+					const { tools, syntheticTools, toolOrder } = profile.config;
+					const hasToolRules =
+						Object.keys(tools ?? {}).length > 0 ||
+						(syntheticTools?.length ?? 0) > 0 ||
+						(toolOrder?.length ?? 0) > 0;
+					if (hasToolRules && !report.appliedProfileIds.includes(profile.id)) {
+						report.appliedProfileIds.push(profile.id);
 					}
 				}
 			}
@@ -252,7 +565,6 @@ export async function applySystemPromptInterception(
 			// Replace the tools array with the modified version
 			requestBody.tools = modifiedTools;
 
-			const removedCount = originalToolCount - modifiedTools.length;
 			if (removedCount > 0) {
 				interceptLog.info(
 					`Removed ${removedCount} tools from request based on per-tool configuration`,
@@ -267,25 +579,35 @@ export async function applySystemPromptInterception(
 			}
 		}
 
+		if (report.appliedProfileIds.length === 0) {
+			interceptLog.info("Matching profiles left the request unchanged");
+			return { body: null, report };
+		}
+
 		// Convert back to buffer if modifications were made
 		const modifiedBodyText = JSON.stringify(requestBody);
 		const encodedData = new TextEncoder().encode(modifiedBodyText);
 		const modifiedBody = new ArrayBuffer(encodedData.byteLength);
 		new Uint8Array(modifiedBody).set(encodedData);
 
-		return modifiedBody;
+		return { body: modifiedBody, report };
 	} catch (error) {
 		interceptLog.error("Failed to apply system prompt interception:", error);
-		return null;
+		report.skippedReason = `Interception failed: ${error instanceof Error ? error.message : String(error)}`;
+		return { body: null, report };
 	}
 }
 
 /**
- * Updates the last-seen system prompt in the database if it has changed.
+ * Updates the last-seen system prompt in the database if it has changed and
+ * records it in the prompt version history.
+ * Nothing is stored in metadata-only mode.
  * This is a non-critical synchronous operation that logs errors but doesn't throw.
  * Should be called via setImmediate to avoid blocking the request.
  *
- * @param prompt - The original system prompt to store
+ * @param prompt - The original system prompt. It is stored as sent, since
+ *   profiles compare it with real requests; the history version has its <env>
+ *   and gitStatus sections replaced with template variables.
  * @param dbOps - Database operations instance
  */
 function _updateLastSeenPrompt(
@@ -293,8 +615,19 @@ function _updateLastSeenPrompt(
 	dbOps: DatabaseOperations,
 ): void {
 	try {
+		if (dbOps.getPayloadStorageMode() === "metadata_only") return;
+
 		const lastSeen = dbOps.getSystemKV("last_seen_system_prompt");
 
+		if (
+			dbOps.recordPromptVersion(
+				"system_prompt",
+				normalizePromptForHistory(prompt),
+			)
+		) {
+			updateLog.info("Recorded new upstream system prompt version");
+		}
+
 		// Only update if the prompt has changed
 		if (prompt !== lastSeen) {
 			dbOps.setSystemKV("last_seen_system_prompt", prompt);
@@ -309,7 +642,9 @@ function _updateLastSeenPrompt(
 }
 
 /**
- * Updates the last-seen tools array in the database.
+ * Updates the last-seen tools array in the database and records it in the
+ * tools version history.
+ * Nothing is stored in metadata-only mode.
  * This is a non-critical synchronous operation that logs errors but doesn't throw.
  * Should be called via setImmediate to avoid blocking the request.
  *
@@ -318,9 +653,15 @@ function _updateLastSeenPrompt(
  */
 function _updateLastSeenTools(tools: Tool[], dbOps: DatabaseOperations): void {
 	try {
+		if (dbOps.getPayloadStorageMode() === "metadata_only") return;
+
 		const toolsJson = JSON.stringify(tools);
 		const lastSeen = dbOps.getSystemKV("last_seen_tools");
 
+		if (dbOps.recordPromptVersion("tools", toolsJson)) {
+			updateToolsLog.info("Recorded new upstream tools version");
+		}
+
 		// Only update if the tools have changed
 		if (toolsJson !== lastSeen) {
 			dbOps.setSystemKV("last_seen_tools", toolsJson);
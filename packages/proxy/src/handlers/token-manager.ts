@@ -1,4 +1,8 @@
-import { ServiceUnavailableError, TokenRefreshError } from "@ccflare/core";
+import {
+	requestEvents,
+	ServiceUnavailableError,
+	TokenRefreshError,
+} from "@ccflare/core";
 import { Logger } from "@ccflare/logger";
 import type { TokenRefreshResult } from "@ccflare/providers";
 import type { Account } from "@ccflare/types";
@@ -66,6 +70,11 @@ export async function refreshAccessTokenSafe(
 				// Record the failure timestamp for backoff
 				refreshFailures.set(account.id, Date.now());
 				log.error(`Token refresh failed for account ${account.name}`, error);
+				requestEvents.emit("event", {
+					type: "token_refresh_failed",
+					accountId: account.id,
+					timestamp: Date.now(),
+				});
 				throw new TokenRefreshError(account.id, error as Error);
 			})
 			.finally(() => {
@@ -96,7 +105,7 @@ export async function getValidAccessToken(
 	ctx: ProxyContext,
 ): Promise<string> {
 	// API key accounts don't use access tokens
-	if (!account.refresh_token && account.api_key) {
+	if (account.auth_type === "api_key") {
 		// Return empty string - the API key will be used in prepareHeaders
 		return "";
 	}
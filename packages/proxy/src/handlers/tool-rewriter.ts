@@ -0,0 +1,156 @@
+import type { SyntheticTool, ToolOverride } from "@ccflare/database";
+import { Logger } from "@ccflare/logger";
+
+const log = new Logger("ToolRewriter");
+
+// Tool definition based on Anthropic API specification
+export interface Tool {
+	type?: string;
+	name: string;
+	description?: string;
+	input_schema?: {
+		type?: string;
+		properties?: Record<string, unknown>;
+		required?: string[];
+		[key: string]: unknown;
+	};
+	[key: string]: unknown;
+}
+
+/**
+ * Tool changes collected from all matching interceptor profiles
+ */
+export interface ToolRewriteRules {
+	overrides: Record<string, ToolOverride>;
+	syntheticTools: SyntheticTool[];
+	toolOrder: string[];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Deep-merges a patch into a JSON value. Objects merge recursively, arrays and
+ * scalars replace, and null deletes the key.
+ */
+export function mergeSchemaPatch(
+	target: Record<string, unknown>,
+	patch: Record<string, unknown>,
+): Record<string, unknown> {
+	const result: Record<string, unknown> = { ...target };
+	for (const [key, value] of Object.entries(patch)) {
+		if (value === null) {
+			delete result[key];
+		} else if (isPlainObject(value) && isPlainObject(result[key])) {
+			result[key] = mergeSchemaPatch(
+				result[key] as Record<string, unknown>,
+				value,
+			);
+		} else {
+			result[key] = value;
+		}
+	}
+	return result;
+}
+
+/**
+ * Applies hidden parameters and a schema patch to a tool's input_schema
+ */
+function rewriteInputSchema(
+	schema: NonNullable<Tool["input_schema"]>,
+	override: ToolOverride,
+): NonNullable<Tool["input_schema"]> {
+	let result: Record<string, unknown> = { ...schema };
+
+	const hidden = override.hiddenParameters ?? [];
+	if (hidden.length > 0) {
+		if (schema.properties) {
+			result.properties = Object.fromEntries(
+				Object.entries(schema.properties).filter(
+					([name]) => !hidden.includes(name),
+				),
+			);
+		}
+		if (schema.required) {
+			result.required = schema.required.filter(
+				(name) => !hidden.includes(name),
+			);
+		}
+	}
+
+	if (override.schemaPatch) {
+		result = mergeSchemaPatch(result, override.schemaPatch);
+	}
+
+	return result as NonNullable<Tool["input_schema"]>;
+}
+
+/**
+ * Applies per-tool overrides, synthetic tool injection and reordering to a
+ * request's tools array
+ * @param tools - The tools from the request
+ * @param rules - Merged rules from the matching profiles
+ * @returns The rewritten tools array (may be empty)
+ */
+export function rewriteTools(tools: Tool[], rules: ToolRewriteRules): Tool[] {
+	const rewritten: Tool[] = [];
+
+	for (const tool of tools) {
+		const override = rules.overrides[tool.name];
+
+		if (!override) {
+			// No override exists - include tool as-is (default enabled)
+			rewritten.push(tool);
+			continue;
+		}
+		if (override.isEnabled === false) {
+			// Tool is disabled - exclude it from the array
+			log.info(`Disabled tool: ${tool.name}`);
+			continue;
+		}
+
+		let modified = tool;
+		if (override.description && override.description.trim() !== "") {
+			modified = { ...modified, description: override.description };
+			log.info(`Modified description for tool: ${tool.name}`);
+		}
+		if (
+			tool.input_schema &&
+			((override.hiddenParameters?.length ?? 0) > 0 || override.schemaPatch)
+		) {
+			modified = {
+				...modified,
+				input_schema: rewriteInputSchema(tool.input_schema, override),
+			};
+			log.info(`Rewrote input schema for tool: ${tool.name}`);
+		}
+		rewritten.push(modified);
+	}
+
+	// Inject synthetic tools, never shadowing a tool the client sent
+	for (const synthetic of rules.syntheticTools) {
+		if (tools.some((tool) => tool.name === synthetic.name)) {
+			log.warn(
+				`Synthetic tool ${synthetic.name} conflicts with a request tool, skipping`,
+			);
+			continue;
+		}
+		rewritten.push({ ...synthetic });
+		log.info(`Injected synthetic tool: ${synthetic.name}`);
+	}
+
+	if (rules.toolOrder.length === 0) {
+		return rewritten;
+	}
+
+	// Listed tools move to the front in the configured order
+	const position = (tool: Tool) => {
+		const index = rules.toolOrder.indexOf(tool.name);
+		return index === -1 ? rules.toolOrder.length : index;
+	};
+	return rewritten
+		.map((tool, index) => ({ tool, index }))
+		.sort((a, b) => position(a.tool) - position(b.tool) || a.index - b.index)
+		.map(({ tool }) => tool);
+}
@@ -9,8 +9,20 @@ export {
 	listProviders,
 	registerProvider,
 } from "@ccflare/providers";
+export {
+	type ClientQuota,
+	getClientQuota,
+	getRequestQueue,
+	type RequestQueue,
+} from "./handlers";
+export {
+	type AgentPreview,
+	type InterceptorPreview,
+	previewInterception,
+} from "./interceptor-preview";
 export {
 	getUsageWorker,
+	getUsageWorkerWriterDepth,
 	handleProxy,
 	type ProxyContext,
 	terminateUsageWorker,
@@ -19,6 +31,14 @@ export {
 	forwardToClient,
 	type ResponseHandlerOptions,
 } from "./response-handler";
+export {
+	formatTraceparent,
+	parseTraceparent,
+	Span,
+	type SpanContext,
+	Tracer,
+	tracer,
+} from "./tracing";
 export type { ProxyRequest, ProxyResponse } from "./types";
 export type {
 	ChunkMessage,
@@ -0,0 +1,135 @@
+import { agentRegistry } from "@ccflare/agents";
+import { diffJson, type JsonChange } from "@ccflare/core";
+import type { DatabaseOperations } from "@ccflare/database";
+import { get_encoding, type Tiktoken } from "@dqbd/tiktoken";
+import { interceptAndModifyRequest } from "./handlers/agent-interceptor";
+import {
+	runSystemPromptInterception,
+	type SystemPromptInterceptionReport,
+} from "./handlers/system-prompt-interceptor";
+
+/**
+ * What the agent interceptor detected and which model it applied
+ */
+export interface AgentPreview {
+	agentUsed: string | null;
+	agentName: string | null;
+	originalModel: string | null;
+	appliedModel: string | null;
+	reason: string;
+}
+
+/**
+ * Result of running the interceptors against a request body without sending it
+ */
+export interface InterceptorPreview {
+	original: unknown;
+	transformed: unknown;
+	changes: JsonChange[];
+	agent: AgentPreview;
+	systemPrompt: SystemPromptInterceptionReport;
+	tokens: { before: number; after: number; delta: number };
+}
+
+// Created on first use; previews are rare compared to proxied requests
+let encoder: Tiktoken | null = null;
+
+/**
+ * Estimates the input tokens of a Messages API body (system, tools and
+ * messages) with the cl100k_base encoding used elsewhere for Claude models
+ */
+function estimateInputTokens(body: unknown): number {
+	if (typeof body !== "object" || body === null) return 0;
+	const { system, tools, messages } = body as Record<string, unknown>;
+	const text = [system, tools, messages]
+		.filter((part) => part !== undefined)
+		.map((part) => (typeof part === "string" ? part : JSON.stringify(part)))
+		.join("\n");
+	encoder ??= get_encoding("cl100k_base");
+	return encoder.encode(text).length;
+}
+
+function toBuffer(body: unknown): ArrayBuffer {
+	const encoded = new TextEncoder().encode(JSON.stringify(body));
+	const buffer = new ArrayBuffer(encoded.byteLength);
+	new Uint8Array(buffer).set(encoded);
+	return buffer;
+}
+
+/**
+ * Explains the agent interceptor's decision for a preview
+ */
+async function describeAgent(
+	agentUsed: string | null,
+	originalModel: string | null,
+	appliedModel: string | null,
+	dbOps: DatabaseOperations,
+): Promise<AgentPreview> {
+	if (!agentUsed) {
+		return {
+			agentUsed: null,
+			agentName: null,
+			originalModel,
+			appliedModel,
+			reason: "No registered agent's system prompt was found in the request",
+		};
+	}
+
+	const agent = (await agentRegistry.getAgents()).find(
+		(candidate) => candidate.id === agentUsed,
+	);
+	const preference = dbOps.getAgentPreference(agentUsed);
+	const modelReason =
+		appliedModel === originalModel
+			? "the model is unchanged"
+			: preference
+				? `the model preference ${preference.model} is applied`
+				: `the agent's default model ${appliedModel} is applied`;
+
+	return {
+		agentUsed,
+		agentName: agent?.name ?? null,
+		originalModel,
+		appliedModel,
+		reason: `The request contains the system prompt of agent ${agent?.name ?? agentUsed}; ${modelReason}`,
+	};
+}
+
+/**
+ * Runs the agent and system prompt interceptors on a request body exactly as
+ * the proxy would, without forwarding it, recording last-seen data or
+ * registering agent workspaces found in its prompt
+ * @param body - A parsed Messages API request body
+ * @param dbOps - Database operations instance
+ * @returns The transformed body with an explanation of what changed
+ */
+export async function previewInterception(
+	body: unknown,
+	dbOps: DatabaseOperations,
+): Promise<InterceptorPreview> {
+	const originalBuffer = toBuffer(body);
+
+	const { modifiedBody, agentUsed, originalModel, appliedModel } =
+		await interceptAndModifyRequest(originalBuffer, dbOps, { dryRun: true });
+	const { body: promptInterceptedBody, report } =
+		await runSystemPromptInterception(modifiedBody || originalBuffer, dbOps, {
+			agentUsed,
+			originalModel,
+			dryRun: true,
+		});
+
+	const finalBuffer = promptInterceptedBody || modifiedBody || originalBuffer;
+	const transformed = JSON.parse(new TextDecoder().decode(finalBuffer));
+
+	const before = estimateInputTokens(body);
+	const after = estimateInputTokens(transformed);
+
+	return {
+		original: body,
+		transformed,
+		changes: diffJson(body, transformed),
+		agent: await describeAgent(agentUsed, originalModel, appliedModel, dbOps),
+		systemPrompt: report,
+		tokens: { before, after, delta: after - before },
+	};
+}
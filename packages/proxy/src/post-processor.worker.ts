@@ -1,6 +1,11 @@
 declare var self: Worker;
 
-import { BUFFER_SIZES, estimateCostUSD, TIME_CONSTANTS } from "@ccflare/core";
+import {
+	BUFFER_SIZES,
+	estimateCostUSD,
+	PayloadRedactor,
+	TIME_CONSTANTS,
+} from "@ccflare/core";
 import { AsyncDbWriter, DatabaseOperations } from "@ccflare/database";
 import { Logger } from "@ccflare/logger";
 import {
@@ -10,6 +15,8 @@ import {
 } from "@ccflare/types";
 import { formatCost } from "@ccflare/ui-common";
 import { get_encoding } from "@dqbd/tiktoken";
+import { deriveConversationId } from "./conversation";
+import { extractRequestText } from "./request-text";
 import { combineChunks } from "./stream-tee";
 import type {
 	ChunkMessage,
@@ -18,6 +25,7 @@ import type {
 	StartMessage,
 	SummaryMessage,
 	WorkerMessage,
+	WriterStatsMessage,
 } from "./worker-messages";
 
 interface RequestState {
@@ -53,6 +61,10 @@ const tokenEncoder = get_encoding("cl100k_base");
 const dbOps = new DatabaseOperations();
 const asyncWriter = new AsyncDbWriter();
 
+// How often the writer queue depth is reported while it changes
+const WRITER_STATS_INTERVAL_MS = 1000;
+let reportedWriterDepth = 0;
+
 // Environment variables
 const MAX_BUFFER_SIZE =
 	Number(
@@ -72,6 +84,31 @@ function shouldLogRequest(path: string, status: number): boolean {
 	return true;
 }
 
+// Build the filter applied to bodies before they are stored or broadcast.
+// Settings are read per request so dashboard changes apply immediately.
+function createBodyFilter(): (
+	body: string | null | undefined,
+) => string | null {
+	if (dbOps.getPayloadStorageMode() === "metadata_only") {
+		return () => null;
+	}
+
+	const redactor = new PayloadRedactor(
+		dbOps.listEnabledRedactionRules(),
+		(rule, error) =>
+			log.warn(`Skipping redaction rule '${rule.name}': ${error.message}`),
+	);
+	return (body) => {
+		try {
+			return redactor.redactBody(body);
+		} catch (error) {
+			// Never store a body that could not be redacted
+			log.error("Failed to redact payload body:", error);
+			return null;
+		}
+	};
+}
+
 // Extract system prompt from request body
 function _extractSystemPrompt(requestBody: string | null): string | null {
 	if (!requestBody) return null;
@@ -299,6 +336,7 @@ async function handleStart(msg: StartMessage): Promise<void> {
 			msg.accountId,
 			msg.responseStatus,
 			msg.timestamp,
+			msg.apiKeyId,
 		),
 	);
 
@@ -395,6 +433,12 @@ async function handleEnd(msg: EndMessage): Promise<void> {
 	}
 
 	// Update request with final data
+	// Hash the body the client sent, before interceptors rewrote its prompt
+	const conversationId = deriveConversationId(
+		startMessage.requestHeaders,
+		startMessage.originalRequestBody ?? startMessage.requestBody,
+	);
+
 	asyncWriter.enqueue(() =>
 		dbOps.saveRequest(
 			startMessage.requestId,
@@ -425,6 +469,10 @@ async function handleEnd(msg: EndMessage): Promise<void> {
 					}
 				: undefined,
 			state.agentUsed,
+			startMessage.interceptedBy ?? undefined,
+			startMessage.apiKeyId,
+			startMessage.fallbackFromModel,
+			conversationId,
 		),
 	);
 
@@ -442,15 +490,22 @@ async function handleEnd(msg: EndMessage): Promise<void> {
 		}
 	}
 
+	// Apply the payload storage mode and redaction rules
+	const filterBody = createBodyFilter();
+	const requestBody = filterBody(startMessage.requestBody);
+	const originalRequestBody = filterBody(startMessage.originalRequestBody);
+	const storedResponseBody = filterBody(responseBody);
+
 	const payload = {
 		request: {
 			headers: startMessage.requestHeaders,
-			body: startMessage.requestBody,
+			body: requestBody,
+			...(originalRequestBody ? { originalBody: originalRequestBody } : {}),
 		},
 		response: {
 			status: startMessage.responseStatus,
 			headers: startMessage.responseHeaders,
-			body: responseBody,
+			body: storedResponseBody,
 		},
 		meta: {
 			accountId: startMessage.accountId || NO_ACCOUNT_ID,
@@ -458,6 +513,14 @@ async function handleEnd(msg: EndMessage): Promise<void> {
 			success: msg.success,
 			isStream: startMessage.isStream,
 			retry: startMessage.retryAttempt,
+			...(startMessage.interceptedBy
+				? { interceptedBy: startMessage.interceptedBy }
+				: {}),
+			...(startMessage.apiKeyId ? { apiKeyId: startMessage.apiKeyId } : {}),
+			...(startMessage.routing ? { routing: startMessage.routing } : {}),
+			...(startMessage.fallbackFromModel
+				? { fallbackFromModel: startMessage.fallbackFromModel }
+				: {}),
 		},
 	};
 
@@ -465,6 +528,15 @@ async function handleEnd(msg: EndMessage): Promise<void> {
 		dbOps.saveRequestPayload(startMessage.requestId, payload),
 	);
 
+	// Index the stored bodies for full-text search, so redacted content and
+	// metadata-only requests stay out of the index
+	const requestText = extractRequestText(requestBody, storedResponseBody);
+	if (requestText) {
+		asyncWriter.enqueue(() =>
+			dbOps.saveRequestText(startMessage.requestId, requestText),
+		);
+	}
+
 	// Log if we have usage
 	if (state.usage.model && startMessage.accountId !== NO_ACCOUNT_ID) {
 		log.info(
@@ -496,6 +568,13 @@ async function handleEnd(msg: EndMessage): Promise<void> {
 		costUsd: state.usage.costUsd,
 		agentUsed: state.agentUsed,
 		tokensPerSecond: state.usage.tokensPerSecond,
+		ttftMs: state.firstTokenTimestamp
+			? state.firstTokenTimestamp - startMessage.timestamp
+			: undefined,
+		interceptedBy: startMessage.interceptedBy ?? undefined,
+		apiKeyId: startMessage.apiKeyId ?? undefined,
+		fallbackFromModel: startMessage.fallbackFromModel ?? undefined,
+		conversationId: conversationId ?? undefined,
 	};
 
 	self.postMessage({
@@ -508,12 +587,13 @@ async function handleEnd(msg: EndMessage): Promise<void> {
 		id: startMessage.requestId,
 		request: {
 			headers: startMessage.requestHeaders,
-			body: startMessage.requestBody,
+			body: requestBody,
+			...(originalRequestBody ? { originalBody: originalRequestBody } : {}),
 		},
 		response: {
 			status: startMessage.responseStatus,
 			headers: startMessage.responseHeaders,
-			body: responseBody,
+			body: storedResponseBody,
 		},
 		error: msg.error,
 		meta: {
@@ -524,6 +604,10 @@ async function handleEnd(msg: EndMessage): Promise<void> {
 			path: startMessage.path,
 			method: startMessage.method,
 			agentUsed: state.agentUsed,
+			interceptedBy: startMessage.interceptedBy ?? undefined,
+			apiKeyId: startMessage.apiKeyId ?? undefined,
+			routing: startMessage.routing ?? undefined,
+			fallbackFromModel: startMessage.fallbackFromModel ?? undefined,
 		},
 	};
 
@@ -531,11 +615,25 @@ async function handleEnd(msg: EndMessage): Promise<void> {
 		type: "payload",
 		payload: fullPayload,
 	} satisfies PayloadMessage);
+	reportWriterStats();
 
 	// Clean up
 	requests.delete(msg.requestId);
 }
 
+// Report the async writer's queue depth to the main thread for /metrics
+function reportWriterStats(): void {
+	const queueDepth = asyncWriter.getQueueDepth();
+	if (queueDepth === reportedWriterDepth) return;
+	reportedWriterDepth = queueDepth;
+	self.postMessage({
+		type: "writer_stats",
+		queueDepth,
+	} satisfies WriterStatsMessage);
+}
+
+setInterval(reportWriterStats, WRITER_STATS_INTERVAL_MS);
+
 async function handleShutdown(): Promise<void> {
 	log.info("Worker shutting down, flushing async writer...");
 	await asyncWriter.dispose();
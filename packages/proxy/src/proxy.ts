@@ -1,18 +1,26 @@
 import { requestEvents, ServiceUnavailableError } from "@ccflare/core";
 import { Logger } from "@ccflare/logger";
+import type { Account } from "@ccflare/types";
 import {
-	applySystemPromptInterception,
+	authenticateClient,
 	createRequestMetadata,
 	ERROR_MESSAGES,
+	enforceClientQuota,
+	getFallbackModels,
 	interceptAndModifyRequest,
 	type ProxyContext,
 	prepareRequestBody,
 	proxyUnauthenticated,
 	proxyWithAccount,
-	selectAccountsForRequest,
+	rewriteRequestModel,
+	runSystemPromptInterception,
+	selectAccountsWhenAvailable,
+	selectRateLimitedAccounts,
+	stripClientCredentials,
 	TIMING,
 	validateProviderPath,
 } from "./handlers";
+import { parseTraceparent, type Span, tracer } from "./tracing";
 import type { ControlMessage, OutgoingWorkerMessage } from "./worker-messages";
 
 export type { ProxyContext } from "./handlers";
@@ -23,6 +31,8 @@ const log = new Logger("Proxy");
 
 // Create usage worker instance
 let usageWorkerInstance: Worker | null = null;
+// Last queue depth the worker reported for its async writer
+let usageWorkerWriterDepth = 0;
 
 /**
  * Gets or creates the usage worker instance
@@ -49,12 +59,22 @@ export function getUsageWorker(): Worker {
 				requestEvents.emit("event", { type: "summary", payload: data.summary });
 			} else if (data.type === "payload") {
 				requestEvents.emit("event", { type: "payload", payload: data.payload });
+			} else if (data.type === "writer_stats") {
+				usageWorkerWriterDepth = data.queueDepth;
 			}
 		};
 	}
 	return usageWorkerInstance;
 }
 
+/**
+ * Gets the number of database writes the usage worker has not flushed yet, as
+ * last reported by the worker
+ */
+export function getUsageWorkerWriterDepth(): number {
+	return usageWorkerWriterDepth;
+}
+
 /**
  * Gracefully terminates the usage worker
  */
@@ -80,47 +100,111 @@ export function terminateUsageWorker(): void {
  *
  * This function coordinates the proxy process by:
  * 1. Creating request metadata for tracking
- * 2. Validating the provider can handle the path
+ * 2. Validating the provider can handle the path, the client key and its quotas
  * 3. Preparing the request body for reuse
- * 4. Selecting accounts based on load balancing strategy
- * 5. Attempting to proxy with each account in order
- * 6. Falling back to unauthenticated proxy if no accounts available
+ * 4. Selecting accounts based on routing rules and the load balancing strategy,
+ *    waiting in the request queue while they are all briefly rate limited
+ * 5. Attempting to proxy with each account in order, retrying transient errors
+ * 6. Retrying the same accounts with each model of the fallback chain when a
+ *    model fails on every account
+ * 7. Falling back to unauthenticated proxy if no accounts available
+ *
+ * Each request is traced under a server span, continuing the trace of an
+ * incoming traceparent header, with child spans for every stage.
  *
- * @param req - The incoming request
+ * @param incomingReq - The incoming request
  * @param url - The parsed URL
  * @param ctx - The proxy context containing strategy, database, and provider
  * @returns Promise resolving to the proxied response
  * @throws {ValidationError} If the provider cannot handle the path
- * @throws {ServiceUnavailableError} If all accounts fail to proxy the request
+ * @throws {ServiceUnavailableError} If all accounts fail to proxy the request with every model
  * @throws {ProviderError} If unauthenticated proxy fails
  */
 export async function handleProxy(
-	req: Request,
+	incomingReq: Request,
+	url: URL,
+	ctx: ProxyContext,
+): Promise<Response> {
+	const span = tracer.startSpan(`${incomingReq.method} ${url.pathname}`, {
+		kind: "server",
+		parent: parseTraceparent(incomingReq.headers.get("traceparent")),
+		attributes: {
+			"http.request.method": incomingReq.method,
+			"url.path": url.pathname,
+		},
+	});
+
+	try {
+		const response = await proxyRequest(incomingReq, url, ctx, span);
+		span.setAttribute("http.response.status_code", response.status);
+		if (response.status >= 500) {
+			span.setError(`Responded with ${response.status}`);
+		}
+		return response;
+	} catch (error) {
+		span.recordError(error);
+		throw error;
+	} finally {
+		span.end();
+	}
+}
+
+async function proxyRequest(
+	incomingReq: Request,
 	url: URL,
 	ctx: ProxyContext,
+	span: Span,
 ): Promise<Response> {
 	// 1. Validate provider can handle path
 	validateProviderPath(ctx.provider, url.pathname);
 
-	// 2. Prepare request body
-	const { buffer: requestBodyBuffer } = await prepareRequestBody(req);
+	// 2. Authenticate the client once client keys are in use and apply its quotas
+	const auth = authenticateClient(incomingReq, ctx);
+	if (!auth.ok) {
+		return auth.response;
+	}
+	if (auth.apiKey) {
+		const quotaResponse = enforceClientQuota(auth.apiKey, ctx);
+		if (quotaResponse) {
+			return quotaResponse;
+		}
+	}
+	const req = auth.apiKey ? stripClientCredentials(incomingReq) : incomingReq;
 
-	// 3. Apply system prompt interception first
-	const promptInterceptedBody = await applySystemPromptInterception(
-		requestBodyBuffer,
-		ctx.dbOps,
+	// 3. Prepare request body
+	const { buffer: requestBodyBuffer } = await tracer.withSpan(
+		"prepareRequestBody",
+		span,
+		() => prepareRequestBody(req),
 	);
 
-	// 4. Then perform agent interception on the potentially modified body
+	// 4. Perform agent interception first so detection sees the original prompt
 	const { modifiedBody, agentUsed, originalModel, appliedModel } =
-		await interceptAndModifyRequest(
-			promptInterceptedBody || requestBodyBuffer,
-			ctx.dbOps,
+		await tracer.withSpan("interceptAndModifyRequest", span, () =>
+			interceptAndModifyRequest(requestBodyBuffer, ctx.dbOps),
 		);
 
-	// Use the final modified body (from agent interceptor) or fall back to earlier versions
+	// 5. Then apply system prompt interceptor profiles, which can match on the detected agent
+	const { body: promptInterceptedBody, report } = await tracer.withSpan(
+		"applySystemPromptInterception",
+		span,
+		async (child) => {
+			const result = await runSystemPromptInterception(
+				modifiedBody || requestBodyBuffer,
+				ctx.dbOps,
+				{ agentUsed, originalModel },
+			);
+			child.setAttribute(
+				"ccflare.interceptor.applied",
+				result.report.appliedProfileIds.length,
+			);
+			return result;
+		},
+	);
+
+	// Use the final modified body (from prompt interceptor) or fall back to earlier versions
 	const finalBodyBuffer =
-		modifiedBody || promptInterceptedBody || requestBodyBuffer;
+		promptInterceptedBody || modifiedBody || requestBodyBuffer;
 	const finalCreateBodyStream = () => {
 		if (!finalBodyBuffer) return undefined;
 		return new Response(finalBodyBuffer).body ?? undefined;
@@ -132,15 +216,79 @@ export async function handleProxy(
 		);
 	}
 
-	// 5. Create request metadata with agent info
+	// Record which interceptors changed the body so both versions are stored
+	const interceptedBy = [
+		...(agentUsed && originalModel !== appliedModel
+			? [`agent:${agentUsed}`]
+			: []),
+		...report.profiles
+			.filter((profile) => report.appliedProfileIds.includes(profile.id))
+			.map((profile) => `profile:${profile.name}`),
+	];
+
+	// 6. Create request metadata with agent and interception info
 	const requestMeta = createRequestMetadata(req, url);
 	requestMeta.agentUsed = agentUsed;
+	requestMeta.apiKeyId = auth.apiKey?.id ?? null;
+	if (interceptedBy.length > 0) {
+		requestMeta.interceptedBy = interceptedBy;
+		requestMeta.originalBody = requestBodyBuffer;
+	}
+	span.setAttributes({
+		"ccflare.request_id": requestMeta.id,
+		"ccflare.agent": agentUsed,
+		"gen_ai.request.model": appliedModel ?? originalModel,
+	});
 
-	// 6. Select accounts
-	const accounts = selectAccountsForRequest(requestMeta, ctx);
+	// 7. Select accounts, restricted to a group when a routing rule matches,
+	// queueing while every account the request can use is rate limited
+	const requestedModel = appliedModel ?? originalModel;
+	const fallbackModels = getFallbackModels(requestedModel, ctx.dbOps);
+	const target = {
+		model: requestedModel,
+		agentUsed,
+		path: url.pathname,
+		apiKeyId: requestMeta.apiKeyId ?? null,
+		headers: req.headers,
+	};
+	let selectionError: unknown = null;
+	let accounts = await tracer.withSpan(
+		"selectAccountsForRequest",
+		span,
+		async (child) => {
+			let selected: Account[] = [];
+			try {
+				selected = await selectAccountsWhenAvailable(requestMeta, ctx, target);
+			} catch (error) {
+				// A fallback model may still be served by the rate-limited accounts
+				if (
+					!(error instanceof ServiceUnavailableError) ||
+					fallbackModels.length === 0
+				) {
+					throw error;
+				}
+				selectionError = error;
+			}
+			child.setAttribute("ccflare.accounts", selected.length);
+			return selected;
+		},
+	);
+
+	// 8. With no available account, try the fallback models on the
+	// rate-limited accounts, or proxy without an account when there are none
+	let firstModel = 0;
+	if (accounts.length === 0 && fallbackModels.length > 0) {
+		accounts = selectRateLimitedAccounts(ctx, target);
+		if (accounts.length > 0) {
+			log.warn(
+				`No account is available for ${requestedModel}, trying fallback models on ${accounts.length} rate-limited accounts`,
+			);
+			firstModel = 1;
+		}
+	}
 
-	// 7. Handle no accounts case
 	if (accounts.length === 0) {
+		if (selectionError) throw selectionError;
 		return proxyUnauthenticated(
 			req,
 			url,
@@ -148,36 +296,67 @@ export async function handleProxy(
 			finalBodyBuffer,
 			finalCreateBodyStream,
 			ctx,
+			span,
 		);
 	}
 
-	// 8. Log selected accounts
+	// 9. Log selected accounts
 	log.info(
 		`Selected ${accounts.length} accounts: ${accounts.map((a) => a.name).join(", ")}`,
 	);
 	log.info(`Request: ${req.method} ${url.pathname}`);
 
-	// 9. Try each account
-	for (let i = 0; i < accounts.length; i++) {
-		const response = await proxyWithAccount(
-			req,
-			url,
-			accounts[i],
-			requestMeta,
-			finalBodyBuffer,
-			finalCreateBodyStream,
-			i,
-			ctx,
-		);
+	// 10. Try each account, then the same accounts with each fallback model
+	let attempts = 0;
+
+	for (let m = firstModel; m <= fallbackModels.length; m++) {
+		let bodyBuffer = finalBodyBuffer;
+		let createBodyStream = finalCreateBodyStream;
+
+		if (m > 0) {
+			const model = fallbackModels[m - 1];
+			const rewritten = rewriteRequestModel(finalBodyBuffer, model);
+			if (!rewritten) break;
 
-		if (response) {
-			return response;
+			if (m > firstModel) {
+				log.warn(
+					`Model ${requestedModel} failed on all accounts, falling back to ${model}`,
+				);
+			}
+			bodyBuffer = rewritten;
+			createBodyStream = () => new Response(rewritten).body ?? undefined;
+			requestMeta.fallbackFromModel = requestedModel;
+			requestMeta.originalBody ??= requestBodyBuffer;
+		}
+
+		const isLastModel = m === fallbackModels.length;
+		for (let i = 0; i < accounts.length; i++) {
+			const response = await proxyWithAccount(
+				req,
+				url,
+				accounts[i],
+				requestMeta,
+				bodyBuffer,
+				createBodyStream,
+				attempts++,
+				ctx,
+				isLastModel && i === accounts.length - 1,
+				span,
+			);
+
+			if (response) {
+				return response;
+			}
 		}
 	}
 
-	// 10. All accounts failed
+	// 11. All accounts failed
 	throw new ServiceUnavailableError(
-		`${ERROR_MESSAGES.ALL_ACCOUNTS_FAILED} (${accounts.length} attempted)`,
+		`${ERROR_MESSAGES.ALL_ACCOUNTS_FAILED} (${accounts.length} attempted${
+			fallbackModels.length > 0
+				? `, with ${fallbackModels.length} fallback models`
+				: ""
+		})`,
 		ctx.provider.name,
 	);
 }
@@ -0,0 +1,145 @@
+import type { RequestTextDocument } from "@ccflare/types";
+import { parseRequestMessages } from "@ccflare/ui-common";
+
+// Keep single huge tool inputs, such as whole files, from bloating the index
+const MAX_FIELD_LENGTH = 32 * 1024;
+
+interface AssistantContent {
+	text: string[];
+	tools: Array<{ name: string; input: string }>;
+}
+
+function decodeBody(body: string | null | undefined): string | null {
+	if (!body) return null;
+	try {
+		return Buffer.from(body, "base64").toString("utf-8");
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Collect text and tool calls from a Messages response, either a JSON body or
+ * an SSE stream. Streamed tool inputs arrive as partial JSON and are joined.
+ */
+function parseAssistantContent(body: string): AssistantContent {
+	const content: AssistantContent = { text: [], tools: [] };
+
+	if (body.trimStart().startsWith("{")) {
+		try {
+			const json = JSON.parse(body) as {
+				content?: Array<{
+					type: string;
+					text?: string;
+					name?: string;
+					input?: unknown;
+				}>;
+			};
+			for (const block of json.content ?? []) {
+				if (block.type === "text" && block.text) {
+					content.text.push(block.text);
+				} else if (block.type === "tool_use" && block.name) {
+					content.tools.push({
+						name: block.name,
+						input: JSON.stringify(block.input ?? {}),
+					});
+				}
+			}
+		} catch {
+			// Not a Messages response
+		}
+		return content;
+	}
+
+	const blocks = new Map<
+		number,
+		{ text: string } | { name: string; input: string }
+	>();
+	for (const line of body.split("\n")) {
+		if (!line.startsWith("data:")) continue;
+		try {
+			const data = JSON.parse(line.slice(5).trim());
+			if (data.type === "content_block_start") {
+				if (data.content_block?.type === "text") {
+					blocks.set(data.index, { text: data.content_block.text ?? "" });
+				} else if (data.content_block?.type === "tool_use") {
+					blocks.set(data.index, { name: data.content_block.name, input: "" });
+				}
+			} else if (data.type === "content_block_delta") {
+				const block = blocks.get(data.index);
+				if (!block) continue;
+				if (data.delta?.type === "text_delta" && "text" in block) {
+					block.text += data.delta.text ?? "";
+				} else if (
+					data.delta?.type === "input_json_delta" &&
+					"input" in block
+				) {
+					block.input += data.delta.partial_json ?? "";
+				}
+			}
+		} catch {
+			// Skip malformed events
+		}
+	}
+
+	for (const block of blocks.values()) {
+		if ("text" in block) {
+			if (block.text) content.text.push(block.text);
+		} else {
+			content.tools.push(block);
+		}
+	}
+	return content;
+}
+
+/**
+ * Extract the searchable text of a request: the user messages sent since the
+ * last assistant turn, and the assistant text and tool calls of the response.
+ * Earlier turns were indexed with the requests that produced them.
+ * @param requestBody - Stored request body (base64)
+ * @param responseBody - Stored response body (base64)
+ * @returns null when there is nothing to index
+ */
+export function extractRequestText(
+	requestBody: string | null | undefined,
+	responseBody: string | null | undefined,
+): RequestTextDocument | null {
+	// Only JSON bodies can hold messages; skip the parser's error logging
+	const decodedRequest = decodeBody(requestBody);
+	const messages = decodedRequest?.trimStart().startsWith("{")
+		? parseRequestMessages(decodedRequest)
+		: [];
+	const lastAssistant = messages.findLastIndex(
+		(message) => message.role === "assistant",
+	);
+	const userText = messages
+		.slice(lastAssistant + 1)
+		.filter((message) => message.role === "user" && message.content)
+		.map((message) => message.content)
+		.join("\n\n");
+
+	const decodedResponse = decodeBody(responseBody);
+	const assistant = decodedResponse
+		? parseAssistantContent(decodedResponse)
+		: { text: [], tools: [] };
+
+	const document: RequestTextDocument = {
+		userText: userText.slice(0, MAX_FIELD_LENGTH),
+		assistantText: assistant.text.join("\n\n").slice(0, MAX_FIELD_LENGTH),
+		toolNames: assistant.tools.map((tool) => tool.name).join(" "),
+		toolInputs: assistant.tools
+			.map((tool) => tool.input)
+			.join("\n")
+			.slice(0, MAX_FIELD_LENGTH),
+	};
+
+	if (
+		!document.userText &&
+		!document.assistantText &&
+		!document.toolNames &&
+		!document.toolInputs
+	) {
+		return null;
+	}
+	return document;
+}
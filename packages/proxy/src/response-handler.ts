@@ -3,8 +3,9 @@ import {
 	sanitizeRequestHeaders,
 	withSanitizedProxyHeaders,
 } from "@ccflare/http-common";
-import type { Account } from "@ccflare/types";
+import type { Account, RoutingDecision } from "@ccflare/types";
 import type { ProxyContext } from "./handlers";
+import { type SpanContext, tracer } from "./tracing";
 import type { ChunkMessage, EndMessage, StartMessage } from "./worker-messages";
 
 /**
@@ -33,6 +34,15 @@ export interface ResponseHandlerOptions {
 	retryAttempt: number;
 	failoverAttempts: number;
 	agentUsed?: string | null;
+	interceptedBy?: string[] | null;
+	/** Body as sent by the client when an interceptor changed it */
+	originalRequestBody?: ArrayBuffer | null;
+	apiKeyId?: string | null;
+	routing?: RoutingDecision | null;
+	/** Model the client asked for when a fallback model was used */
+	fallbackFromModel?: string | null;
+	/** Span the stream lifetime is traced under */
+	traceParent?: SpanContext | null;
 }
 
 /**
@@ -53,9 +63,15 @@ export async function forwardToClient(
 		requestBody,
 		response: responseRaw,
 		timestamp,
-		retryAttempt, // Always 0 in new flow, but kept for message compatibility
+		retryAttempt,
 		failoverAttempts,
 		agentUsed,
+		interceptedBy,
+		originalRequestBody,
+		apiKeyId,
+		routing,
+		fallbackFromModel,
+		traceParent,
 	} = options;
 
 	// Always strip compression headers *before* we do anything else
@@ -86,6 +102,13 @@ export async function forwardToClient(
 		isStream,
 		providerName: ctx.provider.name,
 		agentUsed: agentUsed || null,
+		interceptedBy: interceptedBy?.length ? interceptedBy : null,
+		originalRequestBody: originalRequestBody
+			? Buffer.from(originalRequestBody).toString("base64")
+			: null,
+		apiKeyId: apiKeyId || null,
+		routing: routing ?? null,
+		fallbackFromModel: fallbackFromModel || null,
 		retryAttempt,
 		failoverAttempts,
 	};
@@ -111,6 +134,10 @@ export async function forwardToClient(
 		const analyticsClone = response.clone();
 
 		(async () => {
+			// The analytics copy is read as fast as the client's, so its
+			// lifetime is the stream's
+			const span = tracer.startSpan("stream", { parent: traceParent });
+			let bytes = 0;
 			try {
 				const reader = analyticsClone.body?.getReader();
 				if (!reader) return; // Safety check
@@ -119,6 +146,7 @@ export async function forwardToClient(
 					const { value, done } = await reader.read();
 					if (done) break;
 					if (value) {
+						bytes += value.byteLength;
 						const chunkMsg: ChunkMessage = {
 							type: "chunk",
 							requestId,
@@ -135,6 +163,7 @@ export async function forwardToClient(
 				};
 				ctx.usageWorker.postMessage(endMsg);
 			} catch (err) {
+				span.recordError(err);
 				const endMsg: EndMessage = {
 					type: "end",
 					requestId,
@@ -142,6 +171,8 @@ export async function forwardToClient(
 					error: (err as Error).message,
 				};
 				ctx.usageWorker.postMessage(endMsg);
+			} finally {
+				span.setAttribute("ccflare.stream.bytes", bytes).end();
 			}
 		})();
 
@@ -1,4 +1,4 @@
-import { BUFFER_SIZES } from "@ccflare/core";
+import { BUFFER_SIZES, TIME_CONSTANTS } from "@ccflare/core";
 
 /**
  * Tees a ReadableStream to capture data without blocking the original stream.
@@ -81,3 +81,139 @@ export function combineChunks(chunks: Uint8Array[]): Buffer {
 
 	return combined;
 }
+
+export interface StreamStart {
+	/** Replays the held events followed by the rest of the upstream stream */
+	stream: ReadableStream<Uint8Array>;
+	/** Set when an SSE error event arrived before any content block */
+	error?: { type: string; message: string };
+	/** Set when reading the stream failed before any content block */
+	readError?: unknown;
+}
+
+/**
+ * Scans complete SSE events for the first content block or an error event
+ */
+function findStreamStart(
+	text: string,
+): { content: true } | { error: StreamStart["error"] } | null {
+	const events = text.replace(/\r\n/g, "\n").split("\n\n");
+	// The last segment may be an incomplete event
+	for (const block of events.slice(0, -1)) {
+		let event = "";
+		let data = "";
+		for (const line of block.split("\n")) {
+			if (line.startsWith("event:")) event = line.slice(6).trim();
+			else if (line.startsWith("data:")) data += line.slice(5).trim();
+		}
+
+		if (event === "content_block_start") return { content: true };
+		if (event === "error") {
+			try {
+				const parsed = JSON.parse(data) as {
+					error?: { type?: string; message?: string };
+				};
+				return {
+					error: {
+						type: parsed.error?.type ?? "unknown_error",
+						message: parsed.error?.message ?? "Stream error",
+					},
+				};
+			} catch {
+				return { error: { type: "unknown_error", message: data } };
+			}
+		}
+	}
+	return null;
+}
+
+/**
+ * Holds back the start of an SSE stream until the first content block arrives.
+ * Errors that happen before any content can then be retried on another account
+ * without the client ever seeing them. The hold ends early on timeout or once
+ * maxBytes are buffered, after which the stream is passed through unchanged.
+ */
+export async function holdStreamUntilContent(
+	upstream: ReadableStream<Uint8Array>,
+	options: {
+		timeoutMs?: number; // Max time to hold (default: 10s)
+		maxBytes?: number; // Max bytes to hold (default: 64KB)
+	} = {},
+): Promise<StreamStart> {
+	const {
+		timeoutMs = TIME_CONSTANTS.STREAM_HOLD_TIMEOUT,
+		maxBytes = BUFFER_SIZES.STREAM_HOLD_MAX_BYTES,
+	} = options;
+	const reader = upstream.getReader();
+	const decoder = new TextDecoder();
+	const held: Uint8Array[] = [];
+	const deadline = Date.now() + timeoutMs;
+	let heldBytes = 0;
+	let text = "";
+	let error: StreamStart["error"];
+	let readError: unknown;
+	// A read still in flight when the hold times out is handed to the replay
+	let pending: Promise<ReadableStreamReadResult<Uint8Array>> | null = null;
+
+	try {
+		while (heldBytes < maxBytes) {
+			const remaining = deadline - Date.now();
+			if (remaining <= 0) break;
+
+			pending = reader.read();
+			let timer: ReturnType<typeof setTimeout> | undefined;
+			const result = await Promise.race([
+				pending,
+				new Promise<null>((resolve) => {
+					timer = setTimeout(() => resolve(null), remaining);
+				}),
+			]);
+			clearTimeout(timer);
+			if (!result) break;
+
+			pending = null;
+			if (result.done) break;
+
+			held.push(result.value);
+			heldBytes += result.value.length;
+			text += decoder.decode(result.value, { stream: true });
+
+			const start = findStreamStart(text);
+			if (start) {
+				if ("error" in start) error = start.error;
+				break;
+			}
+		}
+	} catch (err) {
+		// Reported so the caller can retry or fail over; a replay that is still
+		// consumed surfaces the same failure
+		readError = err;
+	}
+
+	let index = 0;
+	const stream = new ReadableStream<Uint8Array>({
+		async pull(controller) {
+			if (index < held.length) {
+				controller.enqueue(held[index++]);
+				return;
+			}
+			try {
+				const { value, done } = await (pending ?? reader.read());
+				pending = null;
+				if (done) {
+					controller.close();
+					return;
+				}
+				controller.enqueue(value);
+			} catch (err) {
+				controller.error(err);
+			}
+		},
+
+		cancel(reason) {
+			return reader.cancel(reason);
+		},
+	});
+
+	return { stream, error, readError };
+}
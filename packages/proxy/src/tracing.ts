@@ -0,0 +1,347 @@
+import type { RuntimeConfig } from "@ccflare/config";
+import type { Disposable } from "@ccflare/core";
+import { Logger } from "@ccflare/logger";
+
+const log = new Logger("Tracing");
+
+/**
+ * Lightweight OpenTelemetry-compatible tracing for the proxy pipeline.
+ *
+ * Spans are created explicitly and passed down to their children; there is no
+ * implicit context. Finished spans are batched and exported as OTLP/HTTP JSON
+ * to the configured collector. When no endpoint is configured spans are still
+ * created, so call sites stay simple, but nothing is kept or sent.
+ */
+
+export type SpanKind = "internal" | "server" | "client";
+
+/** Identifies a span so it can be used as a parent or propagated */
+export interface SpanContext {
+	traceId: string;
+	spanId: string;
+	/** Sampled flag of the W3C trace context; unsampled traces are not exported */
+	sampled: boolean;
+}
+
+export type SpanAttributeValue = string | number | boolean;
+
+interface StartSpanOptions {
+	kind?: SpanKind;
+	parent?: SpanContext | null;
+	attributes?: Record<string, SpanAttributeValue | null | undefined>;
+}
+
+// OTLP enum values
+const SPAN_KIND = { internal: 1, server: 2, client: 3 } as const;
+const STATUS_CODE = { unset: 0, ok: 1, error: 2 } as const;
+
+const MAX_BUFFERED_SPANS = 2048;
+const EXPORT_BATCH_SIZE = 512;
+const EXPORT_INTERVAL_MS = 5000;
+const EXPORT_TIMEOUT_MS = 10000;
+
+const TRACEPARENT_PATTERN = /^00-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+function randomHex(bytes: number): string {
+	const values = crypto.getRandomValues(new Uint8Array(bytes));
+	return Array.from(values, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function nowUnixNano(): bigint {
+	return BigInt(Math.round((performance.timeOrigin + performance.now()) * 1e6));
+}
+
+function toOtlpValue(value: SpanAttributeValue) {
+	if (typeof value === "boolean") return { boolValue: value };
+	if (typeof value === "number") {
+		return Number.isInteger(value)
+			? { intValue: String(value) }
+			: { doubleValue: value };
+	}
+	return { stringValue: value };
+}
+
+function toOtlpAttributes(attributes: Map<string, SpanAttributeValue>) {
+	return Array.from(attributes, ([key, value]) => ({
+		key,
+		value: toOtlpValue(value),
+	}));
+}
+
+/**
+ * Parse a W3C traceparent header
+ * @returns The remote parent, or null when the header is missing or invalid
+ */
+export function parseTraceparent(
+	value: string | null | undefined,
+): SpanContext | null {
+	const match = value?.trim().toLowerCase().match(TRACEPARENT_PATTERN);
+	if (!match) return null;
+	const [, traceId, spanId, flags] = match;
+	if (/^0+$/.test(traceId) || /^0+$/.test(spanId)) return null;
+	return {
+		traceId,
+		spanId,
+		sampled: (Number.parseInt(flags, 16) & 1) === 1,
+	};
+}
+
+/**
+ * Format a span as a W3C traceparent header value
+ */
+export function formatTraceparent(context: SpanContext): string {
+	return `00-${context.traceId}-${context.spanId}-${context.sampled ? "01" : "00"}`;
+}
+
+export class Span implements SpanContext {
+	readonly traceId: string;
+	readonly spanId = randomHex(8);
+	readonly sampled: boolean;
+	readonly parentSpanId: string | null;
+	private readonly startTime = nowUnixNano();
+	private endTime: bigint | null = null;
+	private readonly attributes = new Map<string, SpanAttributeValue>();
+	private readonly events: Array<{
+		name: string;
+		time: bigint;
+		attributes: Map<string, SpanAttributeValue>;
+	}> = [];
+	private status: { code: number; message?: string } = {
+		code: STATUS_CODE.unset,
+	};
+
+	constructor(
+		readonly name: string,
+		readonly kind: SpanKind,
+		parent: SpanContext | null,
+		private readonly onEnd: (span: Span) => void,
+	) {
+		this.traceId = parent?.traceId ?? randomHex(16);
+		this.sampled = parent?.sampled ?? true;
+		this.parentSpanId = parent?.spanId ?? null;
+	}
+
+	setAttribute(key: string, value: SpanAttributeValue | null | undefined) {
+		if (value !== null && value !== undefined) {
+			this.attributes.set(key, value);
+		}
+		return this;
+	}
+
+	setAttributes(
+		attributes: Record<string, SpanAttributeValue | null | undefined>,
+	) {
+		for (const [key, value] of Object.entries(attributes)) {
+			this.setAttribute(key, value);
+		}
+		return this;
+	}
+
+	/**
+	 * Mark the span as failed and record the error as an exception event
+	 */
+	recordError(error: unknown) {
+		const message = error instanceof Error ? error.message : String(error);
+		this.status = { code: STATUS_CODE.error, message };
+		this.events.push({
+			name: "exception",
+			time: nowUnixNano(),
+			attributes: new Map<string, SpanAttributeValue>([
+				["exception.type", error instanceof Error ? error.name : "Error"],
+				["exception.message", message],
+			]),
+		});
+		return this;
+	}
+
+	/**
+	 * Mark the span as failed without an exception, e.g. for an error response
+	 */
+	setError(message: string) {
+		this.status = { code: STATUS_CODE.error, message };
+		return this;
+	}
+
+	/** End the span; later calls are ignored */
+	end(): void {
+		if (this.endTime !== null) return;
+		this.endTime = nowUnixNano();
+		this.onEnd(this);
+	}
+
+	toOtlp() {
+		return {
+			traceId: this.traceId,
+			spanId: this.spanId,
+			...(this.parentSpanId ? { parentSpanId: this.parentSpanId } : {}),
+			name: this.name,
+			kind: SPAN_KIND[this.kind],
+			startTimeUnixNano: this.startTime.toString(),
+			endTimeUnixNano: (this.endTime ?? nowUnixNano()).toString(),
+			attributes: toOtlpAttributes(this.attributes),
+			events: this.events.map((event) => ({
+				name: event.name,
+				timeUnixNano: event.time.toString(),
+				attributes: toOtlpAttributes(event.attributes),
+			})),
+			status: this.status,
+		};
+	}
+}
+
+export class Tracer implements Disposable {
+	private options: RuntimeConfig["tracing"] = {
+		endpoint: null,
+		serviceName: "ccflare",
+		headers: {},
+	};
+	private buffer: Span[] = [];
+	private timer: ReturnType<typeof setInterval> | null = null;
+	private exporting: Promise<void> | null = null;
+	private droppedSpans = 0;
+
+	configure(options: RuntimeConfig["tracing"]): void {
+		this.options = { ...options };
+		if (this.timer) {
+			clearInterval(this.timer);
+			this.timer = null;
+		}
+		if (!options.endpoint) {
+			this.buffer = [];
+			return;
+		}
+
+		this.timer = setInterval(() => void this.flush(), EXPORT_INTERVAL_MS);
+		// Don't keep the process alive just to export spans
+		if (typeof this.timer === "object" && "unref" in this.timer) {
+			this.timer.unref();
+		}
+		log.info(`Exporting traces to ${options.endpoint}`);
+	}
+
+	get enabled(): boolean {
+		return this.options.endpoint !== null;
+	}
+
+	startSpan(name: string, options: StartSpanOptions = {}): Span {
+		const span = new Span(
+			name,
+			options.kind ?? "internal",
+			options.parent ?? null,
+			(ended) => this.record(ended),
+		);
+		if (options.attributes) span.setAttributes(options.attributes);
+		return span;
+	}
+
+	/**
+	 * Run fn inside a child span, ending it when fn settles and recording
+	 * thrown errors
+	 */
+	async withSpan<T>(
+		name: string,
+		parent: SpanContext | null,
+		fn: (span: Span) => Promise<T> | T,
+	): Promise<T> {
+		const span = this.startSpan(name, { parent });
+		try {
+			return await fn(span);
+		} catch (error) {
+			span.recordError(error);
+			throw error;
+		} finally {
+			span.end();
+		}
+	}
+
+	/**
+	 * Export buffered spans now. Failed exports are logged and dropped so a
+	 * missing collector can't grow memory.
+	 */
+	async flush(): Promise<void> {
+		if (this.exporting) {
+			await this.exporting;
+		}
+		if (!this.options.endpoint || this.buffer.length === 0) return;
+
+		const endpoint = this.options.endpoint;
+		const spans = this.buffer.splice(0, EXPORT_BATCH_SIZE);
+		this.exporting = this.send(endpoint, spans).finally(() => {
+			this.exporting = null;
+		});
+		await this.exporting;
+
+		if (this.buffer.length >= EXPORT_BATCH_SIZE) {
+			await this.flush();
+		}
+	}
+
+	async dispose(): Promise<void> {
+		if (this.timer) {
+			clearInterval(this.timer);
+			this.timer = null;
+		}
+		await this.flush();
+	}
+
+	private record(span: Span): void {
+		if (!this.options.endpoint || !span.sampled) return;
+		if (this.buffer.length >= MAX_BUFFERED_SPANS) {
+			this.droppedSpans++;
+			return;
+		}
+		this.buffer.push(span);
+		if (this.buffer.length >= EXPORT_BATCH_SIZE) {
+			void this.flush();
+		}
+	}
+
+	private async send(endpoint: string, spans: Span[]): Promise<void> {
+		const body = {
+			resourceSpans: [
+				{
+					resource: {
+						attributes: [
+							{
+								key: "service.name",
+								value: { stringValue: this.options.serviceName },
+							},
+						],
+					},
+					scopeSpans: [
+						{
+							scope: { name: "ccflare" },
+							spans: spans.map((span) => span.toOtlp()),
+						},
+					],
+				},
+			],
+		};
+
+		try {
+			const response = await fetch(endpoint, {
+				method: "POST",
+				headers: {
+					"content-type": "application/json",
+					...this.options.headers,
+				},
+				body: JSON.stringify(body),
+				signal: AbortSignal.timeout(EXPORT_TIMEOUT_MS),
+			});
+			if (!response.ok) {
+				log.warn(
+					`Trace export failed with ${response.status}, dropped ${spans.length} spans`,
+				);
+			}
+		} catch (error) {
+			log.warn(`Trace export failed, dropped ${spans.length} spans`, error);
+		}
+
+		if (this.droppedSpans > 0) {
+			log.warn(`Dropped ${this.droppedSpans} spans while the buffer was full`);
+			this.droppedSpans = 0;
+		}
+	}
+}
+
+export const tracer = new Tracer();
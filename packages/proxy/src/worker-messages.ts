@@ -26,6 +26,19 @@ export interface StartMessage {
 	// Agent info
 	agentUsed: string | null;
 
+	// Interception info, set only when an interceptor changed the body
+	interceptedBy: string[] | null;
+	originalRequestBody: string | null; // base64 encoded
+
+	// Client API key the request was made with
+	apiKeyId: string | null;
+
+	// Routing rule and account group, set only when a routing rule matched
+	routing: import("@ccflare/types").RoutingDecision | null;
+
+	// Model the client asked for, set only when a fallback model was used
+	fallbackFromModel: string | null;
+
 	// Retry info
 	retryAttempt: number;
 	failoverAttempts: number;
@@ -75,4 +88,13 @@ export interface PayloadMessage {
 	payload: import("@ccflare/types").RequestPayload;
 }
 
-export type OutgoingWorkerMessage = SummaryMessage | PayloadMessage;
+export interface WriterStatsMessage {
+	type: "writer_stats";
+	/** Database writes the worker's async writer has not flushed yet */
+	queueDepth: number;
+}
+
+export type OutgoingWorkerMessage =
+	| SummaryMessage
+	| PayloadMessage
+	| WriterStatsMessage;
@@ -66,16 +66,38 @@ export async function completeAddAccount(
 /**
  * Legacy function for non-TUI usage
  */
-export async function addAccount(options: AddAccountOptions): Promise<void> {
+export async function addAccount(
+	options: Omit<AddAccountOptions, "mode"> & {
+		mode?: "max" | "console" | "openai-compatible";
+	},
+): Promise<void> {
 	const dbOps = DatabaseFactory.getInstance();
 	const config = new Config();
 	await cliCommands.addAccount(dbOps, config, {
 		name: options.name,
 		mode: options.mode || "max",
 		tier: options.tier || 1,
+		apiKey: options.apiKey,
+		baseUrl: options.baseUrl,
+		model: options.model,
 	});
 }
 
+/**
+ * Add an account with an existing Anthropic API key, verifying it first
+ * @throws {Error} If the key is malformed, rejected or cannot be verified
+ */
+export async function addApiKeyAccount(
+	name: string,
+	apiKey: string,
+): Promise<void> {
+	const dbOps = DatabaseFactory.getInstance();
+	const result = await cliCommands.addApiKeyAccount(dbOps, { name, apiKey });
+	if (!result.success) {
+		throw new Error(result.message);
+	}
+}
+
 export async function getAccounts(): Promise<AccountListItem[]> {
 	const dbOps = DatabaseFactory.getInstance();
 	return await cliCommands.getAccountsList(dbOps);
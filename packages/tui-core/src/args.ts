@@ -7,8 +7,11 @@ export interface ParsedArgs {
 	logs?: boolean | number;
 	stats?: boolean;
 	addAccount?: string;
-	mode?: "max" | "console";
+	mode?: "max" | "console" | "openai-compatible";
 	tier?: 1 | 5 | 20;
+	apiKey?: string;
+	baseUrl?: string;
+	model?: string;
 	list?: boolean;
 	remove?: string;
 	pause?: string;
@@ -18,6 +21,14 @@ export interface ParsedArgs {
 	clearHistory?: boolean;
 	getModel?: boolean;
 	setModel?: string;
+	createKey?: string;
+	listKeys?: boolean;
+	revokeKey?: string;
+	addUser?: string;
+	role?: string;
+	listUsers?: boolean;
+	removeUser?: string;
+	rotateKey?: boolean;
 }
 
 export function parseArgs(args: string[]): ParsedArgs {
@@ -33,6 +44,9 @@ export function parseArgs(args: string[]): ParsedArgs {
 				"add-account": { type: "string" },
 				mode: { type: "string" },
 				tier: { type: "string" },
+				"api-key": { type: "string" },
+				"base-url": { type: "string" },
+				model: { type: "string" },
 				list: { type: "boolean" },
 				remove: { type: "string" },
 				pause: { type: "string" },
@@ -42,6 +56,14 @@ export function parseArgs(args: string[]): ParsedArgs {
 				"clear-history": { type: "boolean" },
 				"get-model": { type: "boolean" },
 				"set-model": { type: "string" },
+				"create-key": { type: "string" },
+				"list-keys": { type: "boolean" },
+				"revoke-key": { type: "string" },
+				"add-user": { type: "string" },
+				role: { type: "string" },
+				"list-users": { type: "boolean" },
+				"remove-user": { type: "string" },
+				"rotate-key": { type: "boolean" },
 			},
 			allowPositionals: true,
 		});
@@ -56,8 +78,16 @@ export function parseArgs(args: string[]): ParsedArgs {
 		}
 		if (values.stats) result.stats = true;
 		if (values["add-account"]) result.addAccount = values["add-account"];
-		if (values.mode) result.mode = values.mode as "max" | "console";
+		if (values.mode) {
+			result.mode =
+				values.mode === "openai"
+					? "openai-compatible"
+					: (values.mode as "max" | "console" | "openai-compatible");
+		}
 		if (values.tier) result.tier = parseInt(values.tier, 10) as 1 | 5 | 20;
+		if (values["api-key"]) result.apiKey = values["api-key"];
+		if (values["base-url"]) result.baseUrl = values["base-url"];
+		if (values.model) result.model = values.model;
 		if (values.list) result.list = true;
 		if (values.remove) result.remove = values.remove;
 		if (values.pause) result.pause = values.pause;
@@ -67,6 +97,14 @@ export function parseArgs(args: string[]): ParsedArgs {
 		if (values["clear-history"]) result.clearHistory = true;
 		if (values["get-model"]) result.getModel = true;
 		if (values["set-model"]) result.setModel = values["set-model"];
+		if (values["create-key"]) result.createKey = values["create-key"];
+		if (values["list-keys"]) result.listKeys = true;
+		if (values["revoke-key"]) result.revokeKey = values["revoke-key"];
+		if (values["add-user"]) result.addUser = values["add-user"];
+		if (values.role) result.role = values.role;
+		if (values["list-users"]) result.listUsers = true;
+		if (values["remove-user"]) result.removeUser = values["remove-user"];
+		if (values["rotate-key"]) result.rotateKey = true;
 
 		return result;
 	} catch (error) {
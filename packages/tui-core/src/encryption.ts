@@ -0,0 +1,11 @@
+import * as cliCommands from "@ccflare/cli-commands";
+import { DatabaseFactory } from "@ccflare/database";
+
+export async function rotateEncryptionKey(): Promise<{
+	success: boolean;
+	message: string;
+	key?: string;
+}> {
+	const dbOps = DatabaseFactory.getInstance();
+	return cliCommands.rotateEncryptionKey(dbOps);
+}
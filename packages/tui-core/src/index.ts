@@ -1,7 +1,10 @@
 export * from "./accounts";
 export * from "./analytics";
 export * from "./args";
+export * from "./encryption";
+export * from "./keys";
 export * from "./logs";
 export * from "./requests";
 export * from "./stats";
 export * from "./strategy";
+export * from "./users";
@@ -0,0 +1,21 @@
+import * as cliCommands from "@ccflare/cli-commands";
+import { type ApiKey, DatabaseFactory } from "@ccflare/database";
+
+export async function createApiKey(
+	name: string,
+): Promise<{ success: boolean; message: string; key?: string }> {
+	const dbOps = DatabaseFactory.getInstance();
+	return cliCommands.createApiKey(dbOps, name);
+}
+
+export async function getApiKeys(): Promise<ApiKey[]> {
+	const dbOps = DatabaseFactory.getInstance();
+	return cliCommands.getApiKeysList(dbOps);
+}
+
+export async function revokeApiKey(
+	name: string,
+): Promise<{ success: boolean; message: string }> {
+	const dbOps = DatabaseFactory.getInstance();
+	return cliCommands.revokeApiKey(dbOps, name);
+}
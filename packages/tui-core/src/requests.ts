@@ -1,11 +1,23 @@
 import { DatabaseFactory } from "@ccflare/database";
-import type { RequestPayload } from "@ccflare/types";
+import type {
+	RequestFilters,
+	RequestPage,
+	RequestPayload,
+} from "@ccflare/types";
 
-export type { RequestPayload };
+export type { RequestFilters, RequestPage, RequestPayload };
 
 export interface RequestSummary {
 	id: string;
+	timestamp: number;
+	method: string;
+	path: string;
+	accountName: string | null;
+	statusCode: number | null;
+	success: boolean;
+	errorMessage: string | null;
 	model?: string;
+	agentUsed?: string;
 	inputTokens?: number;
 	outputTokens?: number;
 	totalTokens?: number;
@@ -15,83 +27,146 @@ export interface RequestSummary {
 	responseTimeMs?: number;
 }
 
-export async function getRequests(limit = 100): Promise<RequestPayload[]> {
-	const dbOps = DatabaseFactory.getInstance();
-	const rows = dbOps.listRequestPayloads(limit);
+const DURATION_PATTERN = /^(\d+)([mhdw])$/;
+const DURATION_UNITS_MS = {
+	m: 60 * 1000,
+	h: 60 * 60 * 1000,
+	d: 24 * 60 * 60 * 1000,
+	w: 7 * 24 * 60 * 60 * 1000,
+} as const;
+
+function parseDate(value: string, key: string): number {
+	const timestamp = Date.parse(value);
+	if (Number.isNaN(timestamp)) {
+		throw new Error(`${key} must be a date, e.g. 2025-01-31`);
+	}
+	return timestamp;
+}
 
-	const parsed = rows.map((r: { id: string; json: string }) => {
-		try {
-			const data = JSON.parse(r.json);
-			// Add account name if we have accountId
-			if (data.meta?.accountId) {
-				const account = dbOps.getAccount(data.meta.accountId);
-				if (account) {
-					data.meta.accountName = account.name;
+function parseMinimum(value: string, key: string): number {
+	const number = Number(value);
+	if (!value || Number.isNaN(number) || number < 0) {
+		throw new Error(`${key} must be a positive number`);
+	}
+	return number;
+}
+
+/**
+ * Parse a filter query such as "account:main status:5xx since:7d" into
+ * request filters. Supported keys: account, model, agent, status (comma
+ * separated), path, since (30m, 24h, 7d, 2w), from and to (dates), cost
+ * (minimum USD) and tokens (minimum total).
+ * @throws {Error} If a term is not a known key:value pair
+ */
+export function parseRequestFilterQuery(query: string): RequestFilters {
+	const filters: RequestFilters = {};
+	for (const term of query.trim().split(/\s+/).filter(Boolean)) {
+		const separator = term.indexOf(":");
+		const key = term.slice(0, separator).toLowerCase();
+		const value = term.slice(separator + 1);
+		if (separator <= 0 || !value) {
+			throw new Error(`Expected key:value, got '${term}'`);
+		}
+
+		switch (key) {
+			case "account":
+			case "model":
+			case "agent":
+			case "path":
+				filters[key] = value;
+				break;
+			case "status":
+				filters.status = value.split(",").filter(Boolean);
+				break;
+			case "since": {
+				const match = value.match(DURATION_PATTERN);
+				if (!match) {
+					throw new Error("since must be a duration, e.g. 30m, 24h or 7d");
 				}
+				filters.from =
+					Date.now() -
+					Number(match[1]) *
+						DURATION_UNITS_MS[match[2] as keyof typeof DURATION_UNITS_MS];
+				break;
 			}
-			return { id: r.id, ...data } as RequestPayload;
-		} catch {
-			return {
-				id: r.id,
-				error: "Failed to parse payload",
-				request: { headers: {}, body: null },
-				response: null,
-				meta: { timestamp: Date.now() },
-			} as RequestPayload;
+			case "from":
+				filters.from = parseDate(value, key);
+				break;
+			case "to":
+				filters.to = parseDate(value, key);
+				break;
+			case "cost":
+				filters.minCost = parseMinimum(value, key);
+				break;
+			case "tokens":
+				filters.minTokens = Math.floor(parseMinimum(value, key));
+				break;
+			default:
+				throw new Error(`Unknown filter '${key}'`);
 		}
-	});
-
-	return parsed;
+	}
+	return filters;
 }
 
-export async function getRequestSummaries(
+/**
+ * Get a page of request summaries from the full history, newest first
+ * @param cursor - nextCursor of the previous page
+ */
+export async function getRequestPage(
+	filters: RequestFilters = {},
+	cursor: string | null = null,
 	limit = 100,
-): Promise<Map<string, RequestSummary>> {
+): Promise<RequestPage<RequestSummary>> {
 	const dbOps = DatabaseFactory.getInstance();
-	const db = dbOps.getDatabase();
+	const { rows, nextCursor } = dbOps.searchRequests(filters, limit, cursor);
 
-	const summaries = db
-		.query(`
-		SELECT 
-			id,
-			model,
-			input_tokens as inputTokens,
-			output_tokens as outputTokens,
-			total_tokens as totalTokens,
-			cache_read_input_tokens as cacheReadInputTokens,
-			cache_creation_input_tokens as cacheCreationInputTokens,
-			cost_usd as costUsd,
-			response_time_ms as responseTimeMs
-		FROM requests
-		ORDER BY timestamp DESC
-		LIMIT ?
-	`)
-		.all(limit) as Array<{
-		id: string;
-		model?: string;
-		inputTokens?: number;
-		outputTokens?: number;
-		totalTokens?: number;
-		cacheReadInputTokens?: number;
-		cacheCreationInputTokens?: number;
-		costUsd?: number;
-		responseTimeMs?: number;
-	}>;
+	return {
+		requests: rows.map((row) => ({
+			id: row.id,
+			timestamp: row.timestamp,
+			method: row.method,
+			path: row.path,
+			accountName: row.account_name || row.account_used,
+			statusCode: row.status_code,
+			success: row.success === 1,
+			errorMessage: row.error_message,
+			model: row.model || undefined,
+			agentUsed: row.agent_used || undefined,
+			inputTokens: row.input_tokens || undefined,
+			outputTokens: row.output_tokens || undefined,
+			totalTokens: row.total_tokens || undefined,
+			cacheReadInputTokens: row.cache_read_input_tokens || undefined,
+			cacheCreationInputTokens: row.cache_creation_input_tokens || undefined,
+			costUsd: row.cost_usd || undefined,
+			responseTimeMs: row.response_time_ms || undefined,
+		})),
+		nextCursor,
+	};
+}
 
-	const summaryMap = new Map<string, RequestSummary>();
-	summaries.forEach((summary) => {
-		summaryMap.set(summary.id, {
-			id: summary.id,
-			model: summary.model || undefined,
-			inputTokens: summary.inputTokens || undefined,
-			outputTokens: summary.outputTokens || undefined,
-			totalTokens: summary.totalTokens || undefined,
-			cacheReadInputTokens: summary.cacheReadInputTokens || undefined,
-			cacheCreationInputTokens: summary.cacheCreationInputTokens || undefined,
-			costUsd: summary.costUsd || undefined,
-			responseTimeMs: summary.responseTimeMs || undefined,
-		});
-	});
+/**
+ * Get the stored payload of a request, or null once it has been pruned
+ */
+export async function getRequestPayload(
+	id: string,
+): Promise<RequestPayload | null> {
+	const dbOps = DatabaseFactory.getInstance();
+	const row = dbOps.getRequestPayloadWithAccountNames(id);
+	if (!row) return null;
 
-	return summaryMap;
+	try {
+		const data = JSON.parse(row.json);
+		if (row.account_name && data.meta) {
+			data.meta.accountName = row.account_name;
+		}
+		return { id: row.id, ...data } as RequestPayload;
+	} catch {
+		return {
+			id: row.id,
+			error: "Failed to parse payload",
+			request: { headers: {}, body: null },
+			response: null,
+			meta: { timestamp: Date.now() },
+		} as RequestPayload;
+	}
 }
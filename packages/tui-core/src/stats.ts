@@ -1,5 +1,7 @@
 import * as cliCommands from "@ccflare/cli-commands";
 import { DatabaseFactory } from "@ccflare/database";
+import { getRequestQueue } from "@ccflare/proxy";
+import type { RequestQueueStats } from "@ccflare/types";
 
 export interface Stats {
 	totalRequests: number;
@@ -21,6 +23,8 @@ export interface Stats {
 		successRate: number;
 	}>;
 	recentErrors: string[];
+	/** Requests waiting for a rate-limited account in this process */
+	queue: RequestQueueStats;
 }
 
 export async function getStats(): Promise<Stats> {
@@ -61,6 +65,7 @@ export async function getStats(): Promise<Stats> {
 				: undefined,
 		accounts: accountsWithStats,
 		recentErrors,
+		queue: getRequestQueue().getStats(),
 	};
 }
 
@@ -69,6 +74,7 @@ export async function resetStats(): Promise<void> {
 	const db = dbOps.getDatabase();
 	// Clear request history
 	db.run("DELETE FROM requests");
+	db.run("DELETE FROM conversations");
 	// Reset account statistics
 	db.run("UPDATE accounts SET request_count = 0, session_request_count = 0");
 }
@@ -77,6 +83,7 @@ export async function clearHistory(): Promise<void> {
 	const dbOps = DatabaseFactory.getInstance();
 	const db = dbOps.getDatabase();
 	db.run("DELETE FROM requests");
+	db.run("DELETE FROM conversations");
 }
 
 export async function analyzePerformance(): Promise<void> {
@@ -1,38 +1,25 @@
-import { Config } from "@ccflare/config";
+import type { Config } from "@ccflare/config";
+import { isValidStrategy, STRATEGIES } from "@ccflare/core";
+import { container, SERVICE_KEYS } from "@ccflare/core-di";
 
-async function getPort(): Promise<number> {
-	const config = new Config();
-	const runtime = config.getRuntime();
-	return runtime.port || 8080;
+// The TUI runs the server in its own process; changing the server's Config
+// instance hot-reloads the proxy's strategy without going through /api/*,
+// which needs a dashboard session once authentication is on
+function getConfig(): Config {
+	return container.resolve<Config>(SERVICE_KEYS.Config);
 }
 
 export async function getStrategy(): Promise<string> {
-	const port = await getPort();
-	const baseUrl = `http://localhost:${port}`;
-	const res = await fetch(`${baseUrl}/api/config/strategy`);
-	if (!res.ok) throw new Error("Failed to fetch strategy");
-	const data = (await res.json()) as { strategy: string };
-	return data.strategy;
+	return getConfig().getStrategy();
 }
 
 export async function listStrategies(): Promise<string[]> {
-	const port = await getPort();
-	const baseUrl = `http://localhost:${port}`;
-	const res = await fetch(`${baseUrl}/api/strategies`);
-	if (!res.ok) throw new Error("Failed to list strategies");
-	return res.json() as Promise<string[]>;
+	return [...STRATEGIES];
 }
 
 export async function setStrategy(strategy: string): Promise<void> {
-	const port = await getPort();
-	const baseUrl = `http://localhost:${port}`;
-	const res = await fetch(`${baseUrl}/api/config/strategy`, {
-		method: "POST",
-		headers: { "Content-Type": "application/json" },
-		body: JSON.stringify({ strategy }),
-	});
-	if (!res.ok) {
-		const error = (await res.json()) as { error?: string };
-		throw new Error(error.error || "Failed to set strategy");
+	if (!isValidStrategy(strategy)) {
+		throw new Error(`Invalid strategy: ${strategy}`);
 	}
+	getConfig().setStrategy(strategy);
 }
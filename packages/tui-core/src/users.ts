@@ -0,0 +1,26 @@
+import * as cliCommands from "@ccflare/cli-commands";
+import { type DashboardUser, DatabaseFactory } from "@ccflare/database";
+
+/**
+ * Create a dashboard user, prompting for the password
+ */
+export async function addDashboardUser(
+	username: string,
+	role?: string,
+): Promise<{ success: boolean; message: string }> {
+	const dbOps = DatabaseFactory.getInstance();
+	const password = await cliCommands.promptPassword();
+	return cliCommands.addDashboardUser(dbOps, username, password, role);
+}
+
+export async function getDashboardUsers(): Promise<DashboardUser[]> {
+	const dbOps = DatabaseFactory.getInstance();
+	return cliCommands.getDashboardUsersList(dbOps);
+}
+
+export async function removeDashboardUser(
+	username: string,
+): Promise<{ success: boolean; message: string }> {
+	const dbOps = DatabaseFactory.getInstance();
+	return cliCommands.removeDashboardUser(dbOps, username);
+}
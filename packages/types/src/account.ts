@@ -1,13 +1,18 @@
 // AccountTier represents the tier level (1, 5, or 20)
 export type AccountTier = number;
 
+// How an account authenticates upstream: an OAuth subscription (Claude
+// Pro/Max) or a pay-as-you-go Anthropic API key
+export type AccountAuthType = "oauth" | "api_key";
+
 // Database row types that match the actual database schema
 export interface AccountRow {
 	id: string;
 	name: string;
 	provider: string | null;
+	auth_type?: string | null;
 	api_key: string | null;
-	refresh_token: string;
+	refresh_token: string | null;
 	access_token: string | null;
 	expires_at: number | null;
 	created_at: number;
@@ -22,6 +27,9 @@ export interface AccountRow {
 	rate_limit_reset?: number | null;
 	rate_limit_status?: string | null;
 	rate_limit_remaining?: number | null;
+	account_groups?: string | null;
+	base_url?: string | null;
+	model_map?: string | null;
 }
 
 // Domain model - used throughout the application
@@ -29,8 +37,9 @@ export interface Account {
 	id: string;
 	name: string;
 	provider: string;
+	auth_type: AccountAuthType;
 	api_key: string | null;
-	refresh_token: string;
+	refresh_token: string | null;
 	access_token: string | null;
 	expires_at: number | null;
 	request_count: number;
@@ -45,6 +54,11 @@ export interface Account {
 	rate_limit_reset: number | null;
 	rate_limit_status: string | null;
 	rate_limit_remaining: number | null;
+	groups: string[];
+	/** Upstream base URL, for providers whose upstream differs per account */
+	base_url: string | null;
+	/** Requested model (exact, substring or "*") -> upstream model */
+	model_map: Record<string, string>;
 }
 
 // API response type - what clients receive
@@ -52,6 +66,7 @@ export interface AccountResponse {
 	id: string;
 	name: string;
 	provider: string;
+	authType: AccountAuthType;
 	requestCount: number;
 	totalRequests: number;
 	lastUsed: string | null;
@@ -64,6 +79,9 @@ export interface AccountResponse {
 	rateLimitReset: string | null;
 	rateLimitRemaining: number | null;
 	sessionInfo: string;
+	groups: string[];
+	baseUrl: string | null;
+	modelMap: Record<string, string>;
 }
 
 // UI display type - used in TUI and web dashboard
@@ -103,6 +121,7 @@ export interface AccountListItem {
 	tokenStatus: "valid" | "expired";
 	rateLimitStatus: string;
 	sessionInfo: string;
+	authType: AccountAuthType;
 	mode: "max" | "console";
 }
 
@@ -111,18 +130,57 @@ export interface AddAccountOptions {
 	name: string;
 	mode?: "max" | "console";
 	tier?: 1 | 5 | 20;
+	/** Existing Anthropic API key; skips the OAuth flow when set */
+	apiKey?: string;
+	/** Base URL of an OpenAI-compatible upstream */
+	baseUrl?: string;
+	/** Upstream model for every request of an OpenAI-compatible account */
+	model?: string;
 }
 
 export interface AccountDeleteRequest {
 	confirm: string;
 }
 
+// Account group names: letters, digits, underscores, dots and hyphens
+export const ACCOUNT_GROUP_PATTERN = /^[\w.-]{1,64}$/;
+
 // Type mappers
+export function parseAccountGroups(value: string | null | undefined): string[] {
+	if (!value) return [];
+	try {
+		const groups = JSON.parse(value);
+		return Array.isArray(groups)
+			? groups.filter((g): g is string => typeof g === "string")
+			: [];
+	} catch {
+		return [];
+	}
+}
+
+export function parseModelMap(
+	value: string | null | undefined,
+): Record<string, string> {
+	if (!value) return {};
+	try {
+		const map = JSON.parse(value);
+		if (!map || typeof map !== "object" || Array.isArray(map)) return {};
+		return Object.fromEntries(
+			Object.entries(map).filter(
+				(entry): entry is [string, string] => typeof entry[1] === "string",
+			),
+		);
+	} catch {
+		return {};
+	}
+}
+
 export function toAccount(row: AccountRow): Account {
 	return {
 		id: row.id,
 		name: row.name,
 		provider: row.provider || "anthropic",
+		auth_type: row.auth_type === "api_key" ? "api_key" : "oauth",
 		api_key: row.api_key,
 		refresh_token: row.refresh_token,
 		access_token: row.access_token,
@@ -138,12 +196,19 @@ export function toAccount(row: AccountRow): Account {
 		paused: row.paused === 1,
 		rate_limit_reset: row.rate_limit_reset || null,
 		rate_limit_status: row.rate_limit_status || null,
-		rate_limit_remaining: row.rate_limit_remaining || null,
+		rate_limit_remaining: row.rate_limit_remaining ?? null,
+		groups: parseAccountGroups(row.account_groups),
+		base_url: row.base_url || null,
+		model_map: parseModelMap(row.model_map),
 	};
 }
 
 export function toAccountResponse(account: Account): AccountResponse {
-	const tokenStatus = account.access_token ? "valid" : "expired";
+	// API keys don't expire, only OAuth access tokens do
+	const tokenStatus =
+		account.auth_type === "api_key" || account.access_token
+			? "valid"
+			: "expired";
 	const isRateLimited =
 		account.rate_limited_until && account.rate_limited_until > Date.now();
 	const rateLimitStatus =
@@ -159,6 +224,7 @@ export function toAccountResponse(account: Account): AccountResponse {
 		id: account.id,
 		name: account.name,
 		provider: account.provider,
+		authType: account.auth_type,
 		requestCount: account.request_count,
 		totalRequests: account.total_requests,
 		lastUsed: account.last_used
@@ -177,11 +243,18 @@ export function toAccountResponse(account: Account): AccountResponse {
 			: null,
 		rateLimitRemaining: account.rate_limit_remaining,
 		sessionInfo,
+		groups: account.groups,
+		baseUrl: account.base_url,
+		modelMap: account.model_map,
 	};
 }
 
 export function toAccountDisplay(account: Account): AccountDisplay {
-	const tokenStatus = account.access_token ? "valid" : "expired";
+	// API keys don't expire, only OAuth access tokens do
+	const tokenStatus =
+		account.auth_type === "api_key" || account.access_token
+			? "valid"
+			: "expired";
 	const isRateLimited =
 		account.rate_limited_until && account.rate_limited_until > Date.now();
 	const rateLimitStatus =
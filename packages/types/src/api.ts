@@ -4,6 +4,28 @@ export interface RequestMeta {
 	path: string;
 	timestamp: number;
 	agentUsed?: string | null;
+	/** Interceptors that changed the body, e.g. "agent:reviewer" or "profile:Default" */
+	interceptedBy?: string[] | null;
+	/** Body as sent by the client, kept only when an interceptor changed it */
+	originalBody?: ArrayBuffer | null;
+	/** Client API key the request was made with */
+	apiKeyId?: string | null;
+	/** Routing rule that picked the account group, when one matched */
+	routing?: RoutingDecision | null;
+	/** Model the client asked for, set when a fallback model is used instead */
+	fallbackFromModel?: string | null;
+}
+
+/**
+ * Outcome of account group routing for a request
+ */
+export interface RoutingDecision {
+	ruleId: string;
+	ruleName: string;
+	/** Group the accounts were taken from */
+	group: string;
+	/** Whether the group is one of the rule's fallback groups */
+	fallbackUsed: boolean;
 }
 
 export interface AgentUpdatePayload {
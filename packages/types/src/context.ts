@@ -1,6 +1,6 @@
 import type { Database } from "bun:sqlite";
 import type { Config } from "@ccflare/config";
-import type { DatabaseOperations } from "@ccflare/database";
+import type { AsyncDbWriter, DatabaseOperations } from "@ccflare/database";
 import type { Account } from "./account";
 import type { RequestMeta } from "./api";
 import type { StrategyStore } from "./strategy";
@@ -10,6 +10,8 @@ export interface APIContext {
 	db: Database;
 	config: Config;
 	dbOps: DatabaseOperations;
+	/** Shared writer, reported in the metrics when set */
+	asyncWriter?: AsyncDbWriter;
 }
 
 // Load balancing strategy interface
@@ -1,3 +1,5 @@
+import type { RoutingDecision } from "./api";
+
 // Database row type
 export interface RequestRow {
 	id: string;
@@ -21,6 +23,10 @@ export interface RequestRow {
 	output_tokens: number | null;
 	agent_used: string | null;
 	output_tokens_per_second: number | null;
+	intercepted_by: string | null;
+	api_key_id: string | null;
+	fallback_from_model: string | null;
+	conversation_id: string | null;
 }
 
 // Domain model
@@ -46,6 +52,13 @@ export interface Request {
 	outputTokens?: number;
 	agentUsed?: string;
 	tokensPerSecond?: number;
+	interceptedBy?: string[];
+	apiKeyId?: string;
+	apiKeyName?: string;
+	/** Model the client asked for, when a fallback model served the request */
+	fallbackFromModel?: string;
+	/** Conversation the request is a turn of */
+	conversationId?: string;
 }
 
 // API response type
@@ -71,6 +84,15 @@ export interface RequestResponse {
 	costUsd?: number;
 	agentUsed?: string;
 	tokensPerSecond?: number;
+	/** Time from the request arriving to the first content block, for streams */
+	ttftMs?: number;
+	interceptedBy?: string[];
+	apiKeyId?: string;
+	apiKeyName?: string;
+	/** Model the client asked for, when a fallback model served the request */
+	fallbackFromModel?: string;
+	/** Conversation the request is a turn of */
+	conversationId?: string;
 }
 
 // Detailed request with payload
@@ -79,6 +101,8 @@ export interface RequestPayload {
 	request: {
 		headers: Record<string, string>;
 		body: string | null;
+		/** Body as sent by the client (base64), present only when it was intercepted */
+		originalBody?: string | null;
 	};
 	response: {
 		status: number;
@@ -98,9 +122,127 @@ export interface RequestPayload {
 		path?: string;
 		method?: string;
 		agentUsed?: string;
+		interceptedBy?: string[];
+		apiKeyId?: string;
+		apiKeyName?: string;
+		/** Routing rule and account group the request was routed with */
+		routing?: RoutingDecision;
+		fallbackFromModel?: string;
 	};
 }
 
+/**
+ * Filters for searching stored requests; all are optional and combined with AND
+ */
+export interface RequestFilters {
+	/** Account id or name; NO_ACCOUNT_ID matches requests without an account */
+	account?: string;
+	/** Part of the model name, e.g. "sonnet" */
+	model?: string;
+	agent?: string;
+	/** Status codes ("429"), classes ("5xx") or "error" for failed requests; any may match */
+	status?: string[];
+	/** Unix ms timestamps, inclusive */
+	from?: number;
+	to?: number;
+	minCost?: number;
+	minTokens?: number;
+	/** Part of the request path */
+	path?: string;
+}
+
+/**
+ * One page of requests, newest first
+ */
+export interface RequestPage<T = RequestResponse> {
+	requests: T[];
+	/** Pass as cursor to get the next page; null on the last page */
+	nextCursor: string | null;
+}
+
+/**
+ * Text of one request and its response, as indexed for full-text search
+ */
+export interface RequestTextDocument {
+	/** User messages sent since the previous assistant turn */
+	userText: string;
+	/** Text of the assistant response */
+	assistantText: string;
+	/** Names of the tools the assistant called */
+	toolNames: string;
+	/** Inputs of those tool calls, as JSON */
+	toolInputs: string;
+}
+
+/**
+ * Part of a search snippet; match is true for the matched terms
+ */
+export interface SearchSnippetPart {
+	text: string;
+	match: boolean;
+}
+
+/**
+ * A request found by full-text search, with the best matching snippet
+ */
+export interface RequestTextMatch extends RequestResponse {
+	snippet: SearchSnippetPart[];
+}
+
+/**
+ * A conversation: the requests made by one client session, threaded by their
+ * conversation id
+ */
+export interface ConversationSummary {
+	id: string;
+	firstTimestamp: string;
+	lastTimestamp: string;
+	requestCount: number;
+	totalTokens: number;
+	costUsd: number;
+	models: string[];
+	agents: string[];
+}
+
+/**
+ * One page of conversations, most recently active first
+ */
+export interface ConversationPage {
+	conversations: ConversationSummary[];
+	/** Pass as cursor to get the next page; null on the last page */
+	nextCursor: string | null;
+}
+
+/**
+ * One request of a conversation, with the running totals up to and including it
+ */
+export interface ConversationTurn extends RequestResponse {
+	cumulativeTokens: number;
+	cumulativeCostUsd: number;
+	/** False once the payload has been pruned */
+	hasPayload: boolean;
+}
+
+/**
+ * Every request of a conversation, oldest first
+ */
+export interface ConversationTimeline extends ConversationSummary {
+	turns: ConversationTurn[];
+}
+
+/**
+ * Parse the stored JSON list of interceptors that changed a request
+ */
+export function parseInterceptedBy(value: string | null): string[] | undefined {
+	if (!value) return undefined;
+	try {
+		const parsed = JSON.parse(value);
+		return Array.isArray(parsed) && parsed.length > 0 ? parsed : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
 // Type mappers
 export function toRequest(row: RequestRow): Request {
 	return {
@@ -125,6 +267,10 @@ export function toRequest(row: RequestRow): Request {
 		outputTokens: row.output_tokens || undefined,
 		agentUsed: row.agent_used || undefined,
 		tokensPerSecond: row.output_tokens_per_second || undefined,
+		interceptedBy: parseInterceptedBy(row.intercepted_by),
+		apiKeyId: row.api_key_id || undefined,
+		fallbackFromModel: row.fallback_from_model || undefined,
+		conversationId: row.conversation_id || undefined,
 	};
 }
 
@@ -151,6 +297,11 @@ export function toRequestResponse(request: Request): RequestResponse {
 		costUsd: request.costUsd,
 		agentUsed: request.agentUsed,
 		tokensPerSecond: request.tokensPerSecond,
+		interceptedBy: request.interceptedBy,
+		apiKeyId: request.apiKeyId,
+		apiKeyName: request.apiKeyName,
+		fallbackFromModel: request.fallbackFromModel,
+		conversationId: request.conversationId,
 	};
 }
 
@@ -21,6 +21,24 @@ export interface StatsResponse {
 	avgTokensPerSecond: number | null;
 }
 
+// Requests waiting for a rate-limited account to become available
+export interface RequestQueueStats {
+	depth: number;
+	maxDepth: number;
+	maxWaitMs: number;
+	order: "fifo" | "priority";
+	/** How long the oldest queued request has been waiting */
+	oldestWaitMs: number;
+	/** Totals since the server started */
+	queued: number;
+	released: number;
+	timedOut: number;
+	rejected: number;
+	/** Wait times of requests that have left the queue */
+	avgWaitMs: number;
+	maxObservedWaitMs: number;
+}
+
 export interface StatsWithAccounts extends Stats {
 	accounts: Array<{
 		name: string;
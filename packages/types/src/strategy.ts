@@ -2,6 +2,10 @@ import type { Account } from "./account";
 
 export enum StrategyName {
 	Session = "session",
+	RoundRobin = "round_robin",
+	LeastRequests = "least_requests",
+	Weighted = "weighted",
+	Headroom = "headroom",
 }
 
 /**
@@ -29,4 +33,12 @@ export interface StrategyStore {
 	 * Get account by ID
 	 */
 	getAccount?(accountId: string): Account | null;
+
+	/**
+	 * Count requests served by each account since a timestamp
+	 * Used by strategies that forecast rate limit exhaustion from recent traffic
+	 */
+	getAccountRequestCountsSince?(
+		since: number,
+	): Array<{ accountId: string; count: number }>;
 }
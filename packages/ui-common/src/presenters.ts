@@ -35,6 +35,9 @@ export class AccountPresenter {
 		if ("tokenStatus" in this.account) {
 			return this.account.tokenStatus;
 		}
+		if ("auth_type" in this.account && this.account.auth_type === "api_key") {
+			return "valid";
+		}
 		if ("access_token" in this.account) {
 			return this.account.access_token ? "valid" : "expired";
 		}